@@ -338,6 +338,18 @@ class EnhancedBotAPIClient {
       body: JSON.stringify(action),
     });
   }
+
+  // Crafting data
+  async getCraftableItems(search?: string, category?: string): Promise<any> {
+    const params = new URLSearchParams();
+    if (search) params.append('search', search);
+    if (category) params.append('category', category);
+    return this.request(`/api/bot/crafting?${params.toString()}`);
+  }
+
+  async getCraftingTree(name: string): Promise<any> {
+    return this.request(`/api/bot/crafting/${encodeURIComponent(name)}`);
+  }
 }
 
 // Initialize enhanced bot API client
@@ -499,6 +511,33 @@ export function startEnhancedDashboard() {
     }
   });
 
+  // Crafting routes, generated from the game's recipe data
+  app.get('/crafting', ensureLoggedIn, async (req: any, res) => {
+    const search = (req.query.search as string) || '';
+    const category = (req.query.category as string) || '';
+    try {
+      const response = await botAPI.getCraftableItems(search, category);
+      const data = response.success ? response.data : { items: [], categories: [] };
+      res.render('crafting/list', { user: req.user, items: data.items, categories: data.categories, search, category });
+    } catch (error) {
+      logger.error('Error getting craftable items:', error);
+      res.render('crafting/list', { user: req.user, items: [], categories: [], search, category });
+    }
+  });
+
+  app.get('/crafting/:name', ensureLoggedIn, async (req: any, res) => {
+    try {
+      const response = await botAPI.getCraftingTree(req.params.name);
+      res.render('crafting/item', { user: req.user, tree: response.data });
+    } catch (error) {
+      logger.error('Error getting crafting tree:', error);
+      res.status(404).send('Recipe not found');
+    }
+  });
+
+  // Old links to the hand-edited catalog
+  app.get('/warframes', (_req, res) => res.redirect('/crafting?category=Warframes'));
+
   // Custom Embeds route
   app.get('/servers/:guildId/embeds', ensureLoggedIn, ensureModOrAdmin, async (req: any, res) => {
     try {
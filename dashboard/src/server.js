@@ -61,14 +61,16 @@ class BotAPIClient {
             body: JSON.stringify({ service, enabled, channelId }),
         });
     }
-    async getWarframes() {
-        return this.request('/api/bot/warframes');
+    async getCraftableItems(search, category) {
+        const params = new URLSearchParams();
+        if (search)
+            params.append('search', search);
+        if (category)
+            params.append('category', category);
+        return this.request(`/api/bot/crafting?${params.toString()}`);
     }
-    async createWarframe(data) {
-        return this.request('/api/bot/warframes', {
-            method: 'POST',
-            body: JSON.stringify(data),
-        });
+    async getCraftingTree(name) {
+        return this.request(`/api/bot/crafting/${encodeURIComponent(name)}`);
     }
     // Embed Settings methods
     async getEmbedSettings(guildId) {
@@ -229,47 +231,32 @@ function startDashboard() {
             res.status(500).json({ success: false, error: 'Failed to update dictionaries' });
         }
     });
-    app.get('/warframes', ensureLoggedIn, ensureModOrAdmin, async (req, res) => {
+    // Crafting routes, generated from the game's recipe data
+    app.get('/crafting', ensureLoggedIn, async (req, res) => {
+        const search = req.query.search || '';
+        const category = req.query.category || '';
         try {
-            const response = await botAPI.getWarframes();
-            if (response.success) {
-                res.render('warframes/list', { user: req.user, items: response.data });
-            }
-            else {
-                res.render('warframes/list', { user: req.user, items: [] });
-            }
+            const response = await botAPI.getCraftableItems(search, category);
+            const data = response.success ? response.data : { items: [], categories: [] };
+            res.render('crafting/list', { user: req.user, items: data.items, categories: data.categories, search, category });
         }
         catch (error) {
-            logger_1.logger.error('Error getting warframes:', error);
-            res.render('warframes/list', { user: req.user, items: [] });
+            logger_1.logger.error('Error getting craftable items:', error);
+            res.render('crafting/list', { user: req.user, items: [], categories: [], search, category });
         }
     });
-    app.get('/warframes/new', ensureLoggedIn, ensureModOrAdmin, async (req, res) => {
-        res.render('warframes/edit', { user: req.user, item: null });
-    });
-    app.post('/warframes', ensureLoggedIn, ensureModOrAdmin, async (req, res) => {
+    app.get('/crafting/:name', ensureLoggedIn, async (req, res) => {
         try {
-            const { name, craftingCostCredits, resourceMap, notes } = req.body;
-            const createdBy = req.user.username;
-            const response = await botAPI.createWarframe({
-                name,
-                craftingCostCredits: parseInt(craftingCostCredits),
-                resourceMap: JSON.parse(resourceMap || '{}'),
-                notes,
-                createdBy
-            });
-            if (response.success) {
-                res.redirect('/warframes');
-            }
-            else {
-                res.status(400).send('Failed to create warframe');
-            }
+            const response = await botAPI.getCraftingTree(req.params.name);
+            res.render('crafting/item', { user: req.user, tree: response.data });
         }
         catch (error) {
-            logger_1.logger.error('Error creating warframe:', error);
-            res.status(500).send('Error creating warframe');
+            logger_1.logger.error('Error getting crafting tree:', error);
+            res.status(404).send('Recipe not found');
         }
     });
+    // Old links to the hand-edited catalog
+    app.get('/warframes', (_req, res) => res.redirect('/crafting?category=Warframes'));
     // Join Form routes
     app.get('/joinform', ensureLoggedIn, ensureModOrAdmin, async (req, res) => {
         try {
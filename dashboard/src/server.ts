@@ -96,15 +96,15 @@ class BotAPIClient {
     });
   }
 
-  async getWarframes(): Promise<any> {
-    return this.request('/api/bot/warframes');
+  async getCraftableItems(search?: string, category?: string): Promise<any> {
+    const params = new URLSearchParams();
+    if (search) params.append('search', search);
+    if (category) params.append('category', category);
+    return this.request(`/api/bot/crafting?${params.toString()}`);
   }
 
-  async createWarframe(data: any): Promise<any> {
-    return this.request('/api/bot/warframes', {
-      method: 'POST',
-      body: JSON.stringify(data),
-    });
+  async getCraftingTree(name: string): Promise<any> {
+    return this.request(`/api/bot/crafting/${encodeURIComponent(name)}`);
   }
 
   // Embed Settings methods
@@ -272,48 +272,33 @@ export function startDashboard() {
     }
   });
 
-  app.get('/warframes', ensureLoggedIn, ensureModOrAdmin, async (req, res) => {
+  // Crafting routes, generated from the game's recipe data
+  app.get('/crafting', ensureLoggedIn, async (req: any, res) => {
+    const search = (req.query.search as string) || '';
+    const category = (req.query.category as string) || '';
     try {
-      const response = await botAPI.getWarframes();
-      if (response.success) {
-        res.render('warframes/list', { user: (req as any).user, items: response.data });
-      } else {
-        res.render('warframes/list', { user: (req as any).user, items: [] });
-      }
+      const response = await botAPI.getCraftableItems(search, category);
+      const data = response.success ? response.data : { items: [], categories: [] };
+      res.render('crafting/list', { user: req.user, items: data.items, categories: data.categories, search, category });
     } catch (error) {
-      logger.error('Error getting warframes:', error);
-      res.render('warframes/list', { user: (req as any).user, items: [] });
+      logger.error('Error getting craftable items:', error);
+      res.render('crafting/list', { user: req.user, items: [], categories: [], search, category });
     }
   });
-  
-  app.get('/warframes/new', ensureLoggedIn, ensureModOrAdmin, async (req, res) => {
-    res.render('warframes/edit', { user: (req as any).user, item: null });
-  });
 
-  app.post('/warframes', ensureLoggedIn, ensureModOrAdmin, async (req, res) => {
+  app.get('/crafting/:name', ensureLoggedIn, async (req: any, res) => {
     try {
-      const { name, craftingCostCredits, resourceMap, notes } = req.body;
-      const createdBy = (req as any).user.username;
-      
-      const response = await botAPI.createWarframe({
-        name,
-        craftingCostCredits: parseInt(craftingCostCredits),
-        resourceMap: JSON.parse(resourceMap || '{}'),
-        notes,
-        createdBy
-      });
-      
-      if (response.success) {
-        res.redirect('/warframes');
-      } else {
-        res.status(400).send('Failed to create warframe');
-      }
+      const response = await botAPI.getCraftingTree(req.params.name);
+      res.render('crafting/item', { user: req.user, tree: response.data });
     } catch (error) {
-      logger.error('Error creating warframe:', error);
-      res.status(500).send('Error creating warframe');
+      logger.error('Error getting crafting tree:', error);
+      res.status(404).send('Recipe not found');
     }
   });
 
+  // Old links to the hand-edited catalog
+  app.get('/warframes', (_req, res) => res.redirect('/crafting?category=Warframes'));
+
   // Join Form routes
   app.get('/joinform', ensureLoggedIn, ensureModOrAdmin, async (req: any, res) => {
     try {
@@ -4,6 +4,8 @@ import { logger } from '../utils/logger';
 import { config } from '../config/config';
 import { pgdb } from '../services/postgresDatabase';
 import { getGuildPermissionRoles } from '../services/permissionService';
+import { CRAFTING_CATEGORIES, getCraftableItems, getCraftingTree } from '../services/recipeService';
+import { initializeDictionaries } from '../utils/dictionaryLoader';
 
 export interface BotAPIResponse {
   success: boolean;
@@ -163,34 +165,35 @@ export function createBotAPI(client: Client) {
     }
   });
 
-  // Warframe Catalog Endpoints
-  app.get('/api/bot/warframes', validateAPIKey, async (req: express.Request, res: express.Response) => {
+  // Crafting Endpoints (generated from ExportRecipes)
+  app.get('/api/bot/crafting', validateAPIKey, async (req: express.Request, res: express.Response) => {
     try {
-      if (config.DATABASE_TYPE === 'postgres' && pgdb) {
-        // TODO: Implement getWarframes method in postgresDatabase
-        res.json({ success: true, data: [] });
-      } else {
-        res.json({ success: true, data: [] });
-      }
+      await initializeDictionaries();
+      const search = (req.query.search as string || '').toLowerCase().trim();
+      const category = req.query.category as string;
+
+      const items = getCraftableItems().filter(item =>
+        (!search || item.name.toLowerCase().includes(search)) &&
+        (!category || item.category === category)
+      );
+      res.json({ success: true, data: { items, categories: CRAFTING_CATEGORIES } });
     } catch (error) {
-      logger.error('Error getting warframes:', error);
-      res.status(500).json({ success: false, error: 'Failed to get warframes' });
+      logger.error('Error getting craftable items:', error);
+      res.status(500).json({ success: false, error: 'Failed to get craftable items' });
     }
   });
 
-  app.post('/api/bot/warframes', validateAPIKey, async (req: express.Request, res: express.Response) => {
+  app.get('/api/bot/crafting/:name', validateAPIKey, async (req: express.Request, res: express.Response) => {
     try {
-      const { name, craftingCostCredits, resourceMap, notes, createdBy } = req.body;
-      
-      if (config.DATABASE_TYPE === 'postgres' && pgdb) {
-        // TODO: Implement createWarframe method in postgresDatabase
-        res.json({ success: false, error: 'Database not available' });
-      } else {
-        res.json({ success: false, error: 'Database not available' });
+      await initializeDictionaries();
+      const tree = getCraftingTree(req.params.name as string);
+      if (!tree) {
+        return res.status(404).json({ success: false, error: 'Recipe not found' });
       }
+      res.json({ success: true, data: tree });
     } catch (error) {
-      logger.error('Error creating warframe:', error);
-      res.status(500).json({ success: false, error: 'Failed to create warframe' });
+      logger.error('Error getting crafting tree:', error);
+      res.status(500).json({ success: false, error: 'Failed to get crafting tree' });
     }
   });
 
@@ -1,6 +1,7 @@
 import { 
   SlashCommandBuilder, 
-  ChatInputCommandInteraction
+  ChatInputCommandInteraction,
+  AttachmentBuilder
 } from 'discord.js';
 import axios from 'axios';
 import fs from 'fs';
@@ -8,210 +9,335 @@ import path from 'path';
 import { logger } from '../../utils/logger';
 import { Command } from '../../types/discord';
 import { createEmbed } from '../../utils/embedBuilder';
+import { buildICS } from '../../utils/icsBuilder';
+import { TIER_EMOJIS, TOP_TIERS, getArbitrationSchedule } from '../../services/arbitrationService';
 
-// Tier emoji mappings
-const TIER_EMOJIS: Record<string, string> = {
-  'S': '<:S_:1362400790160871574>',
-  'A': '<:A_:1362400688599994461>',
-  'B': '<:B_:1362400717444481094>',
-  'C': '<:C_:1362400738852208722>',
-  'D': '<:D_:1362400752869572829>',
-  'F': '<:F_:1362400771521646725>'
-};
+// Default and maximum look-ahead for /arby upcoming
+const DEFAULT_UPCOMING_HOURS = 12;
+const MAX_UPCOMING_HOURS = 72;
 
-// Command definition
-const command: Command = {
-  data: new SlashCommandBuilder()
-    .setName('arby')
-    .setDescription('Shows current and upcoming Arbitration missions'),
+// Most arbitrations listed in a single /arby upcoming reply
+const MAX_UPCOMING_LINES = 24;
 
-  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
-    await interaction.deferReply();
+// How far ahead the calendar export looks
+const CALENDAR_DAYS = 7;
+
+// Show the current arbitration with upcoming and noteworthy ones
+async function handleCurrent(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply();
+  
+  try {
+    // Load arby tiers
+    const arbyTiersPath = path.join(process.cwd(), 'src', 'data', 'arby_tiers.json');
+    const arbyTiers = JSON.parse(await fs.promises.readFile(arbyTiersPath, 'utf8')) as Record<string, string>;
+    logger.info(`Loaded arby tiers for ${Object.keys(arbyTiers).length} nodes`);
     
-    try {
-      // Load arby tiers
-      const arbyTiersPath = path.join(process.cwd(), 'src', 'data', 'arby_tiers.json');
-      const arbyTiers = JSON.parse(await fs.promises.readFile(arbyTiersPath, 'utf8')) as Record<string, string>;
-      logger.info(`Loaded arby tiers for ${Object.keys(arbyTiers).length} nodes`);
-      
-      // Load regions data for node information
-      const regionsPath = path.join(process.cwd(), 'dict', 'ExportRegions.json');
-      const regionsData = JSON.parse(await fs.promises.readFile(regionsPath, 'utf8')) as Record<string, NodeInfo>;
-      logger.info(`Loaded regions data with ${Object.keys(regionsData).length} entries`);
-      
-      // Load language dictionary for translations
-      const dictPath = path.join(process.cwd(), 'dict', 'dict.en.json');
-      const langDict = JSON.parse(await fs.promises.readFile(dictPath, 'utf8')) as Record<string, string>;
-      logger.info(`Loaded language dictionary with ${Object.keys(langDict).length} entries`);
-      
-      // Fetch arbitration data
-      logger.info('Fetching arbitration data from browse.wf');
-      const response = await axios.get('https://browse.wf/arbys.txt', {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'WardenPrimeBot/1.0.0'
-        }
-      });
-      
-      const arbitrationsText = response.data as string;
-      const currentTime = Math.floor(Date.now() / 1000);
-      
-      // Parse the arbitrations data
-      const arbitrations = arbitrationsText.split('\n')
-        .filter((line: string) => line.trim() !== '')
-        .map((line: string) => {
-          const [timestamp, node] = line.split(',');
-          return {
-            timestamp: parseInt(timestamp),
-            node: node.trim()
-          } as ArbitrationEntry;
-        })
-        .filter((arby: ArbitrationEntry) => arby.timestamp && arby.node);
-      
-      logger.info(`Found ${arbitrations.length} arbitration entries`);
-      
-      // Find current and upcoming arbitrations
-      const currentIndex = arbitrations.findIndex((arby: ArbitrationEntry) => arby.timestamp <= currentTime && currentTime < arby.timestamp + 3600);
-      
-      if (currentIndex === -1) {
-        await interaction.editReply('Could not determine the current arbitration. Please try again later.');
-        return;
-      }
-      
-      // Get arbitrations for next 24 hours for the regular display
-      const nextDayArbitrations = arbitrations.slice(
-        currentIndex, 
-        arbitrations.findIndex((arby: ArbitrationEntry) => arby.timestamp > currentTime + 86400) || arbitrations.length 
-      );
-      
-      // Get arbitrations for next two weeks for noteworthy section
-      const twoWeeksArbitrations = arbitrations.slice(
-        currentIndex,
-        arbitrations.findIndex((arby: ArbitrationEntry) => arby.timestamp > currentTime + (14 * 86400)) || arbitrations.length
-      );
-      
-      if (nextDayArbitrations.length === 0) {
-        nextDayArbitrations.push(arbitrations[currentIndex]);
+    // Load regions data for node information
+    const regionsPath = path.join(process.cwd(), 'dict', 'ExportRegions.json');
+    const regionsData = JSON.parse(await fs.promises.readFile(regionsPath, 'utf8')) as Record<string, NodeInfo>;
+    logger.info(`Loaded regions data with ${Object.keys(regionsData).length} entries`);
+    
+    // Load language dictionary for translations
+    const dictPath = path.join(process.cwd(), 'dict', 'dict.en.json');
+    const langDict = JSON.parse(await fs.promises.readFile(dictPath, 'utf8')) as Record<string, string>;
+    logger.info(`Loaded language dictionary with ${Object.keys(langDict).length} entries`);
+    
+    // Fetch arbitration data
+    logger.info('Fetching arbitration data from browse.wf');
+    const response = await axios.get('https://browse.wf/arbys.txt', {
+      timeout: 10000,
+      headers: {
+        'User-Agent': 'WardenPrimeBot/1.0.0'
       }
-      
-      // Process arbitration data for display
-      const arbitrationDetails = await Promise.all(nextDayArbitrations.map(async (arby: ArbitrationEntry, index: number) => {
-        // Get node info from regions data
-        const nodeInfo = regionsData[arby.node];
-        if (!nodeInfo) {
-          logger.warn(`Node info not found for ${arby.node}`);
-          return {
-            timestamp: arby.timestamp,
-            endTimestamp: index === 0 ? arby.timestamp + 3600 : arby.timestamp,
-            node: arby.node,
-            nodeName: 'Unknown',
-            systemName: 'Unknown',
-            missionType: 'Unknown',
-            faction: 'Unknown',
-            tier: arbyTiers[arby.node] || 'F',
-            isActive: index === 0
-          } as ArbitrationDetail;
-        }
-        
-        // Translate node name, mission type, and faction
-        const nodeName = langDict[nodeInfo.name] || nodeInfo.name;
-        const systemName = langDict[nodeInfo.systemName] || nodeInfo.systemName;
-        const missionType = langDict[nodeInfo.missionName] || nodeInfo.missionName;
-        const faction = langDict[nodeInfo.factionName] || nodeInfo.factionName;
-        
+    });
+    
+    const arbitrationsText = response.data as string;
+    const currentTime = Math.floor(Date.now() / 1000);
+    
+    // Parse the arbitrations data
+    const arbitrations = arbitrationsText.split('\n')
+      .filter((line: string) => line.trim() !== '')
+      .map((line: string) => {
+        const [timestamp, node] = line.split(',');
+        return {
+          timestamp: parseInt(timestamp),
+          node: node.trim()
+        } as ArbitrationEntry;
+      })
+      .filter((arby: ArbitrationEntry) => arby.timestamp && arby.node);
+    
+    logger.info(`Found ${arbitrations.length} arbitration entries`);
+    
+    // Find current and upcoming arbitrations
+    const currentIndex = arbitrations.findIndex((arby: ArbitrationEntry) => arby.timestamp <= currentTime && currentTime < arby.timestamp + 3600);
+    
+    if (currentIndex === -1) {
+      await interaction.editReply('Could not determine the current arbitration. Please try again later.');
+      return;
+    }
+    
+    // Get arbitrations for next 24 hours for the regular display
+    const nextDayArbitrations = arbitrations.slice(
+      currentIndex, 
+      arbitrations.findIndex((arby: ArbitrationEntry) => arby.timestamp > currentTime + 86400) || arbitrations.length 
+    );
+    
+    // Get arbitrations for next two weeks for noteworthy section
+    const twoWeeksArbitrations = arbitrations.slice(
+      currentIndex,
+      arbitrations.findIndex((arby: ArbitrationEntry) => arby.timestamp > currentTime + (14 * 86400)) || arbitrations.length
+    );
+    
+    if (nextDayArbitrations.length === 0) {
+      nextDayArbitrations.push(arbitrations[currentIndex]);
+    }
+    
+    // Process arbitration data for display
+    const arbitrationDetails = await Promise.all(nextDayArbitrations.map(async (arby: ArbitrationEntry, index: number) => {
+      // Get node info from regions data
+      const nodeInfo = regionsData[arby.node];
+      if (!nodeInfo) {
+        logger.warn(`Node info not found for ${arby.node}`);
         return {
           timestamp: arby.timestamp,
           endTimestamp: index === 0 ? arby.timestamp + 3600 : arby.timestamp,
           node: arby.node,
-          nodeName,
-          systemName,
-          missionType,
-          faction,
+          nodeName: 'Unknown',
+          systemName: 'Unknown',
+          missionType: 'Unknown',
+          faction: 'Unknown',
           tier: arbyTiers[arby.node] || 'F',
           isActive: index === 0
         } as ArbitrationDetail;
-      }));
+      }
       
-      // Process the two-week arbitrations separately for noteworthy section
-      const twoWeekDetails = await Promise.all(twoWeeksArbitrations.map(async (arby: ArbitrationEntry) => {
-        const nodeInfo = regionsData[arby.node];
-        if (!nodeInfo) {
-          return {
-            timestamp: arby.timestamp,
-            node: arby.node,
-            nodeName: 'Unknown',
-            systemName: 'Unknown',
-            tier: arbyTiers[arby.node] || 'F'
-          };
-        }
-        
-        const nodeName = langDict[nodeInfo.name] || nodeInfo.name;
-        const systemName = langDict[nodeInfo.systemName] || nodeInfo.systemName;
-        
+      // Translate node name, mission type, and faction
+      const nodeName = langDict[nodeInfo.name] || nodeInfo.name;
+      const systemName = langDict[nodeInfo.systemName] || nodeInfo.systemName;
+      const missionType = langDict[nodeInfo.missionName] || nodeInfo.missionName;
+      const faction = langDict[nodeInfo.factionName] || nodeInfo.factionName;
+      
+      return {
+        timestamp: arby.timestamp,
+        endTimestamp: index === 0 ? arby.timestamp + 3600 : arby.timestamp,
+        node: arby.node,
+        nodeName,
+        systemName,
+        missionType,
+        faction,
+        tier: arbyTiers[arby.node] || 'F',
+        isActive: index === 0
+      } as ArbitrationDetail;
+    }));
+    
+    // Process the two-week arbitrations separately for noteworthy section
+    const twoWeekDetails = await Promise.all(twoWeeksArbitrations.map(async (arby: ArbitrationEntry) => {
+      const nodeInfo = regionsData[arby.node];
+      if (!nodeInfo) {
         return {
           timestamp: arby.timestamp,
           node: arby.node,
-          nodeName,
-          systemName,
+          nodeName: 'Unknown',
+          systemName: 'Unknown',
           tier: arbyTiers[arby.node] || 'F'
         };
-      }));
-      
-      // Create embed
-      const current = arbitrationDetails[0];
-      
-      // Get the next 3 arbitrations for upcoming section
-      const upcomingArbitrations = arbitrationDetails.slice(1, 4);
-      
-      // Find all S and A tier arbitrations in the next two weeks
-      // Skip the current and immediate upcoming ones that are already displayed
-      const upcomingIds = new Set([current.node, ...upcomingArbitrations.map(a => a.node)]);
+      }
       
-      const noteworthyArbitrations = twoWeekDetails
-        .filter(arby => (arby.tier === 'S' || arby.tier === 'A') && !upcomingIds.has(arby.node))
-        .slice(0, 5); // Limit to 5 to avoid too long embed
+      const nodeName = langDict[nodeInfo.name] || nodeInfo.name;
+      const systemName = langDict[nodeInfo.systemName] || nodeInfo.systemName;
       
-      const arbyEmbed = createEmbed({
-        type: 'info',
-        title: `${current.tier} Tier | ${current.nodeName} (${current.systemName})`,
-        description: `Arbi Ends <t:${current.endTimestamp}:R>`,
-        fields: [
-          {
-            name: 'Enemy',
-            value: current.faction,
-            inline: true
-          },
-          {
-            name: 'Mission type',
-            value: current.missionType,
-            inline: true
-          },
-          {
-            name: 'Upcoming Arbitrations',
-            value: upcomingArbitrations.length > 0 
-              ? upcomingArbitrations.map(arby => 
-                `${TIER_EMOJIS[arby.tier]} **Tier | ${arby.nodeName}** (**${arby.systemName}**) <t:${arby.timestamp}:R>`
-              ).join('\n')
-              : 'No upcoming arbitrations found',
-            inline: false
-          },
-          ...(noteworthyArbitrations.length > 0 ? [{
-            name: 'Noteworthy Arbitrations',
-            value: noteworthyArbitrations.map(arby => 
+      return {
+        timestamp: arby.timestamp,
+        node: arby.node,
+        nodeName,
+        systemName,
+        tier: arbyTiers[arby.node] || 'F'
+      };
+    }));
+    
+    // Create embed
+    const current = arbitrationDetails[0];
+    
+    // Get the next 3 arbitrations for upcoming section
+    const upcomingArbitrations = arbitrationDetails.slice(1, 4);
+    
+    // Find all S and A tier arbitrations in the next two weeks
+    // Skip the current and immediate upcoming ones that are already displayed
+    const upcomingIds = new Set([current.node, ...upcomingArbitrations.map(a => a.node)]);
+    
+    const noteworthyArbitrations = twoWeekDetails
+      .filter(arby => (arby.tier === 'S' || arby.tier === 'A') && !upcomingIds.has(arby.node))
+      .slice(0, 5); // Limit to 5 to avoid too long embed
+    
+    const arbyEmbed = createEmbed({
+      type: 'info',
+      title: `${current.tier} Tier | ${current.nodeName} (${current.systemName})`,
+      description: `Arbi Ends <t:${current.endTimestamp}:R>`,
+      fields: [
+        {
+          name: 'Enemy',
+          value: current.faction,
+          inline: true
+        },
+        {
+          name: 'Mission type',
+          value: current.missionType,
+          inline: true
+        },
+        {
+          name: 'Upcoming Arbitrations',
+          value: upcomingArbitrations.length > 0 
+            ? upcomingArbitrations.map(arby => 
               `${TIER_EMOJIS[arby.tier]} **Tier | ${arby.nodeName}** (**${arby.systemName}**) <t:${arby.timestamp}:R>`
-            ).join('\n'),
-            inline: false
-          }] : [])
-        ],
-        thumbnail: 'https://browse.wf/Lotus/Interface/Icons/StoreIcons/Resources/CraftingComponents/Elitium.png',
-        timestamp: true
-      });
-      
-      await interaction.editReply({ embeds: [arbyEmbed] });
-      
-    } catch (error) {
-      logger.error('Error in arby command:', error);
-      await interaction.editReply('An error occurred while fetching arbitration data. Please try again later.');
+            ).join('\n')
+            : 'No upcoming arbitrations found',
+          inline: false
+        },
+        ...(noteworthyArbitrations.length > 0 ? [{
+          name: 'Noteworthy Arbitrations',
+          value: noteworthyArbitrations.map(arby => 
+            `${TIER_EMOJIS[arby.tier]} **Tier | ${arby.nodeName}** (**${arby.systemName}**) <t:${arby.timestamp}:R>`
+          ).join('\n'),
+          inline: false
+        }] : [])
+      ],
+      thumbnail: 'https://browse.wf/Lotus/Interface/Icons/StoreIcons/Resources/CraftingComponents/Elitium.png',
+      timestamp: true
+    });
+    
+    await interaction.editReply({ embeds: [arbyEmbed] });
+    
+  } catch (error) {
+    logger.error('Error in arby command:', error);
+    await interaction.editReply('An error occurred while fetching arbitration data. Please try again later.');
+  }
+}
+
+// List the arbitrations in the next few hours
+async function handleUpcoming(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply();
+
+  try {
+    const hours = interaction.options.getInteger('hours') ?? DEFAULT_UPCOMING_HOURS;
+    const currentTime = Math.floor(Date.now() / 1000);
+
+    const schedule = await getArbitrationSchedule(currentTime, currentTime + hours * 3600);
+    if (!schedule || schedule.length === 0) {
+      await interaction.editReply('Could not load the arbitration schedule. Please try again later.');
+      return;
+    }
+
+    const lines = schedule.slice(0, MAX_UPCOMING_LINES).map(arby => {
+      const when = arby.isActive ? `ends <t:${arby.endTimestamp}:R>` : `<t:${arby.timestamp}:t> (<t:${arby.timestamp}:R>)`;
+      return `${TIER_EMOJIS[arby.tier]} **${arby.nodeName}** (${arby.systemName}) - ${arby.missionType}, ${arby.faction} • ${when}`;
+    });
+
+    if (schedule.length > MAX_UPCOMING_LINES) {
+      lines.push(`...and ${schedule.length - MAX_UPCOMING_LINES} more`);
+    }
+
+    const topTierCount = schedule.filter(arby => TOP_TIERS.includes(arby.tier)).length;
+
+    const embed = createEmbed({
+      type: 'info',
+      title: `Arbitrations in the Next ${hours} Hour${hours === 1 ? '' : 's'}`,
+      description: lines.join('\n').slice(0, 4096),
+      footer: `${topTierCount} S/A tier arbitration${topTierCount === 1 ? '' : 's'} • Use /arby calendar to add them to your calendar`,
+      thumbnail: 'https://browse.wf/Lotus/Interface/Icons/StoreIcons/Resources/CraftingComponents/Elitium.png',
+      timestamp: true
+    });
+
+    await interaction.editReply({ embeds: [embed] });
+  } catch (error) {
+    logger.error('Error in arby upcoming command:', error);
+    await interaction.editReply('An error occurred while fetching arbitration data. Please try again later.');
+  }
+}
+
+// Export the next week's S and A tier arbitrations as an .ics file
+async function handleCalendar(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply();
+
+  try {
+    const currentTime = Math.floor(Date.now() / 1000);
+
+    const schedule = await getArbitrationSchedule(currentTime, currentTime + CALENDAR_DAYS * 86400);
+    if (!schedule) {
+      await interaction.editReply('Could not load the arbitration schedule. Please try again later.');
+      return;
+    }
+
+    const goodArbitrations = schedule.filter(arby => TOP_TIERS.includes(arby.tier));
+    if (goodArbitrations.length === 0) {
+      await interaction.editReply(`There are no S or A tier arbitrations in the next ${CALENDAR_DAYS} days.`);
+      return;
+    }
+
+    const calendar = buildICS('Warframe Arbitrations', goodArbitrations.map(arby => ({
+      uid: `arbitration-${arby.timestamp}-${arby.node}@wardenprime`,
+      start: new Date(arby.timestamp * 1000),
+      end: new Date(arby.endTimestamp * 1000),
+      summary: `${arby.tier} Tier Arbitration: ${arby.nodeName} (${arby.systemName})`,
+      description: `${arby.missionType} against ${arby.faction}`,
+      location: `${arby.nodeName}, ${arby.systemName}`
+    })));
+
+    const attachment = new AttachmentBuilder(Buffer.from(calendar, 'utf8'), { name: 'arbitrations.ics' });
+
+    const embed = createEmbed({
+      type: 'success',
+      title: 'Arbitration Calendar',
+      description: `${goodArbitrations.length} S/A tier arbitration${goodArbitrations.length === 1 ? '' : 's'} in the next ${CALENDAR_DAYS} days.\n` +
+        'Open the attached file or import it into Google Calendar, Outlook or Apple Calendar.\n\n' +
+        goodArbitrations.slice(0, MAX_UPCOMING_LINES).map(arby =>
+          `${TIER_EMOJIS[arby.tier]} **${arby.nodeName}** (${arby.systemName}) <t:${arby.timestamp}:f>`
+        ).join('\n'),
+      timestamp: true
+    });
+
+    await interaction.editReply({ embeds: [embed], files: [attachment] });
+  } catch (error) {
+    logger.error('Error in arby calendar command:', error);
+    await interaction.editReply('An error occurred while building the arbitration calendar. Please try again later.');
+  }
+}
+
+// Command definition
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('arby')
+    .setDescription('Shows current and upcoming Arbitration missions')
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('current')
+        .setDescription('Shows the current Arbitration with upcoming and noteworthy ones')
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('upcoming')
+        .setDescription('Lists every Arbitration in the next few hours')
+        .addIntegerOption(option =>
+          option.setName('hours')
+            .setDescription(`How many hours ahead to look (default ${DEFAULT_UPCOMING_HOURS})`)
+            .setRequired(false)
+            .setMinValue(1)
+            .setMaxValue(MAX_UPCOMING_HOURS))
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('calendar')
+        .setDescription(`Download the next ${CALENDAR_DAYS} days of S and A tier Arbitrations as a calendar file`)
+    ) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'upcoming') {
+      await handleUpcoming(interaction);
+    } else if (subcommand === 'calendar') {
+      await handleCalendar(interaction);
+    } else {
+      await handleCurrent(interaction);
     }
   }
 };
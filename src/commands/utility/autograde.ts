@@ -23,9 +23,21 @@ import * as util from 'util';
 import * as stream from 'stream';
 import * as os from 'os';
 import sharp from 'sharp';
-import FormData from 'form-data';
 import { createCanvas, loadImage, registerFont, CanvasRenderingContext2D, CanvasGradient } from 'canvas';
 import { tryDetectAndCropRiven } from '../../utils/rivenImageProcessor';
+import { recognizeText } from '../../services/ocrProvider';
+import { parseRivenText } from '../../utils/rivenTextParser';
+import {
+  findWeapon,
+  rivenWeaponFromEntry,
+  findTagForStatName,
+  formatRivenType,
+  getBuffRange,
+  getCurseRange,
+  scoreRivenCombination,
+  formatCombinationScore,
+  WeaponArrayEntry
+} from '../../utils/rivenEngine';
 
 //hi
 // Try to register Helvetica Neue font if available
@@ -42,38 +54,6 @@ try {
   logger.warn('Could not register Helvetica Neue font:', error);
 }
 
-// Import helper functions from rivengrade.ts using require() for CommonJS compatibility
-const rivengradeHelpers = require('./rivengrade');
-// Log the structure of the imported module
-logger.debug('Imported rivengradeHelpers structure:', Object.keys(rivengradeHelpers));
-try {
-    logger.debug('rivengradeHelpers content sample:', JSON.stringify(rivengradeHelpers, null, 2).substring(0, 500));
-} catch (e) { logger.warn('Could not stringify rivengradeHelpers'); }
-
-const {
-  findWeapon,
-  unparseBuff,
-  unparseCurse,
-  floatToGrade,
-  findTagForStatName,
-  formatRivenType,
-  displayValueToValue,
-  lerp,
-  debugRivenCalculation,
-  calculateValueOnScale,
-  getBuffRange,
-  getCurseRange
-} = rivengradeHelpers;
-
-// Import WeaponMapEntry interface
-interface WeaponMapEntry {
-  name: string;
-  internalPath: string;
-  category: string;
-  disposition: number;
-  rivenType: string;
-}
-
 const pipeline = util.promisify(stream.pipeline);
 
 // Define interface for processed stat
@@ -85,9 +65,6 @@ interface ProcessedStat {
   percentDiff?: number; // Optional to maintain compatibility
 }
 
-// Constants for Tesseract OCR Engine modes
-// const OEM_LSTM_ONLY = 1; // Remove this line as we're not using Tesseract anymore
-
 // Define the command logic
 const autogradeCommandExecute = async (interaction: ChatInputCommandInteraction): Promise<void> => {
   await interaction.deferReply();
@@ -269,102 +246,12 @@ const autogradeCommandExecute = async (interaction: ChatInputCommandInteraction)
       
       logger.info(`Final image for OCR: ${resizedTempFilePath} (${sizeKB.toFixed(2)} KB)`);
 
-      // Use OCR.space API
-      const OCR_API_KEY = process.env.OCR_API_KEY;
-      
-      // Create form data for OCR.space API
-      const formData = new FormData();
-      formData.append('file', fsSync.createReadStream(resizedTempFilePath), { filename: 'riven.jpg' });
-      formData.append('language', 'eng');
-      formData.append('isOverlayRequired', 'false');
-      formData.append('OCREngine', '2'); // Use OCR engine 2 for better quality
-      formData.append('scale', 'true');
-      formData.append('detectOrientation', 'true');
-      
-      logger.info('Sending OCR request to OCR.space API...');
-      logger.debug('OCR request params: language=eng, engine=2, scale=true, detectOrientation=true');
-      
-      // Define the PRO tier endpoints
-      const OCR_API_ENDPOINTS = [
-        'https://apipro1.ocr.space/parse/image', // Datacenter #1
-        'https://apipro2.ocr.space/parse/image'  // Datacenter #2
-      ];
-      
-      // Send request to OCR.space API and time the response
-      const startTime = Date.now();
-      let ocrResponse;
-      let apiError;
-      
-      // Try each endpoint with failover
-      for (let i = 0; i < OCR_API_ENDPOINTS.length; i++) {
-        const endpoint = OCR_API_ENDPOINTS[i];
-        try {
-          logger.info(`Sending OCR request to endpoint #${i+1}: ${endpoint}`);
-          ocrResponse = await axios.post(endpoint, formData, {
-            headers: {
-              ...formData.getHeaders(),
-              'apikey': OCR_API_KEY
-            }
-          });
-          const responseTime = Date.now() - startTime;
-          logger.info(`OCR API responded in ${responseTime}ms with status ${ocrResponse.status}`);
-          // If we got a successful response, break the loop
-          break;
-        } catch (err) {
-          apiError = err;
-          logger.error(`OCR API error with endpoint #${i+1} after ${Date.now() - startTime}ms:`, err);
-          
-          // Detailed error information
-          if (axios.isAxiosError(err)) {
-            if (err.response) {
-              logger.error(`OCR API response error: status=${err.response.status}, data=${JSON.stringify(err.response.data)}`);
-            } else if (err.request) {
-              logger.error('OCR API request was made but no response received');
-            } else {
-              logger.error(`OCR API request setup error: ${err.message}`);
-            }
-          }
-          
-          // Only continue to next endpoint if we have another one to try
-          if (i < OCR_API_ENDPOINTS.length - 1) {
-            logger.info(`Trying next OCR API endpoint #${i+2}`);
-          }
-        }
-      }
-      
-      // After trying all endpoints, check if we need to throw an error
-      if (!ocrResponse) {
-        logger.error('All OCR API endpoints failed');
-        throw apiError || new Error('Failed to connect to OCR service');
-      }
-      
-      // Process OCR result
-      if (!ocrResponse.data || !ocrResponse.data.ParsedResults || ocrResponse.data.ParsedResults.length === 0) {
-        logger.warn('OCR API returned no results');
-        
-        // Log any error information provided by the API
-        if (ocrResponse.data?.IsErroredOnProcessing) {
-          logger.error(`OCR API processing error: ${ocrResponse.data.ErrorMessage || 'No error message'}`);
-          logger.error(`OCR API error details: ${ocrResponse.data.ErrorDetails || 'No details'}`);
-        }
-        
-        // Log the OCR response structure for debugging
-        logger.debug(`OCR response structure: ${JSON.stringify({
-          IsErroredOnProcessing: ocrResponse.data?.IsErroredOnProcessing,
-          OCRExitCode: ocrResponse.data?.OCRExitCode,
-          ProcessingTimeInMilliseconds: ocrResponse.data?.ProcessingTimeInMilliseconds,
-          HasResults: ocrResponse.data?.ParsedResults && ocrResponse.data.ParsedResults.length > 0
-        })}`);
-        
-        throw new Error('OCR service returned no results');
-      }
-      
-      // Get text from OCR results
-      const fullText = ocrResponse.data.ParsedResults[0].ParsedText?.trim() || '';
+      // Read the text with the configured OCR providers, falling back in order
+      const ocrResult = await recognizeText(resizedTempFilePath);
+      const fullText = ocrResult.text;
       
       // Log OCR processing information
-      logger.info(`OCR API processing time: ${ocrResponse.data.ProcessingTimeInMilliseconds}ms`);
-      logger.info(`OCR exit code: ${ocrResponse.data.OCRExitCode}`);
+      logger.info(`OCR provider ${ocrResult.provider} processing time: ${ocrResult.durationMs}ms`);
       logger.info(`OCR detected text length: ${fullText.length} characters`);
       
       // Log the complete raw OCR output
@@ -402,387 +289,9 @@ const autogradeCommandExecute = async (interaction: ChatInputCommandInteraction)
         return;
       }
       
-      // Extract weapon name and stats from full text
-      const lines = fullText.split('\n').map((line: string) => line.trim()).filter((line: string) => line.length > 0);
-      logger.info(`OCR returned ${lines.length} lines of text`);
-      
-      // Find weapon name (typically found in first few lines of text)
-      let rawWeaponName = '';
-      let weaponLineIndex = -1;
-
-      // First, look for lines that have common weapon names
-      for (let i = 0; i < Math.min(10, lines.length); i++) {
-        const line = lines[i];
-        
-        // Skip lines that appear to be riven capacity values (number+letter format like "18V")
-        if (i === 0 && /^\d+[A-Za-z]$/.test(line.trim())) {
-          logger.info(`[Autograde] Skipping first line "${line}" - appears to be riven capacity`);
-          continue;
-        }
-        
-        if (KNOWN_BASE_WEAPONS.some(weapon => line.toLowerCase().includes(weapon.toLowerCase()))) {
-          rawWeaponName = line;
-          weaponLineIndex = i;
-          logger.info(`[Autograde] Found weapon name in line ${i}: ${rawWeaponName}`);
-          break;
-        }
-      }
-
-      // If no match found, use first non-empty line as a fallback
-      // BUT skip any line that looks like a riven capacity value (number+letter)
-      if (!rawWeaponName && lines.length > 0) {
-        for (let i = 0; i < Math.min(5, lines.length); i++) {
-          // Skip lines that look like riven capacity ("18V")
-          if (/^\d+[A-Za-z]$/.test(lines[i].trim())) {
-            logger.info(`[Autograde] Skipping line ${i} "${lines[i]}" - appears to be riven capacity`);
-            continue;
-          }
-          
-          rawWeaponName = lines[i];
-          weaponLineIndex = i;
-          logger.info(`[Autograde] Using line ${i} as weapon name fallback: ${rawWeaponName}`);
-          break;
-        }
-        
-        // If we still have nothing, use the first line as absolute fallback
-        if (!rawWeaponName && lines.length > 0) {
-          rawWeaponName = lines[0];
-          weaponLineIndex = 0;
-          logger.info(`[Autograde] Using first line as absolute fallback: ${rawWeaponName}`);
-        }
-      }
-
-      // Check if the next line might contain the rest of the riven name
-      // Riven names often have suffix parts like "-acricron", "-magnacron", etc.
-      if (weaponLineIndex >= 0 && weaponLineIndex + 1 < lines.length) {
-        const nextLine = lines[weaponLineIndex + 1];
-        // Only combine if next line is short and doesn't have % signs (not a stat line)
-        if (nextLine.length < 20 && !nextLine.includes('%') && !nextLine.includes('RANK')) {
-          rawWeaponName += ' ' + nextLine;
-          logger.info(`Combined with next line: "${rawWeaponName}"`);
-        }
-      }
-      
-      // Clean weapon name: remove newlines, multiple spaces, and extract known name
-      const cleanedRawName = rawWeaponName.replace(/[\r\n]+/g, ' ').replace(/\s+/g, ' ').trim();
-      logger.info(`Raw extracted weapon name: ${cleanedRawName}`);
-      let weaponName = extractBestWeaponName(cleanedRawName); // Use helper function
-      
-      logger.info(`Cleaned weapon name: ${weaponName}`);
-      
-      // Find riven rank (look for X/8 pattern or MR X pattern)
-      let rank = 8; // Default to max rank if not found
-      for (const line of lines) {
-        // Look for X/8 pattern
-        const rankMatch = line.match(/(\d+)\s*\/\s*8/);
-        if (rankMatch) {
-          rank = parseInt(rankMatch[1], 10);
-          logger.info(`Found riven rank: ${rank}/8`);
-          break;
-        }
-        
-        // Also look for MR X pattern which might indicate rank
-        const mrMatch = line.match(/MR\s*(\d+)/i);
-        if (mrMatch) {
-          // This could be Mastery Rank requirement, but we'll use it as a fallback
-          const possibleRank = parseInt(mrMatch[1], 10);
-          if (possibleRank <= 8) {
-            rank = possibleRank;
-            logger.info(`Found possible riven rank from MR: ${rank}`);
-          }
-        }
-      }
-
-      // Find stats (lines with percentage signs)
-      const statsLines = lines.filter((line: string) => line.includes('%'));
-      logger.info(`[Alias] Found ${statsLines.length} potential stat lines with percentages: ${JSON.stringify(statsLines)}`);
-
-      // Find "for Slide Attack" or similar lines
-      const slideAttackLines = lines.filter((line: string) => 
-        line.toLowerCase().includes('slide attack') || 
-        line.toLowerCase().includes('for slide')
-      );
-      logger.info(`[Slide_Attack] Found ${slideAttackLines.length} potential slide attack lines: ${JSON.stringify(slideAttackLines)}`);
-      
-      // Special case for slide attack critical chance
-      // Check if we have a "Critical Chance" stat with negative value and a "for Slide Attack" line
-      const negativeCritIndex = statsLines.findIndex((line: string) => 
-        line.includes('-') && line.toLowerCase().includes('critical chance')
-      );
-      
-      if (negativeCritIndex !== -1 && slideAttackLines.length > 0) {
-        // We have a negative crit chance and slide attack line - almost certainly slide attack crit chance
-        logger.info(`[Slide_Attack] Found negative crit chance at index ${negativeCritIndex} and slide attack line`);
-        
-        // Modify the statsLines array to change the negative crit chance line
-        const originalLine = statsLines[negativeCritIndex];
-        statsLines[negativeCritIndex] = originalLine + ' for Slide Attack';
-        logger.info(`[Slide_Attack] Modified stat line: "${originalLine}" → "${statsLines[negativeCritIndex]}"`);
-      }
-
-      // Find faction damage lines (lines with "x" followed by a number and "Damage to")
-      const factionLines = lines.filter((line: string) => /x[\d.]+.*Damage to (Corpus|Grineer|Infested)/i.test(line));
-      logger.info(`[Alias] Found ${factionLines.length} potential faction damage lines: ${JSON.stringify(factionLines)}`);
-
-      // Find time-based stats (lines with seconds like "-8.7s Combo Duration")
-      const timeBasedLines = lines.filter((line: string) => /[+-]?\d+\.?\d*s\s+\w+/i.test(line));
-      logger.info(`[Autograde] Found ${timeBasedLines.length} potential time-based stat lines: ${JSON.stringify(timeBasedLines)}`);
-
-      // Find lines that might be just percentage values without stat names
-      const percentOnlyLines = lines.filter((line: string) => /^[+-]?\s*\d+\.?\d*\s*%\s*$/.test(line.trim()));
-      logger.info(`[Autograde] Found ${percentOnlyLines.length} lines with just percentages: ${JSON.stringify(percentOnlyLines)}`);
-
-      // Find numeric stats without percentage signs (like "+1.7 Range" or "+20.9 Initial Combo")
-      const numericStatLines = lines.filter((line: string) => 
-          /^[+-]\s*\d+\.?\d*\s+[A-Za-z]/.test(line.trim()) && // Pattern: +/- number followed by text
-          !line.includes('%') && // Exclude percentage stats (already handled)
-          !line.includes('s ') // Exclude time-based stats (already handled)
-      );
-      logger.info(`[Autograde] Found ${numericStatLines.length} potential numeric stats without percentage: ${JSON.stringify(numericStatLines)}`);
-
-      const stats: Array<{ name: string, value: number }> = [];
-
-      // Process percentage stats
-      for (let i = 0; i < statsLines.length; i++) {
-        const line = statsLines[i];
-        const match = line.match(/(?:^|\s)([+-]\d+\.?\d*)\s*%+\s*(.+)/);
-        if (match) {
-          const value = parseFloat(match[1]);
-          
-          let originalName = match[2].trim();
-          let name = originalName; // Start with original
-          
-          // Check if the next line might contain additional stat description (like "for Slide Attack")
-          if (i < statsLines.length - 1 && name.toLowerCase().includes("critical chance")) {
-            // Get the next line
-            const nextLine = statsLines[i + 1];
-            
-            // If the next line doesn't have a percentage and might be a continuation
-            if (!nextLine.match(/[+-]?\d+\.?\d*\s*%/) && 
-                (nextLine.toLowerCase().includes("slide") || 
-                 nextLine.toLowerCase().includes("for "))) {
-              
-              // This is likely a continuation of the current stat
-              name += " " + nextLine.trim();
-              logger.info(`[Stat_Combine] Combined stat lines: "${originalName}" + "${nextLine.trim()}" → "${name}"`);
-              
-              // Skip the next line since we've used it
-              i++;
-            }
-          }
-          
-          // Also check if there's a non-stat line that could be a continuation
-          // This handles cases where the line isn't in the statsLines array
-          if (i + weaponLineIndex + 1 < lines.length && name.toLowerCase().includes("critical chance")) {
-            const lineIdx = i + weaponLineIndex + 1;
-            if (lineIdx < lines.length) {
-              const potentialLine = lines[lineIdx].trim();
-              
-              // Check if this line mentions "slide attack" but isn't a stat line
-              if (!potentialLine.match(/[+-]?\d+\.?\d*\s*%/) && 
-                  (potentialLine.toLowerCase().includes("slide") || 
-                   potentialLine.toLowerCase().includes("for "))) {
-                
-                // Combine with this line
-                name += " " + potentialLine;
-                logger.info(`[Stat_Combine] Found continuation line: "${originalName}" + "${potentialLine}" → "${name}"`);
-              }
-            }
-          }
-          
-          // Special case handling for common elemental misreadings from OCR
-          if (name.toLowerCase().match(/^a\s+heat$/i) || name.toLowerCase() === 'a heat') {
-            // Special case for Heat with OCR misreading the icon as "A"
-            name = 'heat';
-            logger.info(`[Autograde] Found Heat with OCR misreading (A Heat), normalized to "heat"`);
-          } else if (name.toLowerCase().match(/^a\s+cold$/i) || name.toLowerCase() === 'a cold') {
-            // Special case for Cold with OCR misreading the icon
-            name = 'cold';
-            logger.info(`[Autograde] Found Cold with OCR misreading (A Cold), normalized to "cold"`);
-          } else if (name.toLowerCase().match(/^a\s+electricity$/i) || name.toLowerCase() === 'a electricity') {
-            // Special case for Electricity with OCR misreading the icon
-            name = 'electricity';
-            logger.info(`[Autograde] Found Electricity with OCR misreading (A Electricity), normalized to "electricity"`);
-          } else if (name.toLowerCase().match(/^a\s+toxin$/i) || name.toLowerCase() === 'a toxin') {
-            // Special case for Toxin with OCR misreading the icon
-            name = 'toxin';
-            logger.info(`[Autograde] Found Toxin with OCR misreading (A Toxin), normalized to "toxin"`);
-          } else if (name.toLowerCase().includes('fire') && name.toLowerCase().includes('rate')) {
-            name = 'fire rate'; // Immediately normalize Fire Rate
-            logger.info(`[Autograde] Found Fire Rate pattern, normalized to "fire rate"`);
-          } else if (name.toLowerCase().includes('critical') && name.toLowerCase().includes('damage')) {
-            // Handle critical damage as a special case - DO NOT normalize to "damage"
-            name = 'critical damage';
-            logger.info(`[Autograde] Found Critical Damage pattern, normalized to "critical damage"`);
-          } else {
-            // If not a special case, apply general cleanup:
-            // Remove both complete AND incomplete parentheses and everything within
-            name = name.replace(/\s*\([^)]*\)?/g, '');
-            // Remove other typical OCR artifacts and standardize 
-            name = name.replace(/[^a-zA-Z\s-]+/g, ' ').trim();
-            // Normalize spaces (no double spaces)
-            name = name.replace(/\s+/g, ' ').trim();
-            logger.info(`[Autograde] Applied general cleanup, result: "${name}"`);
-          }
-          
-          // Specific detection for slide attack critical chance
-          if (name.toLowerCase().includes('slide') && 
-              (name.toLowerCase().includes('critical chance') || name.toLowerCase().includes('crit chance'))) {
-            name = 'Critical Chance for Slide Attack';
-            logger.info(`[SLIDE_CRIT] Detected and normalized to "Critical Chance for Slide Attack"`);
-          }
-          // Also check for critical chance with slide attack in separate parts
-          else if (name.toLowerCase().includes('critical chance') && 
-                   name.toLowerCase().includes('for slide')) {
-            name = 'Critical Chance for Slide Attack';
-            logger.info(`[SLIDE_CRIT] Found "Critical Chance for Slide" and normalized to "Critical Chance for Slide Attack"`);
-          }
-          // Final check - if this is a negative crit chance, AND we previously found a slide attack line,
-          // assume this is slide attack crit chance
-          else if (name.toLowerCase() === 'critical chance' && value < 0 && slideAttackLines.length > 0) {
-            name = 'Critical Chance for Slide Attack';
-            logger.info(`[SLIDE_CRIT] Negative Critical Chance with slide attack line found - treating as Critical Chance for Slide Attack`);
-          }
-          
-          if (name && !isNaN(value)) {
-            // CORRECTED LOGGING: Show the *final* name being pushed
-            logger.info(`[Alias] Pushing cleaned stat: "${name}" = ${value}`);
-            stats.push({ name, value });
-          } else {
-             logger.warn(`[Alias] Stat discarded after cleaning (invalid name or value): Original='${originalName}', Cleaned='${name}', Value=${value}`);
-          }
-        } else {
-          logger.warn(`[Alias] Stat line regex did not match: "${line}"`);
-        }
-      }
-
-      // Process numeric stats without percentage signs
-      for (const line of numericStatLines) {
-        // Extract the sign, numeric value, and stat name
-        const match = line.match(/([+-])\s*(\d+\.?\d*)\s+(.+)/);
-        if (match) {
-          const sign = match[1]; // "+" or "-"
-          const numericPart = match[2]; // The numeric part
-          const value = parseFloat(sign + numericPart);
-          let name = match[3].trim();
-          
-          // Clean up the name - same as for percentage stats
-          name = name.replace(/\s*\([^)]*\)?/g, ''); // Remove parentheses and content
-          name = name.replace(/[^a-zA-Z\s-]+/g, ' ').trim(); // Remove non-alphabetic chars
-          name = name.replace(/\s+/g, ' ').trim(); // Normalize spaces
-          
-          logger.info(`[Autograde] Found numeric stat without percentage: "${name}" = ${value}`);
-          
-          if (name && !isNaN(value)) {
-            logger.info(`[Autograde] Pushing numeric stat: "${name}" = ${value}`);
-            stats.push({ name, value });
-          } else {
-            logger.warn(`[Autograde] Numeric stat discarded after cleaning: Original='${match[3]}', Cleaned='${name}', Value=${value}`);
-          }
-        } else {
-          logger.warn(`[Autograde] Numeric stat regex did not match: "${line}"`);
-        }
-      }
-
-      // Process faction damage stats
-      for (const line of factionLines) {
-        // Extract the multiplier and the faction
-        const match = line.match(/x([\d.]+).*Damage to (Corpus|Grineer|Infested)/i);
-        if (match) {
-          const multiplier = parseFloat(match[1]);
-          const faction = match[2];
-          
-          // FIXED: Pass the actual decimal value 
-          // For example, x0.8 means -0.2 (not -20%)
-          const decimalValue = -(1.0 - multiplier);
-          
-          const name = `Damage to ${faction}`;
-          logger.info(`Found faction damage modifier: x${multiplier} = ${decimalValue.toFixed(2)} (decimal) to ${faction}`);
-          
-          if (!isNaN(decimalValue)) {
-            logger.info(`Pushing faction damage: "${name}" = ${decimalValue}`);
-            stats.push({ name, value: decimalValue });
-          }
-        } else {
-          logger.warn(`Faction damage regex did not match: "${line}"`);
-        }
-      }
-      
-      // Process time-based stats (like combo duration)
-      for (const line of timeBasedLines) {
-        // Extract the value (with sign) and the stat name
-        const match = line.match(/([+-]?\d+\.?\d*)s\s+(.+)/i);
-        if (match) {
-          const value = parseFloat(match[1]);
-          let name = match[2].trim();
-          
-          // Clean up the name
-          name = name.replace(/\s*\([^)]*\)?/g, ''); // Remove parentheses and content
-          name = name.replace(/[^a-zA-Z\s-]+/g, ' ').trim(); // Remove non-alphabetic chars
-          name = name.replace(/\s+/g, ' ').trim(); // Normalize spaces
-          
-          logger.info(`[Autograde] Found time-based stat: "${name}" = ${value}s`);
-          
-          if (name && !isNaN(value)) {
-            // For time-based stats, convert to percentage format for consistent processing
-            // For example, combo duration is internally treated as a percentage
-            logger.info(`[Autograde] Pushing time-based stat as percentage: "${name}" = ${value}`);
-            stats.push({ name, value });
-          } else {
-            logger.warn(`[Autograde] Time-based stat discarded after cleaning: Original='${match[2]}', Cleaned='${name}', Value=${value}`);
-          }
-        } else {
-          logger.warn(`[Autograde] Time-based stat regex did not match: "${line}"`);
-        }
-      }
-      
-      // Special handling for stats that might be split across multiple lines
-      for (const line of percentOnlyLines) {
-        const lineIndex = lines.indexOf(line);
-        if (lineIndex >= 0 && lineIndex + 1 < lines.length) {
-          // Use a more flexible regex that properly handles space between sign and number
-          const valueMatch = line.match(/([+-])\s*(\d+\.?\d*)\s*%/);
-          const nextLine = lines[lineIndex + 1].trim();
-          
-          // Check if the next line looks like a stat name (and not another percentage or MR line)
-          if (valueMatch && 
-              !nextLine.includes('%') && 
-              !nextLine.toLowerCase().includes('mr') &&
-              nextLine.length > 0) {
-            
-            // Reconstruct the value including sign, ensuring no spaces between sign and number
-            const sign = valueMatch[1]; // "+" or "-"
-            const number = valueMatch[2]; // The numeric part
-            const value = parseFloat(sign + number);
-            
-            logger.info(`[Autograde] Extracted split stat value: ${sign}${number} = ${value}`);
-            
-            let name = nextLine.replace(/^\/+/, '').trim(); // Remove leading slashes like "/Impact"
-            
-            // Clean up names similar to regular stats
-            name = name.replace(/\s*\([^)]*\)?/g, ''); // Remove parentheses and content
-            name = name.replace(/[^a-zA-Z\s-]+/g, ' ').trim(); // Remove non-alphabetic chars
-            name = name.replace(/\s+/g, ' ').trim(); // Normalize spaces
-            
-            logger.info(`[Autograde] Found split stat: "${value}%" + "${name}" from lines ${lineIndex} and ${lineIndex+1}`);
-            
-            if (name && !isNaN(value)) {
-              logger.info(`[Autograde] Pushing combined split stat: "${name}" = ${value}`);
-              stats.push({ name, value });
-            } else {
-              logger.warn(`[Autograde] Split stat discarded after cleaning: Original='${nextLine}', Cleaned='${name}', Value=${value}`);
-            }
-          }
-        }
-      }
-      
-      // Only set parsedData if we have a weapon name and at least one stat
-      if (weaponName && stats.length > 0) {
-        parsedData = { weaponName, stats, rank };
-        logger.info(`Successfully parsed riven with rank ${rank}/8`);
-      } else {
-        // Log the results *before* throwing the error
-        logger.warn(`Parsing failed checks. Weapon: "${weaponName}", Stats Found: ${stats.length}`);
+      // Parse the weapon name, rank and stats, which fails without a weapon name or any stat
+      parsedData = parseRivenText(fullText);
+      if (!parsedData) {
         throw new Error(`Parsing failed: Weapon name empty or no stats found.`);
       }
 
@@ -917,145 +426,8 @@ const autogradeCommandData = new SlashCommandBuilder()
       .setDescription('Image of the riven to grade')
       .setRequired(true));
 
-// --- Helper Function for Weapon Name Extraction --- 
-// Load weapon names from weaponLookup.json instead of hard-coding them
-let KNOWN_BASE_WEAPONS: string[] = [];
-
-// Load weapon names from weaponLookup.json at startup
-async function loadKnownWeapons(): Promise<void> {
-  try {
-    const weaponLookupPath = path.join(process.cwd(), 'dict', 'weaponLookup.json');
-    if (fsSync.existsSync(weaponLookupPath)) {
-      const data = await fs.readFile(weaponLookupPath, 'utf8');
-      const weaponLookup = JSON.parse(data);
-      
-      // Extract weapon names from the lookup - weaponLookup is an object where:
-      // - keys are weapon names (lowercase)
-      // - values are arrays of weapon data objects
-      // For our purposes, we just need the keys, properly capitalized
-      KNOWN_BASE_WEAPONS = Object.keys(weaponLookup).map(key => {
-        // Capitalize the first letter of each word for better display
-        return key.split(' ')
-          .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-          .join(' ');
-      });
-      
-      logger.info(`Loaded ${KNOWN_BASE_WEAPONS.length} weapon names from weaponLookup.json`);
-    } else {
-      logger.warn(`weaponLookup.json not found at ${weaponLookupPath}`);
-      // Fallback to a minimal set of common weapons in case the file isn't found
-      KNOWN_BASE_WEAPONS = [
-        'Broken Scepter', 'Braton', 'Soma', 'Paris', 'Tigris', 'Rubico'
-      ];
-      logger.warn(`Using fallback weapon list with ${KNOWN_BASE_WEAPONS.length} entries`);
-    }
-  } catch (error) {
-    logger.error('Error loading weaponLookup.json:', error);
-    // Fallback to a minimal set if there's an error
-    KNOWN_BASE_WEAPONS = [
-      'Broken Scepter', 'Braton', 'Soma', 'Paris', 'Tigris', 'Rubico'
-    ];
-    logger.warn(`Using fallback weapon list with ${KNOWN_BASE_WEAPONS.length} entries due to error`);
-  }
-}
-
-// Call the function to load weapons at module initialization
-loadKnownWeapons().catch(err => logger.error('Failed to initialize weapon list:', err));
-
-function extractBestWeaponName(ocrText: string): string {
-  if (!ocrText) return 'Unknown Weapon';
-  
-  logger.info(`[Autograde] Running weapon name extraction on: "${ocrText}"`);
-  
-  let bestMatch = '';
-  const lowerText = ocrText.toLowerCase();
-  
-  // First approach: Look for complete known weapon names within the text
-  // Use space padding for more accurate word boundary matching
-  const paddedLowerText = ` ${lowerText} `;
-  
-  for (const baseWeapon of KNOWN_BASE_WEAPONS) {
-    const paddedLowerWeapon = ` ${baseWeapon.toLowerCase()} `;
-    
-    // Check for exact word/phrase match with space boundaries
-    if (paddedLowerText.includes(paddedLowerWeapon)) {
-      if (baseWeapon.length > bestMatch.length) {
-        bestMatch = baseWeapon;
-        logger.info(`[Autograde] Found exact space-bounded match: "${baseWeapon}" in text`);
-      }
-    }
-    // Also try without space padding in case it's at beginning/end
-    else if (lowerText.includes(baseWeapon.toLowerCase())) {
-      if (baseWeapon.length > bestMatch.length) {
-        bestMatch = baseWeapon;
-        logger.info(`[Autograde] Found substring match: "${baseWeapon}" in text`);
-      }
-    }
-  }
-  
-  // If we found a match through the direct substring approach, return it
-  if (bestMatch) {
-    logger.info(`[Autograde] Using substring match: "${bestMatch}"`);
-    return bestMatch;
-  }
-  
-  // Second approach: Try word-by-word matching for multi-word weapons
-  const words = lowerText.split(/\s+/);
-  
-  for (const baseWeapon of KNOWN_BASE_WEAPONS) {
-    const baseWords = baseWeapon.toLowerCase().split(/\s+/);
-    
-    // Skip single-word weapons for now
-    if (baseWords.length < 2) continue;
-    
-    // Find the index where the base weapon name might start
-    for (let i = 0; i <= words.length - baseWords.length; i++) {
-      let match = true;
-      for (let j = 0; j < baseWords.length; j++) {
-        if (words[i + j] !== baseWords[j]) {
-          match = false;
-          break;
-        }
-      }
-      if (match) {
-        bestMatch = baseWeapon;
-        logger.info(`[Autograde] Found word-by-word match: "${baseWeapon}" at word index ${i}`);
-        return bestMatch; // Return immediately since this is a strong match
-      }
-    }
-  }
-  
-  // Third approach: Single-word prefix matching as fallback
-  if (!bestMatch && words.length > 0) {
-    for (const baseWeapon of KNOWN_BASE_WEAPONS) {
-      // Only check single-word weapons or first word of multi-word weapons
-      const baseFirstWord = baseWeapon.toLowerCase().split(/\s+/)[0];
-      
-      if (words[0] === baseFirstWord || 
-          words[0].startsWith(baseFirstWord) || 
-          baseFirstWord.startsWith(words[0])) {
-        if (baseWeapon.length > bestMatch.length) {
-          bestMatch = baseWeapon;
-          logger.info(`[Autograde] Found first-word match: "${baseWeapon}" matches first word "${words[0]}"`);
-        }
-      }
-    }
-  }
-  
-  // If we found any match, return it
-  if (bestMatch) {
-    logger.info(`[Autograde] Using best match: "${bestMatch}"`);
-    return bestMatch;
-  }
-  
-  // Ultimate fallback: use ocr text with basic cleanup
-  logger.warn(`[Autograde] No weapon match found for: "${ocrText}"`);
-  return ocrText.replace(/^[^a-zA-Z0-9-]+/, '').replace(/[^a-zA-Z0-9-]+$/, '').trim() || 'Unknown Weapon';
-}
-// --- End Helper Function --- 
-
 // --- HELPER FUNCTION TO LOAD WEAPON ARRAY ---
-async function loadWeaponArray(): Promise<WeaponMapEntry[]> {
+async function loadWeaponArray(): Promise<WeaponArrayEntry[]> {
   try {
     const weaponArrayPath = path.join(process.cwd(), 'dict', 'weaponArray.json');
     const data = await fs.readFile(weaponArrayPath, 'utf8');
@@ -1069,7 +441,7 @@ async function loadWeaponArray(): Promise<WeaponMapEntry[]> {
 /**
  * Find a weapon in the weapon array based on name matching
  */
-async function findWeaponInArray(weaponName: string): Promise<WeaponMapEntry | null> {
+async function findWeaponInArray(weaponName: string): Promise<WeaponArrayEntry | null> {
   if (!weaponName) return null;
   
   try {
@@ -1479,8 +851,8 @@ async function processRivenData(
   parsedData: { weaponName: string, stats: Array<{ name: string, value: number }>, rank: number },
   imageUrl: string,
   tempFilesArray?: string[], // Add optional parameter to pass tempFiles
-  selectedVariant?: WeaponMapEntry // Add optional parameter for selected variant
-): Promise<{ embed: EmbedBuilder, attachmentPath?: string, variantOptions?: WeaponMapEntry[] }> {
+  selectedVariant?: WeaponArrayEntry // Add optional parameter for selected variant
+): Promise<{ embed: EmbedBuilder, attachmentPath?: string, variantOptions?: WeaponArrayEntry[] }> {
   logger.info(`Processing riven data for weapon: ${parsedData.weaponName}`);
 
   // Look up the weapon in weaponArray first
@@ -1489,43 +861,8 @@ async function processRivenData(
   // Also find related weapons for the dropdown menu
   const relatedWeapons = await findRelatedWeapons(parsedData.weaponName);
   
-  // Load weapon data files (assuming these paths are correct)
-  const weaponsPath = path.join(process.cwd(), 'dict', 'ExportWeapons.json');
-  const dictPath = path.join(process.cwd(), 'dict', 'dict.en.json');
-  
-  let ExportWeapons: Record<string, any> = {};
-  let dict: Record<string, string> = {};
-  try {
-    const [weaponsData, dictData] = await Promise.all([
-      fs.readFile(weaponsPath, 'utf8'),
-      fs.readFile(dictPath, 'utf8')
-    ]);
-    ExportWeapons = JSON.parse(weaponsData);
-    dict = JSON.parse(dictData);
-  } catch (fileError) {
-    logger.error('Error reading weapon/dictionary files:', fileError);
-    // Return a basic embed if data files are missing
-    const errorEmbed = createEmbed({ type: 'error', title: `Riven Analysis: ${parsedData.weaponName}` });
-    errorEmbed.setImage(imageUrl);
-    errorEmbed.setDescription('Error loading weapon database. Cannot calculate grades.');
-    return { embed: errorEmbed };
-  }
-  
-  // Use weaponArrayEntry if available, otherwise fall back to findWeapon
-  const weaponInfo = weaponArrayEntry ? {
-    name: weaponArrayEntry.internalPath,
-    rivenType: weaponArrayEntry.rivenType,
-    omegaAttenuation: weaponArrayEntry.disposition,
-    data: ExportWeapons[weaponArrayEntry.internalPath] || null,
-    displayName: weaponArrayEntry.name
-  } : findWeapon(parsedData.weaponName, ExportWeapons, dict);
-  
-  // Check if the weapon is an Archgun/SpaceGun and update the rivenType accordingly
-  if (weaponInfo && weaponInfo.data && weaponInfo.data.productCategory === "SpaceGuns") {
-    logger.info(`Detected Archgun (SpaceGun): ${weaponInfo.name}`);
-    weaponInfo.rivenType = "LotusArchgunRandomModRare";
-    logger.info(`Set rivenType to LotusArchgunRandomModRare for Archgun`);
-  }
+  // Use the selected or matched weaponArray entry if available, otherwise fall back to findWeapon
+  const weaponInfo = weaponArrayEntry ? rivenWeaponFromEntry(weaponArrayEntry) : findWeapon(parsedData.weaponName);
   
   const embed = new EmbedBuilder()
     .setTitle(`Riven Analysis: ${parsedData.weaponName}`) // Use parsed name initially
@@ -1542,9 +879,7 @@ async function processRivenData(
     embed.setDescription(`⚠️ **Weapon not found in database.** OCR might have misread the name or it's not in the list.\n*Detected Name:* "${parsedData.weaponName}"`);
     embed.setImage(imageUrl); // Use original image if no weapon found
   } else {
-    // Use the display name from weaponArrayEntry if available, otherwise try dictionary
-    const weaponDisplayName = weaponInfo.displayName || 
-                             (dict[weaponInfo.name] || weaponInfo.name);
+    const weaponDisplayName = weaponInfo.displayName;
     
     embed.setTitle(`Riven Analysis: ${weaponDisplayName} ${formatRivenType(weaponInfo.rivenType)}`);
     // Remove disposition and rank info from embed description
@@ -1643,7 +978,7 @@ async function processRivenData(
           }
         }
         
-        tagName = rivengradeHelpers.findTagForStatName(cleanStatName);
+        tagName = findTagForStatName(cleanStatName);
         logger.info(`[ProcessData] Received tag from findTagForStatName: "${tagName}" for name "${cleanStatName}"`);
         
         if (tagName && tagName !== 'unknown') {
@@ -1943,11 +1278,20 @@ async function processRivenData(
     
     // Remove "Overall Grade" field - it will be shown in the image only
     
+    // Show how good the stat combination is, which the roll grades in the image don't cover
+    const combination = scoreRivenCombination(
+      weaponDisplayName,
+      weaponInfo.rivenType,
+      statsWithRecoilInfo.map(stat => ({ name: stat.name, isCurse: stat.isRecoil ? stat.value > 0 : stat.value < 0 }))
+    );
+    if (combination) {
+      embed.addFields({ name: 'Stat Combination', value: formatCombinationScore(combination), inline: false });
+    }
+    
     // Generate the grade image if we have weapon info
     try {
       // Use weaponDisplayName for the image
-      const weaponDisplayName = weaponInfo.displayName || 
-                             (dict[weaponInfo.name] || weaponInfo.name);
+      const weaponDisplayName = weaponInfo.displayName;
       
       const buffer = await generateRivenGradeImage(
         weaponDisplayName,
@@ -2079,7 +1423,7 @@ module.exports.processRivenData = processRivenData;
 module.exports.setupVariantCollector = setupVariantCollector;
 
 // Add a function to find all related weapon variants
-async function findRelatedWeapons(baseName: string): Promise<WeaponMapEntry[]> {
+async function findRelatedWeapons(baseName: string): Promise<WeaponArrayEntry[]> {
   try {
     const weaponArray = await loadWeaponArray();
     
@@ -2342,7 +1686,7 @@ function calculateGrade(
                           statName.toLowerCase().includes('damage');
   
   // Get the tag for this stat to use with getRivenRange functions
-  const tagName = rivengradeHelpers.findTagForStatName(statName);
+  const tagName = findTagForStatName(statName);
   
   let actualMin, actualMax;
   
@@ -2355,8 +1699,8 @@ function calculateGrade(
     
     // Use the proper range calculation from rivengrade.ts
     const range = isPositive 
-      ? rivengradeHelpers.getBuffRange(rivenStatType, tagName, weaponDisposition, rank, buffsCount, cursesCount)
-      : rivengradeHelpers.getCurseRange(rivenStatType, tagName, weaponDisposition, rank, buffsCount, cursesCount);
+      ? getBuffRange(rivenStatType, tagName, weaponDisposition, rank, buffsCount, cursesCount)
+      : getCurseRange(rivenStatType, tagName, weaponDisposition, rank, buffsCount, cursesCount);
     
     actualMin = range.min;
     actualMax = range.max;
@@ -2420,7 +1764,7 @@ function calculateGrade(
     logger.info(`[FACTION_DEBUG] Original calculation: ((${absValue.toFixed(3)} - ${absCenter.toFixed(3)}) / ${absCenter.toFixed(3)}) * 100 = ${percentDiffFromCenter.toFixed(2)}%`);
     
     // Special detailed debug
-    logger.info(`[DETAILED_DEBUG] Tag Name: ${rivengradeHelpers.findTagForStatName(statName)}`);
+    logger.info(`[DETAILED_DEBUG] Tag Name: ${findTagForStatName(statName)}`);
     logger.info(`[DETAILED_DEBUG] Percentage Calculation: (${statValue.toFixed(3)} - ${center.toFixed(3)}) / ${Math.abs(center).toFixed(3)} * 100 = ${percentDiffFromCenter.toFixed(3)}%`);
     logger.info(`[DETAILED_DEBUG] Range: ${actualMin.toFixed(3)} to ${actualMax.toFixed(3)}`);
     logger.info(`[DETAILED_DEBUG] Range Center: ${center.toFixed(3)}`);
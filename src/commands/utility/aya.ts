@@ -2,6 +2,7 @@ import {
   SlashCommandBuilder, 
   ChatInputCommandInteraction
 } from 'discord.js';
+import { getWorldState } from '../../services/worldStateService';
 import axios from 'axios';
 import fs from 'fs';
 import path from 'path';
@@ -52,17 +53,10 @@ const command: Command = {
         return;
       }
       
-      // Fetch world state to get expiry time
-      logger.info('Fetching world state data from browse.wf');
-      const worldStateResponse = await axios.get('https://oracle.browse.wf/worldState.json', {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'WardenPrimeBot/1.0.0'
-        }
-      });
+      // Get the shared world state snapshot for the rotation expiry
+      const worldStateData = await getWorldState();
       
       // Find the Cetus syndicate mission to get rotation expiry
-      const worldStateData = worldStateResponse.data;
       let expiryTimestamp = locationData.expiry || 0;
       
       if (worldStateData?.SyndicateMissions) {
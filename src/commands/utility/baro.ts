@@ -2,11 +2,13 @@ import {
   SlashCommandBuilder, 
   ChannelType, 
   TextChannel, 
-  ChatInputCommandInteraction
+  ChatInputCommandInteraction,
+  AutocompleteInteraction
 } from 'discord.js';
 import { Command } from '../../types/discord';
 import { createEmbed } from '../../utils/embedBuilder';
-import axios from 'axios';
+import { getWorldState } from '../../services/worldStateService';
+import { pgdb } from '../../services/postgresDatabase';
 import { initializeDictionaries, findItemInDicts } from '../../utils/dictionaryLoader';
 import { logger } from '../../utils/logger';
 import * as fs from 'fs';
@@ -26,6 +28,9 @@ interface RegionData {
   [key: string]: any;
 }
 
+// Most visits listed by /baro history
+const MAX_HISTORY_VISITS = 10;
+
 // Cache for the regions dictionary
 let regionsDict: Record<string, RegionData> | null = null;
 
@@ -145,304 +150,538 @@ function getBaroItemName(itemPath: string): string | null {
   return null;
 }
 
-// Command to fetch and display Baro Ki'Teer's inventory
-const command: Command = {
-  data: new SlashCommandBuilder()
-    .setName('baro')
-    .setDescription('Displays Baro Ki\'Teer\'s current inventory')
-    .addChannelOption(option => 
-      option
-        .setName('channel')
-        .setDescription('The channel to send the Baro inventory to')
-        .setRequired(false)
-        .addChannelTypes(ChannelType.GuildText)
-    ) as SlashCommandBuilder,
-  
-  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
-    await interaction.deferReply();
-    
-    try {
-      // Initialize dictionaries if not already done
-      await initializeDictionaries();
-      
-      // Fetch the world state data
-      logger.info(`Fetching Baro's inventory from worldState API`);
-      const response = await axios.get('https://oracle.browse.wf/worldState.json', {
-        timeout: 10000, // 10s timeout
-        headers: {
-          'User-Agent': 'WardenPrimeBot/1.0.0' // Custom user agent
-        }
+// Show when an item was last sold by Baro Ki'Teer
+async function handleHistory(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply();
+
+  try {
+    const query = interaction.options.getString('item', true);
+    let history = await pgdb.getBaroItemHistory(query, MAX_HISTORY_VISITS);
+
+    // Fall back to the closest recorded item name when the input isn't an exact match
+    if (history.length === 0) {
+      const [closest] = await pgdb.searchBaroItemNames(query, 1);
+      if (closest) {
+        history = await pgdb.getBaroItemHistory(closest, MAX_HISTORY_VISITS);
+      }
+    }
+
+    if (history.length === 0) {
+      const notFoundEmbed = createEmbed({
+        type: 'warning',
+        title: 'No Baro History',
+        description: `Baro Ki'Teer hasn't brought **${query}** since visit tracking started.`,
+        timestamp: true
       });
-      const worldState = response.data;
-      
-      // Find Baro's inventory
-      const voidTraders = worldState.VoidTraders || [];
-      logger.info(`Found ${voidTraders.length} void traders in worldState`);
-      
-      if (voidTraders.length === 0) {
-        const noBaroEmbed = createEmbed({
-          type: 'info',
-          title: 'Baro Ki\'Teer',
-          description: 'Baro Ki\'Teer is not currently available.',
+      await interaction.editReply({ embeds: [notFoundEmbed] });
+      return;
+    }
+
+    const [latest] = history;
+    const totalVisits = parseInt(latest.total_visits);
+    const lastSeen = Math.floor(new Date(latest.arrival).getTime() / 1000);
+
+    const visitLines = history.map(visit => {
+      const arrival = Math.floor(new Date(visit.arrival).getTime() / 1000);
+      return `<t:${arrival}:D> - ${visit.relay} (${visit.planet})`;
+    });
+
+    const embed = createEmbed({
+      type: 'info',
+      title: `Baro Ki'Teer History: ${latest.item_name}`,
+      description: `Last brought to ${latest.relay} (${latest.planet}) <t:${lastSeen}:R>, ` +
+        `seen on ${totalVisits} visit${totalVisits === 1 ? '' : 's'}.`,
+      fields: [
+        { name: '<:OrokinDucats:1353350538921644053> Ducats', value: `${latest.ducats}`, inline: true },
+        { name: '<:Credits:1353350526086942801> Credits', value: latest.credits.toLocaleString(), inline: true },
+        { name: 'Recent Visits', value: visitLines.join('\n').slice(0, 1024), inline: false }
+      ],
+      footer: 'Add it to your wishlist with /baro wishlist add to get a DM next time',
+      timestamp: true
+    });
+
+    await interaction.editReply({ embeds: [embed] });
+  } catch (error) {
+    logger.error('Error fetching Baro item history:', error);
+
+    const errorEmbed = createEmbed({
+      type: 'error',
+      title: 'Error',
+      description: 'Failed to fetch Baro Ki\'Teer\'s history. Please try again later.',
+      timestamp: true
+    });
+    await interaction.editReply({ embeds: [errorEmbed] });
+  }
+}
+
+// Manage the user's Baro wishlist
+async function handleWishlist(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply({ ephemeral: true });
+
+  try {
+    const userId = interaction.user.id;
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'add') {
+      const input = interaction.options.getString('item', true).trim();
+
+      // Wishlists match the inventory by exact name, so check the name against what Baro has sold
+      const knownNames = await pgdb.searchBaroItemNames(input, 5);
+      const knownName = knownNames.find(name => name.toLowerCase() === input.toLowerCase());
+
+      if (!knownName && knownNames.length > 0) {
+        const errorEmbed = createEmbed({
+          type: 'error',
+          title: 'Unknown Item',
+          description: `Baro Ki'Teer has never sold **${input}**. Did you mean:\n${knownNames.map(name => `• ${name}`).join('\n')}`,
           timestamp: true
         });
-        
-        await interaction.editReply({ embeds: [noBaroEmbed] });
+        await interaction.editReply({ embeds: [errorEmbed] });
         return;
       }
-      
-      // Get the first trader's inventory (usually Baro)
-      const baro = voidTraders[0];
-      logger.info(`Processing inventory for trader: ${baro.Character || 'Unknown'} at ${baro.Node || 'Unknown'}`);
-      
-      // Log Baro's details to help debug date issues
-      logger.debug(`Baro details: ${JSON.stringify(baro, null, 2)}`);
-      
-      // Get arrival and departure dates
-      let departureTime = 'Unknown';
-      let arrivalTime = 'Unknown';
-      let isActive = false;
-      const currentTime = Date.now();
-      
-      try {
-        // Check for activation time
-        if (baro.Activation && baro.Activation.$date && baro.Activation.$date.$numberLong) {
-          const arrivalMs = parseInt(baro.Activation.$date.$numberLong);
-          if (!isNaN(arrivalMs)) {
-            const arrivalDate = new Date(arrivalMs);
-            arrivalTime = `<t:${Math.floor(arrivalDate.getTime() / 1000)}:R>`;
-            
-            // Determine if Baro is currently active or not yet arrived
-            isActive = currentTime >= arrivalMs;
-          }
-        }
-        
-        // Get expiry time
-        if (baro.Expiry && baro.Expiry.$date && baro.Expiry.$date.$numberLong) {
-          const departureMs = parseInt(baro.Expiry.$date.$numberLong);
-          if (!isNaN(departureMs)) {
-            const departureDate = new Date(departureMs);
-            departureTime = `<t:${Math.floor(departureDate.getTime() / 1000)}:R>`;
-          }
-        }
-      } catch (dateError) {
-        logger.error('Error formatting dates:', dateError);
-      }
 
-      // Translate the location
-      const nodeName = baro.Node || 'Unknown';
-      const { planet, relay } = await translateLocation(nodeName);
-      
-      // Create description based on whether Baro is active or not
-      let description;
-      if (isActive) {
-        description = `Leaves ${relay} (${planet}) ${departureTime}`;
-      } else {
-        description = `Trader will be showing up at ${planet} (${relay}) ${arrivalTime}`;
-      }
-      
-      // Only process inventory if Baro is active
-      if (!isActive) {
-        const upcomingEmbed = createEmbed({
-          type: 'info',
-          title: 'Baro Ki\'Teer',
-          description: description,
+      const itemName = knownName || input;
+      const entry = await pgdb.addBaroWishlistItem(userId, itemName);
+
+      const embed = entry
+        ? createEmbed({
+          type: knownName ? 'success' : 'warning',
+          title: 'Wishlist Updated',
+          description: knownName
+            ? `You will get a DM when Baro Ki'Teer arrives with **${itemName}**.\n\nMake sure you allow direct messages from this server.`
+            : `**${itemName}** was added, but Baro Ki'Teer hasn't sold it on any recorded visit. Check the spelling, only the exact item name gets a DM.`,
+          timestamp: true
+        })
+        : createEmbed({
+          type: 'warning',
+          title: 'Already on Wishlist',
+          description: `**${itemName}** is already on your wishlist.`,
           timestamp: true
         });
-        
-        await interaction.editReply({ embeds: [upcomingEmbed] });
-        return;
+
+      if (entry) {
+        logger.info(`Added ${itemName} to the Baro wishlist of user ${userId}`);
       }
-      
-      // Only check inventory if Baro is active (moved from earlier)
-      // Create a formatted list of items
-      const inventory = baro.Manifest || [];
-      logger.info(`Found ${inventory.length} items in Baro's inventory`);
-      
-      if (inventory.length === 0) {
-        const emptyInventoryEmbed = createEmbed({
-          type: 'info',
-          title: 'Baro Ki\'Teer',
-          description: 'Baro Ki\'Teer has no items in his inventory.',
+      await interaction.editReply({ embeds: [embed] });
+    } else if (subcommand === 'remove') {
+      const itemName = interaction.options.getString('item', true);
+      const removed = await pgdb.removeBaroWishlistItem(userId, itemName);
+
+      const embed = removed
+        ? createEmbed({
+          type: 'success',
+          title: 'Wishlist Updated',
+          description: `**${itemName}** was removed from your wishlist.`,
+          timestamp: true
+        })
+        : createEmbed({
+          type: 'error',
+          title: 'Item Not Found',
+          description: `**${itemName}** is not on your wishlist.`,
           timestamp: true
         });
-        
-        await interaction.editReply({ embeds: [emptyInventoryEmbed] });
-        return;
+      await interaction.editReply({ embeds: [embed] });
+    } else if (subcommand === 'list') {
+      const wishlist = await pgdb.getBaroWishlistByUser(userId);
+
+      const embed = createEmbed({
+        type: 'info',
+        title: 'Your Baro Wishlist',
+        description: wishlist.length > 0
+          ? wishlist.map(entry => `• ${entry.item_name}`).join('\n').slice(0, 4096)
+          : 'Your wishlist is empty. Use `/baro wishlist add` to add an item.',
+        timestamp: true
+      });
+      await interaction.editReply({ embeds: [embed] });
+    }
+  } catch (error) {
+    logger.error('Error managing Baro wishlist:', error);
+
+    const errorEmbed = createEmbed({
+      type: 'error',
+      title: 'Error',
+      description: 'Failed to update your Baro wishlist. Please try again later.',
+      timestamp: true
+    });
+    await interaction.editReply({ embeds: [errorEmbed] });
+  }
+}
+
+// Show Baro Ki'Teer's current inventory
+async function handleCurrent(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply();
+  
+  try {
+    // Initialize dictionaries if not already done
+    await initializeDictionaries();
+    
+    // Fetch the world state data
+    logger.info(`Fetching Baro's inventory from worldState API`);
+    const worldState = await getWorldState();
+    
+    // Find Baro's inventory
+    const voidTraders = worldState.VoidTraders || [];
+    logger.info(`Found ${voidTraders.length} void traders in worldState`);
+    
+    if (voidTraders.length === 0) {
+      const noBaroEmbed = createEmbed({
+        type: 'info',
+        title: 'Baro Ki\'Teer',
+        description: 'Baro Ki\'Teer is not currently available.',
+        timestamp: true
+      });
+      
+      await interaction.editReply({ embeds: [noBaroEmbed] });
+      return;
+    }
+    
+    // Get the first trader's inventory (usually Baro)
+    const baro = voidTraders[0];
+    logger.info(`Processing inventory for trader: ${baro.Character || 'Unknown'} at ${baro.Node || 'Unknown'}`);
+    
+    // Log Baro's details to help debug date issues
+    logger.debug(`Baro details: ${JSON.stringify(baro, null, 2)}`);
+    
+    // Get arrival and departure dates
+    let departureTime = 'Unknown';
+    let arrivalTime = 'Unknown';
+    let isActive = false;
+    const currentTime = Date.now();
+    
+    try {
+      // Check for activation time
+      if (baro.Activation && baro.Activation.$date && baro.Activation.$date.$numberLong) {
+        const arrivalMs = parseInt(baro.Activation.$date.$numberLong);
+        if (!isNaN(arrivalMs)) {
+          const arrivalDate = new Date(arrivalMs);
+          arrivalTime = `<t:${Math.floor(arrivalDate.getTime() / 1000)}:R>`;
+          
+          // Determine if Baro is currently active or not yet arrived
+          isActive = currentTime >= arrivalMs;
+        }
       }
       
-      // Log the first few items to see what they look like
-      logger.debug('Sample items from inventory:');
-      inventory.slice(0, 3).forEach((item: any, index: number) => {
-        logger.debug(`Item ${index + 1}: ${JSON.stringify(item)}`);
+      // Get expiry time
+      if (baro.Expiry && baro.Expiry.$date && baro.Expiry.$date.$numberLong) {
+        const departureMs = parseInt(baro.Expiry.$date.$numberLong);
+        if (!isNaN(departureMs)) {
+          const departureDate = new Date(departureMs);
+          departureTime = `<t:${Math.floor(departureDate.getTime() / 1000)}:R>`;
+        }
+      }
+    } catch (dateError) {
+      logger.error('Error formatting dates:', dateError);
+    }
+
+    // Translate the location
+    const nodeName = baro.Node || 'Unknown';
+    const { planet, relay } = await translateLocation(nodeName);
+    
+    // Create description based on whether Baro is active or not
+    let description;
+    if (isActive) {
+      description = `Leaves ${relay} (${planet}) ${departureTime}`;
+    } else {
+      description = `Trader will be showing up at ${planet} (${relay}) ${arrivalTime}`;
+    }
+    
+    // Only process inventory if Baro is active
+    if (!isActive) {
+      const upcomingEmbed = createEmbed({
+        type: 'info',
+        title: 'Baro Ki\'Teer',
+        description: description,
+        timestamp: true
       });
       
-      // Create a loading embed
-      const loadingEmbed = createEmbed({
+      await interaction.editReply({ embeds: [upcomingEmbed] });
+      return;
+    }
+    
+    // Only check inventory if Baro is active (moved from earlier)
+    // Create a formatted list of items
+    const inventory = baro.Manifest || [];
+    logger.info(`Found ${inventory.length} items in Baro's inventory`);
+    
+    if (inventory.length === 0) {
+      const emptyInventoryEmbed = createEmbed({
         type: 'info',
         title: 'Baro Ki\'Teer',
-        description: `Processing inventory items...`,
+        description: 'Baro Ki\'Teer has no items in his inventory.',
         timestamp: true
       });
       
-      await interaction.editReply({ embeds: [loadingEmbed] });
-      
-      // Process the inventory items
-      logger.info(`Starting to process ${inventory.length} items...`);
+      await interaction.editReply({ embeds: [emptyInventoryEmbed] });
+      return;
+    }
+    
+    // Log the first few items to see what they look like
+    logger.debug('Sample items from inventory:');
+    inventory.slice(0, 3).forEach((item: any, index: number) => {
+      logger.debug(`Item ${index + 1}: ${JSON.stringify(item)}`);
+    });
+    
+    // Create a loading embed
+    const loadingEmbed = createEmbed({
+      type: 'info',
+      title: 'Baro Ki\'Teer',
+      description: `Processing inventory items...`,
+      timestamp: true
+    });
+    
+    await interaction.editReply({ embeds: [loadingEmbed] });
+    
+    // Process the inventory items
+    logger.info(`Starting to process ${inventory.length} items...`);
 
-      // Use a Map to track items with same name to avoid duplicates
-      const uniqueItems = new Map();
-      let skippedItems = 0;
+    // Use a Map to track items with same name to avoid duplicates
+    const uniqueItems = new Map();
+    let skippedItems = 0;
 
-      // Process items for new formatted output
-      for (const item of inventory) {
-        const itemType = item.ItemType;
+    // Process items for new formatted output
+    for (const item of inventory) {
+      const itemType = item.ItemType;
+      
+      try {
+        // Get item name using our optimized function (fast lookup)
+        const itemName = getBaroItemName(itemType);
         
-        try {
-          // Get item name using our optimized function (fast lookup)
-          const itemName = getBaroItemName(itemType);
-          
-          // Only add items that have a translation
-          if (itemName) {
-            if (!uniqueItems.has(itemName)) {
-              uniqueItems.set(itemName, {
-                name: itemName,
-                type: itemType,
-                ducats: item.PrimePrice,
-                credits: item.RegularPrice
-              });
-            }
-          } else {
-            // Count and log items that were skipped due to missing translations
-            skippedItems++;
-            logger.warn(`Skipped item with no translation: ${itemType}`);
+        // Only add items that have a translation
+        if (itemName) {
+          if (!uniqueItems.has(itemName)) {
+            uniqueItems.set(itemName, {
+              name: itemName,
+              type: itemType,
+              ducats: item.PrimePrice,
+              credits: item.RegularPrice
+            });
           }
-        } catch (itemError) {
-          // Log errors but don't add to the inventory
-          logger.error(`Error processing item ${itemType}:`, itemError);
+        } else {
+          // Count and log items that were skipped due to missing translations
           skippedItems++;
+          logger.warn(`Skipped item with no translation: ${itemType}`);
         }
+      } catch (itemError) {
+        // Log errors but don't add to the inventory
+        logger.error(`Error processing item ${itemType}:`, itemError);
+        skippedItems++;
       }
+    }
 
-      // Convert to array and sort by ducats (high to low)
-      const inventoryItems = Array.from(uniqueItems.values());
-      inventoryItems.sort((a, b) => b.ducats - a.ducats);
-
-      logger.info(`Items processed: ${inventoryItems.length} total, ${skippedItems} skipped`);
+    // Convert to array and sort by ducats (high to low)
+    const inventoryItems = Array.from(uniqueItems.values());
+    inventoryItems.sort((a, b) => b.ducats - a.ducats);
 
-      // If no valid items remain, inform the user
-      if (inventoryItems.length === 0) {
-        const noItemsEmbed = createEmbed({
-          type: 'info',
-          title: 'Baro Ki\'Teer',
-          description: 'No valid items could be found in Baro\'s inventory. This could be due to missing translations.',
-          timestamp: true
-        });
-        
-        await interaction.editReply({ embeds: [noItemsEmbed] });
-        return;
-      }
+    logger.info(`Items processed: ${inventoryItems.length} total, ${skippedItems} skipped`);
 
-      // Calculate how many items we can fit in one embed
-      // Discord has a limit of 1024 characters per field value
-      // Let's build the columns for all items
-      let itemColumn = '';
-      let ducatsColumn = '';
-      let creditColumn = '';
-      
-      // Format all items for the three columns
-      // Discord field max length is 1024 chars, so we need to be careful
-      let totalItemsAdded = 0;
-      
-      for (const item of inventoryItems) {
-        // Add new line and item data
-        const newItemLine = `${item.name}\n`;
-        const newDucatsLine = `${item.ducats}\n`;
-        const newCreditsLine = `${item.credits.toLocaleString()}\n`;
-        
-        // Check if adding this would exceed Discord's field limit (1024 chars)
-        if (itemColumn.length + newItemLine.length < 1024 && 
-            ducatsColumn.length + newDucatsLine.length < 1024 && 
-            creditColumn.length + newCreditsLine.length < 1024) {
-          
-          itemColumn += newItemLine;
-          ducatsColumn += newDucatsLine;
-          creditColumn += newCreditsLine;
-          totalItemsAdded++;
-        } else {
-          // We've reached the Discord limit - stop adding items
-          logger.warn(`Reached Discord field limit after ${totalItemsAdded} items. Some items will not be displayed.`);
-          break;
-        }
-      }
-      
-      // Log how many items we're displaying
-      logger.info(`Displaying ${totalItemsAdded} out of ${inventoryItems.length} items in a single embed`);
-      
-      // Create a single embed with all inventory
-      const baroEmbed = createEmbed({
+    // If no valid items remain, inform the user
+    if (inventoryItems.length === 0) {
+      const noItemsEmbed = createEmbed({
         type: 'info',
         title: 'Baro Ki\'Teer',
-        description: description,
-        fields: [
-          { 
-            name: 'Item', 
-            value: itemColumn || 'No items', 
-            inline: true 
-          },
-          { 
-            name: '<:OrokinDucats:1353350538921644053> Ducats', 
-            value: ducatsColumn || '0', 
-            inline: true 
-          },
-          { 
-            name: '<:Credits:1353350526086942801> Credits', 
-            value: creditColumn || '0', 
-            inline: true 
-          }
-        ],
-        footer: totalItemsAdded < inventoryItems.length ? 
-          `Showing ${totalItemsAdded} of ${inventoryItems.length} items (Discord limit reached)` : `Today at ${new Date().toLocaleTimeString()}`,
+        description: 'No valid items could be found in Baro\'s inventory. This could be due to missing translations.',
         timestamp: true
       });
       
-      // Check if a specific channel was provided
-      const targetChannel = interaction.options.getChannel('channel');
+      await interaction.editReply({ embeds: [noItemsEmbed] });
+      return;
+    }
+
+    // Calculate how many items we can fit in one embed
+    // Discord has a limit of 1024 characters per field value
+    // Let's build the columns for all items
+    let itemColumn = '';
+    let ducatsColumn = '';
+    let creditColumn = '';
+    
+    // Format all items for the three columns
+    // Discord field max length is 1024 chars, so we need to be careful
+    let totalItemsAdded = 0;
+    
+    for (const item of inventoryItems) {
+      // Add new line and item data
+      const newItemLine = `${item.name}\n`;
+      const newDucatsLine = `${item.ducats}\n`;
+      const newCreditsLine = `${item.credits.toLocaleString()}\n`;
       
-      if (targetChannel && targetChannel instanceof TextChannel) {
-        // Send to the specified channel
-        logger.info(`Sending Baro inventory to channel: ${targetChannel.name}`);
-        await targetChannel.send({ embeds: [baroEmbed] });
-        
-        const successEmbed = createEmbed({
-          type: 'success',
-          title: 'Baro Ki\'Teer',
-          description: `Inventory has been sent to ${targetChannel}`,
-          timestamp: true
-        });
+      // Check if adding this would exceed Discord's field limit (1024 chars)
+      if (itemColumn.length + newItemLine.length < 1024 && 
+          ducatsColumn.length + newDucatsLine.length < 1024 && 
+          creditColumn.length + newCreditsLine.length < 1024) {
         
-        await interaction.editReply({ embeds: [successEmbed] });
-        return;
+        itemColumn += newItemLine;
+        ducatsColumn += newDucatsLine;
+        creditColumn += newCreditsLine;
+        totalItemsAdded++;
       } else {
-        // Reply to the command directly
-        logger.info(`Sending Baro inventory directly to command interaction`);
-        await interaction.editReply({ embeds: [baroEmbed] });
-        return;
+        // We've reached the Discord limit - stop adding items
+        logger.warn(`Reached Discord field limit after ${totalItemsAdded} items. Some items will not be displayed.`);
+        break;
       }
-    } catch (error) {
-      logger.error('Error fetching Baro inventory:', error);
+    }
+    
+    // Log how many items we're displaying
+    logger.info(`Displaying ${totalItemsAdded} out of ${inventoryItems.length} items in a single embed`);
+    
+    // Create a single embed with all inventory
+    const baroEmbed = createEmbed({
+      type: 'info',
+      title: 'Baro Ki\'Teer',
+      description: description,
+      fields: [
+        { 
+          name: 'Item', 
+          value: itemColumn || 'No items', 
+          inline: true 
+        },
+        { 
+          name: '<:OrokinDucats:1353350538921644053> Ducats', 
+          value: ducatsColumn || '0', 
+          inline: true 
+        },
+        { 
+          name: '<:Credits:1353350526086942801> Credits', 
+          value: creditColumn || '0', 
+          inline: true 
+        }
+      ],
+      footer: totalItemsAdded < inventoryItems.length ? 
+        `Showing ${totalItemsAdded} of ${inventoryItems.length} items (Discord limit reached)` : `Today at ${new Date().toLocaleTimeString()}`,
+      timestamp: true
+    });
+    
+    // Check if a specific channel was provided
+    const targetChannel = interaction.options.getChannel('channel');
+    
+    if (targetChannel && targetChannel instanceof TextChannel) {
+      // Send to the specified channel
+      logger.info(`Sending Baro inventory to channel: ${targetChannel.name}`);
+      await targetChannel.send({ embeds: [baroEmbed] });
       
-      const errorEmbed = createEmbed({
-        type: 'error',
-        title: 'Error',
-        description: 'Failed to fetch Baro Ki\'Teer\'s inventory. Please try again later.',
+      const successEmbed = createEmbed({
+        type: 'success',
+        title: 'Baro Ki\'Teer',
+        description: `Inventory has been sent to ${targetChannel}`,
         timestamp: true
       });
       
-      await interaction.editReply({ embeds: [errorEmbed] });
+      await interaction.editReply({ embeds: [successEmbed] });
+      return;
+    } else {
+      // Reply to the command directly
+      logger.info(`Sending Baro inventory directly to command interaction`);
+      await interaction.editReply({ embeds: [baroEmbed] });
+      return;
+    }
+  } catch (error) {
+    logger.error('Error fetching Baro inventory:', error);
+    
+    const errorEmbed = createEmbed({
+      type: 'error',
+      title: 'Error',
+      description: 'Failed to fetch Baro Ki\'Teer\'s inventory. Please try again later.',
+      timestamp: true
+    });
+    
+    await interaction.editReply({ embeds: [errorEmbed] });
+    return;
+  }
+}
+
+// Command to fetch and display Baro Ki'Teer's inventory
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('baro')
+    .setDescription('Baro Ki\'Teer\'s inventory, visit history and wishlists')
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('current')
+        .setDescription('Displays Baro Ki\'Teer\'s current inventory')
+        .addChannelOption(option => 
+          option
+            .setName('channel')
+            .setDescription('The channel to send the Baro inventory to')
+            .setRequired(false)
+            .addChannelTypes(ChannelType.GuildText)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('history')
+        .setDescription('Show when Baro Ki\'Teer last brought an item')
+        .addStringOption(option =>
+          option.setName('item')
+            .setDescription('The item to look up')
+            .setRequired(true)
+            .setAutocomplete(true))
+    )
+    .addSubcommandGroup(group =>
+      group
+        .setName('wishlist')
+        .setDescription('Get a DM when Baro Ki\'Teer brings an item you want')
+        .addSubcommand(subcommand =>
+          subcommand
+            .setName('add')
+            .setDescription('Add an item to your wishlist')
+            .addStringOption(option =>
+              option.setName('item')
+                .setDescription('The item to watch for')
+                .setRequired(true)
+                .setMaxLength(255)
+                .setAutocomplete(true))
+        )
+        .addSubcommand(subcommand =>
+          subcommand
+            .setName('remove')
+            .setDescription('Remove an item from your wishlist')
+            .addStringOption(option =>
+              option.setName('item')
+                .setDescription('The item to remove')
+                .setRequired(true)
+                .setAutocomplete(true))
+        )
+        .addSubcommand(subcommand =>
+          subcommand
+            .setName('list')
+            .setDescription('List your wishlist')
+        )
+    ) as SlashCommandBuilder,
+  
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    if (interaction.options.getSubcommandGroup() === 'wishlist') {
+      await handleWishlist(interaction);
       return;
     }
+
+    if (interaction.options.getSubcommand() === 'history') {
+      await handleHistory(interaction);
+      return;
+    }
+
+    await handleCurrent(interaction);
+  },
+
+  async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    try {
+      const focusedValue = interaction.options.getFocused();
+
+      // Removing offers the user's own wishlist, everything else offers items Baro has sold
+      const itemNames: string[] = interaction.options.getSubcommandGroup(false) === 'wishlist' && interaction.options.getSubcommand() === 'remove'
+        ? (await pgdb.getBaroWishlistByUser(interaction.user.id))
+          .map(entry => entry.item_name)
+          .filter((name: string) => name.toLowerCase().includes(focusedValue.toLowerCase()))
+        : await pgdb.searchBaroItemNames(focusedValue);
+
+      const choices = itemNames
+        .slice(0, 25) // Discord limit
+        .map(name => ({ name, value: name }));
+
+      await interaction.respond(choices);
+    } catch (error) {
+      logger.error('Error in baro autocomplete:', error);
+      await interaction.respond([]);
+    }
   }
 };
 
-export = command; 
\ No newline at end of file
+export = command;
@@ -0,0 +1,158 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction } from 'discord.js';
+import { Command } from '../../types/discord';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { initializeDictionaries } from '../../utils/dictionaryLoader';
+import { BOUNTY_HUBS, Bounty, BountyHub, HubBounties, getHubBounties } from '../../services/bountyService';
+import { formatDropChance } from '../../services/relicService';
+
+// Discord limits embed field values to 1024 characters
+const MAX_FIELD_LENGTH = 1024;
+
+function formatLevels(bounty: Bounty): string {
+  const tags = [
+    bounty.endless ? 'Endless' : null,
+    bounty.isVault ? 'Vault' : null,
+    bounty.masteryReq > 0 ? `MR ${bounty.masteryReq}` : null
+  ].filter(Boolean);
+
+  return `Level ${bounty.minLevel}-${bounty.maxLevel}${tags.length > 0 ? ` • ${tags.join(' • ')}` : ''}`;
+}
+
+function totalStanding(bounty: Bounty): number {
+  return bounty.stages.reduce((total, stage) => total + stage.standing, 0);
+}
+
+// Keep as many lines as fit in a single embed field
+function fitField(lines: string[]): string {
+  let value = '';
+  for (const [index, line] of lines.entries()) {
+    const more = `\n...and ${lines.length - index} more`;
+    if (value.length + line.length + 1 + more.length > MAX_FIELD_LENGTH) {
+      return value + more;
+    }
+    value += (value ? '\n' : '') + line;
+  }
+  return value || 'None';
+}
+
+function createHubEmbed(data: HubBounties) {
+  const { location } = BOUNTY_HUBS[data.hub];
+
+  return createEmbed({
+    type: 'info',
+    title: `${data.syndicate} Bounties`,
+    description: `Current ${location} bounties, rotating <t:${data.expiry}:R> (<t:${data.expiry}:t>).`,
+    thumbnail: data.icon || undefined,
+    fields: data.bounties.map((bounty, index) => ({
+      name: `${index + 1}. ${bounty.name}`,
+      value: `${formatLevels(bounty)}\n${bounty.stages.length} stages • ${totalStanding(bounty).toLocaleString()} standing`,
+      inline: false
+    })),
+    footer: 'Use the bounty option to see stages and reward tables',
+    timestamp: true
+  });
+}
+
+function createBountyEmbed(data: HubBounties, index: number) {
+  const bounty = data.bounties[index];
+
+  const stages = bounty.stages.map((stage, stageIndex) =>
+    `**${stageIndex + 1}.** ${stage.objectives.length > 0 ? stage.objectives.join(' / ') : 'Objective'} - ${stage.standing.toLocaleString()} standing`
+  );
+
+  const fields = [
+    { name: 'Stages', value: fitField(stages), inline: false },
+    ...bounty.rotations.map(rotation => ({
+      name: `Rotation ${rotation.rotation}`,
+      value: fitField(rotation.rewards.map(reward =>
+        `${reward.item}${reward.count > 1 ? ` x${reward.count.toLocaleString()}` : ''} - ${formatDropChance(reward.chance)}`
+      )),
+      inline: true
+    }))
+  ];
+
+  return createEmbed({
+    type: 'info',
+    title: `${index + 1}. ${bounty.name}`,
+    description: `${data.syndicate} • ${formatLevels(bounty)}\nRotates <t:${data.expiry}:R>`,
+    thumbnail: data.icon || undefined,
+    fields,
+    timestamp: true
+  });
+}
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('bounties')
+    .setDescription('Shows the current open world bounties and their reward tables')
+    .addStringOption(option =>
+      option.setName('hub')
+        .setDescription('Which syndicate\'s bounties to show')
+        .setRequired(true)
+        .addChoices(
+          { name: 'Ostron (Cetus)', value: 'ostron' },
+          { name: 'Solaris United (Fortuna)', value: 'solaris' },
+          { name: 'Entrati (Necralisk)', value: 'entrati' },
+          { name: 'The Holdfasts (Zariman)', value: 'zariman' }
+        ))
+    .addIntegerOption(option =>
+      option.setName('bounty')
+        .setDescription('Number of a bounty from the list to show its stages and rewards')
+        .setRequired(false)
+        .setMinValue(1)
+        .setMaxValue(10)) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+
+    try {
+      await initializeDictionaries();
+
+      const hub = interaction.options.getString('hub', true) as BountyHub;
+      const bountyNumber = interaction.options.getInteger('bounty');
+      const data = await getHubBounties(hub);
+
+      if (!data) {
+        const embed = createEmbed({
+          type: 'warning',
+          title: 'Bounties',
+          description: `There are no ${BOUNTY_HUBS[hub].location} bounties in the world state right now.`,
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [embed] });
+        return;
+      }
+
+      if (bountyNumber === null) {
+        await interaction.editReply({ embeds: [createHubEmbed(data)] });
+        return;
+      }
+
+      if (bountyNumber > data.bounties.length) {
+        const errorEmbed = createEmbed({
+          type: 'error',
+          title: 'Bounty Not Found',
+          description: `${data.syndicate} only has ${data.bounties.length} bounties right now.`,
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [errorEmbed] });
+        return;
+      }
+
+      await interaction.editReply({ embeds: [createBountyEmbed(data, bountyNumber - 1)] });
+    } catch (error) {
+      logger.error('Error fetching bounties:', error);
+
+      const errorEmbed = createEmbed({
+        type: 'error',
+        title: 'Error',
+        description: 'Failed to retrieve bounties. Please try again later.',
+        timestamp: true
+      });
+      await interaction.editReply({ embeds: [errorEmbed] });
+    }
+  }
+};
+
+export = command;
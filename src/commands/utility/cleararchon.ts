@@ -0,0 +1,64 @@
+import { 
+  SlashCommandBuilder, 
+  ChatInputCommandInteraction,
+  PermissionFlagsBits
+} from 'discord.js';
+import { Command } from '../../types/discord';
+import { pgdb } from '../../services/postgresDatabase';
+import { logger } from '../../utils/logger';
+import { createEmbed } from '../../utils/embedBuilder';
+
+// Command definition
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('cleararchon')
+    .setDescription('Remove the weekly Archon Hunt feed from this server')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .setDMPermission(false) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+    
+    try {
+      const guildId = interaction.guildId;
+      
+      if (!guildId) {
+        await interaction.editReply('This command can only be used in a server.');
+        return;
+      }
+      
+      const existingConfig = await pgdb.getArchonNotificationByGuild(guildId);
+      
+      if (!existingConfig) {
+        const errorEmbed = createEmbed({
+          type: 'error',
+          title: 'No Archon Hunt Feed Found',
+          description: 'This server has no active Archon Hunt feed to remove.',
+          timestamp: true
+        });
+        
+        await interaction.editReply({ embeds: [errorEmbed] });
+        return;
+      }
+      
+      await pgdb.removeArchonNotification(guildId);
+      logger.info(`Removed Archon Hunt feed for guild ${guildId}`);
+      
+      const successEmbed = createEmbed({
+        type: 'success',
+        title: 'Archon Hunt Feed Cleared',
+        description: `The Archon Hunt feed in <#${existingConfig.channel_id}> will no longer be updated.`,
+        timestamp: true
+      });
+      
+      await interaction.editReply({ embeds: [successEmbed] });
+      
+    } catch (error) {
+      logger.error('Error in cleararchon command:', error);
+      await interaction.editReply('An error occurred while clearing the Archon Hunt feed. Please try again later.');
+    }
+  }
+};
+
+// Export the command in the format expected by the command loader
+export = command;
@@ -0,0 +1,74 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  PermissionFlagsBits
+} from 'discord.js';
+import { Command } from '../../types/discord';
+import { pgdb } from '../../services/postgresDatabase';
+import { logger } from '../../utils/logger';
+import { createEmbed } from '../../utils/embedBuilder';
+
+// Command definition
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('clearcycles')
+    .setDescription('Remove the open world cycle timer and all cycle alerts from this server')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .setDMPermission(false) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+
+    try {
+      const guildId = interaction.guildId;
+
+      if (!guildId) {
+        await interaction.editReply('This command can only be used in a server.');
+        return;
+      }
+
+      const existingConfig = await pgdb.getCycleNotificationByGuild(guildId);
+      const alerts = await pgdb.getCycleAlertsByGuild(guildId);
+
+      if (!existingConfig && alerts.length === 0) {
+        const errorEmbed = createEmbed({
+          type: 'error',
+          title: 'No Cycle Feed Found',
+          description: 'This server has no cycle timer or cycle alerts to remove.',
+          timestamp: true
+        });
+
+        await interaction.editReply({ embeds: [errorEmbed] });
+        return;
+      }
+
+      await pgdb.removeCycleNotification(guildId);
+      await pgdb.removeCycleAlerts(guildId);
+      logger.info(`Removed cycle feed and ${alerts.length} cycle alerts for guild ${guildId}`);
+
+      const removed: string[] = [];
+      if (existingConfig) {
+        removed.push(`The cycle timer in <#${existingConfig.channel_id}> will no longer be updated.`);
+      }
+      if (alerts.length > 0) {
+        removed.push(`Removed ${alerts.length} cycle alert${alerts.length === 1 ? '' : 's'}.`);
+      }
+
+      const successEmbed = createEmbed({
+        type: 'success',
+        title: 'Cycle Feed Cleared',
+        description: removed.join('\n'),
+        timestamp: true
+      });
+
+      await interaction.editReply({ embeds: [successEmbed] });
+
+    } catch (error) {
+      logger.error('Error in clearcycles command:', error);
+      await interaction.editReply('An error occurred while clearing the cycle feed. Please try again later.');
+    }
+  }
+};
+
+// Export the command in the format expected by the command loader
+export = command;
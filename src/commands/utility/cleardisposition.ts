@@ -0,0 +1,64 @@
+import { 
+  SlashCommandBuilder, 
+  ChatInputCommandInteraction,
+  PermissionFlagsBits
+} from 'discord.js';
+import { Command } from '../../types/discord';
+import { pgdb } from '../../services/postgresDatabase';
+import { logger } from '../../utils/logger';
+import { createEmbed } from '../../utils/embedBuilder';
+
+// Command definition
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('cleardisposition')
+    .setDescription('Stop posting riven disposition changes in this server')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .setDMPermission(false) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+    
+    try {
+      const guildId = interaction.guildId;
+      
+      if (!guildId) {
+        await interaction.editReply('This command can only be used in a server.');
+        return;
+      }
+      
+      const existingConfig = await pgdb.getDispositionNotificationByGuild(guildId);
+      
+      if (!existingConfig) {
+        const errorEmbed = createEmbed({
+          type: 'error',
+          title: 'No Disposition Digest Found',
+          description: 'This server has no disposition changes digest to remove.',
+          timestamp: true
+        });
+        
+        await interaction.editReply({ embeds: [errorEmbed] });
+        return;
+      }
+      
+      await pgdb.removeDispositionNotification(guildId);
+      logger.info(`Removed disposition digest for guild ${guildId}`);
+      
+      const successEmbed = createEmbed({
+        type: 'success',
+        title: 'Disposition Digest Cleared',
+        description: `Disposition changes will no longer be posted in <#${existingConfig.channel_id}>.`,
+        timestamp: true
+      });
+      
+      await interaction.editReply({ embeds: [successEmbed] });
+      
+    } catch (error) {
+      logger.error('Error in cleardisposition command:', error);
+      await interaction.editReply('An error occurred while clearing the disposition digest. Please try again later.');
+    }
+  }
+};
+
+// Export the command in the format expected by the command loader
+export = command;
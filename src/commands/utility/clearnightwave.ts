@@ -0,0 +1,64 @@
+import { 
+  SlashCommandBuilder, 
+  ChatInputCommandInteraction,
+  PermissionFlagsBits
+} from 'discord.js';
+import { Command } from '../../types/discord';
+import { pgdb } from '../../services/postgresDatabase';
+import { logger } from '../../utils/logger';
+import { createEmbed } from '../../utils/embedBuilder';
+
+// Command definition
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('clearnightwave')
+    .setDescription('Remove the Nightwave acts feed from this server')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .setDMPermission(false) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+    
+    try {
+      const guildId = interaction.guildId;
+      
+      if (!guildId) {
+        await interaction.editReply('This command can only be used in a server.');
+        return;
+      }
+      
+      const existingConfig = await pgdb.getNightwaveNotificationByGuild(guildId);
+      
+      if (!existingConfig) {
+        const errorEmbed = createEmbed({
+          type: 'error',
+          title: 'No Nightwave Feed Found',
+          description: 'This server has no active Nightwave feed to remove.',
+          timestamp: true
+        });
+        
+        await interaction.editReply({ embeds: [errorEmbed] });
+        return;
+      }
+      
+      await pgdb.removeNightwaveNotification(guildId);
+      logger.info(`Removed Nightwave feed for guild ${guildId}`);
+      
+      const successEmbed = createEmbed({
+        type: 'success',
+        title: 'Nightwave Feed Cleared',
+        description: `The Nightwave feed in <#${existingConfig.channel_id}> will no longer be updated.`,
+        timestamp: true
+      });
+      
+      await interaction.editReply({ embeds: [successEmbed] });
+      
+    } catch (error) {
+      logger.error('Error in clearnightwave command:', error);
+      await interaction.editReply('An error occurred while clearing the Nightwave feed. Please try again later.');
+    }
+  }
+};
+
+// Export the command in the format expected by the command loader
+export = command;
@@ -0,0 +1,64 @@
+import { 
+  SlashCommandBuilder, 
+  ChatInputCommandInteraction,
+  PermissionFlagsBits
+} from 'discord.js';
+import { Command } from '../../types/discord';
+import { pgdb } from '../../services/postgresDatabase';
+import { logger } from '../../utils/logger';
+import { createEmbed } from '../../utils/embedBuilder';
+
+// Command definition
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('clearteshin')
+    .setDescription('Remove the Teshin Steel Path Honors feed from this server')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .setDMPermission(false) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+    
+    try {
+      const guildId = interaction.guildId;
+      
+      if (!guildId) {
+        await interaction.editReply('This command can only be used in a server.');
+        return;
+      }
+      
+      const existingConfig = await pgdb.getTeshinNotificationByGuild(guildId);
+      
+      if (!existingConfig) {
+        const errorEmbed = createEmbed({
+          type: 'error',
+          title: 'No Teshin Feed Found',
+          description: 'This server has no active Teshin feed to remove.',
+          timestamp: true
+        });
+        
+        await interaction.editReply({ embeds: [errorEmbed] });
+        return;
+      }
+      
+      await pgdb.removeTeshinNotification(guildId);
+      logger.info(`Removed Teshin feed for guild ${guildId}`);
+      
+      const successEmbed = createEmbed({
+        type: 'success',
+        title: 'Teshin Feed Cleared',
+        description: `The Teshin feed in <#${existingConfig.channel_id}> will no longer be updated.`,
+        timestamp: true
+      });
+      
+      await interaction.editReply({ embeds: [successEmbed] });
+      
+    } catch (error) {
+      logger.error('Error in clearteshin command:', error);
+      await interaction.editReply('An error occurred while clearing the Teshin feed. Please try again later.');
+    }
+  }
+};
+
+// Export the command in the format expected by the command loader
+export = command;
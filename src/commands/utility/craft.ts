@@ -0,0 +1,128 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction } from 'discord.js';
+import { Command } from '../../types/discord';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { initializeDictionaries } from '../../utils/dictionaryLoader';
+import {
+  CraftingComponent,
+  CraftingTree,
+  formatBuildTime,
+  getCraftingTree,
+  searchCraftableItems
+} from '../../services/recipeService';
+
+// Most raw resources listed in the totals field
+const MAX_RESOURCES = 15;
+
+function formatCredits(credits: number): string {
+  return `${credits.toLocaleString('en-US')} cr`;
+}
+
+// One line per ingredient, sub-recipes indented below the component they build
+function formatIngredients(ingredients: CraftingComponent[], depth = 0): string[] {
+  const indent = ' '.repeat(depth);
+
+  return ingredients.flatMap(ingredient => {
+    const count = ingredient.count > 1 ? ` x${ingredient.count.toLocaleString('en-US')}` : '';
+
+    if (!ingredient.recipe) {
+      return [`${indent}• ${ingredient.item}${count}`];
+    }
+
+    const cost = `${formatCredits(ingredient.recipe.credits)}, ${formatBuildTime(ingredient.recipe.buildTime)}`;
+    return [
+      `${indent}• **${ingredient.item}**${count} (${cost})`,
+      ...formatIngredients(ingredient.recipe.ingredients, depth + 1)
+    ];
+  });
+}
+
+function createCraftEmbed(tree: CraftingTree) {
+  const resources = tree.resources.slice(0, MAX_RESOURCES)
+    .map(resource => `${resource.item}: ${resource.count.toLocaleString('en-US')}`);
+  if (tree.resources.length > MAX_RESOURCES) {
+    resources.push(`...and ${tree.resources.length - MAX_RESOURCES} more`);
+  }
+
+  const details = [
+    tree.category,
+    `Blueprint: ${formatCredits(tree.recipe.credits)}, ${formatBuildTime(tree.recipe.buildTime)}`
+  ];
+  if (tree.recipe.num > 1) {
+    details.push(`Makes ${tree.recipe.num}`);
+  }
+
+  return createEmbed({
+    type: 'info',
+    title: `Crafting ${tree.name}`,
+    description: `${details.join(' • ')}\n\n${formatIngredients(tree.recipe.ingredients).join('\n')}`.slice(0, 4096),
+    thumbnail: tree.icon || undefined,
+    fields: [
+      { name: 'Total Resources', value: resources.join('\n') || 'None', inline: true },
+      {
+        name: 'Total Cost',
+        value: `${formatCredits(tree.totalCredits)}\n${formatBuildTime(tree.totalBuildTime)} build time`,
+        inline: true
+      }
+    ],
+    footer: 'Totals craft every component from scratch, building components side by side',
+    timestamp: true
+  });
+}
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('craft')
+    .setDescription('Show the full crafting recipe of an item')
+    .addStringOption(option =>
+      option.setName('item')
+        .setDescription('Item name, e.g. Excalibur or Braton Prime')
+        .setRequired(true)
+        .setAutocomplete(true)) as SlashCommandBuilder,
+
+  autocompleteOptions: { item: 'craftable' },
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+
+    try {
+      await initializeDictionaries();
+
+      const query = interaction.options.getString('item', true);
+      let tree = getCraftingTree(query);
+
+      // Fall back to the closest item name when the input isn't an exact match
+      if (!tree) {
+        const [closest] = searchCraftableItems(query, 1);
+        if (closest) {
+          tree = getCraftingTree(closest.name);
+        }
+      }
+
+      if (!tree) {
+        const errorEmbed = createEmbed({
+          type: 'error',
+          title: 'Item Not Found',
+          description: `No recipe builds an item matching **${query}**.`,
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [errorEmbed] });
+        return;
+      }
+
+      await interaction.editReply({ embeds: [createCraftEmbed(tree)] });
+    } catch (error) {
+      logger.error('Error in craft command:', error);
+
+      const errorEmbed = createEmbed({
+        type: 'error',
+        title: 'Error',
+        description: 'Failed to look up recipe data. Please try again later.',
+        timestamp: true
+      });
+      await interaction.editReply({ embeds: [errorEmbed] });
+    }
+  }
+};
+
+export = command;
@@ -0,0 +1,228 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  AutocompleteInteraction,
+  ChannelType,
+  PermissionFlagsBits
+} from 'discord.js';
+import { Command } from '../../types/discord';
+import { pgdb } from '../../services/postgresDatabase';
+import { logger } from '../../utils/logger';
+import { createEmbed } from '../../utils/embedBuilder';
+import { CYCLES, getCycleDefinition, getMaxAlertMinutes, startCycleService } from '../../services/cycleService';
+
+// Highest lead time the option accepts, each state is limited further by the phase before it
+const MAX_MINUTES_BEFORE = 60;
+
+// Describe an alert for lists and confirmations
+function describeAlert(alert: { cycle: string; state: string; minutes_before: number; role_id: string; channel_id: string }): string {
+  const definition = getCycleDefinition(alert.cycle);
+  const phase = definition?.phases.find(p => p.id === alert.state);
+  return `${definition?.emoji ?? ''} **${phase?.name ?? alert.state}** on **${definition?.name ?? alert.cycle}** - ` +
+    `<@&${alert.role_id}> in <#${alert.channel_id}>, ${alert.minutes_before} minute${alert.minutes_before === 1 ? '' : 's'} before`;
+}
+
+// Command definition
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('cyclealert')
+    .setDescription('Ping a role shortly before an open world cycle changes state')
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('add')
+        .setDescription('Add a cycle alert, e.g. 5 minutes before night on the Plains of Eidolon')
+        .addStringOption(option =>
+          option.setName('cycle')
+            .setDescription('The open world to watch')
+            .setRequired(true)
+            .addChoices(...CYCLES.map(cycle => ({ name: cycle.name, value: cycle.id }))))
+        .addStringOption(option =>
+          option.setName('state')
+            .setDescription('The state to be alerted about (e.g. night, cold, vome)')
+            .setRequired(true)
+            .setAutocomplete(true))
+        .addRoleOption(option =>
+          option.setName('ping_role')
+            .setDescription('Role to ping before the transition')
+            .setRequired(true))
+        .addIntegerOption(option =>
+          option.setName('minutes')
+            .setDescription('How many minutes before the transition to ping (default 5)')
+            .setRequired(false)
+            .setMinValue(1)
+            .setMaxValue(MAX_MINUTES_BEFORE))
+        .addChannelOption(option =>
+          option.setName('channel')
+            .setDescription('Channel to send the alert to (defaults to this channel)')
+            .setRequired(false)
+            .addChannelTypes(ChannelType.GuildText))
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('remove')
+        .setDescription('Remove a cycle alert')
+        .addStringOption(option =>
+          option.setName('alert')
+            .setDescription('The alert to remove')
+            .setRequired(true)
+            .setAutocomplete(true))
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('list')
+        .setDescription('List the cycle alerts configured in this server')
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .setDMPermission(false) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+
+    try {
+      const guildId = interaction.guildId;
+
+      if (!guildId) {
+        await interaction.editReply('This command can only be used in a server.');
+        return;
+      }
+
+      const subcommand = interaction.options.getSubcommand();
+
+      if (subcommand === 'add') {
+        const cycleId = interaction.options.getString('cycle', true);
+        const state = interaction.options.getString('state', true).toLowerCase();
+        const pingRole = interaction.options.getRole('ping_role', true);
+        const minutes = interaction.options.getInteger('minutes') ?? 5;
+        const channel = interaction.options.getChannel('channel') ?? interaction.channel;
+
+        const definition = getCycleDefinition(cycleId);
+        if (!definition || !definition.phases.some(phase => phase.id === state)) {
+          const errorEmbed = createEmbed({
+            type: 'error',
+            title: 'Invalid State',
+            description: `Valid states for ${definition?.name ?? cycleId} are: ${definition?.phases.map(phase => `\`${phase.id}\``).join(', ') ?? 'none'}.`,
+            timestamp: true
+          });
+          await interaction.editReply({ embeds: [errorEmbed] });
+          return;
+        }
+
+        // A lead time longer than the phase before the state would alert right after the previous transition
+        const maxMinutes = getMaxAlertMinutes(cycleId, state);
+        if (minutes > maxMinutes) {
+          const phase = definition.phases.find(p => p.id === state);
+          const errorEmbed = createEmbed({
+            type: 'error',
+            title: 'Lead Time Too Long',
+            description: `The phase before **${phase.name}** on **${definition.name}** lasts ${maxMinutes} minute${maxMinutes === 1 ? '' : 's'}, so this alert can be at most ${maxMinutes} minute${maxMinutes === 1 ? '' : 's'} before it.`,
+            timestamp: true
+          });
+          await interaction.editReply({ embeds: [errorEmbed] });
+          return;
+        }
+
+        const alert = await pgdb.addCycleAlert(guildId, channel.id, pingRole.id, cycleId, state, minutes);
+        logger.info(`Added ${cycleId} ${state} cycle alert for guild ${guildId} in channel ${channel.id}`);
+
+        // Make sure the service is running so the alert fires
+        startCycleService(interaction.client);
+
+        const successEmbed = createEmbed({
+          type: 'success',
+          title: 'Cycle Alert Added',
+          description: describeAlert(alert),
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [successEmbed] });
+      } else if (subcommand === 'remove') {
+        const alertId = interaction.options.getString('alert', true);
+        const removed = await pgdb.removeCycleAlert(guildId, alertId);
+
+        const embed = removed
+          ? createEmbed({
+            type: 'success',
+            title: 'Cycle Alert Removed',
+            description: 'The cycle alert has been removed.',
+            timestamp: true
+          })
+          : createEmbed({
+            type: 'error',
+            title: 'Cycle Alert Not Found',
+            description: 'No matching cycle alert was found in this server.',
+            timestamp: true
+          });
+
+        if (removed) {
+          logger.info(`Removed cycle alert ${alertId} for guild ${guildId}`);
+        }
+        await interaction.editReply({ embeds: [embed] });
+      } else if (subcommand === 'list') {
+        const alerts = await pgdb.getCycleAlertsByGuild(guildId);
+
+        const embed = createEmbed({
+          type: 'info',
+          title: 'Cycle Alerts',
+          description: alerts.length > 0
+            ? alerts.map(describeAlert).join('\n').slice(0, 4096)
+            : 'No cycle alerts are configured. Use `/cyclealert add` to create one.',
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [embed] });
+      }
+    } catch (error) {
+      logger.error('Error in cyclealert command:', error);
+      await interaction.editReply('An error occurred while managing cycle alerts. Please try again later.');
+    }
+  },
+
+  async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    try {
+      const focused = interaction.options.getFocused(true);
+      const focusedValue = focused.value.toLowerCase();
+
+      if (focused.name === 'state') {
+        // Offer the states of the selected cycle, or every state if none is selected yet
+        const cycleId = interaction.options.getString('cycle');
+        const cycles = cycleId ? CYCLES.filter(cycle => cycle.id === cycleId) : CYCLES;
+
+        const choices = cycles
+          .flatMap(cycle => cycle.phases.map(phase => ({
+            name: cycleId ? phase.name : `${phase.name} (${cycle.name})`,
+            value: phase.id
+          })))
+          .filter(choice => choice.name.toLowerCase().includes(focusedValue))
+          .slice(0, 25); // Discord limit
+
+        await interaction.respond(choices);
+        return;
+      }
+
+      if (focused.name === 'alert' && interaction.guildId) {
+        const alerts = await pgdb.getCycleAlertsByGuild(interaction.guildId);
+
+        const choices = alerts
+          .map(alert => {
+            const definition = getCycleDefinition(alert.cycle);
+            const phase = definition?.phases.find(p => p.id === alert.state);
+            return {
+              name: `${phase?.name ?? alert.state} on ${definition?.name ?? alert.cycle}, ${alert.minutes_before} min before`,
+              value: alert.id
+            };
+          })
+          .filter(choice => choice.name.toLowerCase().includes(focusedValue))
+          .slice(0, 25); // Discord limit
+
+        await interaction.respond(choices);
+        return;
+      }
+
+      await interaction.respond([]);
+    } catch (error) {
+      logger.error('Error in cyclealert autocomplete:', error);
+      await interaction.respond([]);
+    }
+  }
+};
+
+// Export the command in the format expected by the command loader
+export = command;
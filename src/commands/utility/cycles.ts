@@ -0,0 +1,32 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction } from 'discord.js';
+import { Command } from '../../types/discord';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { fetchCycleStatuses, createCyclesEmbed } from '../../services/cycleService';
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('cycles')
+    .setDescription('Displays the current day/night cycles of Cetus, Orb Vallis, Cambion Drift and Duviri.'),
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+
+    try {
+      const statuses = await fetchCycleStatuses();
+      await interaction.editReply({ embeds: [createCyclesEmbed(statuses)] });
+    } catch (error) {
+      logger.error('Error fetching open world cycles:', error);
+
+      const errorEmbed = createEmbed({
+        type: 'error',
+        title: 'Error',
+        description: 'Failed to retrieve open world cycles. Please try again later.',
+        timestamp: true
+      });
+      await interaction.editReply({ embeds: [errorEmbed] });
+    }
+  }
+};
+
+export = command;
@@ -0,0 +1,87 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction } from 'discord.js';
+import { Command } from '../../types/discord';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { pgdb } from '../../services/postgresDatabase';
+import { findWeapon, formatDisposition, formatRivenType } from '../../utils/rivenEngine';
+import { DispositionChange, getDispositionHistory } from '../../services/dispositionService';
+
+function toUnix(date: Date | string): number {
+  return Math.floor(new Date(date).getTime() / 1000);
+}
+
+// e.g. "<t:...:d> 0.70x ●●○○○ → 0.75x ●●○○○ (+7%)"
+function formatHistoryLine(change: DispositionChange): string {
+  if (change.old_disposition === null) {
+    return `<t:${toUnix(change.created_at)}:d> Added at ${formatDisposition(change.new_disposition)}`;
+  }
+  const percent = Math.round((change.new_disposition / change.old_disposition - 1) * 100);
+  return `<t:${toUnix(change.created_at)}:d> ${formatDisposition(change.old_disposition)} → ${formatDisposition(change.new_disposition)} (${percent > 0 ? '+' : ''}${percent}%)`;
+}
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('disposition')
+    .setDescription('Show the riven disposition of a weapon and how it changed over time')
+    .addStringOption(option =>
+      option.setName('weapon')
+        .setDescription('The weapon name')
+        .setRequired(true)
+        .setAutocomplete(true)) as SlashCommandBuilder,
+
+  autocompleteOptions: { weapon: 'weapon' },
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+
+    try {
+      const weaponName = interaction.options.getString('weapon', true);
+      const weapon = findWeapon(weaponName);
+
+      if (!weapon) {
+        await interaction.editReply({ embeds: [createEmbed({
+          type: 'error',
+          title: 'Weapon Not Found',
+          description: `Could not find weapon: ${weaponName}`,
+          timestamp: true
+        })] });
+        return;
+      }
+
+      const [history, trackedSince] = await Promise.all([
+        getDispositionHistory(weapon.name),
+        pgdb.getDispositionTrackingStart()
+      ]);
+
+      let historyText: string;
+      if (history.length > 0) {
+        historyText = history.map(formatHistoryLine).join('\n');
+      } else if (trackedSince) {
+        historyText = `No changes since tracking started <t:${toUnix(trackedSince)}:D>`;
+      } else {
+        historyText = 'No disposition history has been recorded yet';
+      }
+
+      await interaction.editReply({ embeds: [createEmbed({
+        type: 'info',
+        title: `${weapon.displayName} Disposition`,
+        description: `**${formatDisposition(weapon.omegaAttenuation)}**\nRiven type: ${formatRivenType(weapon.rivenType)}`,
+        fields: [
+          { name: 'History', value: historyText, inline: false }
+        ],
+        footer: 'Dispositions are checked whenever the game data updates',
+        timestamp: true
+      })] });
+    } catch (error) {
+      logger.error('Error executing disposition command:', error);
+      await interaction.editReply({ embeds: [createEmbed({
+        type: 'error',
+        title: 'Error',
+        description: 'An error occurred while looking up the disposition. Please try again later.',
+        timestamp: true
+      })] });
+    }
+  }
+};
+
+export = command;
@@ -1,8 +1,22 @@
-import { SlashCommandBuilder, ChatInputCommandInteraction } from 'discord.js';
+import { SlashCommandBuilder, ChatInputCommandInteraction, AutocompleteInteraction } from 'discord.js';
 import { Command } from '../../types/discord';
 import { createEmbed } from '../../utils/embedBuilder';
 import { ActiveMission, getExpiryTimestamp } from '../../types/warframe';
-import axios from 'axios';
+import { getWorldState, getFissureMissions, getWorldStateTime } from '../../services/worldStateService';
+import { pgdb } from '../../services/postgresDatabase';
+import { FissureSubscription, describeSubscription } from '../../services/fissureSubscriptionService';
+import {
+  FISSURE_FACTIONS,
+  FissureDetails,
+  OMNIA_TIER,
+  VOID_TIER_MAP,
+  compareMissionSpeed,
+  fetchFissures,
+  getFissureDetails,
+  getMissionSpeed
+} from '../../services/fissureService';
+import { RelicDropSource, RELIC_ERAS, getRelicsDropping, searchRelicRewards } from '../../services/relicService';
+import { initializeDictionaries } from '../../utils/dictionaryLoader';
 import { logger } from '../../utils/logger';
 import path from 'path';
 import fs from 'fs';
@@ -23,20 +37,6 @@ interface RegionInfo {
 
 // ActiveMission interface is now imported from shared types
 
-interface ApiResponse {
-  ActiveMissions: ActiveMission[];
-}
-
-// Mapping for Void Fissure Tiers to Relic Names
-const VOID_TIER_MAP: Record<string, string> = {
-  'VoidT1': 'Lith',
-  'VoidT2': 'Meso',
-  'VoidT3': 'Neo',
-  'VoidT4': 'Axi',
-  'VoidT5': 'Requiem',
-  'VoidT6': 'Omnia'
-};
-
 // Load dictionaries and data from the required files
 async function loadData() {
   const regionsPath = path.join(process.cwd(), 'dict', 'ExportRegions.json');
@@ -51,6 +51,28 @@ async function loadData() {
   return { regionsData, relicsData, langDict };
 }
 
+// Mission types commonly available as fissures
+const MISSION_TYPES = [
+  'Survival',
+  'Defense',
+  'Exterminate',
+  'Capture',
+  'Rescue',
+  'Sabotage',
+  'Mobile Defense',
+  'Spy',
+  'Interception',
+  'Excavation',
+  'Disruption',
+  'Alchemy',
+  'Void Cascade',
+  'Void Flood',
+  'Void Armageddon'
+];
+
+// Faction choices, the same names /setfissure accepts
+const FACTIONS = Object.keys(FISSURE_FACTIONS).map(faction => ({ name: faction, value: faction }));
+
 // Helper function to get relic tier name from modifier
 function getRelicTierFromModifier(modifier: string): string {
   return VOID_TIER_MAP[modifier] || 'Unknown';
@@ -59,139 +81,432 @@ function getRelicTierFromModifier(modifier: string): string {
 const command: Command = {
   data: new SlashCommandBuilder()
     .setName('fissure')
-    .setDescription('Displays active void fissure missions.'),
+    .setDescription('Void fissure missions and personal fissure alerts')
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('list')
+        .setDescription('Displays active void fissure missions')
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('crack')
+        .setDescription('Find open fissures where you can crack relics containing an item')
+        .addStringOption(option =>
+          option.setName('item')
+            .setDescription('Item name, e.g. Hydroid Prime Systems Blueprint')
+            .setRequired(true)
+            .setAutocomplete(true))
+    )
+    .addSubcommandGroup(group =>
+      group
+        .setName('subscribe')
+        .setDescription('Get a DM when a matching fissure appears')
+        .addSubcommand(subcommand =>
+          subcommand
+            .setName('add')
+            .setDescription('Subscribe to fissures matching these filters (leave a filter empty to match anything)')
+            .addStringOption(option =>
+              option.setName('mission_type')
+                .setDescription('Mission type')
+                .setRequired(false)
+                .addChoices(...MISSION_TYPES.map(type => ({ name: type, value: type }))))
+            .addStringOption(option =>
+              option.setName('tier')
+                .setDescription('Relic tier')
+                .setRequired(false)
+                .addChoices(...Object.values(VOID_TIER_MAP).map(tier => ({ name: tier, value: tier }))))
+            .addBooleanOption(option =>
+              option.setName('steel_path')
+                .setDescription('True for Steel Path only, false for normal only')
+                .setRequired(false))
+            .addStringOption(option =>
+              option.setName('node')
+                .setDescription('Specific node')
+                .setRequired(false)
+                .setAutocomplete(true))
+            .addStringOption(option =>
+              option.setName('faction')
+                .setDescription('Enemy faction')
+                .setRequired(false)
+                .addChoices(...FACTIONS))
+        )
+        .addSubcommand(subcommand =>
+          subcommand
+            .setName('remove')
+            .setDescription('Remove one of your fissure subscriptions')
+            .addStringOption(option =>
+              option.setName('subscription')
+                .setDescription('The subscription to remove')
+                .setRequired(true)
+                .setAutocomplete(true))
+        )
+        .addSubcommand(subcommand =>
+          subcommand
+            .setName('list')
+            .setDescription('List your fissure subscriptions')
+        )
+        .addSubcommand(subcommand =>
+          subcommand
+            .setName('resume')
+            .setDescription('Re-enable your subscriptions after they were paused because DMs were closed')
+        )
+    ) as SlashCommandBuilder,
+
+  autocompleteOptions: { item: 'relic_reward', node: 'node' },
 
   async execute(interaction: ChatInputCommandInteraction): Promise<void> {
-    await interaction.deferReply();
+    if (interaction.options.getSubcommandGroup() === 'subscribe') {
+      await handleSubscribe(interaction);
+      return;
+    }
+
+    if (interaction.options.getSubcommand() === 'crack') {
+      await handleCrack(interaction);
+      return;
+    }
+
+    await handleList(interaction);
+  },
 
+  async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
     try {
-      logger.info('Fetching current fissure missions...');
-      const response = await axios.get<ApiResponse>('https://oracle.browse.wf/worldState.json', {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'WardenPrimeBot/1.0.0'
-        }
-      });
+      const focused = interaction.options.getFocused(true);
+      const focusedValue = focused.value.toLowerCase();
+
+      if (focused.name === 'subscription') {
+        const subscriptions: FissureSubscription[] = await pgdb.getFissureSubscriptionsByUser(interaction.user.id);
 
-      const { ActiveMissions } = response.data;
+        const choices = subscriptions
+          .map(subscription => ({ name: describeSubscription(subscription).slice(0, 100), value: subscription.id }))
+          .filter(choice => choice.name.toLowerCase().includes(focusedValue))
+          .slice(0, 25); // Discord limit
 
-      if (!ActiveMissions || ActiveMissions.length === 0) {
-        throw new Error('No active missions found or incorrect format.');
+        await interaction.respond(choices);
+        return;
       }
 
-      // Filter only void fissure missions
-      const fissureMissions = ActiveMissions.filter(mission => mission.Modifier && mission.Modifier.startsWith('VoidT'));
+      await interaction.respond([]);
+    } catch (error) {
+      logger.error('Error in fissure autocomplete:', error);
+      await interaction.respond([]);
+    }
+  }
+};
 
-      if (fissureMissions.length === 0) {
-        throw new Error('No void fissure missions found.');
-      }
+// Show the active fissures
+async function handleList(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply();
 
-      let normalFissures: string[] = [];
-      let steelPathFissures: string[] = [];
+  try {
+    logger.info('Fetching current fissure missions...');
+    const worldState = await getWorldState();
 
-      // Load necessary data (regions, relics, and language dictionary)
-      const { regionsData, langDict } = await loadData();
+    const { ActiveMissions } = worldState;
 
-      // Group missions by relic tier
-      const missionsByTier: Record<string, { normal: ActiveMission[], steelPath: ActiveMission[] }> = {};
+    if (!ActiveMissions || ActiveMissions.length === 0) {
+      throw new Error('No active missions found or incorrect format.');
+    }
 
-      // Initialize mission categories for each tier
-      Object.keys(VOID_TIER_MAP).forEach(tier => {
-        missionsByTier[tier] = { normal: [], steelPath: [] };
-      });
+    // Filter only void fissure missions
+    const fissureMissions = getFissureMissions(worldState);
 
-      // Sort missions into tiers and difficulty
-      fissureMissions.forEach(mission => {
-        const tierKey = mission.Modifier;
-        if (!missionsByTier[tierKey]) {
-          missionsByTier[tierKey] = { normal: [], steelPath: [] };
-        }
+    if (fissureMissions.length === 0) {
+      throw new Error('No void fissure missions found.');
+    }
 
-        if (mission.Hard) {
-          missionsByTier[tierKey].steelPath.push(mission);
-        } else {
-          missionsByTier[tierKey].normal.push(mission);
-        }
-      });
+    let normalFissures: string[] = [];
+    let steelPathFissures: string[] = [];
+
+    // Load necessary data (regions, relics, and language dictionary)
+    const { regionsData, langDict } = await loadData();
+
+    // Group missions by relic tier
+    const missionsByTier: Record<string, { normal: ActiveMission[], steelPath: ActiveMission[] }> = {};
+
+    // Initialize mission categories for each tier
+    Object.keys(VOID_TIER_MAP).forEach(tier => {
+      missionsByTier[tier] = { normal: [], steelPath: [] };
+    });
+
+    // Sort missions into tiers and difficulty
+    fissureMissions.forEach(mission => {
+      const tierKey = mission.Modifier;
+      if (!missionsByTier[tierKey]) {
+        missionsByTier[tierKey] = { normal: [], steelPath: [] };
+      }
 
-      // Format missions for display
-      Object.entries(missionsByTier).forEach(([tierKey, missions]) => {
-        const relicTier = getRelicTierFromModifier(tierKey);
+      if (mission.Hard) {
+        missionsByTier[tierKey].steelPath.push(mission);
+      } else {
+        missionsByTier[tierKey].normal.push(mission);
+      }
+    });
+
+    // Format missions for display
+    Object.entries(missionsByTier).forEach(([tierKey, missions]) => {
+      const relicTier = getRelicTierFromModifier(tierKey);
+      
+      missions.normal.forEach(mission => {
+        const nodeInfo = regionsData[mission.Node];
+        const translatedNode = nodeInfo?.name ? (langDict[nodeInfo.name] || nodeInfo.name) : mission.Node;
+        const translatedMission = nodeInfo?.missionName ? (langDict[nodeInfo.missionName] || nodeInfo.missionName) : mission.MissionType;
         
-        missions.normal.forEach(mission => {
-          const nodeInfo = regionsData[mission.Node];
-          const translatedNode = nodeInfo?.name ? (langDict[nodeInfo.name] || nodeInfo.name) : mission.Node;
-          const translatedMission = nodeInfo?.missionName ? (langDict[nodeInfo.missionName] || nodeInfo.missionName) : mission.MissionType;
-          
-          const expiryDate = new Date(getExpiryTimestamp(mission));
-          const timeLeft = Math.floor((expiryDate.getTime() - Date.now()) / 1000);
-          
-          normalFissures.push(`**${relicTier}** - ${translatedMission} - ${translatedNode} (<t:${Math.floor(expiryDate.getTime() / 1000)}:R>)`);
-        });
+        const expiryDate = new Date(getExpiryTimestamp(mission));
+        const timeLeft = Math.floor((expiryDate.getTime() - Date.now()) / 1000);
         
-        missions.steelPath.forEach(mission => {
-          const nodeInfo = regionsData[mission.Node];
-          const translatedNode = nodeInfo?.name ? (langDict[nodeInfo.name] || nodeInfo.name) : mission.Node;
-          const translatedMission = nodeInfo?.missionName ? (langDict[nodeInfo.missionName] || nodeInfo.missionName) : mission.MissionType;
-          
-          const expiryDate = new Date(getExpiryTimestamp(mission));
-          const timeLeft = Math.floor((expiryDate.getTime() - Date.now()) / 1000);
-          
-          steelPathFissures.push(`**${relicTier}** - ${translatedMission} - ${translatedNode} (<t:${Math.floor(expiryDate.getTime() / 1000)}:R>)`);
-        });
+        normalFissures.push(`**${relicTier}** - ${translatedMission} - ${translatedNode} (<t:${Math.floor(expiryDate.getTime() / 1000)}:R>)`);
       });
-
-      // Sort fissures by tier
-      const sortOrder = ['Lith', 'Meso', 'Neo', 'Axi', 'Requiem', 'Omnia'];
       
-      normalFissures.sort((a, b) => {
-        const tierA = sortOrder.findIndex(tier => a.includes(tier));
-        const tierB = sortOrder.findIndex(tier => b.includes(tier));
-        return tierA - tierB;
+      missions.steelPath.forEach(mission => {
+        const nodeInfo = regionsData[mission.Node];
+        const translatedNode = nodeInfo?.name ? (langDict[nodeInfo.name] || nodeInfo.name) : mission.Node;
+        const translatedMission = nodeInfo?.missionName ? (langDict[nodeInfo.missionName] || nodeInfo.missionName) : mission.MissionType;
+        
+        const expiryDate = new Date(getExpiryTimestamp(mission));
+        const timeLeft = Math.floor((expiryDate.getTime() - Date.now()) / 1000);
+        
+        steelPathFissures.push(`**${relicTier}** - ${translatedMission} - ${translatedNode} (<t:${Math.floor(expiryDate.getTime() / 1000)}:R>)`);
       });
-      
-      steelPathFissures.sort((a, b) => {
-        const tierA = sortOrder.findIndex(tier => a.includes(tier));
-        const tierB = sortOrder.findIndex(tier => b.includes(tier));
-        return tierA - tierB;
+    });
+
+    // Sort fissures by tier
+    const sortOrder = ['Lith', 'Meso', 'Neo', 'Axi', 'Requiem', 'Omnia'];
+    
+    normalFissures.sort((a, b) => {
+      const tierA = sortOrder.findIndex(tier => a.includes(tier));
+      const tierB = sortOrder.findIndex(tier => b.includes(tier));
+      return tierA - tierB;
+    });
+    
+    steelPathFissures.sort((a, b) => {
+      const tierA = sortOrder.findIndex(tier => a.includes(tier));
+      const tierB = sortOrder.findIndex(tier => b.includes(tier));
+      return tierA - tierB;
+    });
+
+    // Prepare the embed to display the missions
+    const embed = createEmbed({
+      type: 'info',
+      title: 'Active Void Fissures',
+      fields: [
+        { 
+          name: 'Normal Fissures', 
+          value: normalFissures.length > 0 ? normalFissures.join('\n') : 'None available', 
+          inline: false 
+        },
+        { 
+          name: 'Steel Path Fissures', 
+          value: steelPathFissures.length > 0 ? steelPathFissures.join('\n') : 'None available', 
+          inline: false 
+        }
+      ],
+      timestamp: false,
+      thumbnail: steelPathFissures.length > 0 ? 
+        'https://browse.wf/Lotus/Interface/Icons/StoreIcons/Currency/SteelEssence.png' : 
+        (normalFissures.length > 0 ? 'https://browse.wf/Lotus/Interface/Icons/StoreIcons/Currency/Luminous.png' : undefined)
+    });
+
+    await interaction.editReply({ embeds: [embed] });
+  } catch (error) {
+    // Log the error for debugging and provide feedback to the user
+    logger.error('Error fetching fissure missions:', error);
+
+    const errorEmbed = createEmbed({
+      type: 'error',
+      title: 'Error',
+      description: 'Failed to retrieve void fissure missions. Please try again later.',
+      timestamp: true
+    });
+    await interaction.editReply({ embeds: [errorEmbed] });
+  }
+}
+
+// Most fissures a single /fissure crack reply will list
+const MAX_CRACK_FISSURES = 20;
+
+// Most relics listed per era in the /fissure crack summary
+const MAX_CRACK_RELICS_PER_ERA = 12;
+
+// Find the open fissures that accept a relic containing the item
+async function handleCrack(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply();
+
+  try {
+    await initializeDictionaries();
+
+    const query = interaction.options.getString('item', true);
+    let sources: RelicDropSource[] = getRelicsDropping(query);
+
+    // Fall back to the closest reward name when the input isn't an exact match
+    if (sources.length === 0) {
+      const [closest] = searchRelicRewards(query, 1);
+      if (closest) {
+        sources = getRelicsDropping(closest);
+      }
+    }
+
+    if (sources.length === 0) {
+      const errorEmbed = createEmbed({
+        type: 'error',
+        title: 'Item Not Found',
+        description: `No relic drops an item matching **${query}**.`,
+        timestamp: true
       });
+      await interaction.editReply({ embeds: [errorEmbed] });
+      return;
+    }
+
+    const item = sources[0].reward.item;
+
+    // Relic names per era, e.g. Neo: H1, H2 (Rare)
+    const relicsByEra = new Map<string, string[]>();
+    for (const { relic, reward } of sources) {
+      const names = relicsByEra.get(relic.era) || [];
+      names.push(`${relic.category} (${reward.rarity})`);
+      relicsByEra.set(relic.era, names);
+    }
+
+    const fissureGroups = await fetchFissures();
+    const missions = fissureGroups ? Object.values(fissureGroups).flat() : [];
+    const now = getWorldStateTime();
+
+    // Omnia fissures open any relic, every other tier only opens relics of its own era
+    const fissures: FissureDetails[] = (await getFissureDetails(missions))
+      .filter(fissure => fissure.expiry > now)
+      .filter(fissure => fissure.tier === OMNIA_TIER || relicsByEra.has(fissure.tier));
+
+    // Longest time remaining first, faster missions first when fissures expire together
+    fissures.sort((a, b) => (b.expiry - a.expiry) || compareMissionSpeed(a.missionType, b.missionType));
+
+    const relicSummary = RELIC_ERAS
+      .filter(era => relicsByEra.has(era))
+      .map(era => {
+        const names = relicsByEra.get(era);
+        const extra = names.length > MAX_CRACK_RELICS_PER_ERA ? `, +${names.length - MAX_CRACK_RELICS_PER_ERA} more` : '';
+        return `**${era}:** ${names.slice(0, MAX_CRACK_RELICS_PER_ERA).join(', ')}${extra}`;
+      })
+      .join('\n');
+
+    const lines = fissures.slice(0, MAX_CRACK_FISSURES).map(fissure =>
+      `${fissure.steelPath ? '⚔️ ' : ''}**${fissure.tier} ${fissure.missionType}** (${getMissionSpeed(fissure.missionType)}) - ` +
+      `${fissure.node} (${fissure.system}) • Expires <t:${Math.floor(fissure.expiry / 1000)}:R>`
+    );
+
+    if (fissures.length > MAX_CRACK_FISSURES) {
+      lines.push(`...and ${fissures.length - MAX_CRACK_FISSURES} more`);
+    }
+
+    const embed = createEmbed({
+      type: fissures.length > 0 ? 'info' : 'warning',
+      title: `Where to Crack ${item}`,
+      description: lines.length > 0
+        ? lines.join('\n').slice(0, 4096)
+        : 'No open fissure can currently open these relics. Check back when the fissures rotate.',
+      fields: [
+        {
+          name: 'Relics Containing This Item',
+          value: relicSummary.slice(0, 1024),
+          inline: false
+        }
+      ],
+      footer: '⚔️ = Steel Path • Omnia fissures accept relics of any era',
+      timestamp: true
+    });
+
+    await interaction.editReply({ embeds: [embed] });
+  } catch (error) {
+    logger.error('Error finding fissures for item:', error);
+
+    const errorEmbed = createEmbed({
+      type: 'error',
+      title: 'Error',
+      description: 'Failed to look up fissures for that item. Please try again later.',
+      timestamp: true
+    });
+    await interaction.editReply({ embeds: [errorEmbed] });
+  }
+}
+
+// Manage the user's fissure DM subscriptions
+async function handleSubscribe(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply({ ephemeral: true });
+
+  try {
+    const userId = interaction.user.id;
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'add') {
+      const subscription: FissureSubscription = await pgdb.addFissureSubscription(userId, {
+        missionType: interaction.options.getString('mission_type'),
+        tier: interaction.options.getString('tier'),
+        steelPath: interaction.options.getBoolean('steel_path'),
+        node: interaction.options.getString('node'),
+        faction: interaction.options.getString('faction')
+      });
+      logger.info(`Added fissure subscription ${subscription.id} for user ${userId}`);
+
+      const successEmbed = createEmbed({
+        type: 'success',
+        title: 'Fissure Subscription Added',
+        description: `You will get a DM when a new fissure matches: **${describeSubscription(subscription)}**\n\nMake sure you allow direct messages from this server, otherwise your subscriptions will be paused.`,
+        timestamp: true
+      });
+      await interaction.editReply({ embeds: [successEmbed] });
+    } else if (subcommand === 'remove') {
+      const subscriptionId = interaction.options.getString('subscription', true);
+      const removed = await pgdb.removeFissureSubscription(userId, subscriptionId);
+
+      const embed = removed
+        ? createEmbed({
+          type: 'success',
+          title: 'Fissure Subscription Removed',
+          description: 'You will no longer be notified for that subscription.',
+          timestamp: true
+        })
+        : createEmbed({
+          type: 'error',
+          title: 'Subscription Not Found',
+          description: 'No matching fissure subscription was found.',
+          timestamp: true
+        });
+      await interaction.editReply({ embeds: [embed] });
+    } else if (subcommand === 'list') {
+      const subscriptions: FissureSubscription[] = await pgdb.getFissureSubscriptionsByUser(userId);
+      const isPaused = subscriptions.some(subscription => !subscription.enabled);
 
-      // Prepare the embed to display the missions
       const embed = createEmbed({
         type: 'info',
-        title: 'Active Void Fissures',
-        fields: [
-          { 
-            name: 'Normal Fissures', 
-            value: normalFissures.length > 0 ? normalFissures.join('\n') : 'None available', 
-            inline: false 
-          },
-          { 
-            name: 'Steel Path Fissures', 
-            value: steelPathFissures.length > 0 ? steelPathFissures.join('\n') : 'None available', 
-            inline: false 
-          }
-        ],
-        timestamp: false,
-        thumbnail: steelPathFissures.length > 0 ? 
-          'https://browse.wf/Lotus/Interface/Icons/StoreIcons/Currency/SteelEssence.png' : 
-          (normalFissures.length > 0 ? 'https://browse.wf/Lotus/Interface/Icons/StoreIcons/Currency/Luminous.png' : undefined)
+        title: 'Your Fissure Subscriptions',
+        description: subscriptions.length > 0
+          ? subscriptions.map(subscription => `${subscription.enabled ? '✅' : '⏸️'} ${describeSubscription(subscription)}`).join('\n')
+          : 'You have no fissure subscriptions. Use `/fissure subscribe add` to create one.',
+        footer: isPaused ? 'Paused subscriptions can be re-enabled with /fissure subscribe resume' : undefined,
+        timestamp: true
       });
-
       await interaction.editReply({ embeds: [embed] });
-    } catch (error) {
-      // Log the error for debugging and provide feedback to the user
-      logger.error('Error fetching fissure missions:', error);
+    } else if (subcommand === 'resume') {
+      await pgdb.setFissureSubscriptionsEnabled(userId, true);
+      logger.info(`Resumed fissure subscriptions for user ${userId}`);
 
-      const errorEmbed = createEmbed({
-        type: 'error',
-        title: 'Error',
-        description: 'Failed to retrieve void fissure missions. Please try again later.',
+      const successEmbed = createEmbed({
+        type: 'success',
+        title: 'Fissure Subscriptions Resumed',
+        description: 'Your fissure subscriptions are active again. They will be paused again if DMs cannot be delivered.',
         timestamp: true
       });
-      await interaction.editReply({ embeds: [errorEmbed] });
+      await interaction.editReply({ embeds: [successEmbed] });
     }
+  } catch (error) {
+    logger.error('Error managing fissure subscriptions:', error);
+
+    const errorEmbed = createEmbed({
+      type: 'error',
+      title: 'Error',
+      description: 'Failed to update your fissure subscriptions. Please try again later.',
+      timestamp: true
+    });
+    await interaction.editReply({ embeds: [errorEmbed] });
   }
-};
+}
 
 export = command;
@@ -1253,7 +1253,7 @@ async function sendHostDM(client: Client, giveaway: Giveaway, winnerIds: string[
           name: 'Number of Winners',
           value: winnerIds.length.toString(),
           inline: true
-        },image.png
+        },
         {
           name: 'Winners',
           value: winnerMentions,
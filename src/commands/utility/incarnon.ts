@@ -1,7 +1,7 @@
 import { SlashCommandBuilder, ChatInputCommandInteraction } from 'discord.js';
 import { Command } from '../../types/discord';
 import { createEmbed } from '../../utils/embedBuilder';
-import axios from 'axios';
+import { getWorldState } from '../../services/worldStateService';
 import { logger } from '../../utils/logger';
 
 // Rotation mappings for Steel Path Incarnon
@@ -76,7 +76,7 @@ interface SteelPathReward {
 }
 
 interface ApiResponse {
-  EndlessXpChoices: RewardCategory[];
+  EndlessXpChoices?: RewardCategory[];
   SteelPathIncarnon?: SteelPathReward;
 }
 
@@ -92,18 +92,13 @@ const command: Command = {
       logger.info('Fetching Incarnon rotations from worldstate...');
       
       // Get worldstate data
-      const response = await axios.get<ApiResponse>('https://oracle.browse.wf/worldState.json', {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'WardenPrimeBot/1.0.0'
-        }
-      });
+      const worldState: ApiResponse = await getWorldState();
       
       // Process API data for regular incarnon rewards (frames)
       let normalRewards = 'None available';
       
-      if (response?.data?.EndlessXpChoices) {
-        const { EndlessXpChoices } = response.data;
+      if (worldState?.EndlessXpChoices) {
+        const { EndlessXpChoices } = worldState;
         for (const category of EndlessXpChoices) {
           if (category.Category === 'EXC_NORMAL') {
             normalRewards = category.Choices.join(', ');
@@ -117,15 +112,15 @@ const command: Command = {
       let currentRotationWeapons: string[] = [];
       
       // If the API provides Steel Path rotation directly
-      if (response?.data?.SteelPathIncarnon) {
-        currentRotationLetter = response.data.SteelPathIncarnon.CurrentRotation;
+      if (worldState?.SteelPathIncarnon) {
+        currentRotationLetter = worldState.SteelPathIncarnon.CurrentRotation;
         // Use the hardcoded rotation data to get all weapons for this rotation
         const rotationIndex = STEEL_PATH_ROTATIONS.findIndex(r => r.rotation === currentRotationLetter);
         if (rotationIndex !== -1) {
           currentRotationWeapons = STEEL_PATH_ROTATIONS[rotationIndex].weapons;
         } else {
           // Fallback if rotation letter doesn't match
-          currentRotationWeapons = [response.data.SteelPathIncarnon.Weapon];
+          currentRotationWeapons = [worldState.SteelPathIncarnon.Weapon];
           logger.warn(`Unknown Steel Path rotation: ${currentRotationLetter}`);
         }
       } else {
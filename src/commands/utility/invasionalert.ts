@@ -0,0 +1,186 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  AutocompleteInteraction,
+  ChannelType,
+  PermissionFlagsBits
+} from 'discord.js';
+import { Command } from '../../types/discord';
+import { pgdb } from '../../services/postgresDatabase';
+import { logger } from '../../utils/logger';
+import { createEmbed } from '../../utils/embedBuilder';
+import { NOTABLE_INVASION_REWARDS, fetchInvasions, startInvasionService } from '../../services/invasionService';
+
+// Describe an alert for lists and confirmations
+function describeAlert(alert: { reward: string; role_id: string | null; channel_id: string }): string {
+  return `**${alert.reward}** - ${alert.role_id ? `<@&${alert.role_id}>` : 'no ping'} in <#${alert.channel_id}>`;
+}
+
+// Command definition
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('invasionalert')
+    .setDescription('Get notified when an invasion offers a specific reward')
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('add')
+        .setDescription('Add an invasion alert, e.g. for Orokin Catalyst Blueprint or any Wraith part')
+        .addStringOption(option =>
+          option.setName('reward')
+            .setDescription('Reward name or part of it (e.g. "Orokin Reactor", "Wraith")')
+            .setRequired(true)
+            .setMaxLength(100)
+            .setAutocomplete(true))
+        .addRoleOption(option =>
+          option.setName('ping_role')
+            .setDescription('Role to ping when the reward appears (optional)')
+            .setRequired(false))
+        .addChannelOption(option =>
+          option.setName('channel')
+            .setDescription('Channel to send the alert to (defaults to this channel)')
+            .setRequired(false)
+            .addChannelTypes(ChannelType.GuildText))
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('remove')
+        .setDescription('Remove an invasion alert')
+        .addStringOption(option =>
+          option.setName('alert')
+            .setDescription('The alert to remove')
+            .setRequired(true)
+            .setAutocomplete(true))
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('list')
+        .setDescription('List the invasion alerts configured in this server')
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .setDMPermission(false) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+
+    try {
+      const guildId = interaction.guildId;
+
+      if (!guildId) {
+        await interaction.editReply('This command can only be used in a server.');
+        return;
+      }
+
+      const subcommand = interaction.options.getSubcommand();
+
+      if (subcommand === 'add') {
+        const reward = interaction.options.getString('reward', true).trim();
+        const pingRole = interaction.options.getRole('ping_role');
+        const channel = interaction.options.getChannel('channel') ?? interaction.channel;
+
+        if (reward.length < 3) {
+          const errorEmbed = createEmbed({
+            type: 'error',
+            title: 'Invalid Reward',
+            description: 'The reward must be at least 3 characters long.',
+            timestamp: true
+          });
+          await interaction.editReply({ embeds: [errorEmbed] });
+          return;
+        }
+
+        const alert = await pgdb.addInvasionAlert(guildId, channel.id, pingRole?.id || null, reward);
+        logger.info(`Added invasion alert for "${reward}" in guild ${guildId} channel ${channel.id}`);
+
+        // Make sure the service is running so the alert fires
+        startInvasionService(interaction.client);
+
+        const successEmbed = createEmbed({
+          type: 'success',
+          title: 'Invasion Alert Added',
+          description: `${describeAlert(alert)}\nNew invasions offering a reward that contains this text will be announced.`,
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [successEmbed] });
+      } else if (subcommand === 'remove') {
+        const alertId = interaction.options.getString('alert', true);
+        const removed = await pgdb.removeInvasionAlert(guildId, alertId);
+
+        const embed = removed
+          ? createEmbed({
+            type: 'success',
+            title: 'Invasion Alert Removed',
+            description: 'The invasion alert has been removed.',
+            timestamp: true
+          })
+          : createEmbed({
+            type: 'error',
+            title: 'Invasion Alert Not Found',
+            description: 'No matching invasion alert was found in this server.',
+            timestamp: true
+          });
+
+        if (removed) {
+          logger.info(`Removed invasion alert ${alertId} for guild ${guildId}`);
+        }
+        await interaction.editReply({ embeds: [embed] });
+      } else if (subcommand === 'list') {
+        const alerts = await pgdb.getInvasionAlertsByGuild(guildId);
+
+        const embed = createEmbed({
+          type: 'info',
+          title: 'Invasion Alerts',
+          description: alerts.length > 0
+            ? alerts.map(describeAlert).join('\n').slice(0, 4096)
+            : 'No invasion alerts are configured. Use `/invasionalert add` to create one.',
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [embed] });
+      }
+    } catch (error) {
+      logger.error('Error in invasionalert command:', error);
+      await interaction.editReply('An error occurred while managing invasion alerts. Please try again later.');
+    }
+  },
+
+  async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    try {
+      const focused = interaction.options.getFocused(true);
+      const focusedValue = focused.value.toLowerCase();
+
+      if (focused.name === 'reward') {
+        // Suggest the rewards currently on offer alongside the usual sought-after ones
+        const current = (await fetchInvasions())
+          .flatMap(invasion => [...invasion.attacker.rewards, ...invasion.defender.rewards])
+          .map(reward => reward.item);
+
+        const choices = [...new Set([...NOTABLE_INVASION_REWARDS, ...current])]
+          .filter(reward => reward.toLowerCase().includes(focusedValue))
+          .slice(0, 25) // Discord limit
+          .map(reward => ({ name: reward, value: reward }));
+
+        await interaction.respond(choices);
+        return;
+      }
+
+      if (focused.name === 'alert' && interaction.guildId) {
+        const alerts = await pgdb.getInvasionAlertsByGuild(interaction.guildId);
+
+        const choices = alerts
+          .map(alert => ({ name: alert.reward, value: alert.id }))
+          .filter(choice => choice.name.toLowerCase().includes(focusedValue))
+          .slice(0, 25); // Discord limit
+
+        await interaction.respond(choices);
+        return;
+      }
+
+      await interaction.respond([]);
+    } catch (error) {
+      logger.error('Error in invasionalert autocomplete:', error);
+      await interaction.respond([]);
+    }
+  }
+};
+
+// Export the command in the format expected by the command loader
+export = command;
@@ -0,0 +1,63 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction } from 'discord.js';
+import { Command } from '../../types/discord';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { fetchInvasions, formatInvasionProgress, formatInvasionRewards } from '../../services/invasionService';
+
+// Embeds are limited to 25 fields
+const MAX_INVASIONS = 25;
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('invasions')
+    .setDescription('Displays the active invasions with their progress and rewards.'),
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+
+    try {
+      const invasions = await fetchInvasions();
+
+      if (invasions.length === 0) {
+        const embed = createEmbed({
+          type: 'warning',
+          title: 'Invasions',
+          description: 'There are no active invasions right now.',
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [embed] });
+        return;
+      }
+
+      const embed = createEmbed({
+        type: 'info',
+        title: 'Invasions',
+        description: `${invasions.length} active invasion${invasions.length === 1 ? '' : 's'}. Use \`/invasionalert\` to be pinged for specific rewards.`,
+        fields: invasions.slice(0, MAX_INVASIONS).map(invasion => ({
+          name: `${invasion.location} - ${invasion.description}`,
+          value: [
+            formatInvasionProgress(invasion),
+            `**${invasion.attacker.faction}:** ${formatInvasionRewards(invasion.attacker)}`,
+            `**${invasion.defender.faction}:** ${formatInvasionRewards(invasion.defender)}`
+          ].join('\n').slice(0, 1024),
+          inline: false
+        })),
+        timestamp: true
+      });
+
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+      logger.error('Error fetching invasions:', error);
+
+      const errorEmbed = createEmbed({
+        type: 'error',
+        title: 'Error',
+        description: 'Failed to retrieve invasions. Please try again later.',
+        timestamp: true
+      });
+      await interaction.editReply({ embeds: [errorEmbed] });
+    }
+  }
+};
+
+export = command;
@@ -0,0 +1,44 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction } from 'discord.js';
+import { Command } from '../../types/discord';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { fetchNightwaveData, createNightwaveEmbed } from '../../services/nightwaveService';
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('nightwave')
+    .setDescription('Displays the current Nightwave daily, weekly and elite acts.'),
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+
+    try {
+      const data = await fetchNightwaveData();
+
+      if (!data) {
+        const embed = createEmbed({
+          type: 'warning',
+          title: 'Nightwave',
+          description: 'There is no active Nightwave season right now.',
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [embed] });
+        return;
+      }
+
+      await interaction.editReply({ embeds: [createNightwaveEmbed(data)] });
+    } catch (error) {
+      logger.error('Error fetching Nightwave acts:', error);
+
+      const errorEmbed = createEmbed({
+        type: 'error',
+        title: 'Error',
+        description: 'Failed to retrieve Nightwave acts. Please try again later.',
+        timestamp: true
+      });
+      await interaction.editReply({ embeds: [errorEmbed] });
+    }
+  }
+};
+
+export = command;
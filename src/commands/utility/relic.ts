@@ -0,0 +1,162 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction } from 'discord.js';
+import { Command } from '../../types/discord';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { initializeDictionaries } from '../../utils/dictionaryLoader';
+import {
+  RELIC_REFINEMENTS,
+  RelicRarity,
+  formatDropChance,
+  getDropChance,
+  getRelic,
+  getRelicsDropping,
+  searchRelicRewards,
+  searchRelics
+} from '../../services/relicService';
+
+// Bronze, silver and gold like the in-game reward borders
+const RARITY_EMOJIS: Record<RelicRarity, string> = {
+  Common: '🟤',
+  Uncommon: '⚪',
+  Rare: '🟡'
+};
+
+// Most relics a single /relic drops reply will list
+const MAX_DROP_SOURCES = 40;
+
+// Drop chances at every refinement, e.g. "2% / 4% / 6% / 10%"
+function formatChances(rarity: RelicRarity): string {
+  return RELIC_REFINEMENTS.map(refinement => formatDropChance(getDropChance(rarity, refinement))).join(' / ');
+}
+
+async function handleInfo(interaction: ChatInputCommandInteraction): Promise<void> {
+  const name = interaction.options.getString('name', true);
+  const relic = getRelic(name);
+
+  if (!relic) {
+    const suggestions = searchRelics(name, 5).map(match => `\`${match.name}\``);
+    const errorEmbed = createEmbed({
+      type: 'error',
+      title: 'Relic Not Found',
+      description: `No relic named **${name}** was found.` +
+        (suggestions.length > 0 ? `\nDid you mean: ${suggestions.join(', ')}?` : ''),
+      timestamp: true
+    });
+    await interaction.editReply({ embeds: [errorEmbed] });
+    return;
+  }
+
+  const lines = relic.rewards.map(reward =>
+    `${RARITY_EMOJIS[reward.rarity]} **${reward.item}**${reward.count > 1 ? ` x${reward.count}` : ''} - ${formatChances(reward.rarity)}`
+  );
+
+  const embed = createEmbed({
+    type: 'info',
+    title: `${relic.name} Relic`,
+    description: `Drop chances are ${RELIC_REFINEMENTS.join(' / ')}.\n\n${lines.join('\n')}`,
+    thumbnail: relic.icon || undefined,
+    footer: 'Use /relic drops to find which relics drop an item',
+    timestamp: true
+  });
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+async function handleDrops(interaction: ChatInputCommandInteraction): Promise<void> {
+  const query = interaction.options.getString('item', true);
+  let sources = getRelicsDropping(query);
+
+  // Fall back to the closest reward name when the input isn't an exact match
+  if (sources.length === 0) {
+    const [closest] = searchRelicRewards(query, 1);
+    if (closest) {
+      sources = getRelicsDropping(closest);
+    }
+  }
+
+  if (sources.length === 0) {
+    const errorEmbed = createEmbed({
+      type: 'error',
+      title: 'Item Not Found',
+      description: `No relic drops an item matching **${query}**.`,
+      timestamp: true
+    });
+    await interaction.editReply({ embeds: [errorEmbed] });
+    return;
+  }
+
+  const item = sources[0].reward.item;
+  const lines = sources.slice(0, MAX_DROP_SOURCES).map(({ relic, reward }) =>
+    `${RARITY_EMOJIS[reward.rarity]} **${relic.name}** (${reward.rarity}) - ${formatChances(reward.rarity)}`
+  );
+
+  if (sources.length > MAX_DROP_SOURCES) {
+    lines.push(`...and ${sources.length - MAX_DROP_SOURCES} more`);
+  }
+
+  const embed = createEmbed({
+    type: 'info',
+    title: `Relics Dropping ${item}`,
+    description: `Drop chances are ${RELIC_REFINEMENTS.join(' / ')}.\n\n${lines.join('\n')}`.slice(0, 4096),
+    footer: `${sources.length} relic${sources.length === 1 ? '' : 's'} • Use /relic info for a full drop table`,
+    timestamp: true
+  });
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('relic')
+    .setDescription('Look up Void Relic drop tables')
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('info')
+        .setDescription('Show the rewards and drop chances of a relic')
+        .addStringOption(option =>
+          option.setName('name')
+            .setDescription('Relic name, e.g. Axi H3')
+            .setRequired(true)
+            .setAutocomplete(true))
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('drops')
+        .setDescription('Find which relics drop an item')
+        .addStringOption(option =>
+          option.setName('item')
+            .setDescription('Item name, e.g. Hydroid Prime Systems Blueprint')
+            .setRequired(true)
+            .setAutocomplete(true))
+    ) as SlashCommandBuilder,
+
+  autocompleteOptions: { name: 'relic', item: 'relic_reward' },
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+
+    try {
+      await initializeDictionaries();
+
+      const subcommand = interaction.options.getSubcommand();
+
+      if (subcommand === 'info') {
+        await handleInfo(interaction);
+      } else if (subcommand === 'drops') {
+        await handleDrops(interaction);
+      }
+    } catch (error) {
+      logger.error('Error in relic command:', error);
+
+      const errorEmbed = createEmbed({
+        type: 'error',
+        title: 'Error',
+        description: 'Failed to look up relic data. Please try again later.',
+        timestamp: true
+      });
+      await interaction.editReply({ embeds: [errorEmbed] });
+    }
+  }
+};
+
+export = command;
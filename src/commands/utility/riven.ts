@@ -0,0 +1,433 @@
+import { SlashCommandBuilder, SlashCommandSubcommandBuilder, ChatInputCommandInteraction, AutocompleteInteraction } from 'discord.js';
+import { Command } from '../../types/discord';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { pgdb } from '../../services/postgresDatabase';
+import { RIVEN_MARKET_LIMITS, TIME } from '../../constants/time';
+import { findWeapon, gradeRivenStats } from '../../utils/rivenEngine';
+import {
+  RivenListing,
+  bumpListing,
+  closeListing,
+  describeListing,
+  getListingUrl,
+  getNextBumpTime,
+  getPriceSummary,
+  postListing,
+  startRivenMarketService
+} from '../../services/rivenMarketService';
+
+// Add the weapon, roll and stat options shared with /rivengrade
+function addSellOptions(subcommand: SlashCommandSubcommandBuilder): SlashCommandSubcommandBuilder {
+  subcommand
+    .addStringOption(option =>
+      option.setName('weapon')
+        .setDescription('The weapon name')
+        .setRequired(true)
+        .setAutocomplete(true))
+    .addIntegerOption(option =>
+      option.setName('price')
+        .setDescription('Asking price in platinum')
+        .setRequired(true)
+        .setMinValue(1)
+        .setMaxValue(1000000))
+    .addIntegerOption(option =>
+      option.setName('rank')
+        .setDescription('The riven rank (0-8)')
+        .setRequired(true)
+        .setMinValue(0)
+        .setMaxValue(8))
+    .addIntegerOption(option =>
+      option.setName('buffs')
+        .setDescription('Number of positive stats')
+        .setRequired(true)
+        .setMinValue(1)
+        .setMaxValue(4))
+    .addIntegerOption(option =>
+      option.setName('curses')
+        .setDescription('Number of negative stats')
+        .setRequired(true)
+        .setMinValue(0)
+        .setMaxValue(2));
+
+  for (const [index, ordinal] of ['First', 'Second', 'Third', 'Fourth'].entries()) {
+    subcommand
+      .addStringOption(option =>
+        option.setName(`stat${index + 1}_name`)
+          .setDescription(`${ordinal} stat name`)
+          .setRequired(index === 0))
+      .addNumberOption(option =>
+        option.setName(`stat${index + 1}_value`)
+          .setDescription(`${ordinal} stat value (with sign)`)
+          .setRequired(index === 0));
+  }
+
+  return subcommand.addStringOption(option =>
+    option.setName('notes')
+      .setDescription('Extra details for buyers, e.g. rerolls or trade preferences')
+      .setRequired(false)
+      .setMaxLength(500));
+}
+
+// Read the stats of the sell subcommand
+function getStats(interaction: ChatInputCommandInteraction): Array<{ name: string, value: number }> {
+  const stats: Array<{ name: string, value: number }> = [];
+
+  for (let index = 1; index <= 4; index++) {
+    const name = interaction.options.getString(`stat${index}_name`);
+    const value = interaction.options.getNumber(`stat${index}_value`);
+    if (name && value !== null) {
+      stats.push({ name, value });
+    }
+  }
+
+  return stats;
+}
+
+function formatListingLine(listing: RivenListing): string {
+  const url = getListingUrl(listing);
+  return `${url ? `[${describeListing(listing)}](${url})` : describeListing(listing)} by <@${listing.seller_id}>`;
+}
+
+// Fetch a listing and make sure it belongs to the user in this guild
+async function getOwnListing(interaction: ChatInputCommandInteraction): Promise<RivenListing | null> {
+  const listing: RivenListing = await pgdb.getRivenListing(interaction.options.getString('listing', true));
+  if (!listing || listing.guild_id !== interaction.guildId || listing.seller_id !== interaction.user.id || listing.status !== 'active') {
+    return null;
+  }
+  return listing;
+}
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('riven')
+    .setDescription('Buy and sell rivens on this server\'s riven market')
+    .addSubcommand(subcommand => addSellOptions(subcommand
+      .setName('sell')
+      .setDescription('Grade a riven and list it for sale in the riven market channel')))
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('search')
+        .setDescription('Search the active riven listings')
+        .addStringOption(option =>
+          option.setName('weapon')
+            .setDescription('Weapon name or part of it')
+            .setRequired(false)
+            .setAutocomplete(true))
+        .addStringOption(option =>
+          option.setName('stat')
+            .setDescription('Positive stat the riven must have, e.g. Critical Chance')
+            .setRequired(false))
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('bump')
+        .setDescription('Bump one of your listings to the top and extend its expiry')
+        .addStringOption(option =>
+          option.setName('listing')
+            .setDescription('The listing to bump')
+            .setRequired(true)
+            .setAutocomplete(true))
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('remove')
+        .setDescription('Close one of your listings')
+        .addStringOption(option =>
+          option.setName('listing')
+            .setDescription('The listing to close')
+            .setRequired(true)
+            .setAutocomplete(true))
+        .addBooleanOption(option =>
+          option.setName('sold')
+            .setDescription('Whether the riven was sold at the asking price (counts towards price history)')
+            .setRequired(false))
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('prices')
+        .setDescription('Show the price history of a weapon\'s rivens on this server')
+        .addStringOption(option =>
+          option.setName('weapon')
+            .setDescription('The weapon name')
+            .setRequired(true)
+            .setAutocomplete(true))
+    )
+    .setDMPermission(false) as SlashCommandBuilder,
+
+  autocompleteOptions: { weapon: 'weapon' },
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    const subcommand = interaction.options.getSubcommand();
+    // Search results and price history are public, managing listings is private to the seller
+    await interaction.deferReply({ ephemeral: subcommand === 'bump' || subcommand === 'remove' });
+
+    try {
+      const guildId = interaction.guildId;
+
+      if (!guildId) {
+        await interaction.editReply('This command can only be used in a server.');
+        return;
+      }
+
+      if (subcommand === 'sell') {
+        const settings = await pgdb.getRivenMarketSettings(guildId);
+        if (!settings) {
+          const errorEmbed = createEmbed({
+            type: 'error',
+            title: 'Riven Market Not Set Up',
+            description: 'This server has no riven market channel yet. An administrator can set one with `/setrivenmarket`.',
+            timestamp: true
+          });
+          await interaction.editReply({ embeds: [errorEmbed] });
+          return;
+        }
+
+        const active = await pgdb.getRivenListingsBySeller(guildId, interaction.user.id);
+        if (active.length >= RIVEN_MARKET_LIMITS.MAX_ACTIVE_LISTINGS) {
+          const errorEmbed = createEmbed({
+            type: 'error',
+            title: 'Too Many Listings',
+            description: `You already have ${active.length} active listings. Close one with \`/riven remove\` before listing another.`,
+            timestamp: true
+          });
+          await interaction.editReply({ embeds: [errorEmbed] });
+          return;
+        }
+
+        const weaponName = interaction.options.getString('weapon', true);
+        const price = interaction.options.getInteger('price', true);
+        const rank = interaction.options.getInteger('rank', true);
+        const buffs = interaction.options.getInteger('buffs', true);
+        const curses = interaction.options.getInteger('curses', true);
+        const notes = interaction.options.getString('notes');
+        const stats = getStats(interaction);
+
+        // Validate total stats
+        const totalStats = buffs + curses;
+        if (totalStats < 2 || totalStats > 4 || stats.length !== totalStats) {
+          const errorEmbed = createEmbed({
+            type: 'error',
+            title: 'Invalid Stat Combination',
+            description: `A riven must have between 2 and 4 total stats and one value per stat. You specified ${buffs} positive and ${curses} negative, with ${stats.length} stat values.`,
+            timestamp: true
+          });
+          await interaction.editReply({ embeds: [errorEmbed] });
+          return;
+        }
+
+        const weapon = findWeapon(weaponName);
+        if (!weapon) {
+          const errorEmbed = createEmbed({
+            type: 'error',
+            title: 'Weapon Not Found',
+            description: `Could not find weapon: ${weaponName}`,
+            timestamp: true
+          });
+          await interaction.editReply({ embeds: [errorEmbed] });
+          return;
+        }
+
+        const graded = gradeRivenStats(weapon, rank, buffs, curses, stats);
+
+        const listing: RivenListing = await pgdb.addRivenListing({
+          guildId,
+          sellerId: interaction.user.id,
+          channelId: settings.channel_id,
+          weapon: weapon.displayName,
+          rivenType: weapon.rivenType,
+          rank,
+          buffs,
+          curses,
+          stats: graded.stats,
+          overallGrade: graded.overallGrade,
+          overallQuality: graded.overallQuality,
+          price,
+          notes,
+          expiresAt: new Date(Date.now() + settings.listing_days * TIME.DAY)
+        });
+
+        const posted = await postListing(interaction.client, listing);
+        if (!posted) {
+          // Without a post nobody can see the listing, so it is not kept
+          await pgdb.updateRivenListingStatus(listing.id, 'removed');
+          const errorEmbed = createEmbed({
+            type: 'error',
+            title: 'Listing Failed',
+            description: `Could not post in <#${settings.channel_id}>. Make sure the channel still exists and the bot can post and create threads there.`,
+            timestamp: true
+          });
+          await interaction.editReply({ embeds: [errorEmbed] });
+          return;
+        }
+
+        // Make sure the listing expires even if the market was set up before a restart
+        startRivenMarketService(interaction.client);
+        logger.info(`User ${interaction.user.id} listed a ${weapon.displayName} riven for ${price}p in guild ${guildId}`);
+
+        const successEmbed = createEmbed({
+          type: 'success',
+          title: 'Riven Listed',
+          description: `Your ${weapon.displayName} riven (**${graded.overallGrade}**) is listed for ${price.toLocaleString()} platinum: ${getListingUrl(posted)}\nIt expires in ${settings.listing_days} day${settings.listing_days === 1 ? '' : 's'}, use \`/riven bump\` to keep it up.`,
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [successEmbed] });
+      } else if (subcommand === 'search') {
+        const weapon = interaction.options.getString('weapon')?.trim() || null;
+        const stat = interaction.options.getString('stat')?.trim() || null;
+        const listings: RivenListing[] = await pgdb.searchRivenListings(guildId, weapon, stat);
+
+        const criteria = [weapon ? `weapon "${weapon}"` : null, stat ? `stat "${stat}"` : null].filter(Boolean);
+        const embed = createEmbed({
+          type: listings.length > 0 ? 'info' : 'warning',
+          title: 'Riven Market',
+          description: listings.length > 0
+            ? listings.map(formatListingLine).join('\n').slice(0, 4096)
+            : `No active listings${criteria.length > 0 ? ` match ${criteria.join(' and ')}` : ''}.`,
+          footer: listings.length > 0 ? `${listings.length} listing${listings.length === 1 ? '' : 's'}, most recently bumped first` : undefined,
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [embed] });
+      } else if (subcommand === 'bump') {
+        const listing = await getOwnListing(interaction);
+        if (!listing) {
+          await interaction.editReply({ embeds: [createEmbed({
+            type: 'error',
+            title: 'Listing Not Found',
+            description: 'You have no active listing with that id in this server.',
+            timestamp: true
+          })] });
+          return;
+        }
+
+        const nextBump = getNextBumpTime(listing);
+        if (nextBump) {
+          await interaction.editReply({ embeds: [createEmbed({
+            type: 'warning',
+            title: 'Bump On Cooldown',
+            description: `This listing can be bumped again <t:${nextBump}:R>.`,
+            timestamp: true
+          })] });
+          return;
+        }
+
+        const settings = await pgdb.getRivenMarketSettings(guildId);
+        const bumped = await bumpListing(interaction.client, listing, settings?.listing_days || RIVEN_MARKET_LIMITS.DEFAULT_LISTING_DAYS);
+
+        await interaction.editReply({ embeds: [bumped
+          ? createEmbed({
+            type: 'success',
+            title: 'Listing Bumped',
+            description: `${describeListing(bumped)} now expires <t:${Math.floor(new Date(bumped.expires_at).getTime() / 1000)}:R>.`,
+            timestamp: true
+          })
+          : createEmbed({
+            type: 'error',
+            title: 'Bump Failed',
+            description: 'The listing could not be bumped. Please try again later.',
+            timestamp: true
+          })] });
+      } else if (subcommand === 'remove') {
+        const listing = await getOwnListing(interaction);
+        if (!listing) {
+          await interaction.editReply({ embeds: [createEmbed({
+            type: 'error',
+            title: 'Listing Not Found',
+            description: 'You have no active listing with that id in this server.',
+            timestamp: true
+          })] });
+          return;
+        }
+
+        const sold = interaction.options.getBoolean('sold') ?? false;
+        const closed = await closeListing(interaction.client, listing, sold ? 'sold' : 'removed');
+        if (closed) {
+          logger.info(`User ${interaction.user.id} closed riven listing ${listing.id} as ${sold ? 'sold' : 'removed'}`);
+        }
+
+        await interaction.editReply({ embeds: [closed
+          ? createEmbed({
+            type: 'success',
+            title: sold ? 'Riven Sold' : 'Listing Removed',
+            description: `${describeListing(listing)} has been ${sold ? 'marked as sold' : 'taken off the market'}.`,
+            timestamp: true
+          })
+          : createEmbed({
+            type: 'error',
+            title: 'Remove Failed',
+            description: 'The listing could not be closed. Please try again later.',
+            timestamp: true
+          })] });
+      } else if (subcommand === 'prices') {
+        const weaponName = interaction.options.getString('weapon', true);
+        const weapon = findWeapon(weaponName)?.displayName || weaponName;
+        const summary = await getPriceSummary(guildId, weapon);
+
+        if (summary.listings === 0) {
+          await interaction.editReply({ embeds: [createEmbed({
+            type: 'warning',
+            title: `${weapon} Riven Prices`,
+            description: `No ${weapon} rivens have been listed on this server yet.`,
+            timestamp: true
+          })] });
+          return;
+        }
+
+        const basis = summary.sold > 0 ? `${summary.sold} sale${summary.sold === 1 ? '' : 's'}` : 'asking prices, nothing sold yet';
+        const embed = createEmbed({
+          type: 'info',
+          title: `${weapon} Riven Prices`,
+          description: `Based on ${basis} out of ${summary.listings} listing${summary.listings === 1 ? '' : 's'} on this server.`,
+          fields: [
+            { name: 'Median', value: `${summary.median.toLocaleString()}p`, inline: true },
+            { name: 'Lowest', value: `${summary.low.toLocaleString()}p`, inline: true },
+            { name: 'Highest', value: `${summary.high.toLocaleString()}p`, inline: true },
+            {
+              name: 'Recent Listings',
+              value: summary.recent.map(listing =>
+                `<t:${Math.floor(new Date(listing.created_at).getTime() / 1000)}:d> **${listing.overall_grade}** ${listing.stats.filter(stat => !stat.isCurse).map(stat => stat.name).join('/')} - ${listing.price.toLocaleString()}p (${listing.status})`
+              ).join('\n').slice(0, 1024),
+              inline: false
+            }
+          ],
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [embed] });
+      }
+    } catch (error) {
+      logger.error('Error in riven command:', error);
+      await interaction.editReply({ embeds: [createEmbed({
+        type: 'error',
+        title: 'Error',
+        description: 'An error occurred while processing your request.',
+        timestamp: true
+      })] });
+    }
+  },
+
+  async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    try {
+      const focused = interaction.options.getFocused(true);
+
+      if (focused.name === 'listing' && interaction.guildId) {
+        const focusedValue = focused.value.toLowerCase();
+        const listings: RivenListing[] = await pgdb.getRivenListingsBySeller(interaction.guildId, interaction.user.id);
+
+        const choices = listings
+          .map(listing => ({ name: describeListing(listing).slice(0, 100), value: listing.id }))
+          .filter(choice => choice.name.toLowerCase().includes(focusedValue))
+          .slice(0, 25); // Discord limit
+
+        await interaction.respond(choices);
+        return;
+      }
+
+      await interaction.respond([]);
+    } catch (error) {
+      logger.error('Error in riven autocomplete:', error);
+      await interaction.respond([]);
+    }
+  }
+};
+
+export = command;
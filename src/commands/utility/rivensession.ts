@@ -0,0 +1,526 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction, AutocompleteInteraction, AttachmentBuilder } from 'discord.js';
+import { Command } from '../../types/discord';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { pgdb } from '../../services/postgresDatabase';
+import { RIVEN_SESSION_LIMITS } from '../../constants/time';
+import { findWeapon, formatRivenType, gradeRivenStats } from '../../utils/rivenEngine';
+import { generateGradeImage, generateComparisonImage } from '../../utils/rivenGradeImage';
+import {
+  RivenSession,
+  RivenRoll,
+  RankedRivenRoll,
+  RIVEN_POLARITIES,
+  countCurses,
+  describeSession,
+  formatTargets,
+  rankRolls,
+  readRivenScreenshot,
+  resolveTargetStats
+} from '../../services/rivenSessionService';
+
+// Fetch the session picked in the command, or the user's most recently used one
+async function getSession(interaction: ChatInputCommandInteraction, includeClosed: boolean): Promise<RivenSession | null> {
+  const sessionId = interaction.options.getString('session');
+
+  if (sessionId) {
+    const session: RivenSession = await pgdb.getRivenSession(sessionId);
+    if (!session || session.user_id !== interaction.user.id || (!includeClosed && session.status !== 'active')) {
+      return null;
+    }
+    return session;
+  }
+
+  const sessions: RivenSession[] = await pgdb.getRivenSessionsByUser(interaction.user.id);
+  return sessions[0] || null;
+}
+
+// Read the stats given as options
+function getStats(interaction: ChatInputCommandInteraction): Array<{ name: string, value: number }> {
+  const stats: Array<{ name: string, value: number }> = [];
+
+  for (let index = 1; index <= 4; index++) {
+    const name = interaction.options.getString(`stat${index}_name`);
+    const value = interaction.options.getNumber(`stat${index}_value`);
+    if (name && value !== null) {
+      stats.push({ name, value });
+    }
+  }
+
+  return stats;
+}
+
+function formatRollLine(ranked: RankedRivenRoll, targets: string[]): string {
+  const { roll, score, matchedTargets } = ranked;
+  const positives = roll.stats.filter(stat => !stat.isCurse).map(stat => stat.name).join('/');
+  const negatives = roll.stats.filter(stat => stat.isCurse).map(stat => stat.name).join('/');
+  const targetInfo = targets.length > 0 ? ` • ${matchedTargets}/${targets.length} targets` : '';
+  return `Roll ${roll.roll_number}: **${roll.overall_grade}** ${positives}${negatives ? ` -${negatives}` : ''} • ${score.toFixed(0)} pts${targetInfo}`;
+}
+
+const noSessionEmbed = () => createEmbed({
+  type: 'error',
+  title: 'Session Not Found',
+  description: 'You have no riven session with that id. Start one with `/rivensession start`.',
+  timestamp: true
+});
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('rivensession')
+    .setDescription('Track the rerolls of a riven and compare them against the stats you want')
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('start')
+        .setDescription('Register a riven to track its rolls, or resume an earlier session of it')
+        .addStringOption(option =>
+          option.setName('weapon')
+            .setDescription('The weapon name')
+            .setRequired(true)
+            .setAutocomplete(true))
+        .addIntegerOption(option =>
+          option.setName('mastery_rank')
+            .setDescription('Mastery rank requirement of the riven, it does not change when rerolling')
+            .setRequired(true)
+            .setMinValue(8)
+            .setMaxValue(16))
+        .addStringOption(option =>
+          option.setName('polarity')
+            .setDescription('Polarity of the riven, it does not change when rerolling')
+            .setRequired(true)
+            .addChoices(...RIVEN_POLARITIES.map(polarity => ({ name: polarity, value: polarity }))))
+        .addStringOption(option =>
+          option.setName('targets')
+            .setDescription('Comma separated stats you are rolling for, e.g. Critical Chance, Multishot')
+            .setRequired(false))
+        .addStringOption(option =>
+          option.setName('label')
+            .setDescription('A name to tell this riven apart from others for the same weapon')
+            .setRequired(false)
+            .setMaxLength(100))
+    )
+    .addSubcommand(subcommand => {
+      subcommand
+        .setName('roll')
+        .setDescription('Add a roll from a screenshot or its stats and see how it ranks')
+        .addStringOption(option =>
+          option.setName('session')
+            .setDescription('The riven session, defaults to your most recently used one')
+            .setRequired(false)
+            .setAutocomplete(true))
+        .addAttachmentOption(option =>
+          option.setName('image')
+            .setDescription('Screenshot of the riven, instead of entering the stats')
+            .setRequired(false))
+        .addIntegerOption(option =>
+          option.setName('rank')
+            .setDescription('The riven rank (0-8), read from the screenshot or 8 when omitted')
+            .setRequired(false)
+            .setMinValue(0)
+            .setMaxValue(8));
+
+      for (const [index, ordinal] of ['First', 'Second', 'Third', 'Fourth'].entries()) {
+        subcommand
+          .addStringOption(option =>
+            option.setName(`stat${index + 1}_name`)
+              .setDescription(`${ordinal} stat name`)
+              .setRequired(false))
+          .addNumberOption(option =>
+            option.setName(`stat${index + 1}_value`)
+              .setDescription(`${ordinal} stat value (with sign)`)
+              .setRequired(false));
+      }
+
+      return subcommand;
+    })
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('compare')
+        .setDescription('Rank every roll of a riven against its target stats')
+        .addStringOption(option =>
+          option.setName('session')
+            .setDescription('The riven session, defaults to your most recently used one')
+            .setRequired(false)
+            .setAutocomplete(true))
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('history')
+        .setDescription('List the rolls of a riven in the order they were rolled')
+        .addStringOption(option =>
+          option.setName('session')
+            .setDescription('The riven session, defaults to your most recently used one')
+            .setRequired(false)
+            .setAutocomplete(true))
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('targets')
+        .setDescription('Change the stats you are rolling for')
+        .addStringOption(option =>
+          option.setName('stats')
+            .setDescription('Comma separated stats, or "none" to rank by overall grade')
+            .setRequired(true))
+        .addStringOption(option =>
+          option.setName('session')
+            .setDescription('The riven session, defaults to your most recently used one')
+            .setRequired(false)
+            .setAutocomplete(true))
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('end')
+        .setDescription('End a riven session, its rolls are kept if you start it again')
+        .addStringOption(option =>
+          option.setName('session')
+            .setDescription('The riven session to end')
+            .setRequired(true)
+            .setAutocomplete(true))
+    ) as SlashCommandBuilder,
+
+  autocompleteOptions: { weapon: 'weapon' },
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+    const subcommand = interaction.options.getSubcommand();
+
+    try {
+      if (subcommand === 'start') {
+        const weaponName = interaction.options.getString('weapon', true);
+        const masteryRank = interaction.options.getInteger('mastery_rank', true);
+        const polarity = interaction.options.getString('polarity', true);
+        const label = interaction.options.getString('label')?.trim() || null;
+        const targetInput = interaction.options.getString('targets');
+
+        const weapon = findWeapon(weaponName);
+        if (!weapon) {
+          await interaction.editReply({ embeds: [createEmbed({
+            type: 'error',
+            title: 'Weapon Not Found',
+            description: `Could not find weapon: ${weaponName}`,
+            timestamp: true
+          })] });
+          return;
+        }
+
+        const { targets, unknown } = resolveTargetStats(targetInput || '');
+        if (unknown.length > 0 || targets.length > RIVEN_SESSION_LIMITS.MAX_TARGETS) {
+          await interaction.editReply({ embeds: [createEmbed({
+            type: 'error',
+            title: 'Invalid Target Stats',
+            description: unknown.length > 0
+              ? `Unknown stat${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`
+              : `A riven has at most ${RIVEN_SESSION_LIMITS.MAX_TARGETS} positive stats to target.`,
+            timestamp: true
+          })] });
+          return;
+        }
+
+        // Registering a riven again resumes its session with the earlier rolls
+        let session: RivenSession = await pgdb.findRivenSession(interaction.user.id, weapon.displayName, masteryRank, polarity);
+        const resumed = !!session;
+
+        if (session) {
+          if (session.status !== 'active') {
+            await pgdb.updateRivenSessionStatus(session.id, 'active');
+          }
+          if (targetInput !== null) {
+            await pgdb.updateRivenSessionTargets(session.id, targets);
+          }
+          session = await pgdb.getRivenSession(session.id);
+        } else {
+          const active: RivenSession[] = await pgdb.getRivenSessionsByUser(interaction.user.id);
+          if (active.length >= RIVEN_SESSION_LIMITS.MAX_ACTIVE_SESSIONS) {
+            await interaction.editReply({ embeds: [createEmbed({
+              type: 'error',
+              title: 'Too Many Sessions',
+              description: `You already have ${active.length} active riven sessions. End one with \`/rivensession end\` before starting another.`,
+              timestamp: true
+            })] });
+            return;
+          }
+
+          session = await pgdb.addRivenSession({
+            userId: interaction.user.id,
+            weapon: weapon.displayName,
+            rivenType: weapon.rivenType,
+            masteryRank,
+            polarity,
+            label,
+            targets
+          });
+          logger.info(`User ${interaction.user.id} started a riven session for ${weapon.displayName}`);
+        }
+
+        const rolls: RivenRoll[] = resumed ? await pgdb.getRivenRolls(session.id) : [];
+
+        await interaction.editReply({ embeds: [createEmbed({
+          type: 'success',
+          title: resumed ? 'Riven Session Resumed' : 'Riven Session Started',
+          description: [
+            `${describeSession(session)} • ${formatRivenType(session.riven_type)} • Disposition ${weapon.omegaAttenuation.toFixed(2)}x`,
+            resumed ? `${rolls.length} earlier roll${rolls.length === 1 ? ' is' : 's are'} kept.` : null,
+            'Add each reroll with `/rivensession roll` and rank them with `/rivensession compare`.'
+          ].filter(Boolean).join('\n'),
+          fields: [{ name: 'Target Stats', value: formatTargets(session.targets), inline: false }],
+          footer: `Session ${session.id}`,
+          timestamp: true
+        })] });
+      } else if (subcommand === 'roll') {
+        const session = await getSession(interaction, false);
+        if (!session) {
+          await interaction.editReply({ embeds: [noSessionEmbed()] });
+          return;
+        }
+
+        const attachment = interaction.options.getAttachment('image');
+        let stats = getStats(interaction);
+        let rank = interaction.options.getInteger('rank');
+
+        if (attachment) {
+          if (!attachment.contentType?.startsWith('image/')) {
+            await interaction.editReply({ embeds: [createEmbed({
+              type: 'error',
+              title: 'Invalid File Type',
+              description: 'The uploaded file must be an image (JPG, PNG, etc.).',
+              timestamp: true
+            })] });
+            return;
+          }
+
+          const parsed = await readRivenScreenshot(attachment.url, attachment.contentType).catch((error): null => {
+            logger.error('Error reading riven session screenshot:', error);
+            return null;
+          });
+          if (!parsed) {
+            await interaction.editReply({ embeds: [createEmbed({
+              type: 'error',
+              title: 'Parsing Failed',
+              description: 'Could not read the riven stats from the image. Please use a clearer screenshot or enter the stats.',
+              timestamp: true
+            })] });
+            return;
+          }
+
+          // The card shows the base weapon name, so a variant session still matches
+          const sessionWeapon = session.weapon.toLowerCase();
+          const parsedWeapon = parsed.weaponName.toLowerCase();
+          if (!sessionWeapon.includes(parsedWeapon) && !parsedWeapon.includes(sessionWeapon)) {
+            await interaction.editReply({ embeds: [createEmbed({
+              type: 'error',
+              title: 'Different Riven',
+              description: `The screenshot shows a ${parsed.weaponName} riven, but this session tracks a ${session.weapon} riven.`,
+              timestamp: true
+            })] });
+            return;
+          }
+
+          stats = parsed.stats;
+          rank = rank ?? parsed.rank;
+        }
+
+        const curses = countCurses(stats);
+        const buffs = stats.length - curses;
+        if (stats.length < 2 || stats.length > 4 || buffs < 1) {
+          await interaction.editReply({ embeds: [createEmbed({
+            type: 'error',
+            title: 'Invalid Stat Combination',
+            description: `A riven must have between 2 and 4 total stats with at least one positive. ${attachment ? 'The screenshot showed' : 'You entered'} ${buffs} positive and ${curses} negative.`,
+            timestamp: true
+          })] });
+          return;
+        }
+
+        const weapon = findWeapon(session.weapon);
+        if (!weapon) {
+          await interaction.editReply({ embeds: [createEmbed({
+            type: 'error',
+            title: 'Weapon Not Found',
+            description: `Could not find weapon: ${session.weapon}`,
+            timestamp: true
+          })] });
+          return;
+        }
+
+        const graded = gradeRivenStats(weapon, rank ?? 8, buffs, curses, stats);
+        const roll: RivenRoll = await pgdb.addRivenRoll({
+          sessionId: session.id,
+          rank: rank ?? 8,
+          buffs,
+          curses,
+          stats: graded.stats,
+          overallGrade: graded.overallGrade,
+          overallQuality: graded.overallQuality,
+          source: attachment ? 'image' : 'manual'
+        });
+
+        const ranked = rankRolls(await pgdb.getRivenRolls(session.id), session.targets);
+        const position = ranked.findIndex(entry => entry.roll.id === roll.id);
+        const best = ranked[0];
+
+        const embed = createEmbed({
+          type: position === 0 ? 'success' : 'info',
+          title: `${session.weapon} Roll ${roll.roll_number}`,
+          description: [
+            `Overall Grade: **${roll.overall_grade}** (${Math.round(roll.overall_quality * 100)}%) • Rank ${roll.rank}/8`,
+            position === 0
+              ? `This is your best roll out of ${ranked.length}.`
+              : `Ranks ${position + 1} of ${ranked.length}, your best is still roll ${best.roll.roll_number}.`,
+            formatRollLine(ranked[position], session.targets)
+          ].join('\n'),
+          fields: [{ name: 'Target Stats', value: formatTargets(session.targets), inline: false }],
+          footer: describeSession(session),
+          timestamp: true
+        });
+
+        try {
+          const imageBuffer = await generateGradeImage(roll.stats);
+          embed.setImage('attachment://riven-grade.png');
+          await interaction.editReply({ embeds: [embed], files: [new AttachmentBuilder(imageBuffer, { name: 'riven-grade.png' })] });
+        } catch (imageError) {
+          logger.error('Error generating grade image:', imageError);
+          await interaction.editReply({ embeds: [embed] });
+        }
+      } else if (subcommand === 'compare' || subcommand === 'history') {
+        const session = await getSession(interaction, true);
+        if (!session) {
+          await interaction.editReply({ embeds: [noSessionEmbed()] });
+          return;
+        }
+
+        const rolls: RivenRoll[] = await pgdb.getRivenRolls(session.id);
+        if (rolls.length === 0) {
+          await interaction.editReply({ embeds: [createEmbed({
+            type: 'warning',
+            title: describeSession(session),
+            description: 'No rolls yet. Add one with `/rivensession roll`.',
+            timestamp: true
+          })] });
+          return;
+        }
+
+        const ranked = rankRolls(rolls, session.targets);
+
+        if (subcommand === 'history') {
+          // Most recent rolls last, like they were rolled
+          const byRoll = [...ranked].sort((a, b) => a.roll.roll_number - b.roll.roll_number).slice(-25);
+          await interaction.editReply({ embeds: [createEmbed({
+            type: 'info',
+            title: `${describeSession(session)} History`,
+            description: byRoll.map(entry =>
+              `<t:${Math.floor(new Date(entry.roll.created_at).getTime() / 1000)}:d> ${formatRollLine(entry, session.targets)}${entry === ranked[0] ? ' ⭐' : ''}`
+            ).join('\n').slice(0, 4096),
+            fields: [{ name: 'Target Stats', value: formatTargets(session.targets), inline: false }],
+            footer: `${rolls.length} roll${rolls.length === 1 ? '' : 's'}${rolls.length > 25 ? ', showing the latest 25' : ''}`,
+            timestamp: true
+          })] });
+          return;
+        }
+
+        const embed = createEmbed({
+          type: 'info',
+          title: `${describeSession(session)} Comparison`,
+          description: ranked.slice(0, 10).map((entry, index) => `**#${index + 1}** ${formatRollLine(entry, session.targets)}`).join('\n'),
+          fields: [{ name: 'Target Stats', value: formatTargets(session.targets), inline: false }],
+          footer: `${rolls.length} roll${rolls.length === 1 ? '' : 's'} ranked against the target stats`,
+          timestamp: true
+        });
+
+        try {
+          const imageBuffer = await generateComparisonImage(ranked.slice(0, RIVEN_SESSION_LIMITS.COMPARISON_ROLLS).map(entry => ({
+            label: `Roll ${entry.roll.roll_number}`,
+            overallGrade: entry.roll.overall_grade,
+            score: entry.score,
+            stats: entry.roll.stats
+          })));
+          embed.setImage('attachment://riven-comparison.png');
+          await interaction.editReply({ embeds: [embed], files: [new AttachmentBuilder(imageBuffer, { name: 'riven-comparison.png' })] });
+        } catch (imageError) {
+          logger.error('Error generating riven comparison image:', imageError);
+          await interaction.editReply({ embeds: [embed] });
+        }
+      } else if (subcommand === 'targets') {
+        const session = await getSession(interaction, false);
+        if (!session) {
+          await interaction.editReply({ embeds: [noSessionEmbed()] });
+          return;
+        }
+
+        const input = interaction.options.getString('stats', true);
+        const { targets, unknown } = resolveTargetStats(input.trim().toLowerCase() === 'none' ? '' : input);
+        if (unknown.length > 0 || targets.length > RIVEN_SESSION_LIMITS.MAX_TARGETS) {
+          await interaction.editReply({ embeds: [createEmbed({
+            type: 'error',
+            title: 'Invalid Target Stats',
+            description: unknown.length > 0
+              ? `Unknown stat${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`
+              : `A riven has at most ${RIVEN_SESSION_LIMITS.MAX_TARGETS} positive stats to target.`,
+            timestamp: true
+          })] });
+          return;
+        }
+
+        await pgdb.updateRivenSessionTargets(session.id, targets);
+        await interaction.editReply({ embeds: [createEmbed({
+          type: 'success',
+          title: 'Target Stats Updated',
+          description: `Rolls of ${describeSession(session)} are now ranked against: ${formatTargets(targets)}`,
+          timestamp: true
+        })] });
+      } else if (subcommand === 'end') {
+        const session = await getSession(interaction, false);
+        if (!session) {
+          await interaction.editReply({ embeds: [noSessionEmbed()] });
+          return;
+        }
+
+        await pgdb.updateRivenSessionStatus(session.id, 'closed');
+        await interaction.editReply({ embeds: [createEmbed({
+          type: 'success',
+          title: 'Riven Session Ended',
+          description: `${describeSession(session)} is closed. Its rolls stay in \`/rivensession history\` and come back if you start it again.`,
+          timestamp: true
+        })] });
+      }
+    } catch (error) {
+      logger.error('Error in rivensession command:', error);
+      await interaction.editReply({ embeds: [createEmbed({
+        type: 'error',
+        title: 'Error',
+        description: 'An error occurred while processing your request.',
+        timestamp: true
+      })] });
+    }
+  },
+
+  async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    try {
+      const focused = interaction.options.getFocused(true);
+
+      if (focused.name === 'session') {
+        const focusedValue = focused.value.toLowerCase();
+        // Ended sessions can still be looked at, but not rolled on
+        const includeClosed = ['compare', 'history'].includes(interaction.options.getSubcommand());
+        const sessions: RivenSession[] = await pgdb.getRivenSessionsByUser(interaction.user.id, includeClosed);
+
+        const choices = sessions
+          .map(session => ({
+            name: `${describeSession(session)}${session.status === 'active' ? '' : ' (ended)'}`.slice(0, 100),
+            value: session.id
+          }))
+          .filter(choice => choice.name.toLowerCase().includes(focusedValue))
+          .slice(0, 25); // Discord limit
+
+        await interaction.respond(choices);
+        return;
+      }
+
+      await interaction.respond([]);
+    } catch (error) {
+      logger.error('Error in rivensession autocomplete:', error);
+      await interaction.respond([]);
+    }
+  }
+};
+
+export = command;
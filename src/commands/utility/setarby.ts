@@ -57,6 +57,10 @@ const command: Command = {
       option.setName('f_tier_role')
         .setDescription('Role to ping for F tier arbitrations')
         .setRequired(false))
+    .addBooleanOption(option =>
+      option.setName('top_tiers_only')
+        .setDescription('Only post S and A tier arbitrations (default false)')
+        .setRequired(false))
     .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
     .setDMPermission(false) as SlashCommandBuilder,
 
@@ -85,6 +89,7 @@ const command: Command = {
       const cTierRole = interaction.options.getRole('c_tier_role');
       const dTierRole = interaction.options.getRole('d_tier_role');
       const fTierRole = interaction.options.getRole('f_tier_role');
+      const topTiersOnly = interaction.options.getBoolean('top_tiers_only') ?? false;
       const guildId = interaction.guildId;
       
       if (!guildId) {
@@ -103,7 +108,8 @@ const command: Command = {
         bTierRole, 
         cTierRole, 
         dTierRole, 
-        fTierRole
+        fTierRole,
+        topTiersOnly
       ).catch(error => {
         logger.error('Error updating arbitration database config:', error);
       });
@@ -127,7 +133,7 @@ const command: Command = {
         if (isDeferred) {
           await interaction.editReply({
             content: 'Successfully configured arbitration notifications, but could not fetch current arbitration data. Notifications will work for future arbitrations.',
-            embeds: [createConfigSuccessEmbed(channel, sTierRole, aTierRole, bTierRole, cTierRole, dTierRole, fTierRole)]
+            embeds: [createConfigSuccessEmbed(channel, sTierRole, aTierRole, bTierRole, cTierRole, dTierRole, fTierRole, topTiersOnly)]
           });
         }
         return;
@@ -145,7 +151,7 @@ const command: Command = {
         if (isDeferred) {
           await interaction.editReply({
             content: 'Successfully configured arbitration notifications, but could not determine the current arbitration. Notifications will work for future arbitrations.',
-            embeds: [createConfigSuccessEmbed(channel, sTierRole, aTierRole, bTierRole, cTierRole, dTierRole, fTierRole)]
+            embeds: [createConfigSuccessEmbed(channel, sTierRole, aTierRole, bTierRole, cTierRole, dTierRole, fTierRole, topTiersOnly)]
           });
         }
         return;
@@ -277,7 +283,7 @@ const command: Command = {
         // Let the user know it worked
         if (isDeferred) {
           await interaction.editReply({
-            embeds: [createConfigSuccessEmbed(channel, sTierRole, aTierRole, bTierRole, cTierRole, dTierRole, fTierRole)]
+            embeds: [createConfigSuccessEmbed(channel, sTierRole, aTierRole, bTierRole, cTierRole, dTierRole, fTierRole, topTiersOnly)]
           });
         }
         
@@ -287,7 +293,7 @@ const command: Command = {
         if (isDeferred) {
           await interaction.editReply({
             content: 'Successfully configured arbitration notifications, but encountered an error displaying current arbitrations. Notifications will work for future arbitrations.',
-            embeds: [createConfigSuccessEmbed(channel, sTierRole, aTierRole, bTierRole, cTierRole, dTierRole, fTierRole)]
+            embeds: [createConfigSuccessEmbed(channel, sTierRole, aTierRole, bTierRole, cTierRole, dTierRole, fTierRole, topTiersOnly)]
           });
         }
       }
@@ -322,7 +328,8 @@ async function updateDatabaseConfig(
   bTierRole: Role | APIRole | null | undefined,
   cTierRole: Role | APIRole | null | undefined,
   dTierRole: Role | APIRole | null | undefined,
-  fTierRole: Role | APIRole | null | undefined
+  fTierRole: Role | APIRole | null | undefined,
+  topTiersOnly: boolean
 ): Promise<void> {
   // Get existing notifications for this guild
   const existingConfigs = await pgdb.getArbitrationNotifications();
@@ -339,8 +346,9 @@ async function updateDatabaseConfig(
        c_tier_role_id = $5,
        d_tier_role_id = $6,
        f_tier_role_id = $7,
+       top_tiers_only = $8,
        updated_at = NOW()
-       WHERE guild_id = $8`,
+       WHERE guild_id = $9`,
       [
         channelId,
         sTierRole?.id || null,
@@ -349,6 +357,7 @@ async function updateDatabaseConfig(
         cTierRole?.id || null,
         dTierRole?.id || null,
         fTierRole?.id || null,
+        topTiersOnly,
         guildId
       ]
     );
@@ -366,7 +375,8 @@ async function updateDatabaseConfig(
       bTierRole?.id || null,
       cTierRole?.id || null,
       dTierRole?.id || null,
-      fTierRole?.id || null
+      fTierRole?.id || null,
+      topTiersOnly
     );
     
     logger.info(`Set arbitration notifications channel for guild ${guildId} to ${channelId} with role pings`);
@@ -383,7 +393,8 @@ function createConfigSuccessEmbed(
   bTierRole: Role | APIRole | null | undefined,
   cTierRole: Role | APIRole | null | undefined,
   dTierRole: Role | APIRole | null | undefined,
-  fTierRole: Role | APIRole | null | undefined
+  fTierRole: Role | APIRole | null | undefined,
+  topTiersOnly: boolean
 ) {
   return createEmbed({
     type: 'success',
@@ -406,6 +417,11 @@ function createConfigSuccessEmbed(
           fTierRole ? `F Tier: <@&${fTierRole.id}>` : null
         ].filter(Boolean).join('\n') || 'No role pings configured',
         inline: true
+      },
+      {
+        name: 'Tiers',
+        value: topTiersOnly ? 'S and A tier only' : 'All tiers',
+        inline: true
       }
     ],
     timestamp: true
@@ -0,0 +1,80 @@
+import { SlashCommandBuilder, ChannelType, PermissionFlagsBits } from 'discord.js';
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { pgdb } from '../../services/postgresDatabase';
+import { startCycleService, triggerCycleUpdate } from '../../services/cycleService';
+import { Command } from '../../types/discord';
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('setcycles')
+    .setDescription('Setup an automatically updating open world cycle timer in a channel.')
+    .addChannelOption(option => 
+      option.setName('channel')
+        .setDescription('Channel to post the cycle timers in')
+        .setRequired(true)
+        .addChannelTypes(ChannelType.GuildText)
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild) as SlashCommandBuilder,
+  
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      await interaction.deferReply();
+      const channel = interaction.options.getChannel('channel');
+      
+      if (!channel) {
+        await interaction.editReply({
+          embeds: [
+            createEmbed({
+              type: 'error',
+              title: 'Error',
+              description: 'You must specify a valid text channel.'
+            })
+          ]
+        });
+        return;
+      }
+      
+      // Check if a configuration already exists for this guild
+      const existingConfig = await pgdb.getCycleNotificationByGuild(interaction.guildId);
+      
+      if (existingConfig) {
+        await pgdb.updateCycleNotification(existingConfig.id, channel.id);
+        logger.info(`Updated cycle notifications for guild ${interaction.guildId} to channel ${channel.id}`);
+      } else {
+        await pgdb.addCycleNotification(interaction.guildId, channel.id);
+        logger.info(`Added cycle notifications for guild ${interaction.guildId} to channel ${channel.id}`);
+      }
+      
+      // Make sure the service is running and post the current cycles
+      startCycleService(interaction.client);
+      triggerCycleUpdate(interaction.client);
+      
+      await interaction.editReply({
+        embeds: [
+          createEmbed({
+            type: 'success',
+            title: 'Cycle Notifications Configured',
+            description: `Open world cycle timers will be posted in ${channel} and updated whenever a cycle changes state. Use \`/cyclealert\` to ping a role before a transition.`,
+            footer: 'The current cycles will be shown shortly.'
+          })
+        ]
+      });
+    } catch (error) {
+      logger.error(`Error configuring cycle notifications: ${error}`);
+      
+      await interaction.editReply({
+        embeds: [
+          createEmbed({
+            type: 'error',
+            title: 'Error',
+            description: 'There was an error setting up cycle notifications. Please try again later.'
+          })
+        ]
+      });
+    }
+  }
+};
+
+export = command;
@@ -0,0 +1,78 @@
+import { SlashCommandBuilder, ChannelType, PermissionFlagsBits } from 'discord.js';
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { pgdb } from '../../services/postgresDatabase';
+import { startDispositionService } from '../../services/dispositionService';
+import { Command } from '../../types/discord';
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('setdisposition')
+    .setDescription('Post a digest of riven disposition changes in a channel whenever the game data updates.')
+    .addChannelOption(option =>
+      option.setName('channel')
+        .setDescription('Channel to post the disposition changes digest in')
+        .setRequired(true)
+        .addChannelTypes(ChannelType.GuildText)
+    )
+    .addRoleOption(option =>
+      option.setName('role')
+        .setDescription('Role to ping when dispositions change (optional)')
+        .setRequired(false)
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .setDMPermission(false) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      await interaction.deferReply();
+      const channel = interaction.options.getChannel('channel');
+      const role = interaction.options.getRole('role');
+
+      if (!channel) {
+        await interaction.editReply({
+          embeds: [
+            createEmbed({
+              type: 'error',
+              title: 'Error',
+              description: 'You must specify a valid text channel.'
+            })
+          ]
+        });
+        return;
+      }
+
+      await pgdb.setDispositionNotification(interaction.guildId, channel.id, role?.id || null);
+      logger.info(`Set disposition digest for guild ${interaction.guildId} to channel ${channel.id} ${role ? `with role ${role.id}` : 'without a role'}`);
+
+      // Make sure dictionary updates are being watched
+      startDispositionService(interaction.client);
+
+      await interaction.editReply({
+        embeds: [
+          createEmbed({
+            type: 'success',
+            title: 'Disposition Digest Configured',
+            description: `Riven disposition changes will be posted in ${channel}${role ? `, pinging ${role}` : ''}.`,
+            footer: 'A digest is only posted when a game data update changes a disposition.'
+          })
+        ]
+      });
+    } catch (error) {
+      logger.error(`Error configuring disposition digest: ${error}`);
+
+      await interaction.editReply({
+        embeds: [
+          createEmbed({
+            type: 'error',
+            title: 'Error',
+            description: 'There was an error setting up the disposition digest. Please try again later.'
+          })
+        ]
+      });
+    }
+  }
+};
+
+export = command;
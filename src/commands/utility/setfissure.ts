@@ -4,20 +4,29 @@ import {
   ChannelType,
   PermissionFlagsBits,
   Role,
-  Client,
-  AutocompleteInteraction
+  Client
 } from 'discord.js';
 import { Command } from '../../types/discord';
 import { pgdb } from '../../services/postgresDatabase';
 import { logger } from '../../utils/logger';
 import { createEmbed } from '../../utils/embedBuilder';
-import axios from 'axios';
+import { getWorldState } from '../../services/worldStateService';
 import path from 'path';
 
 // Import shared Warframe types
 import { WarframeMission, WarframeResponse, ActiveMission } from '../../types/warframe';
 import fs from 'fs';
-import { triggerFissureCheck } from '../../services/fissureService';
+import {
+  triggerFissureCheck,
+  FissureFilter,
+  VOID_TIER_MAP,
+  validateFissureTiers,
+  FISSURE_FACTIONS,
+  validateFissureFactions,
+  describeFissureFilter,
+  getFissureDetails,
+  matchesFissureFilter
+} from '../../services/fissureService';
 
 // Mission types commonly available as fissures
 const MISSION_TYPES = [
@@ -79,9 +88,29 @@ const command: Command = {
       option.setName('steel_path')
         .setDescription('Only notify for Steel Path fissures')
         .setRequired(false))
+    .addStringOption(option =>
+      option.setName('tiers')
+        .setDescription('Only these relic tiers, comma separated (e.g. Axi, Omnia)')
+        .setRequired(false))
+    .addStringOption(option =>
+      option.setName('factions')
+        .setDescription('Only these factions, comma separated (e.g. Corpus, Grineer)')
+        .setRequired(false))
+    .addStringOption(option =>
+      option.setName('also_mission_types')
+        .setDescription('Additional mission types, comma separated (e.g. Defense, Survival)')
+        .setRequired(false))
+    .addIntegerOption(option =>
+      option.setName('min_minutes')
+        .setDescription('Only fissures with at least this many minutes remaining')
+        .setRequired(false)
+        .setMinValue(1)
+        .setMaxValue(180))
     .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
     .setDMPermission(false) as SlashCommandBuilder,
 
+  autocompleteOptions: { node: 'node' },
+
   async execute(interaction: ChatInputCommandInteraction): Promise<void> {
     await interaction.deferReply();
     
@@ -103,6 +132,19 @@ const command: Command = {
         return;
       }
       
+      // Build the filter expression from the optional builder options
+      const { filter, errors } = buildFissureFilter(interaction, standardizedType);
+      if (errors.length > 0) {
+        const errorEmbed = createEmbed({
+          type: 'error',
+          title: 'Invalid Fissure Filter',
+          description: errors.join('\n'),
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [errorEmbed] });
+        return;
+      }
+      
       // Check if a configuration already exists for this guild, mission type, node, and Steel Path setting
       const existingConfigs = await pgdb.getFissureNotifications();
       const existingMissionConfig = existingConfigs.filter(
@@ -121,6 +163,7 @@ const command: Command = {
            WHERE id = $2`,
           [pingRole?.id || null, existingMissionConfig[0].id]
         );
+        await pgdb.updateFissureNotificationFilters(existingMissionConfig[0].id, filter);
         
         logger.info(`Updated fissure notification for guild ${guildId}, mission type ${missionType}, Steel Path: ${steelPath}`);
       } else {
@@ -131,7 +174,8 @@ const command: Command = {
           standardizedType,
           steelPath,
           pingRole?.id || null,
-          nodeName
+          nodeName,
+          filter
         );
         
         logger.info(`Set fissure notification for guild ${guildId}, mission type ${missionType}, Steel Path: ${steelPath}`);
@@ -177,14 +221,9 @@ const command: Command = {
       // Send initial notification if there are active fissures of this type
       try {
         // Fetch current fissure data
-        const response = await axios.get('https://oracle.browse.wf/worldState.json', {
-          timeout: 10000,
-          headers: {
-            'User-Agent': 'WardenPrimeBot/1.0.0'
-          }
-        });
+        const worldState = await getWorldState();
 
-        if (response.data?.ActiveMissions?.length > 0) {
+        if (worldState?.ActiveMissions?.length > 0) {
           // Load dictionaries for translation
           const regionsPath = path.join(process.cwd(), 'dict', 'ExportRegions.json');
           const regionsData = JSON.parse(await fs.promises.readFile(regionsPath, 'utf8')) as Record<string, any>;
@@ -193,7 +232,7 @@ const command: Command = {
           const langDict = JSON.parse(await fs.promises.readFile(dictPath, 'utf8')) as Record<string, string>;
           
           // Filter void fissure missions
-          const fissureMissions = response.data.ActiveMissions.filter((mission: WarframeMission) => 
+          const fissureMissions = worldState.ActiveMissions.filter((mission: WarframeMission) => 
             mission.Modifier && mission.Modifier.startsWith('VoidT')
           );
           
@@ -211,6 +250,7 @@ const command: Command = {
           logger.debug(`Looking for missions of type: ${missionType}, standardized as ${standardizedType}`);
           
           // Try both direct comparison and more lenient matching
+          const notificationTypes = filter?.missionTypes ?? [missionType];
           let matchingFissures: WarframeMission[] = [];
           
           // First try with strict lowercase comparison
@@ -239,7 +279,7 @@ const command: Command = {
             if (currentMissionType === 'Armageddon') currentMissionType = 'Void Armageddon';
             
             // Case insensitive comparison for mission types
-            return currentMissionType.toLowerCase() === missionType.toLowerCase();
+            return notificationTypes.some(type => type.toLowerCase() === currentMissionType.toLowerCase());
           });
           
           // If no matches found, try partial matching
@@ -266,9 +306,11 @@ const command: Command = {
               if (currentMissionType === 'Armageddon') currentMissionType = 'Void Armageddon';
               
               // Try partial matching - check if either contains the other
-              const missionLower = missionType.toLowerCase();
               const currentLower = currentMissionType.toLowerCase();
-              return currentLower.includes(missionLower) || missionLower.includes(currentLower);
+              return notificationTypes.some(type => {
+                const missionLower = type.toLowerCase();
+                return currentLower.includes(missionLower) || missionLower.includes(currentLower);
+              });
             });
           }
           
@@ -299,6 +341,15 @@ const command: Command = {
             logger.debug(`After normal mission filtering, found ${matchingFissures.length} missions`);
           }
           
+          // Apply the tier, faction and time remaining conditions
+          if (filter) {
+            const details = await getFissureDetails(matchingFissures as ActiveMission[]);
+            matchingFissures = details
+              .filter(fissure => matchesFissureFilter(filter, fissure))
+              .map(fissure => fissure.mission);
+            logger.debug(`After applying filter ${describeFissureFilter(filter)}, found ${matchingFissures.length} missions`);
+          }
+          
           if (matchingFissures.length > 0) {
             // There are matching fissures, send initial notification
             logger.info(`Found ${matchingFissures.length} ${missionType} ${steelPath ? 'Steel Path' : 'normal'} fissures, sending initial notification`);
@@ -402,6 +453,11 @@ const command: Command = {
             name: 'Steel Path Only',
             value: steelPath ? 'Yes' : 'No',
             inline: true
+          },
+          {
+            name: 'Filter',
+            value: describeFissureFilter(filter),
+            inline: false
           }
         ],
         timestamp: true
@@ -422,64 +478,64 @@ const command: Command = {
       logger.error('Error in setfissure command:', error);
       await interaction.editReply('An error occurred while setting up fissure notifications. Please try again later.');
     }
-  },
+  }
+};
 
-  async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
-    try {
-      const focusedValue = interaction.options.getFocused();
-      const missionType = interaction.options.getString('mission_type');
-      
-      if (!missionType) {
-        await interaction.respond([]);
-        return;
-      }
-      
-      // Load regions data to get nodes for the specific mission type
-      const regionsPath = path.join(process.cwd(), 'dict', 'ExportRegions.json');
-      const regionsData = JSON.parse(await fs.promises.readFile(regionsPath, 'utf8')) as Record<string, any>;
-      
-      const dictPath = path.join(process.cwd(), 'dict', 'dict.en.json');
-      const langDict = JSON.parse(await fs.promises.readFile(dictPath, 'utf8')) as Record<string, string>;
-      
-      // Find all nodes that match the mission type
-      const matchingNodes: Array<{ name: string; value: string }> = [];
-      
-      for (const [nodeId, nodeInfo] of Object.entries(regionsData)) {
-        if (nodeInfo.missionName) {
-          const translatedName = langDict[nodeInfo.missionName] || nodeInfo.missionName;
-          const missionTypeParts = translatedName.split('_');
-          if (missionTypeParts.length > 0) {
-            let currentMissionType = missionTypeParts[missionTypeParts.length - 1].replace('MissionName_', '');
-            
-            // Handle special Zariman mission types
-            if (currentMissionType === 'VoidCascade') currentMissionType = 'Void Cascade';
-            if (currentMissionType === 'Corruption') currentMissionType = 'Void Flood';
-            if (currentMissionType === 'Armageddon') currentMissionType = 'Void Armageddon';
-            
-            if (currentMissionType.toLowerCase() === missionType.toLowerCase()) {
-              const nodeName = nodeInfo.name ? (langDict[nodeInfo.name] || nodeInfo.name) : nodeId;
-              matchingNodes.push({
-                name: nodeName,
-                value: nodeName
-              });
-            }
-          }
-        }
+// Split a comma separated option into trimmed values
+function parseList(value: string | null): string[] {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+// Build a fissure filter from the builder options, validating tiers, factions and mission types
+function buildFissureFilter(
+  interaction: ChatInputCommandInteraction,
+  missionType: string
+): { filter: FissureFilter | null, errors: string[] } {
+  const errors: string[] = [];
+  const filter: FissureFilter = {};
+  
+  const tiers = parseList(interaction.options.getString('tiers'));
+  if (tiers.length > 0) {
+    const { valid, invalid } = validateFissureTiers(tiers);
+    if (invalid.length > 0) {
+      errors.push(`Unknown relic tier${invalid.length > 1 ? 's' : ''}: ${invalid.join(', ')}. Valid tiers are ${Object.values(VOID_TIER_MAP).join(', ')}.`);
+    }
+    filter.tiers = valid;
+  }
+  
+  const factions = parseList(interaction.options.getString('factions'));
+  if (factions.length > 0) {
+    const { valid, invalid } = validateFissureFactions(factions);
+    if (invalid.length > 0) {
+      errors.push(`Unknown faction${invalid.length > 1 ? 's' : ''}: ${invalid.join(', ')}. Valid factions are ${Object.keys(FISSURE_FACTIONS).join(', ')}.`);
+    }
+    filter.factions = valid;
+  }
+  
+  const extraTypes = parseList(interaction.options.getString('also_mission_types'));
+  if (extraTypes.length > 0) {
+    const missionTypes = [missionType];
+    for (const extraType of extraTypes) {
+      const match = MISSION_TYPES.find(type => type.toLowerCase() === extraType.toLowerCase());
+      if (!match) {
+        errors.push(`Unknown mission type: ${extraType}. Valid types are ${MISSION_TYPES.join(', ')}.`);
+      } else if (!missionTypes.includes(match)) {
+        missionTypes.push(match);
       }
-      
-      // Filter based on focused value
-      const filteredNodes = matchingNodes
-        .filter(node => node.name.toLowerCase().includes(focusedValue.toLowerCase()))
-        .slice(0, 25); // Discord limit
-      
-      await interaction.respond(filteredNodes);
-      
-    } catch (error) {
-      logger.error('Error in setfissure autocomplete:', error);
-      await interaction.respond([]);
     }
+    filter.missionTypes = missionTypes;
   }
-};
+  
+  const minMinutes = interaction.options.getInteger('min_minutes');
+  if (minMinutes) {
+    filter.minMinutesRemaining = minMinutes;
+  }
+  
+  return { filter: Object.keys(filter).length > 0 ? filter : null, errors };
+}
 
 // Force send an initial notification regardless of whether matching fissures exist
 async function sendForceNotification(
@@ -4,18 +4,17 @@ import {
   ChannelType,
   PermissionFlagsBits,
   Role,
-  Client,
-  AutocompleteInteraction
+  Client
 } from 'discord.js';
 import { Command } from '../../types/discord';
 import { pgdb } from '../../services/postgresDatabase';
 import { logger } from '../../utils/logger';
 import { createEmbed } from '../../utils/embedBuilder';
-import axios from 'axios';
+import { getWorldState } from '../../services/worldStateService';
 import path from 'path';
 import fs from 'fs';
 import { triggerFissureCheck } from '../../services/fissureService';
-import { ActiveMission } from '../../types/warframe';
+import { ActiveMission, getExpiryTimestamp } from '../../types/warframe';
 
 // Mission types commonly available as fissures
 const MISSION_TYPES = [
@@ -82,6 +81,8 @@ const command: Command = {
     .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
     .setDMPermission(false) as SlashCommandBuilder,
 
+  autocompleteOptions: { node: 'node' },
+
   async execute(interaction: ChatInputCommandInteraction): Promise<void> {
     await interaction.deferReply();
     
@@ -140,14 +141,9 @@ const command: Command = {
       // Check if there are active fissures matching this criteria
       try {
         // Fetch current fissure data
-        const response = await axios.get('https://oracle.browse.wf/worldState.json', {
-          timeout: 10000,
-          headers: {
-            'User-Agent': 'WardenPrimeBot/1.0.0'
-          }
-        });
+        const worldState = await getWorldState();
 
-        if (response.data?.ActiveMissions?.length > 0) {
+        if (worldState?.ActiveMissions?.length > 0) {
           // Load dictionaries for translation
           const regionsPath = path.join(process.cwd(), 'dict', 'ExportRegions.json');
           const regionsData = JSON.parse(await fs.promises.readFile(regionsPath, 'utf8')) as Record<string, any>;
@@ -156,7 +152,7 @@ const command: Command = {
           const langDict = JSON.parse(await fs.promises.readFile(dictPath, 'utf8')) as Record<string, string>;
           
           // Filter void fissure missions
-          const fissureMissions = response.data.ActiveMissions.filter((mission: any) => 
+          const fissureMissions = worldState.ActiveMissions.filter((mission: any) => 
             mission.Modifier && mission.Modifier.startsWith('VoidT')
           );
           
@@ -230,7 +226,7 @@ const command: Command = {
             };
             const relicTier = tierMap[matchingMission.Modifier] || 'Unknown';
             
-            const expiryDate = new Date(parseInt(matchingMission.Expiry.$date.$numberLong));
+            const expiryDate = new Date(getExpiryTimestamp(matchingMission));
             const expiryTimestamp = Math.floor(expiryDate.getTime() / 1000);
             
             // Get enemy level based on node data
@@ -313,62 +309,6 @@ const command: Command = {
       logger.error('Error in setlfg command:', error);
       await interaction.editReply('An error occurred while setting up LFG notifications. Please try again later.');
     }
-  },
-
-  async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
-    try {
-      const focusedValue = interaction.options.getFocused();
-      const missionType = interaction.options.getString('mission_type');
-      
-      if (!missionType) {
-        await interaction.respond([]);
-        return;
-      }
-      
-      // Load regions data to get nodes for the specific mission type
-      const regionsPath = path.join(process.cwd(), 'dict', 'ExportRegions.json');
-      const regionsData = JSON.parse(await fs.promises.readFile(regionsPath, 'utf8')) as Record<string, any>;
-      
-      const dictPath = path.join(process.cwd(), 'dict', 'dict.en.json');
-      const langDict = JSON.parse(await fs.promises.readFile(dictPath, 'utf8')) as Record<string, string>;
-      
-      // Find all nodes that match the mission type
-      const matchingNodes: Array<{ name: string; value: string }> = [];
-      
-      for (const [nodeId, nodeInfo] of Object.entries(regionsData)) {
-        if (nodeInfo.missionName) {
-          const translatedName = langDict[nodeInfo.missionName] || nodeInfo.missionName;
-          const missionTypeParts = translatedName.split('_');
-          if (missionTypeParts.length > 0) {
-            let currentMissionType = missionTypeParts[missionTypeParts.length - 1].replace('MissionName_', '');
-            
-            // Handle special Zariman mission types
-            if (currentMissionType === 'VoidCascade') currentMissionType = 'Void Cascade';
-            if (currentMissionType === 'Corruption') currentMissionType = 'Void Flood';
-            if (currentMissionType === 'Armageddon') currentMissionType = 'Void Armageddon';
-            
-            if (currentMissionType.toLowerCase() === missionType.toLowerCase()) {
-              const nodeName = nodeInfo.name ? (langDict[nodeInfo.name] || nodeInfo.name) : nodeId;
-              matchingNodes.push({
-                name: nodeName,
-                value: nodeName
-              });
-            }
-          }
-        }
-      }
-      
-      // Filter based on focused value
-      const filteredNodes = matchingNodes
-        .filter(node => node.name.toLowerCase().includes(focusedValue.toLowerCase()))
-        .slice(0, 25); // Discord limit
-      
-      await interaction.respond(filteredNodes);
-      
-    } catch (error) {
-      logger.error('Error in setlfg autocomplete:', error);
-      await interaction.respond([]);
-    }
   }
 };
 
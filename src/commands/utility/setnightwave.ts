@@ -0,0 +1,80 @@
+import { SlashCommandBuilder, ChannelType, PermissionFlagsBits } from 'discord.js';
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { pgdb } from '../../services/postgresDatabase';
+import { startNightwaveService, triggerNightwaveUpdate } from '../../services/nightwaveService';
+import { Command } from '../../types/discord';
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('setnightwave')
+    .setDescription('Setup an automatically updating Nightwave acts message in a channel.')
+    .addChannelOption(option => 
+      option.setName('channel')
+        .setDescription('Channel to post the Nightwave acts in')
+        .setRequired(true)
+        .addChannelTypes(ChannelType.GuildText)
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild) as SlashCommandBuilder,
+  
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      await interaction.deferReply();
+      const channel = interaction.options.getChannel('channel');
+      
+      if (!channel) {
+        await interaction.editReply({
+          embeds: [
+            createEmbed({
+              type: 'error',
+              title: 'Error',
+              description: 'You must specify a valid text channel.'
+            })
+          ]
+        });
+        return;
+      }
+      
+      // Check if a configuration already exists for this guild
+      const existingConfig = await pgdb.getNightwaveNotificationByGuild(interaction.guildId);
+      
+      if (existingConfig) {
+        await pgdb.updateNightwaveNotification(existingConfig.id, channel.id);
+        logger.info(`Updated Nightwave notifications for guild ${interaction.guildId} to channel ${channel.id}`);
+      } else {
+        await pgdb.addNightwaveNotification(interaction.guildId, channel.id);
+        logger.info(`Added Nightwave notifications for guild ${interaction.guildId} to channel ${channel.id}`);
+      }
+      
+      // Make sure the service is running and post the current acts
+      startNightwaveService(interaction.client);
+      triggerNightwaveUpdate(interaction.client);
+      
+      await interaction.editReply({
+        embeds: [
+          createEmbed({
+            type: 'success',
+            title: 'Nightwave Notifications Configured',
+            description: `Nightwave acts will be posted in ${channel} and updated whenever they rotate.`,
+            footer: 'The current Nightwave acts will be shown shortly.'
+          })
+        ]
+      });
+    } catch (error) {
+      logger.error(`Error configuring Nightwave notifications: ${error}`);
+      
+      await interaction.editReply({
+        embeds: [
+          createEmbed({
+            type: 'error',
+            title: 'Error',
+            description: 'There was an error setting up Nightwave notifications. Please try again later.'
+          })
+        ]
+      });
+    }
+  }
+};
+
+export = command;
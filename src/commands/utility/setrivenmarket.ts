@@ -0,0 +1,81 @@
+import { SlashCommandBuilder, ChannelType, PermissionFlagsBits } from 'discord.js';
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { pgdb } from '../../services/postgresDatabase';
+import { startRivenMarketService } from '../../services/rivenMarketService';
+import { RIVEN_MARKET_LIMITS } from '../../constants/time';
+import { Command } from '../../types/discord';
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('setrivenmarket')
+    .setDescription('Set the channel where members post riven listings with /riven sell.')
+    .addChannelOption(option =>
+      option.setName('channel')
+        .setDescription('Forum or text channel for riven listings')
+        .setRequired(true)
+        .addChannelTypes(ChannelType.GuildText, ChannelType.GuildForum)
+    )
+    .addIntegerOption(option =>
+      option.setName('listing_days')
+        .setDescription(`Days before a listing expires unless bumped (default ${RIVEN_MARKET_LIMITS.DEFAULT_LISTING_DAYS})`)
+        .setRequired(false)
+        .setMinValue(1)
+        .setMaxValue(RIVEN_MARKET_LIMITS.MAX_LISTING_DAYS)
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .setDMPermission(false) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      await interaction.deferReply();
+      const channel = interaction.options.getChannel('channel');
+      const listingDays = interaction.options.getInteger('listing_days') ?? RIVEN_MARKET_LIMITS.DEFAULT_LISTING_DAYS;
+
+      if (!channel) {
+        await interaction.editReply({
+          embeds: [
+            createEmbed({
+              type: 'error',
+              title: 'Error',
+              description: 'You must specify a valid forum or text channel.'
+            })
+          ]
+        });
+        return;
+      }
+
+      await pgdb.setRivenMarketSettings(interaction.guildId, channel.id, listingDays);
+      logger.info(`Set riven market for guild ${interaction.guildId} to channel ${channel.id} with ${listingDays} day listings`);
+
+      // Make sure expired listings get closed
+      startRivenMarketService(interaction.client);
+
+      await interaction.editReply({
+        embeds: [
+          createEmbed({
+            type: 'success',
+            title: 'Riven Market Configured',
+            description: `Listings posted with \`/riven sell\` will go to ${channel} and expire after ${listingDays} day${listingDays === 1 ? '' : 's'} unless the seller bumps them.`,
+            footer: 'Existing listings stay in the channel they were posted in.'
+          })
+        ]
+      });
+    } catch (error) {
+      logger.error(`Error configuring riven market: ${error}`);
+
+      await interaction.editReply({
+        embeds: [
+          createEmbed({
+            type: 'error',
+            title: 'Error',
+            description: 'There was an error setting up the riven market. Please try again later.'
+          })
+        ]
+      });
+    }
+  }
+};
+
+export = command;
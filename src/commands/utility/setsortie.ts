@@ -0,0 +1,98 @@
+import { SlashCommandBuilder, ChannelType, PermissionFlagsBits } from 'discord.js';
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { pgdb } from '../../services/postgresDatabase';
+import { startSortieService, triggerSortieUpdate } from '../../services/sortieService';
+import { Command } from '../../types/discord';
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('setsortie')
+    .setDescription('Setup an automatically updating daily Sortie message in a channel.')
+    .addChannelOption(option => 
+      option.setName('channel')
+        .setDescription('Channel to post the daily Sortie in')
+        .setRequired(true)
+        .addChannelTypes(ChannelType.GuildText)
+    )
+    .addRoleOption(option =>
+      option.setName('role')
+        .setDescription('Role to ping when the Sortie resets (optional)')
+        .setRequired(false)
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild) as SlashCommandBuilder,
+  
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      await interaction.deferReply();
+      const channel = interaction.options.getChannel('channel');
+      const role = interaction.options.getRole('role');
+      
+      if (!channel) {
+        await interaction.editReply({
+          embeds: [
+            createEmbed({
+              type: 'error',
+              title: 'Error',
+              description: 'You must specify a valid text channel.'
+            })
+          ]
+        });
+        return;
+      }
+      
+      // Check if a configuration already exists for this guild
+      const existingConfig = await pgdb.getSortieNotificationByGuild(interaction.guildId);
+      
+      if (existingConfig) {
+        // Update existing configuration
+        await pgdb.updateSortieNotification(
+          existingConfig.id,
+          channel.id,
+          role?.id || null
+        );
+        
+        logger.info(`Updated Sortie notifications for guild ${interaction.guildId} to channel ${channel.id} ${role ? `with role ${role.id}` : 'without a role'}`);
+      } else {
+        // Create new configuration
+        await pgdb.addSortieNotification(
+          interaction.guildId,
+          channel.id,
+          role?.id || null
+        );
+        
+        logger.info(`Added Sortie notifications for guild ${interaction.guildId} to channel ${channel.id} ${role ? `with role ${role.id}` : 'without a role'}`);
+      }
+      
+      // Make sure the service is running and post the current Sortie
+      startSortieService(interaction.client);
+      triggerSortieUpdate(interaction.client, 'sortie');
+      
+      await interaction.editReply({
+        embeds: [
+          createEmbed({
+            type: 'success',
+            title: 'Sortie Notifications Configured',
+            description: `The daily Sortie will be posted in ${channel}${role ? ` and ${role} will be pinged at each reset` : ''}.`,
+            footer: 'The current Sortie will be shown shortly.'
+          })
+        ]
+      });
+    } catch (error) {
+      logger.error(`Error configuring Sortie notifications: ${error}`);
+      
+      await interaction.editReply({
+        embeds: [
+          createEmbed({
+            type: 'error',
+            title: 'Error',
+            description: 'There was an error setting up Sortie notifications. Please try again later.'
+          })
+        ]
+      });
+    }
+  }
+};
+
+export = command;
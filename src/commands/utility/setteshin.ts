@@ -0,0 +1,98 @@
+import { SlashCommandBuilder, ChannelType, PermissionFlagsBits } from 'discord.js';
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { pgdb } from '../../services/postgresDatabase';
+import { startTeshinService, triggerTeshinUpdate } from '../../services/teshinService';
+import { Command } from '../../types/discord';
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('setteshin')
+    .setDescription('Setup an automatically updating Teshin Steel Path Honors message in a channel.')
+    .addChannelOption(option => 
+      option.setName('channel')
+        .setDescription('Channel to post the Steel Path Honors offering in')
+        .setRequired(true)
+        .addChannelTypes(ChannelType.GuildText)
+    )
+    .addRoleOption(option =>
+      option.setName('role')
+        .setDescription('Role to ping when the offering rotates (optional)')
+        .setRequired(false)
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild) as SlashCommandBuilder,
+  
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      await interaction.deferReply();
+      const channel = interaction.options.getChannel('channel');
+      const role = interaction.options.getRole('role');
+      
+      if (!channel) {
+        await interaction.editReply({
+          embeds: [
+            createEmbed({
+              type: 'error',
+              title: 'Error',
+              description: 'You must specify a valid text channel.'
+            })
+          ]
+        });
+        return;
+      }
+      
+      // Check if a configuration already exists for this guild
+      const existingConfig = await pgdb.getTeshinNotificationByGuild(interaction.guildId);
+      
+      if (existingConfig) {
+        // Update existing configuration
+        await pgdb.updateTeshinNotification(
+          existingConfig.id,
+          channel.id,
+          role?.id || null
+        );
+        
+        logger.info(`Updated Teshin notifications for guild ${interaction.guildId} to channel ${channel.id} ${role ? `with role ${role.id}` : 'without a role'}`);
+      } else {
+        // Create new configuration
+        await pgdb.addTeshinNotification(
+          interaction.guildId,
+          channel.id,
+          role?.id || null
+        );
+        
+        logger.info(`Added Teshin notifications for guild ${interaction.guildId} to channel ${channel.id} ${role ? `with role ${role.id}` : 'without a role'}`);
+      }
+      
+      // Make sure the service is running and post the current offering
+      startTeshinService(interaction.client);
+      triggerTeshinUpdate(interaction.client);
+      
+      await interaction.editReply({
+        embeds: [
+          createEmbed({
+            type: 'success',
+            title: 'Teshin Notifications Configured',
+            description: `The Steel Path Honors offering will be posted in ${channel} and updated every Monday at 00:00 UTC${role ? `, pinging ${role} when it rotates` : ''}.`,
+            footer: 'The current offering will be shown shortly.'
+          })
+        ]
+      });
+    } catch (error) {
+      logger.error(`Error configuring Teshin notifications: ${error}`);
+      
+      await interaction.editReply({
+        embeds: [
+          createEmbed({
+            type: 'error',
+            title: 'Error',
+            description: 'There was an error setting up Teshin notifications. Please try again later.'
+          })
+        ]
+      });
+    }
+  }
+};
+
+export = command;
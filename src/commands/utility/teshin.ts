@@ -0,0 +1,29 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction } from 'discord.js';
+import { Command } from '../../types/discord';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { createTeshinEmbed } from '../../services/teshinService';
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('teshin')
+    .setDescription('Displays the current and upcoming Steel Path Honors offerings from Teshin.'),
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      await interaction.reply({ embeds: [createTeshinEmbed()] });
+    } catch (error) {
+      logger.error('Error building Steel Path Honors rotation:', error);
+
+      const errorEmbed = createEmbed({
+        type: 'error',
+        title: 'Error',
+        description: 'Failed to retrieve the Steel Path Honors rotation. Please try again later.',
+        timestamp: true
+      });
+      await interaction.reply({ embeds: [errorEmbed], ephemeral: true });
+    }
+  }
+};
+
+export = command;
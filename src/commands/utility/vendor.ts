@@ -0,0 +1,123 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction, AutocompleteInteraction } from 'discord.js';
+import { Command } from '../../types/discord';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { initializeDictionaries } from '../../utils/dictionaryLoader';
+import { VendorItem, getVendor, searchVendors } from '../../services/vendorService';
+import { formatDropChance } from '../../services/relicService';
+
+// Discord limits embed field values to 1024 characters
+const MAX_FIELD_LENGTH = 1024;
+
+function formatItem(item: VendorItem): string {
+  const details = [
+    item.prices.join(' + ') || 'Free',
+    item.purchaseLimit ? `limit ${item.purchaseLimit}` : null,
+    !item.alwaysOffered && item.chance !== null ? `${formatDropChance(item.chance)} chance` : null
+  ].filter(Boolean);
+
+  return `**${item.item}**${item.quantity > 1 ? ` x${item.quantity.toLocaleString()}` : ''} - ${details.join(', ')}`;
+}
+
+// Split lines over as many fields as needed, each within the field limit
+function toFields(name: string, lines: string[]) {
+  const fields: Array<{ name: string; value: string; inline: boolean }> = [];
+  let value = '';
+
+  for (const line of lines) {
+    if (value.length + line.length + 1 > MAX_FIELD_LENGTH) {
+      fields.push({ name: fields.length === 0 ? name : `${name} (cont.)`, value, inline: false });
+      value = '';
+    }
+    value += (value ? '\n' : '') + line;
+  }
+  if (value) {
+    fields.push({ name: fields.length === 0 ? name : `${name} (cont.)`, value, inline: false });
+  }
+
+  return fields;
+}
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('vendor')
+    .setDescription('Shows what a vendor sells and for how much')
+    .addStringOption(option =>
+      option.setName('name')
+        .setDescription('Vendor name, e.g. Fisher Hai-Luk')
+        .setRequired(true)
+        .setAutocomplete(true)) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+
+    try {
+      await initializeDictionaries();
+
+      const name = interaction.options.getString('name', true);
+      const vendor = getVendor(name);
+
+      if (!vendor) {
+        const errorEmbed = createEmbed({
+          type: 'error',
+          title: 'Vendor Not Found',
+          description: `No vendor matching **${name}** was found.`,
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [errorEmbed] });
+        return;
+      }
+
+      const always = vendor.items.filter(item => item.alwaysOffered).map(formatItem);
+      const rotating = vendor.items.filter(item => !item.alwaysOffered);
+      const weekly = rotating.filter(item => item.rotatedWeekly || item.durationHours === 168);
+
+      // Embeds are limited to 25 fields, anything beyond that is left out
+      const fields = [
+        ...toFields('Always Offered', always),
+        ...toFields('Rotating Stock', rotating.map(formatItem))
+      ].slice(0, 25);
+
+      const description = rotating.length > 0
+        ? `${vendor.location} • ${rotating.length} rotating item${rotating.length === 1 ? '' : 's'}${weekly.length > 0 ? `, ${weekly.length} of them weekly` : ''}. Rotating items are drawn from this pool at each refresh.`
+        : `${vendor.location} • Fixed stock.`;
+
+      const embed = createEmbed({
+        type: 'info',
+        title: vendor.name,
+        description,
+        fields,
+        footer: vendor.id,
+        timestamp: true
+      });
+
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+      logger.error('Error in vendor command:', error);
+
+      const errorEmbed = createEmbed({
+        type: 'error',
+        title: 'Error',
+        description: 'Failed to look up vendor data. Please try again later.',
+        timestamp: true
+      });
+      await interaction.editReply({ embeds: [errorEmbed] });
+    }
+  },
+
+  async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    try {
+      await initializeDictionaries();
+
+      const focused = interaction.options.getFocused();
+      const choices = searchVendors(focused)
+        .map(vendor => ({ name: vendor.name.slice(0, 100), value: vendor.id.slice(0, 100) }));
+      await interaction.respond(choices);
+    } catch (error) {
+      logger.error('Error in vendor autocomplete:', error);
+      await interaction.respond([]);
+    }
+  }
+};
+
+export = command;
@@ -0,0 +1,251 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  ActionRowBuilder,
+  StringSelectMenuBuilder,
+  StringSelectMenuInteraction,
+  ComponentType,
+  EmbedBuilder,
+  Message
+} from 'discord.js';
+import { Command } from '../../types/discord';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { weaponLookupService } from '../../services/weaponLookupService';
+import { getIncarnonAvailability } from '../../services/incarnonService';
+import { RivenWeapon, findWeapon, formatDisposition, formatRivenType } from '../../utils/rivenEngine';
+
+// Damage types in the order of ExportWeapons damagePerShot
+const DAMAGE_TYPES = [
+  'Impact', 'Puncture', 'Slash', 'Heat', 'Cold', 'Electricity', 'Toxin', 'Blast', 'Radiation', 'Gas',
+  'Magnetic', 'Viral', 'Corrosive', 'Void', 'Tau', 'Cinematic', 'Shield Drain', 'Health Drain', 'Energy Drain', 'True'
+];
+
+const CATEGORY_NAMES: Record<string, string> = {
+  LongGuns: 'Primary',
+  Pistols: 'Secondary',
+  Melee: 'Melee',
+  SpaceGuns: 'Archgun',
+  SpaceMelee: 'Archmelee',
+  SentinelWeapons: 'Companion',
+  DrifterMelee: 'Drifter Melee',
+  OperatorAmps: 'Amp',
+  SpecialItems: 'Special'
+};
+
+// Prefixes and suffixes that mark a variant of a base weapon, e.g. "Kuva Braton" or "Braton Prime"
+const VARIANT_PREFIX = /^(kuva|tenet|prisma|coda|dex|mara|rakta|sancti|secura|telos|synoid|vaykor|mk1-)\s*/i;
+const VARIANT_SUFFIX = /\s+(prime|vandal|wraith)$/i;
+
+function getBaseName(displayName: string): string {
+  return displayName.replace(VARIANT_PREFIX, '').replace(VARIANT_SUFFIX, '').toLowerCase();
+}
+
+/**
+ * All variants of a weapon including itself, base weapon first
+ */
+function findVariants(displayName: string): string[] {
+  const baseName = getBaseName(displayName);
+  return weaponLookupService.getWeaponNames()
+    .filter(name => getBaseName(name) === baseName)
+    .sort((a, b) => a.length - b.length || a.localeCompare(b));
+}
+
+// Drop trailing zeros, e.g. 2.50 -> 2.5
+function formatNumber(value: number, digits = 2): string {
+  return Number(value.toFixed(digits)).toString();
+}
+
+function formatDamage(data: any): string {
+  const damagePerShot: number[] = data.damagePerShot || [];
+  const lines = damagePerShot
+    .map((amount, index) => ({ type: DAMAGE_TYPES[index], amount }))
+    .filter(damage => damage.amount > 0)
+    .map(damage => `${damage.type}: ${formatNumber(damage.amount, 1)}`);
+
+  if (lines.length === 0) {
+    return 'No base damage';
+  }
+  return `${lines.join('\n')}\n**Total: ${formatNumber(data.totalDamage || 0, 1)}**`;
+}
+
+async function formatIncarnon(displayName: string): Promise<string> {
+  const availability = await getIncarnonAvailability(displayName);
+  if (!availability) {
+    return 'Not in the Steel Path circuit rotation';
+  }
+
+  const genesis = `${availability.genesis} Incarnon Genesis (Week ${availability.rotation})`;
+  if (availability.timestamp === null) {
+    return genesis;
+  }
+  return availability.active
+    ? `${genesis}\nAvailable now, rotates <t:${availability.timestamp}:R>`
+    : `${genesis}\nAvailable <t:${availability.timestamp}:R>`;
+}
+
+async function createWeaponEmbed(weapon: RivenWeapon): Promise<EmbedBuilder> {
+  const data = weaponLookupService.getWeaponData(weapon.name) || weapon.data || {};
+  const isGun = data.magazineSize !== undefined;
+  const category = CATEGORY_NAMES[data.productCategory] || data.productCategory || 'Unknown';
+
+  const fields = [
+    { name: 'Damage', value: formatDamage(data), inline: true },
+    {
+      name: 'Critical / Status',
+      value: [
+        `Crit Chance: ${formatNumber((data.criticalChance || 0) * 100, 1)}%`,
+        `Crit Multiplier: ${formatNumber(data.criticalMultiplier || 0, 1)}x`,
+        `Status Chance: ${formatNumber((data.procChance || 0) * 100, 1)}%`
+      ].join('\n'),
+      inline: true
+    }
+  ];
+
+  if (isGun) {
+    fields.push({
+      name: 'Handling',
+      value: [
+        `Fire Rate: ${formatNumber(data.fireRate || 0)}/s`,
+        `Magazine: ${data.magazineSize}`,
+        `Reload: ${formatNumber(data.reloadTime || 0)}s`,
+        ...(data.multishot > 1 ? [`Multishot: ${data.multishot}`] : [])
+      ].join('\n'),
+      inline: true
+    });
+  } else {
+    fields.push({
+      name: 'Handling',
+      value: [
+        `Attack Speed: ${formatNumber(data.fireRate || 0)}`,
+        ...(data.range !== undefined ? [`Range: ${formatNumber(data.range)}m`] : [])
+      ].join('\n'),
+      inline: true
+    });
+  }
+
+  fields.push(
+    {
+      name: 'Riven Disposition',
+      value: `${formatDisposition(weapon.omegaAttenuation)}\n${formatRivenType(weapon.rivenType)}`,
+      inline: true
+    },
+    { name: 'Incarnon', value: await formatIncarnon(weapon.displayName), inline: true }
+  );
+
+  const details = [category];
+  if (data.trigger) {
+    details.push(`${data.trigger.charAt(0)}${data.trigger.slice(1).toLowerCase()}`);
+  }
+  details.push(`Mastery Rank ${data.masteryReq || 0}`);
+
+  return createEmbed({
+    type: 'info',
+    title: weapon.displayName,
+    description: details.join(' • '),
+    thumbnail: data.icon ? `https://browse.wf${data.icon}` : undefined,
+    fields,
+    footer: 'Base stats without mods or arcanes',
+    timestamp: true
+  });
+}
+
+function createVariantMenu(variants: string[], selected: string, disabled = false): ActionRowBuilder<StringSelectMenuBuilder> {
+  return new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+    new StringSelectMenuBuilder()
+      .setCustomId('weapon_variant')
+      .setPlaceholder('Select a variant')
+      .setDisabled(disabled)
+      .addOptions(variants.slice(0, 25).map(variant => ({ // Discord limit
+        label: variant,
+        value: variant,
+        default: variant === selected
+      })))
+  );
+}
+
+// Switch the embed to the selected variant for 60 seconds
+function setupVariantCollector(message: Message, variants: string[], selected: string): void {
+  const collector = message.createMessageComponentCollector({
+    componentType: ComponentType.StringSelect,
+    time: 60000
+  });
+
+  collector.on('collect', async (selectInteraction: StringSelectMenuInteraction) => {
+    await selectInteraction.deferUpdate();
+
+    const weapon = findWeapon(selectInteraction.values[0]);
+    if (!weapon) {
+      logger.warn(`Could not find selected weapon variant: ${selectInteraction.values[0]}`);
+      return;
+    }
+
+    selected = weapon.displayName;
+    await selectInteraction.editReply({
+      embeds: [await createWeaponEmbed(weapon)],
+      components: [createVariantMenu(variants, selected)]
+    });
+  });
+
+  collector.on('end', () => {
+    message.edit({ components: [createVariantMenu(variants, selected, true)] }).catch((error: Error) => {
+      logger.error('Error disabling weapon variant menu after timeout:', error);
+    });
+  });
+}
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('weapon')
+    .setDescription('Show the base stats, riven disposition and Incarnon availability of a weapon')
+    .addStringOption(option =>
+      option.setName('name')
+        .setDescription('The weapon name')
+        .setRequired(true)
+        .setAutocomplete(true)) as SlashCommandBuilder,
+
+  autocompleteOptions: { name: 'weapon' },
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+
+    try {
+      const weaponName = interaction.options.getString('name', true);
+      const weapon = findWeapon(weaponName);
+
+      if (!weapon) {
+        await interaction.editReply({ embeds: [createEmbed({
+          type: 'error',
+          title: 'Weapon Not Found',
+          description: `Could not find weapon: ${weaponName}`,
+          timestamp: true
+        })] });
+        return;
+      }
+
+      const embed = await createWeaponEmbed(weapon);
+      const variants = findVariants(weapon.displayName);
+
+      if (variants.length < 2) {
+        await interaction.editReply({ embeds: [embed] });
+        return;
+      }
+
+      const message = await interaction.editReply({
+        embeds: [embed],
+        components: [createVariantMenu(variants, weapon.displayName)]
+      });
+      setupVariantCollector(message, variants, weapon.displayName);
+    } catch (error) {
+      logger.error('Error executing weapon command:', error);
+      await interaction.editReply({ embeds: [createEmbed({
+        type: 'error',
+        title: 'Error',
+        description: 'An error occurred while looking up the weapon. Please try again later.',
+        timestamp: true
+      })] });
+    }
+  }
+};
+
+export = command;
@@ -0,0 +1,133 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction } from 'discord.js';
+import { Command } from '../../types/discord';
+import { createEmbed } from '../../utils/embedBuilder';
+import { logger } from '../../utils/logger';
+import { initializeDictionaries } from '../../utils/dictionaryLoader';
+import { getRelicsDropping } from '../../services/relicService';
+import {
+  DropHint,
+  DropLocation,
+  getDropHints,
+  getDropLocations,
+  getPlanetDrops,
+  searchDropItems
+} from '../../services/dropService';
+
+// Most drop locations a single /where reply will list
+const MAX_LOCATIONS = 15;
+
+function formatChance(chance: number): string {
+  return `${Number(chance.toFixed(2))}%`;
+}
+
+// e.g. "Survival, Rotation C" or "Sabotage caches, Rotation B"
+function formatRotation(location: DropLocation): string {
+  const mission = location.source === 'cache' ? `${location.missionType} caches` : location.missionType;
+  return location.rotation ? `${mission}, Rotation ${location.rotation}` : mission;
+}
+
+function formatLocation(location: DropLocation): string {
+  const count = location.maxCount > 1
+    ? ` x${location.minCount === location.maxCount ? location.maxCount : `${location.minCount}-${location.maxCount}`}`
+    : '';
+  return `**${location.nodeName}** (${location.systemName}) • ${formatRotation(location)} • ${formatChance(location.chance)}${count}`;
+}
+
+function formatHint(hint: DropHint): string {
+  const where = `**${hint.location.nodeName}** (${formatRotation(hint.location)}, ${formatChance(hint.location.chance)})`;
+
+  if (hint.type === 'fissure') {
+    return `🌀 An active ${hint.detail} fissure on ${where} drops this, ends <t:${hint.timestamp}:R>`;
+  }
+  return hint.active
+    ? `⚖️ Today's arbitration node ${where} drops this, ends <t:${hint.timestamp + 3600}:R>`
+    : `⚖️ An upcoming arbitration on ${where} drops this, starts <t:${hint.timestamp}:R>`;
+}
+
+const command: Command = {
+  data: new SlashCommandBuilder()
+    .setName('where')
+    .setDescription('Find the nodes, mission types and rotations that drop an item')
+    .addStringOption(option =>
+      option.setName('item')
+        .setDescription('Item name, e.g. Neurodes')
+        .setRequired(true)
+        .setAutocomplete(true)) as SlashCommandBuilder,
+
+  autocompleteOptions: { item: 'drop' },
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply();
+
+    try {
+      await initializeDictionaries();
+
+      const query = interaction.options.getString('item', true);
+      const [item] = searchDropItems(query, 1);
+      if (!item) {
+        const errorEmbed = createEmbed({
+          type: 'error',
+          title: 'Item Not Found',
+          description: `No mission or planet drops an item matching **${query}**.`,
+          timestamp: true
+        });
+        await interaction.editReply({ embeds: [errorEmbed] });
+        return;
+      }
+
+      const locations = getDropLocations(item);
+      const planets = getPlanetDrops(item);
+      const hints = await getDropHints(locations);
+
+      const lines = locations.slice(0, MAX_LOCATIONS).map(formatLocation);
+      if (locations.length > MAX_LOCATIONS) {
+        lines.push(`...and ${locations.length - MAX_LOCATIONS} more`);
+      }
+
+      const sections = [];
+      if (hints.length > 0) {
+        sections.push(`**Right Now**\n${hints.map(formatHint).join('\n')}`);
+      }
+      if (lines.length > 0) {
+        sections.push(`**Mission Rewards**\n${lines.join('\n')}`);
+      }
+
+      const fields = [];
+      if (planets.length > 0) {
+        fields.push({
+          name: 'Planet Drops',
+          value: planets.map(planet => `${planet.systemName} (${planet.rarity})`).join('\n'),
+          inline: false
+        });
+      }
+
+      const relicCount = getRelicsDropping(item).length;
+      const footer = relicCount > 0
+        ? `Also in ${relicCount} relic${relicCount === 1 ? '' : 's'} • Use /relic drops to see them`
+        : `${locations.length} mission reward${locations.length === 1 ? '' : 's'}`;
+
+      const embed = createEmbed({
+        type: 'info',
+        title: `Where to Find ${item}`,
+        description: (sections.join('\n\n') || 'Only dropped by enemies and containers on the planets below.').slice(0, 4096),
+        fields,
+        footer,
+        timestamp: true
+      });
+
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+      logger.error('Error in where command:', error);
+
+      const errorEmbed = createEmbed({
+        type: 'error',
+        title: 'Error',
+        description: 'Failed to look up drop locations. Please try again later.',
+        timestamp: true
+      });
+      await interaction.editReply({ embeds: [errorEmbed] });
+    }
+  }
+};
+
+export = command;
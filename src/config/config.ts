@@ -51,13 +51,32 @@ interface Config {
   DASHBOARD_SESSION_SECRET?: string;
   BOT_API_KEY?: string;
   OAUTH_CALLBACK_URL?: string;
+
+  // World state source configuration
+  WORLD_STATE_SOURCE: 'http' | 'file' | 'replay';
+  WORLD_STATE_URL: string;
+  WORLD_STATE_PATH: string;
+  WORLD_STATE_REPLAY_SPEED: number;
+  WORLD_STATE_RECORD_DIR: string;
+
+  // OCR configuration for /autograde
+  OCR_PROVIDERS: string[];
+  OCR_API_KEY: string;
+  OCR_TESSERACT_LANG_PATH: string;
+  OCR_TESSERACT_CACHE_PATH: string;
+
+  // Dictionary languages for localized autocomplete
+  DICTIONARY_LANGUAGES: string[];
 }
 
 // Validate required environment variables for bot runtime, but allow dashboard-only runs
 const isDashboardProcess = (process.env.DASHBOARD_ENABLED === 'true') ||
   (process.argv && process.argv[1] && process.argv[1].includes('dashboard'));
 
-if (!isDashboardProcess) {
+// Offline scripts that never log in, e.g. the riven regression suite in CI, opt out with BOT_CONFIG_OPTIONAL
+const isBotConfigOptional = process.env.BOT_CONFIG_OPTIONAL === 'true';
+
+if (!isDashboardProcess && !isBotConfigOptional) {
   const requiredEnvVars = ['BOT_TOKEN', 'CLIENT_ID'];
   for (const envVar of requiredEnvVars) {
     if (!process.env[envVar]) {
@@ -125,7 +144,23 @@ export const config: Config = {
   DASHBOARD_PUBLIC_URL: getEnvVar('DASHBOARD_PUBLIC_URL', ''),
   DASHBOARD_SESSION_SECRET: getEnvVar('DASHBOARD_SESSION_SECRET', ''),
   BOT_API_KEY: getEnvVar('BOT_API_KEY', ''),
-  OAUTH_CALLBACK_URL: getEnvVar('OAUTH_CALLBACK_URL', '')
+  OAUTH_CALLBACK_URL: getEnvVar('OAUTH_CALLBACK_URL', ''),
+
+  // World state source - http (live), file (single snapshot) or replay (directory of timestamped snapshots)
+  WORLD_STATE_SOURCE: getEnvVar('WORLD_STATE_SOURCE', 'http').toLowerCase() as 'http' | 'file' | 'replay',
+  WORLD_STATE_URL: getEnvVar('WORLD_STATE_URL', 'https://oracle.browse.wf/worldState.json'),
+  WORLD_STATE_PATH: getEnvVar('WORLD_STATE_PATH', ''),
+  WORLD_STATE_REPLAY_SPEED: parseFloat(getEnvVar('WORLD_STATE_REPLAY_SPEED', '1')),
+  WORLD_STATE_RECORD_DIR: getEnvVar('WORLD_STATE_RECORD_DIR', ''),
+
+  // OCR providers in fallback order - ocrspace (needs OCR_API_KEY) and tesseract (local)
+  OCR_PROVIDERS: getEnvVar('OCR_PROVIDERS', 'ocrspace,tesseract').toLowerCase().split(',').map(name => name.trim()).filter(Boolean),
+  OCR_API_KEY: getEnvVar('OCR_API_KEY', ''),
+  OCR_TESSERACT_LANG_PATH: getEnvVar('OCR_TESSERACT_LANG_PATH', ''),
+  OCR_TESSERACT_CACHE_PATH: getEnvVar('OCR_TESSERACT_CACHE_PATH', ''),
+
+  // Extra dictionary languages to download for localized autocomplete, e.g. de,fr (English is always loaded)
+  DICTIONARY_LANGUAGES: getEnvVar('DICTIONARY_LANGUAGES', '').toLowerCase().split(',').map(code => code.trim()).filter(code => code && code !== 'en')
 };
 
 // Define intents required for the bot
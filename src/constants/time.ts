@@ -15,8 +15,12 @@ export const TIME = {
 // Service check intervals
 export const SERVICE_INTERVALS = {
   FISSURE_CHECK: 45 * 1000, // 45 seconds (fissures change frequently)
+  WORLD_STATE_POLL: 45 * 1000, // 45 seconds (shared by all world state consumers)
+  WORLD_STATE_MAX_BACKOFF: 10 * 60 * 1000, // 10 minutes (upper bound after repeated failures)
   LFG_CLEANUP: 15 * 60 * 1000, // 15 minutes
+  CYCLE_CHECK: 30 * 1000, // 30 seconds (open world cycles and their alerts)
   DICTIONARY_UPDATE: 60 * 60 * 1000, // 1 hour
+  RIVEN_MARKET_EXPIRY: 15 * 60 * 1000, // 15 minutes
 } as const;
 
 // API timeouts
@@ -34,6 +38,32 @@ export const GIVEAWAY_LIMITS = {
   MIN_WINNERS: 1,
 } as const;
 
+// Fissure DM subscription limits
+export const FISSURE_DM_LIMITS = {
+  MAX_MESSAGES: 6, // DMs per user per window
+  WINDOW: 60 * 60 * 1000, // 1 hour
+} as const;
+
+// Riven market listing limits
+export const RIVEN_MARKET_LIMITS = {
+  DEFAULT_LISTING_DAYS: 7, // Listing lifetime unless the guild configures another
+  MAX_LISTING_DAYS: 30,
+  BUMP_COOLDOWN: 12 * 60 * 60 * 1000, // 12 hours between bumps of a listing
+  MAX_ACTIVE_LISTINGS: 10, // Active listings per seller per guild
+} as const;
+
+export const RIVEN_SESSION_LIMITS = {
+  MAX_ACTIVE_SESSIONS: 25, // Active reroll sessions per user, the autocomplete limit
+  MAX_TARGETS: 3, // Target stats per session, a riven has at most three positives
+  COMPARISON_ROLLS: 5, // Rolls drawn in the comparison image
+} as const;
+
+export const DISPOSITION_LIMITS = {
+  HISTORY_ENTRIES: 10, // Changes shown by /disposition
+  DIGEST_ENTRIES: 40, // Changes listed in one digest message, the rest are counted
+  MIN_CHANGE: 0.001, // Smaller differences are rounding in the export data
+} as const;
+
 // Cooldown periods
 export const COOLDOWNS = {
   COMMAND_DEFAULT: 3 * 1000, // 3 seconds
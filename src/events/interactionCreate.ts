@@ -8,6 +8,7 @@ import { EmbedBuilder, TextChannel, ApplicationCommandOptionType } from 'discord
 import { pgdb } from '../services/postgresDatabase';
 import { ButtonInteraction, PermissionFlagsBits } from 'discord.js';
 import { ThreadChannel } from 'discord.js';
+import { respondWithAutocomplete, recordAutocompleteUsage } from '../utils/autocomplete';
 
 // Store command cooldowns
 const cooldowns = new Collection<string, Collection<string, number>>();
@@ -39,6 +40,22 @@ export const execute: Event<typeof Events.InteractionCreate>['execute'] = async
         return;
       }
       
+      // Weapon, node, relic and item options share one provider
+      const source = command.autocompleteOptions?.[interaction.options.getFocused(true).name];
+      if (source) {
+        try {
+          await respondWithAutocomplete(interaction, source);
+        } catch (error) {
+          logger.error(`Error in ${source} autocomplete for ${commandName}:`, error);
+          try {
+            await interaction.respond([]);
+          } catch (responseError) {
+            logger.error(`Failed to send empty autocomplete response:`, responseError);
+          }
+        }
+        return;
+      }
+      
       if (!command.autocomplete) {
         logger.warn(`Command ${commandName} does not have an autocomplete handler`);
         await interaction.respond([]);
@@ -111,6 +128,12 @@ export const execute: Event<typeof Events.InteractionCreate>['execute'] = async
         await command.execute(interaction);
         logger.command(`Completed: ${commandName}`);
         
+        // Count the picked weapons, nodes and items so autocomplete ranks them higher
+        if (command.autocompleteOptions) {
+          recordAutocompleteUsage(interaction, command.autocompleteOptions)
+            .catch(error => logger.error(`Error recording autocomplete usage for ${commandName}:`, error));
+        }
+        
         // Log moderator commands to the log channel if it exists
         try {
           // Check if the command is a moderation command (you can customize this list)
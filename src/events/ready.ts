@@ -4,7 +4,16 @@ import { Event } from '../types/discord';
 import { initArbitrationService } from '../services/arbitrationService';
 import { startAyaService } from '../services/ayaService';
 import { startFissureService } from '../services/fissureService';
+import { startFissureSubscriptionService } from '../services/fissureSubscriptionService';
 import { startBaroService } from '../services/baroService';
+import { startWorldStateService } from '../services/worldStateService';
+import { startSortieService } from '../services/sortieService';
+import { startNightwaveService } from '../services/nightwaveService';
+import { startCycleService } from '../services/cycleService';
+import { startTeshinService } from '../services/teshinService';
+import { startInvasionService } from '../services/invasionService';
+import { startRivenMarketService } from '../services/rivenMarketService';
+import { startDispositionService } from '../services/dispositionService';
 
 // Event fired when the bot is ready
 const ready: Event<Events.ClientReady> = {
@@ -26,6 +35,11 @@ const ready: Event<Events.ClientReady> = {
     
     // Initialize services
     try {
+      // Start the shared world state poller first so the services below can subscribe to it
+      logger.info('Starting world state service...');
+      startWorldStateService();
+      logger.info('World state service started successfully');
+      
       // Start arbitration service
       logger.info('Initializing arbitration service...');
       await initArbitrationService(client);
@@ -41,10 +55,50 @@ const ready: Event<Events.ClientReady> = {
       startFissureService(client);
       logger.info('Fissure service started successfully');
       
+      // Start fissure DM subscription service
+      logger.info('Starting fissure subscription service...');
+      startFissureSubscriptionService(client);
+      logger.info('Fissure subscription service started successfully');
+      
       // Start Baro Ki'Teer service
       logger.info('Starting Baro Ki\'Teer service...');
       startBaroService(client);
       logger.info('Baro Ki\'Teer service started successfully');
+      
+      // Start Sortie and Archon Hunt service
+      logger.info('Starting Sortie and Archon Hunt service...');
+      startSortieService(client);
+      logger.info('Sortie and Archon Hunt service started successfully');
+      
+      // Start Nightwave service
+      logger.info('Starting Nightwave service...');
+      startNightwaveService(client);
+      logger.info('Nightwave service started successfully');
+      
+      // Start open world cycle service
+      logger.info('Starting open world cycle service...');
+      startCycleService(client);
+      logger.info('Open world cycle service started successfully');
+      
+      // Start Teshin Steel Path Honors service
+      logger.info('Starting Teshin service...');
+      startTeshinService(client);
+      logger.info('Teshin service started successfully');
+      
+      // Start invasion alert service
+      logger.info('Starting invasion alert service...');
+      startInvasionService(client);
+      logger.info('Invasion alert service started successfully');
+      
+      // Start riven market listing expiry service
+      logger.info('Starting riven market service...');
+      startRivenMarketService(client);
+      logger.info('Riven market service started successfully');
+      
+      // Start riven disposition tracking
+      logger.info('Starting disposition service...');
+      startDispositionService(client);
+      logger.info('Disposition service started successfully');
     } catch (error) {
       logger.error('Error initializing services:', error);
     }
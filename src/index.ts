@@ -6,6 +6,9 @@ import { logger } from './utils/logger';
 import { Command } from './types/discord';
 import { initDatabase } from './services/initDatabase';
 import { initializeDictionaries } from './utils/dictionaryLoader';
+import { initializeRelicIndex } from './services/relicService';
+import { initializeRecipeIndex } from './services/recipeService';
+import { initializeDropIndex } from './services/dropService';
 import { Routes } from 'discord-api-types/v10';
 import { getRestInstance } from './utils/restFactory';
 import { initArbitrationService } from './services/arbitrationService';
@@ -443,6 +446,11 @@ async function main() {
     try {
       await initializeDictionaries();
       logger.info('Dictionaries initialized successfully');
+
+      // Build the relic drop, recipe and mission drop indexes and rebuild them whenever the dictionaries update
+      initializeRelicIndex();
+      initializeRecipeIndex();
+      initializeDropIndex();
     } catch (dictError) {
       logger.error('Dictionary initialization failed. Item lookups may use fallback names.', dictError);
     }
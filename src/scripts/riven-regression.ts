@@ -0,0 +1,348 @@
+/**
+ * Golden-image regression harness for riven screenshot parsing
+ *
+ * Runs every fixture screenshot through the /autograde pipeline and reports how
+ * many pass each stage, so changes to RIVEN_COLORS or the parsing heuristics can
+ * be measured against a fixed set of images:
+ *
+ *   crop   - one of the card detectors found the riven
+ *   ocr    - the OCR text contains the weapon name and every stat value
+ *   parse  - parseRivenText returned the expected weapon, rank and stats
+ *   grade  - the overall grade matches the expected grade (fixtures with a grade only)
+ *
+ * Each fixture is an image with a JSON file of the same name next to it:
+ *
+ *   rubico-prime.png
+ *   rubico-prime.json  { "weapon": "Rubico Prime", "rank": 8,
+ *                        "stats": [{ "name": "Critical Chance", "value": 150.2 }, ...],
+ *                        "grade": "A", "ocrText": "..." }
+ *
+ * The in-game screenshots committed in src/scripts/fixtures/riven are the default directory.
+ *
+ * Usage: npm run riven:regression -- [--dir <fixtures>] [--providers tesseract] [--cached-ocr] [--save-ocr] [--fail-under <percent>]
+ *   --cached-ocr  use the ocrText stored in the fixture instead of running OCR
+ *   --save-ocr    store the OCR text of this run in the fixtures
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { detectAndCropRivenCard, detectAndCropRivenStatsArea, detectRivenByBackground } from '../utils/rivenImageProcessor';
+import { parseRivenText, knownWeaponsLoaded, ParsedRivenText } from '../utils/rivenTextParser';
+import { OcrProvider, TesseractProvider, createOcrProviders, recognizeText } from '../services/ocrProvider';
+import { findTagForStatName, findWeapon, gradeRivenStats, isCurseStat } from '../utils/rivenEngine';
+
+interface FixtureExpectation {
+  weapon: string;
+  rank?: number;
+  stats: Array<{ name: string, value: number }>;
+  grade?: string;
+  ocrText?: string;
+}
+
+interface Fixture {
+  name: string;
+  imagePath: string;
+  jsonPath: string;
+  expected: FixtureExpectation;
+}
+
+type Stage = 'crop' | 'ocr' | 'parse' | 'grade';
+
+interface StageResult {
+  passed: boolean;
+  detail: string;
+}
+
+const STAGES: Stage[] = ['crop', 'ocr', 'parse', 'grade'];
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp'];
+
+// Parsed values are compared with this tolerance, OCR drops trailing zeros
+const VALUE_TOLERANCE = 0.05;
+
+interface Options {
+  dir: string;
+  providers: string[] | null;
+  cachedOcr: boolean;
+  saveOcr: boolean;
+  failUnder: number | null;
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = {
+    dir: path.join(process.cwd(), 'src', 'scripts', 'fixtures', 'riven'),
+    providers: null,
+    cachedOcr: false,
+    saveOcr: false,
+    failUnder: null
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--dir':
+        options.dir = path.resolve(args[++i]);
+        break;
+      case '--providers':
+        options.providers = args[++i].split(',').map(name => name.trim().toLowerCase());
+        break;
+      case '--cached-ocr':
+        options.cachedOcr = true;
+        break;
+      case '--save-ocr':
+        options.saveOcr = true;
+        break;
+      case '--fail-under':
+        options.failUnder = parseFloat(args[++i]);
+        break;
+      default:
+        throw new Error(`Unknown argument: ${args[i]}`);
+    }
+  }
+
+  return options;
+}
+
+function loadFixtures(dir: string): Fixture[] {
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Fixture directory ${dir} does not exist`);
+  }
+
+  return fs.readdirSync(dir)
+    .filter(file => IMAGE_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+    .sort()
+    .flatMap(file => {
+      const name = path.basename(file, path.extname(file));
+      const jsonPath = path.join(dir, `${name}.json`);
+      if (!fs.existsSync(jsonPath)) {
+        console.warn(`Skipping ${file}: no ${name}.json with the expected values`);
+        return [];
+      }
+      return [{ name, imagePath: path.join(dir, file), jsonPath, expected: JSON.parse(fs.readFileSync(jsonPath, 'utf8')) }];
+    });
+}
+
+// Normalise text so OCR spacing and punctuation differences don't count as misses
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9.+-]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Run the card detectors in the same order as tryDetectAndCropRiven, recording which one matched
+async function runCrop(imagePath: string): Promise<{ result: StageResult, croppedPath: string }> {
+  const detectors: Array<[string, (input: string) => Promise<string | null>]> = [
+    ['stats area', detectAndCropRivenStatsArea],
+    ['purple border', detectAndCropRivenCard],
+    ['background', detectRivenByBackground]
+  ];
+
+  for (const [method, detect] of detectors) {
+    const croppedPath = await detect(imagePath);
+    if (croppedPath) {
+      return { result: { passed: true, detail: method }, croppedPath };
+    }
+  }
+
+  return { result: { passed: false, detail: 'no detector matched' }, croppedPath: imagePath };
+}
+
+// Resize like /autograde does before sending the image to OCR
+async function prepareForOcr(imagePath: string): Promise<string> {
+  const outputPath = path.join(os.tmpdir(), `riven-regression-${Date.now()}.jpg`);
+  await sharp(imagePath)
+    .resize({ width: 1000, height: 1000, fit: 'inside' })
+    .jpeg({ quality: 85 })
+    .toFile(outputPath);
+  return outputPath;
+}
+
+function checkOcrText(text: string, expected: FixtureExpectation): StageResult {
+  const haystack = normalise(text);
+  const missing = [
+    expected.weapon,
+    ...expected.stats.map(stat => String(Math.abs(stat.value)))
+  ].filter(needle => !haystack.includes(normalise(needle)));
+
+  return missing.length === 0
+    ? { passed: true, detail: `${text.length} chars` }
+    : { passed: false, detail: `missing ${missing.join(', ')}` };
+}
+
+function checkParse(parsed: ParsedRivenText | null, expected: FixtureExpectation): StageResult {
+  if (!parsed) {
+    return { passed: false, detail: 'no weapon or stats parsed' };
+  }
+
+  const problems: string[] = [];
+
+  if (normalise(parsed.weaponName) !== normalise(expected.weapon)) {
+    problems.push(`weapon "${parsed.weaponName}"`);
+  }
+  if (expected.rank !== undefined && parsed.rank !== expected.rank) {
+    problems.push(`rank ${parsed.rank}`);
+  }
+
+  // Stats are matched by their tag so aliases like "Crit Chance" count as correct
+  const remaining = [...parsed.stats];
+  for (const stat of expected.stats) {
+    const tag = findTagForStatName(stat.name);
+    const index = remaining.findIndex(candidate =>
+      findTagForStatName(candidate.name) === tag && Math.abs(candidate.value - stat.value) <= VALUE_TOLERANCE
+    );
+    if (index === -1) {
+      problems.push(`missing ${stat.value} ${stat.name}`);
+    } else {
+      remaining.splice(index, 1);
+    }
+  }
+  problems.push(...remaining.map(stat => `extra ${stat.value} ${stat.name}`));
+
+  return problems.length === 0
+    ? { passed: true, detail: `${parsed.stats.length} stats` }
+    : { passed: false, detail: problems.join('; ') };
+}
+
+function checkGrade(parsed: ParsedRivenText | null, expected: FixtureExpectation): StageResult | null {
+  if (!expected.grade) {
+    return null;
+  }
+  if (!parsed) {
+    return { passed: false, detail: 'nothing to grade' };
+  }
+
+  const weapon = findWeapon(parsed.weaponName);
+  if (!weapon) {
+    return { passed: false, detail: `unknown weapon "${parsed.weaponName}"` };
+  }
+
+  const curses = parsed.stats.filter(isCurseStat).length;
+  const { overallGrade } = gradeRivenStats(weapon, parsed.rank, parsed.stats.length - curses, curses, parsed.stats);
+
+  return overallGrade === expected.grade
+    ? { passed: true, detail: overallGrade }
+    : { passed: false, detail: `graded ${overallGrade}, expected ${expected.grade}` };
+}
+
+async function runFixture(fixture: Fixture, options: Options, providers: OcrProvider[]): Promise<Partial<Record<Stage, StageResult>>> {
+  const results: Partial<Record<Stage, StageResult>> = {};
+  const tempFiles: string[] = [];
+
+  try {
+    const crop = await runCrop(fixture.imagePath);
+    results.crop = crop.result;
+    if (crop.croppedPath !== fixture.imagePath) {
+      tempFiles.push(crop.croppedPath);
+    }
+
+    let text: string;
+    if (options.cachedOcr) {
+      if (fixture.expected.ocrText === undefined) {
+        results.ocr = { passed: false, detail: 'no cached ocrText in fixture' };
+        return results;
+      }
+      text = fixture.expected.ocrText;
+    } else {
+      const preparedPath = await prepareForOcr(crop.croppedPath);
+      tempFiles.push(preparedPath);
+      const ocr = await recognizeText(preparedPath, providers);
+      text = ocr.text;
+
+      if (options.saveOcr) {
+        fs.writeFileSync(fixture.jsonPath, JSON.stringify({ ...fixture.expected, ocrText: text }, null, 2) + '\n');
+      }
+    }
+
+    results.ocr = checkOcrText(text, fixture.expected);
+
+    const parsed = parseRivenText(text);
+    results.parse = checkParse(parsed, fixture.expected);
+
+    const grade = checkGrade(parsed, fixture.expected);
+    if (grade) {
+      results.grade = grade;
+    }
+  } catch (error) {
+    const failedStage = STAGES.find(stage => !results[stage]) || 'grade';
+    results[failedStage] = { passed: false, detail: `error: ${error instanceof Error ? error.message : error}` };
+  } finally {
+    for (const file of tempFiles) {
+      fs.rmSync(file, { force: true });
+    }
+  }
+
+  return results;
+}
+
+async function runRegression(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const fixtures = loadFixtures(options.dir);
+
+  if (fixtures.length === 0) {
+    console.log(`No fixtures found in ${options.dir}`);
+    return;
+  }
+
+  const providers = createOcrProviders(options.providers || undefined);
+
+  await knownWeaponsLoaded;
+  console.log(`Running ${fixtures.length} riven fixtures from ${options.dir}${options.cachedOcr ? ' with cached OCR text' : ` with OCR providers ${providers.map(provider => provider.name).join(', ')}`}\n`);
+
+  const totals: Record<Stage, { passed: number, run: number }> = {
+    crop: { passed: 0, run: 0 },
+    ocr: { passed: 0, run: 0 },
+    parse: { passed: 0, run: 0 },
+    grade: { passed: 0, run: 0 }
+  };
+
+  for (const fixture of fixtures) {
+    const results = await runFixture(fixture, options, providers);
+
+    console.log(fixture.name);
+    for (const stage of STAGES) {
+      const result = results[stage];
+      if (!result) {
+        continue;
+      }
+      totals[stage].run++;
+      if (result.passed) {
+        totals[stage].passed++;
+      }
+      console.log(`  ${result.passed ? 'PASS' : 'FAIL'} ${stage.padEnd(5)} ${result.detail}`);
+    }
+  }
+
+  console.log('\nStage accuracy:');
+  let lowest = 100;
+  for (const stage of STAGES) {
+    const { passed, run } = totals[stage];
+    if (run === 0) {
+      console.log(`  ${stage.padEnd(5)} not run`);
+      continue;
+    }
+    const accuracy = passed / run * 100;
+    lowest = Math.min(lowest, accuracy);
+    console.log(`  ${stage.padEnd(5)} ${passed}/${run} (${accuracy.toFixed(1)}%)`);
+  }
+
+  for (const provider of providers) {
+    if (provider instanceof TesseractProvider) {
+      await provider.terminate();
+    }
+  }
+
+  if (options.failUnder !== null && lowest < options.failUnder) {
+    console.error(`\nA stage is below ${options.failUnder}% accuracy`);
+    process.exit(1);
+  }
+}
+
+// Execute the function if this script is run directly
+if (require.main === module) {
+  runRegression()
+    .then(() => process.exit(0))
+    .catch(err => {
+      console.error('Riven regression run failed:', err);
+      process.exit(1);
+    });
+}
+
+export { runRegression };
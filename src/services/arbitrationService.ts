@@ -7,7 +7,7 @@ import { pgdb } from '../services/postgresDatabase';
 import { createEmbed } from '../utils/embedBuilder';
 
 // Tier emoji mappings (copied from arby.ts command)
-const TIER_EMOJIS: Record<string, string> = {
+export const TIER_EMOJIS: Record<string, string> = {
   'S': '<:S_:1362400790160871574>',
   'A': '<:A_:1362400688599994461>',
   'B': '<:B_:1362400717444481094>',
@@ -16,6 +16,9 @@ const TIER_EMOJIS: Record<string, string> = {
   'F': '<:F_:1362400771521646725>'
 };
 
+// Tiers considered worth running, used by the top tier filter and calendar export
+export const TOP_TIERS = ['S', 'A'];
+
 // Interfaces
 export interface ArbitrationEntry {
   timestamp: number;
@@ -30,7 +33,7 @@ interface NodeInfo {
   [key: string]: any;
 }
 
-interface ArbitrationDetail {
+export interface ArbitrationDetail {
   timestamp: number;
   endTimestamp: number;
   node: string;
@@ -55,6 +58,7 @@ interface ArbitrationNotification {
   c_tier_role_id?: string | null;
   d_tier_role_id?: string | null;
   f_tier_role_id?: string | null;
+  top_tiers_only?: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -253,55 +257,73 @@ export async function fetchArbitrationData(): Promise<ArbitrationEntry[] | null>
   }
 }
 
-// Process the arbitration data to get detailed information
-export async function processArbitrationData(arbyEntry: ArbitrationEntry): Promise<ArbitrationDetail> {
-  try {
-    // Load arby tiers
-    const arbyTiersPath = path.join(process.cwd(), 'src', 'data', 'arby_tiers.json');
-    const arbyTiers = JSON.parse(await fs.promises.readFile(arbyTiersPath, 'utf8')) as Record<string, string>;
-    
-    // Load regions data for node information
-    const regionsPath = path.join(process.cwd(), 'dict', 'ExportRegions.json');
-    const regionsData = JSON.parse(await fs.promises.readFile(regionsPath, 'utf8')) as Record<string, NodeInfo>;
-    
-    // Load language dictionary for translations
-    const dictPath = path.join(process.cwd(), 'dict', 'dict.en.json');
-    const langDict = JSON.parse(await fs.promises.readFile(dictPath, 'utf8')) as Record<string, string>;
-    
-    // Get node info
-    const nodeInfo = regionsData[arbyEntry.node];
-    if (!nodeInfo) {
-      logger.warn(`Node info not found for ${arbyEntry.node}`);
-      return {
-        timestamp: arbyEntry.timestamp,
-        endTimestamp: arbyEntry.timestamp + 3600,
-        node: arbyEntry.node,
-        nodeName: 'Unknown',
-        systemName: 'Unknown',
-        missionType: 'Unknown',
-        faction: 'Unknown',
-        tier: arbyTiers[arbyEntry.node] || 'F',
-        isActive: true
-      };
-    }
-    
-    // Translate node name, mission type, and faction
-    const nodeName = langDict[nodeInfo.name] || nodeInfo.name;
-    const systemName = langDict[nodeInfo.systemName] || nodeInfo.systemName;
-    const missionType = langDict[nodeInfo.missionName] || nodeInfo.missionName;
-    const faction = langDict[nodeInfo.factionName] || nodeInfo.factionName;
-    
+interface ArbitrationDictionaries {
+  arbyTiers: Record<string, string>;
+  regionsData: Record<string, NodeInfo>;
+  langDict: Record<string, string>;
+}
+
+// Load the tier list, regions and language dictionary used to describe arbitrations
+async function loadArbitrationDictionaries(): Promise<ArbitrationDictionaries> {
+  // Load arby tiers
+  const arbyTiersPath = path.join(process.cwd(), 'src', 'data', 'arby_tiers.json');
+  const arbyTiers = JSON.parse(await fs.promises.readFile(arbyTiersPath, 'utf8')) as Record<string, string>;
+  
+  // Load regions data for node information
+  const regionsPath = path.join(process.cwd(), 'dict', 'ExportRegions.json');
+  const regionsData = JSON.parse(await fs.promises.readFile(regionsPath, 'utf8')) as Record<string, NodeInfo>;
+  
+  // Load language dictionary for translations
+  const dictPath = path.join(process.cwd(), 'dict', 'dict.en.json');
+  const langDict = JSON.parse(await fs.promises.readFile(dictPath, 'utf8')) as Record<string, string>;
+  
+  return { arbyTiers, regionsData, langDict };
+}
+
+// Translate a schedule entry using already loaded dictionaries
+function describeArbitration(arbyEntry: ArbitrationEntry, dictionaries: ArbitrationDictionaries): ArbitrationDetail {
+  const { arbyTiers, regionsData, langDict } = dictionaries;
+  
+  // Get node info
+  const nodeInfo = regionsData[arbyEntry.node];
+  if (!nodeInfo) {
+    logger.warn(`Node info not found for ${arbyEntry.node}`);
     return {
       timestamp: arbyEntry.timestamp,
       endTimestamp: arbyEntry.timestamp + 3600,
       node: arbyEntry.node,
-      nodeName,
-      systemName,
-      missionType,
-      faction,
+      nodeName: 'Unknown',
+      systemName: 'Unknown',
+      missionType: 'Unknown',
+      faction: 'Unknown',
       tier: arbyTiers[arbyEntry.node] || 'F',
       isActive: true
     };
+  }
+  
+  // Translate node name, mission type, and faction
+  const nodeName = langDict[nodeInfo.name] || nodeInfo.name;
+  const systemName = langDict[nodeInfo.systemName] || nodeInfo.systemName;
+  const missionType = langDict[nodeInfo.missionName] || nodeInfo.missionName;
+  const faction = langDict[nodeInfo.factionName] || nodeInfo.factionName;
+  
+  return {
+    timestamp: arbyEntry.timestamp,
+    endTimestamp: arbyEntry.timestamp + 3600,
+    node: arbyEntry.node,
+    nodeName,
+    systemName,
+    missionType,
+    faction,
+    tier: arbyTiers[arbyEntry.node] || 'F',
+    isActive: true
+  };
+}
+
+// Process the arbitration data to get detailed information
+export async function processArbitrationData(arbyEntry: ArbitrationEntry): Promise<ArbitrationDetail> {
+  try {
+    return describeArbitration(arbyEntry, await loadArbitrationDictionaries());
   } catch (error) {
     logger.error('Error processing arbitration data:', error);
     return {
@@ -318,6 +340,28 @@ export async function processArbitrationData(arbyEntry: ArbitrationEntry): Promi
   }
 }
 
+/**
+ * Get the arbitrations running between two times, including the one active at the start
+ * @param from Start of the window in Unix seconds
+ * @param until End of the window in Unix seconds
+ */
+export async function getArbitrationSchedule(from: number, until: number): Promise<ArbitrationDetail[] | null> {
+  const arbyData = await fetchArbitrationData();
+  if (!arbyData) {
+    return null;
+  }
+  
+  const entries = arbyData.filter(arby => arby.timestamp + 3600 > from && arby.timestamp < until);
+  
+  // Load the dictionaries once for the whole window instead of per entry
+  const dictionaries = await loadArbitrationDictionaries();
+  return entries.map(arby => {
+    const detail = describeArbitration(arby, dictionaries);
+    detail.isActive = arby.timestamp <= from;
+    return detail;
+  });
+}
+
 // Send notifications to all configured channels
 async function sendArbitrationNotifications(client: Client, arbyDetails: ArbitrationDetail): Promise<void> {
   try {
@@ -441,6 +485,12 @@ async function sendArbitrationNotifications(client: Client, arbyDetails: Arbitra
           continue;
         }
         
+        // Guilds with the top tier filter only hear about S and A tier arbitrations
+        if (channelConfig.top_tiers_only && !TOP_TIERS.includes(arbyDetails.tier)) {
+          logger.debug(`Skipping ${arbyDetails.tier} tier arbitration for guild ${channelConfig.guild_id} (top tiers only)`);
+          continue;
+        }
+        
         // Check if we should ping any roles based on the current arbitration tier
         let mentionString = '';
         
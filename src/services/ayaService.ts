@@ -5,6 +5,7 @@ import path from 'path';
 import { logger } from '../utils/logger';
 import { pgdb } from '../services/postgresDatabase';
 import { createEmbed } from '../utils/embedBuilder';
+import { getWorldState } from './worldStateService';
 
 // Get environment variable for logging
 const ENABLE_SERVICE_LOGS = process.env.ENABLE_AYA_SERVICE_LOGS === 'true';
@@ -223,20 +224,11 @@ export async function fetchAyaBountyData(): Promise<AyaBountyData> {
     
     // Try to get a more accurate expiry time from the world state
     try {
-      // Fetch world state to get expiry time
-      serviceLogger.debug('Fetching world state data from browse.wf');
-      const worldStateResponse = await axios.get('https://oracle.browse.wf/worldState.json', {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'WardenPrimeBot/1.0.0'
-        }
-      });
-      
-      // Find the Cetus syndicate mission to get rotation expiry
-      const worldStateData = worldStateResponse.data;
+      // Get the shared world state snapshot
+      const worldStateData = await getWorldState();
       
       if (worldStateData?.SyndicateMissions) {
-        const cetusMission = worldStateData.SyndicateMissions.find((mission: any) => 
+        const cetusMission = worldStateData.SyndicateMissions.find(mission => 
           mission.Tag === "CetusSyndicate"
         );
         
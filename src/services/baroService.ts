@@ -1,10 +1,12 @@
-import { Client, TextChannel, Message } from 'discord.js';
-import axios from 'axios';
+import { Client, TextChannel, Message, DiscordAPIError, RESTJSONErrorCodes } from 'discord.js';
 import fs from 'fs';
 import path from 'path';
 import { logger } from '../utils/logger';
 import { pgdb } from './postgresDatabase';
 import { createEmbed } from '../utils/embedBuilder';
+import { VoidTrader, parseWorldStateDate } from '../types/warframe';
+import { getWorldState, getWorldStateTime, worldStateEvents } from './worldStateService';
+import { findItemInDicts } from '../utils/dictionaryLoader';
 
 // Get environment variable for logging
 const ENABLE_SERVICE_LOGS = process.env.ENABLE_BARO_SERVICE_LOGS === 'true';
@@ -55,19 +57,6 @@ interface DictionaryItem {
   category?: string;
 }
 
-interface VoidTrader {
-  _id: { $oid: string };
-  Activation: { $date: { $numberLong: string } };
-  Expiry: { $date: { $numberLong: string } };
-  Character: string;
-  Node: string;
-  Manifest?: Array<{
-    ItemType: string;
-    PrimePrice: number;
-    RegularPrice: number;
-  }>;
-}
-
 interface BaroData {
   voidTrader: VoidTrader;
   isActive: boolean;
@@ -77,11 +66,14 @@ interface BaroData {
   };
   arrival: string;
   departure: string;
-  inventory: Array<{
-    name: string;
-    ducats: number;
-    credits: number;
-  }>;
+  inventory: BaroItem[];
+}
+
+interface BaroItem {
+  name: string;
+  type: string;
+  ducats: number;
+  credits: number;
 }
 
 // Global state
@@ -89,7 +81,6 @@ let isServiceRunning = false;
 let lastBaroId = '';
 let lastBaroActivation = 0;
 let lastBaroExpiry = 0;
-let checkInterval = 10 * 60 * 1000; // Check every 10 minutes (was 5 minutes)
 
 // Cache for dictionaries
 let regionsDict: Record<string, RegionData> | null = null;
@@ -105,7 +96,12 @@ export function startBaroService(client: Client): void {
   serviceLogger.info('Starting Baro Ki\'Teer notification service');
   isServiceRunning = true;
   
-  // Start checking for updates
+  // Arrivals and departures always refresh the embed, other trader changes go through the diff below
+  worldStateEvents.on('baroArrived', () => checkAndUpdate(client, true));
+  worldStateEvents.on('baroDeparted', () => checkAndUpdate(client, true));
+  worldStateEvents.on('baroUpdated', () => checkAndUpdate(client));
+  
+  // Run the initial check against the current snapshot
   checkAndUpdate(client);
 }
 
@@ -201,7 +197,7 @@ export async function triggerBaroUpdate(client: Client, guildId: string): Promis
 }
 
 // Main function to check for updates and send notifications
-async function checkAndUpdate(client: Client): Promise<void> {
+async function checkAndUpdate(client: Client, force = false): Promise<void> {
   try {
     serviceLogger.debug('Checking for Baro Ki\'Teer updates');
     
@@ -209,7 +205,6 @@ async function checkAndUpdate(client: Client): Promise<void> {
     const baroData = await fetchBaroData();
     if (!baroData) {
       serviceLogger.error('Failed to fetch Baro data');
-      scheduleNextCheck(client);
       return;
     }
     
@@ -223,9 +218,8 @@ async function checkAndUpdate(client: Client): Promise<void> {
       (lastBaroActivation === 0 || activation !== lastBaroActivation) || 
       (lastBaroExpiry === 0 || expiry !== lastBaroExpiry);
     
-    if (!isNewCycle && !baroStatusChanged) {
+    if (!force && !isNewCycle && !baroStatusChanged) {
       serviceLogger.debug('No significant changes to Baro data, skipping update');
-      scheduleNextCheck(client);
       return;
     }
     
@@ -234,12 +228,14 @@ async function checkAndUpdate(client: Client): Promise<void> {
     lastBaroActivation = activation;
     lastBaroExpiry = expiry;
     
+    // Keep the visit history even when no channels are configured
+    await recordBaroVisit(client, baroData);
+    
     // Get all configured channels from PostgreSQL
     const baroChannels = await pgdb.getBaroNotifications();
     
     if (baroChannels.length === 0) {
       serviceLogger.debug('No channels configured for Baro notifications');
-      scheduleNextCheck(client);
       return;
     }
     
@@ -316,37 +312,20 @@ async function checkAndUpdate(client: Client): Promise<void> {
       }
     }
     
-    // Schedule the next check
-    scheduleNextCheck(client);
-    
   } catch (error) {
     serviceLogger.error('Error in Baro service check:', error);
-    // Even if there's an error, continue checking
-    scheduleNextCheck(client);
   }
 }
 
-// Schedule the next check
-function scheduleNextCheck(client: Client): void {
-  setTimeout(() => checkAndUpdate(client), checkInterval);
-}
-
 // Fetch Baro data from the API
 async function fetchBaroData(): Promise<BaroData | null> {
   try {
     // Initialize dictionaries if needed
     await loadDictionaries();
     
-    // Fetch the world state data
-    serviceLogger.info('Fetching Baro data from worldState API');
-    const response = await axios.get('https://oracle.browse.wf/worldState.json', {
-      timeout: 10000, // 10s timeout
-      headers: {
-        'User-Agent': 'WardenPrimeBot/1.0.0' // Custom user agent
-      }
-    });
-    
-    const worldState = response.data;
+    // Get the shared world state snapshot
+    serviceLogger.info('Reading Baro data from world state');
+    const worldState = await getWorldState();
     
     // Find Baro's data
     const voidTraders = worldState.VoidTraders || [];
@@ -364,7 +343,7 @@ async function fetchBaroData(): Promise<BaroData | null> {
     let departureTime = 'Unknown';
     let arrivalTime = 'Unknown';
     let isActive = false;
-    const currentTime = Date.now();
+    const currentTime = getWorldStateTime();
     
     try {
       // Check for activation time
@@ -413,8 +392,89 @@ async function fetchBaroData(): Promise<BaroData | null> {
   }
 }
 
+// Persist the visit's inventory and DM wishlist subscribers the first time the visit is seen
+async function recordBaroVisit(client: Client, baroData: BaroData): Promise<void> {
+  if (!baroData.isActive || baroData.inventory.length === 0) {
+    return;
+  }
+  
+  try {
+    const trader = baroData.voidTrader;
+    const activation = parseWorldStateDate(trader.Activation);
+    
+    // The trader ID can be reused between visits, so the arrival time is part of the key
+    const isNewVisit = await pgdb.addBaroVisit({
+      traderId: `${trader._id.$oid}:${activation}`,
+      node: trader.Node || 'Unknown',
+      relay: baroData.location.relay,
+      planet: baroData.location.planet,
+      arrival: new Date(activation),
+      departure: new Date(parseWorldStateDate(trader.Expiry))
+    }, baroData.inventory);
+    
+    if (!isNewVisit) {
+      serviceLogger.debug('Baro visit already recorded');
+      return;
+    }
+    
+    serviceLogger.info(`Recorded Baro visit to ${baroData.location.relay} with ${baroData.inventory.length} items`);
+    await notifyWishlists(client, baroData);
+  } catch (error) {
+    serviceLogger.error('Error recording Baro visit:', error);
+  }
+}
+
+// DM each user whose wishlist has items in the current inventory
+async function notifyWishlists(client: Client, baroData: BaroData): Promise<void> {
+  const wishlists = await pgdb.getBaroWishlistsForItems(baroData.inventory.map(item => item.name));
+  if (wishlists.length === 0) {
+    return;
+  }
+  
+  // Group the wishlisted items by user
+  const itemsByUser = new Map<string, BaroItem[]>();
+  for (const entry of wishlists) {
+    const item = baroData.inventory.find(i => i.name.toLowerCase() === entry.item_name.toLowerCase());
+    if (!item) {
+      continue;
+    }
+    
+    const userItems = itemsByUser.get(entry.user_id) || [];
+    userItems.push(item);
+    itemsByUser.set(entry.user_id, userItems);
+  }
+  
+  serviceLogger.info(`Sending Baro wishlist DMs to ${itemsByUser.size} users`);
+  
+  for (const [userId, items] of itemsByUser) {
+    const embed = createEmbed({
+      type: 'info',
+      title: 'Baro Ki\'Teer Has Your Wishlist Items',
+      description: [
+        `Baro Ki'Teer is at ${baroData.location.relay} (${baroData.location.planet}) and leaves ${baroData.departure}.`,
+        '',
+        ...items.map(item => `**${item.name}** - ${item.ducats} ducats, ${item.credits.toLocaleString()} credits`)
+      ].join('\n').slice(0, 4096),
+      footer: 'Manage your wishlist with /baro wishlist',
+      timestamp: true
+    });
+    
+    try {
+      const user = await client.users.fetch(userId);
+      await user.send({ embeds: [embed] });
+      serviceLogger.debug(`Sent Baro wishlist DM to user ${userId} for ${items.length} items`);
+    } catch (error) {
+      if (error instanceof DiscordAPIError && error.code === RESTJSONErrorCodes.CannotSendMessagesToThisUser) {
+        serviceLogger.warn(`User ${userId} has DMs closed, skipping Baro wishlist DM`);
+        continue;
+      }
+      serviceLogger.error(`Error sending Baro wishlist DM to user ${userId}:`, error);
+    }
+  }
+}
+
 // Process Baro's inventory items
-function processInventory(manifest: Array<any>): Array<{name: string, ducats: number, credits: number}> {
+function processInventory(manifest: Array<any>): BaroItem[] {
   // Use a Map to track items with same name to avoid duplicates
   const uniqueItems = new Map();
   let skippedItems = 0;
@@ -432,6 +492,7 @@ function processInventory(manifest: Array<any>): Array<{name: string, ducats: nu
         if (!uniqueItems.has(itemName)) {
           uniqueItems.set(itemName, {
             name: itemName,
+            type: itemType,
             ducats: item.PrimePrice,
             credits: item.RegularPrice
           });
@@ -449,7 +510,7 @@ function processInventory(manifest: Array<any>): Array<{name: string, ducats: nu
   }
   
   // Convert to array and sort by ducats (high to low)
-  const inventoryItems = Array.from(uniqueItems.values());
+  const inventoryItems: BaroItem[] = Array.from(uniqueItems.values());
   inventoryItems.sort((a, b) => b.ducats - a.ducats);
   
   serviceLogger.info(`Baro items processed: ${inventoryItems.length} total, ${skippedItems} skipped`);
@@ -608,6 +669,19 @@ function getBaroItemName(itemPath: string): string | null {
   // Clean the path by removing /StoreItems
   const cleanPath = itemPath.replace('/StoreItems', '');
   
+  // Prefer the item dictionaries so the visit history uses in-game names
+  try {
+    const itemDetails = findItemInDicts(cleanPath) as DictionaryItem;
+    if (itemDetails?.era && itemDetails.category) {
+      return `${itemDetails.era} ${itemDetails.category}`;
+    }
+    if (itemDetails?.translatedName) {
+      return itemDetails.translatedName;
+    }
+  } catch (error) {
+    serviceLogger.debug(`Dictionary lookup unavailable for ${cleanPath}, using fallback name`);
+  }
+  
   // Special cases based on path patterns
   if (cleanPath.includes('/Weapons/Corpus/LongGun/CorpusAssaultRifle')) {
     return 'Quanta Vandal';
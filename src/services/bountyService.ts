@@ -0,0 +1,130 @@
+import { getDictionary, getLocalizedName } from '../utils/dictionaryLoader';
+import { SyndicateJob, parseWorldStateDate } from '../types/warframe';
+import { getWorldState } from './worldStateService';
+import { resolveRewardName } from './relicService';
+
+// Open world hubs with bounties, keyed by the option value used in commands
+export const BOUNTY_HUBS = {
+  ostron: { tag: 'CetusSyndicate', location: 'Cetus' },
+  solaris: { tag: 'SolarisSyndicate', location: 'Fortuna' },
+  entrati: { tag: 'EntratiSyndicate', location: 'Necralisk' },
+  zariman: { tag: 'ZarimanSyndicate', location: 'Chrysalith' }
+} as const;
+
+export type BountyHub = keyof typeof BOUNTY_HUBS;
+
+// Reward tables list their rotations in order
+const ROTATION_LETTERS = ['A', 'B', 'C', 'D', 'E'];
+
+// Interfaces
+export interface BountyReward {
+  item: string;
+  count: number;
+  chance: number;
+}
+
+export interface BountyStage {
+  standing: number;
+  objectives: string[];
+}
+
+export interface Bounty {
+  name: string;
+  minLevel: number;
+  maxLevel: number;
+  masteryReq: number;
+  endless: boolean;
+  isVault: boolean;
+  stages: BountyStage[];
+  rotations: Array<{ rotation: string; rewards: BountyReward[] }>;
+}
+
+export interface HubBounties {
+  hub: BountyHub;
+  syndicate: string;
+  icon: string | null;
+  activation: number;
+  expiry: number;
+  bounties: Bounty[];
+}
+
+// Turn "DynamicResourceTheft" into "Resource Theft"
+function prettifyPath(path: string, strip: RegExp): string {
+  return (path.split('/').pop() || path)
+    .replace(strip, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .trim();
+}
+
+// Localized bounty names are upper case in the language files
+function toTitleCase(text: string): string {
+  return text.toLowerCase().replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+function getBountyName(jobType: string | undefined, exportBounty: any): string {
+  if (exportBounty?.name) {
+    return toTitleCase(getLocalizedName(exportBounty.name));
+  }
+  if (!jobType) {
+    return 'Unknown Bounty';
+  }
+  // Jobs missing from ExportBounties (e.g. the Zariman) fall back to their type name
+  return prettifyPath(jobType, /^(Zariman|Deimos|Venus)|Bounty$/g);
+}
+
+function describeJob(job: SyndicateJob, bounties: Record<string, any>, rewards: Record<string, any>, recipes: Record<string, any>): Bounty {
+  const exportBounty = job.jobType ? bounties[job.jobType] : null;
+  const exportStages: string[][] = exportBounty?.stages || [];
+  const table: any[][] = Array.isArray(rewards[job.rewards]) ? rewards[job.rewards] : [];
+
+  return {
+    name: getBountyName(job.jobType, exportBounty),
+    minLevel: job.minEnemyLevel,
+    maxLevel: job.maxEnemyLevel,
+    masteryReq: job.masteryReq || 0,
+    endless: job.endless === true,
+    isVault: job.isVault === true,
+    stages: (job.xpAmounts || []).map((standing, index) => ({
+      standing,
+      objectives: [...new Set((exportStages[index] || []).map(encounter => prettifyPath(encounter, /^Dynamic/)))]
+    })),
+    rotations: table
+      .map((rotation, index) => ({
+        rotation: ROTATION_LETTERS[index] || String(index + 1),
+        rewards: (Array.isArray(rotation) ? rotation : []).map((reward: any): BountyReward => ({
+          item: resolveRewardName(reward.type, recipes),
+          count: reward.itemCount || 1,
+          chance: (reward.probability || 0) * 100
+        }))
+      }))
+      .filter(rotation => rotation.rewards.length > 0)
+  };
+}
+
+/**
+ * Get the current bounties of an open world hub from the world state
+ * @returns The hub's bounties, or null if the world state has none for it
+ */
+export async function getHubBounties(hub: BountyHub): Promise<HubBounties | null> {
+  const worldState = await getWorldState();
+  const tag = BOUNTY_HUBS[hub].tag;
+  const mission = worldState.SyndicateMissions?.find(syndicateMission => syndicateMission.Tag === tag);
+
+  if (!mission?.Jobs?.length) {
+    return null;
+  }
+
+  const bounties = getDictionary('ExportBounties.json') || {};
+  const rewards = getDictionary('ExportRewards.json') || {};
+  const recipes = getDictionary('ExportRecipes.json') || {};
+  const syndicate = getDictionary('ExportSyndicates.json')?.[tag];
+
+  return {
+    hub,
+    syndicate: syndicate?.name ? getLocalizedName(syndicate.name) : tag,
+    icon: syndicate?.icon ? `https://browse.wf${syndicate.icon}` : null,
+    activation: Math.floor(parseWorldStateDate(mission.Activation) / 1000),
+    expiry: Math.floor(parseWorldStateDate(mission.Expiry) / 1000),
+    bounties: mission.Jobs.map(job => describeJob(job, bounties, rewards, recipes))
+  };
+}
@@ -79,7 +79,12 @@ async function completeDatabaseInit(): Promise<void> {
       'log_settings', 'user_stats', 'guild_settings', 'guild_permission_roles',
       'join_forms', 'join_form_config', 'guilds', 'users', 'warframe_catalog',
       'fissure_notifications', 'aya_notifications', 'baro_notifications', 
-      'arbitration_notifications', 'incarnon_notifications'
+      'arbitration_notifications', 'incarnon_notifications', 'sortie_notifications',
+      'archon_notifications', 'nightwave_notifications', 'cycle_notifications',
+      'cycle_alerts', 'fissure_subscriptions', 'baro_visits', 'baro_visit_items',
+      'baro_wishlists', 'teshin_notifications', 'invasion_alerts', 'riven_market_settings',
+      'riven_listings', 'riven_rolls', 'riven_sessions', 'disposition_changes',
+      'disposition_snapshots', 'disposition_notifications', 'autocomplete_usage'
     ];
 
     for (const table of dropTables) {
@@ -318,21 +323,7 @@ async function completeDatabaseInit(): Promise<void> {
     `);
     logger.info('✅ Custom embed fields table created');
 
-    // 14. Warframe catalog table
-    await pgdb.query(`
-      CREATE TABLE warframe_catalog (
-        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-        name VARCHAR(255) NOT NULL,
-        crafting_cost INTEGER,
-        resources JSONB NOT NULL DEFAULT '{}'::JSONB,
-        updated_by VARCHAR(255),
-        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
-        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
-      )
-    `);
-    logger.info('✅ Warframe catalog table created');
-
-    // 15. Fissure notifications table
+    // 14. Fissure notifications table
     await pgdb.query(`
       CREATE TABLE fissure_notifications (
         id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -343,13 +334,14 @@ async function completeDatabaseInit(): Promise<void> {
         role_id VARCHAR(255),
         last_notified VARCHAR(255),
         node_name VARCHAR(255),
+        filters JSONB,
         created_at TIMESTAMP NOT NULL DEFAULT NOW(),
         updated_at TIMESTAMP NOT NULL DEFAULT NOW()
       )
     `);
     logger.info('✅ Fissure notifications table created');
 
-    // 16. Aya notifications table
+    // 15. Aya notifications table
     await pgdb.query(`
       CREATE TABLE aya_notifications (
         id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -363,7 +355,7 @@ async function completeDatabaseInit(): Promise<void> {
     `);
     logger.info('✅ Aya notifications table created');
 
-    // 17. Baro notifications table
+    // 16. Baro notifications table
     await pgdb.query(`
       CREATE TABLE baro_notifications (
         id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -377,7 +369,7 @@ async function completeDatabaseInit(): Promise<void> {
     `);
     logger.info('✅ Baro notifications table created');
 
-    // 18. Arbitration notifications table
+    // 17. Arbitration notifications table
     await pgdb.query(`
       CREATE TABLE arbitration_notifications (
         id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -385,13 +377,14 @@ async function completeDatabaseInit(): Promise<void> {
         channel_id VARCHAR(255) NOT NULL,
         role_id VARCHAR(255),
         message_id VARCHAR(255),
+        top_tiers_only BOOLEAN NOT NULL DEFAULT FALSE,
         created_at TIMESTAMP NOT NULL DEFAULT NOW(),
         updated_at TIMESTAMP NOT NULL DEFAULT NOW()
       )
     `);
     logger.info('✅ Arbitration notifications table created');
 
-    // 19. Incarnon notifications table
+    // 18. Incarnon notifications table
     await pgdb.query(`
       CREATE TABLE incarnon_notifications (
         id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -405,7 +398,7 @@ async function completeDatabaseInit(): Promise<void> {
     `);
     logger.info('✅ Incarnon notifications table created');
 
-    // 20. Guild permission roles table
+    // 19. Guild permission roles table
     await pgdb.query(`
       CREATE TABLE guild_permission_roles (
         id SERIAL PRIMARY KEY,
@@ -418,7 +411,7 @@ async function completeDatabaseInit(): Promise<void> {
     `);
     logger.info('✅ Guild permission roles table created');
 
-    // 21. Join forms table
+    // 20. Join forms table
     await pgdb.query(`
       CREATE TABLE join_forms (
         id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -435,7 +428,7 @@ async function completeDatabaseInit(): Promise<void> {
     `);
     logger.info('✅ Join forms table created');
 
-    // 22. Join form configuration table
+    // 21. Join form configuration table
     await pgdb.query(`
       CREATE TABLE join_form_config (
         id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -455,7 +448,7 @@ async function completeDatabaseInit(): Promise<void> {
     `);
     logger.info('✅ Join form configuration table created');
 
-    // 23. Embed settings table (the missing one!)
+    // 22. Embed settings table (the missing one!)
     await pgdb.query(`
       CREATE TABLE embed_settings (
         id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -471,6 +464,294 @@ async function completeDatabaseInit(): Promise<void> {
     `);
     logger.info('✅ Embed settings table created');
 
+    // 23. Sortie notifications table
+    await pgdb.query(`
+      CREATE TABLE sortie_notifications (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        guild_id VARCHAR(255) NOT NULL,
+        channel_id VARCHAR(255) NOT NULL,
+        role_id VARCHAR(255),
+        message_id VARCHAR(255),
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    logger.info('✅ Sortie notifications table created');
+
+    // 24. Archon Hunt notifications table
+    await pgdb.query(`
+      CREATE TABLE archon_notifications (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        guild_id VARCHAR(255) NOT NULL,
+        channel_id VARCHAR(255) NOT NULL,
+        role_id VARCHAR(255),
+        message_id VARCHAR(255),
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    logger.info('✅ Archon Hunt notifications table created');
+
+    // 25. Nightwave notifications table
+    await pgdb.query(`
+      CREATE TABLE nightwave_notifications (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        guild_id VARCHAR(255) NOT NULL,
+        channel_id VARCHAR(255) NOT NULL,
+        message_id VARCHAR(255),
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    logger.info('✅ Nightwave notifications table created');
+
+    // 26. Cycle notifications table
+    await pgdb.query(`
+      CREATE TABLE cycle_notifications (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        guild_id VARCHAR(255) NOT NULL,
+        channel_id VARCHAR(255) NOT NULL,
+        message_id VARCHAR(255),
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    logger.info('✅ Cycle notifications table created');
+
+    // 27. Cycle alerts table
+    await pgdb.query(`
+      CREATE TABLE cycle_alerts (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        guild_id VARCHAR(255) NOT NULL,
+        channel_id VARCHAR(255) NOT NULL,
+        role_id VARCHAR(255) NOT NULL,
+        cycle VARCHAR(20) NOT NULL,
+        state VARCHAR(20) NOT NULL,
+        minutes_before INTEGER NOT NULL DEFAULT 5,
+        last_transition BIGINT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    logger.info('✅ Cycle alerts table created');
+
+    // 28. Fissure subscriptions table
+    await pgdb.query(`
+      CREATE TABLE fissure_subscriptions (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        user_id VARCHAR(255) NOT NULL,
+        mission_type VARCHAR(100),
+        tier VARCHAR(20),
+        steel_path BOOLEAN,
+        node VARCHAR(255),
+        faction VARCHAR(100),
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    logger.info('✅ Fissure subscriptions table created');
+
+    // 29. Baro visits table
+    await pgdb.query(`
+      CREATE TABLE baro_visits (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        trader_id VARCHAR(255) NOT NULL UNIQUE,
+        node VARCHAR(255) NOT NULL,
+        relay VARCHAR(255) NOT NULL,
+        planet VARCHAR(255) NOT NULL,
+        arrival TIMESTAMP NOT NULL,
+        departure TIMESTAMP NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    logger.info('✅ Baro visits table created');
+
+    // 30. Baro visit items table
+    await pgdb.query(`
+      CREATE TABLE baro_visit_items (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        visit_id UUID NOT NULL REFERENCES baro_visits(id) ON DELETE CASCADE,
+        item_name VARCHAR(255) NOT NULL,
+        item_type VARCHAR(255) NOT NULL,
+        ducats INTEGER NOT NULL DEFAULT 0,
+        credits INTEGER NOT NULL DEFAULT 0,
+        UNIQUE(visit_id, item_name)
+      )
+    `);
+    logger.info('✅ Baro visit items table created');
+
+    // 31. Baro wishlists table
+    await pgdb.query(`
+      CREATE TABLE baro_wishlists (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        user_id VARCHAR(255) NOT NULL,
+        item_name VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE(user_id, item_name)
+      )
+    `);
+    logger.info('✅ Baro wishlists table created');
+
+    // 32. Teshin notifications table
+    await pgdb.query(`
+      CREATE TABLE teshin_notifications (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        guild_id VARCHAR(255) NOT NULL,
+        channel_id VARCHAR(255) NOT NULL,
+        role_id VARCHAR(255),
+        message_id VARCHAR(255),
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    logger.info('✅ Teshin notifications table created');
+
+    // 33. Invasion alerts table
+    await pgdb.query(`
+      CREATE TABLE invasion_alerts (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        guild_id VARCHAR(255) NOT NULL,
+        channel_id VARCHAR(255) NOT NULL,
+        role_id VARCHAR(255),
+        reward VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    logger.info('✅ Invasion alerts table created');
+
+    // 34. Riven market settings table
+    await pgdb.query(`
+      CREATE TABLE riven_market_settings (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        guild_id VARCHAR(255) NOT NULL UNIQUE,
+        channel_id VARCHAR(255) NOT NULL,
+        listing_days INTEGER NOT NULL DEFAULT 7,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    logger.info('✅ Riven market settings table created');
+
+    // 35. Riven listings table
+    await pgdb.query(`
+      CREATE TABLE riven_listings (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        guild_id VARCHAR(255) NOT NULL,
+        seller_id VARCHAR(255) NOT NULL,
+        channel_id VARCHAR(255) NOT NULL,
+        thread_id VARCHAR(255),
+        message_id VARCHAR(255),
+        weapon VARCHAR(255) NOT NULL,
+        riven_type VARCHAR(100) NOT NULL,
+        rank INTEGER NOT NULL,
+        buffs INTEGER NOT NULL,
+        curses INTEGER NOT NULL,
+        stats JSONB NOT NULL DEFAULT '[]',
+        overall_grade VARCHAR(10) NOT NULL,
+        overall_quality REAL NOT NULL DEFAULT 0,
+        price INTEGER NOT NULL,
+        notes TEXT,
+        status VARCHAR(20) NOT NULL DEFAULT 'active',
+        expires_at TIMESTAMP NOT NULL,
+        bumped_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    logger.info('✅ Riven listings table created');
+
+    // 36. Riven sessions table
+    await pgdb.query(`
+      CREATE TABLE riven_sessions (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        user_id VARCHAR(255) NOT NULL,
+        weapon VARCHAR(255) NOT NULL,
+        riven_type VARCHAR(100) NOT NULL,
+        mastery_rank INTEGER NOT NULL,
+        polarity VARCHAR(20) NOT NULL,
+        label VARCHAR(100),
+        targets JSONB NOT NULL DEFAULT '[]',
+        status VARCHAR(20) NOT NULL DEFAULT 'active',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE(user_id, weapon, mastery_rank, polarity)
+      )
+    `);
+    logger.info('✅ Riven sessions table created');
+
+    // 37. Riven rolls table
+    await pgdb.query(`
+      CREATE TABLE riven_rolls (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        session_id UUID NOT NULL REFERENCES riven_sessions(id) ON DELETE CASCADE,
+        roll_number INTEGER NOT NULL,
+        rank INTEGER NOT NULL,
+        buffs INTEGER NOT NULL,
+        curses INTEGER NOT NULL,
+        stats JSONB NOT NULL DEFAULT '[]',
+        overall_grade VARCHAR(10) NOT NULL,
+        overall_quality REAL NOT NULL DEFAULT 0,
+        source VARCHAR(20) NOT NULL DEFAULT 'manual',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE(session_id, roll_number)
+      )
+    `);
+    logger.info('✅ Riven rolls table created');
+
+    // 38. Disposition snapshots table
+    await pgdb.query(`
+      CREATE TABLE disposition_snapshots (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        dispositions JSONB NOT NULL DEFAULT '{}',
+        weapon_count INTEGER NOT NULL DEFAULT 0,
+        changed_count INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    logger.info('✅ Disposition snapshots table created');
+
+    // 39. Disposition changes table
+    await pgdb.query(`
+      CREATE TABLE disposition_changes (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        snapshot_id UUID NOT NULL REFERENCES disposition_snapshots(id) ON DELETE CASCADE,
+        internal_path VARCHAR(255) NOT NULL,
+        weapon VARCHAR(255) NOT NULL,
+        old_disposition REAL,
+        new_disposition REAL NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    logger.info('✅ Disposition changes table created');
+
+    // 40. Disposition notifications table
+    await pgdb.query(`
+      CREATE TABLE disposition_notifications (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        guild_id VARCHAR(255) NOT NULL UNIQUE,
+        channel_id VARCHAR(255) NOT NULL,
+        role_id VARCHAR(255),
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    logger.info('✅ Disposition notifications table created');
+
+    // 41. Autocomplete usage table
+    await pgdb.query(`
+      CREATE TABLE autocomplete_usage (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        source VARCHAR(50) NOT NULL,
+        value VARCHAR(255) NOT NULL,
+        uses INTEGER NOT NULL DEFAULT 0,
+        last_used_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE(source, value)
+      )
+    `);
+    logger.info('✅ Autocomplete usage table created');
+
     // Create all indexes for performance
     logger.info('🔍 Creating performance indexes...');
     
@@ -478,7 +759,6 @@ async function completeDatabaseInit(): Promise<void> {
       'CREATE INDEX IF NOT EXISTS idx_giveaway_entries_giveaway_id ON giveaway_entries(giveaway_id)',
       'CREATE INDEX IF NOT EXISTS idx_giveaway_entries_user_id ON giveaway_entries(user_id)',
       'CREATE INDEX IF NOT EXISTS idx_giveaways_host_id ON giveaways(host_id)',
-      'CREATE INDEX IF NOT EXISTS idx_warframe_catalog_name ON warframe_catalog(name)',
       'CREATE INDEX IF NOT EXISTS idx_embed_settings_guild_id ON embed_settings(guild_id)',
       'CREATE INDEX IF NOT EXISTS idx_embed_settings_name ON embed_settings(setting_name)',
       'CREATE INDEX IF NOT EXISTS idx_custom_embeds_guild_id ON custom_embeds(guild_id)',
@@ -488,7 +768,29 @@ async function completeDatabaseInit(): Promise<void> {
       'CREATE INDEX IF NOT EXISTS idx_aya_notifications_guild_id ON aya_notifications(guild_id)',
       'CREATE INDEX IF NOT EXISTS idx_baro_notifications_guild_id ON baro_notifications(guild_id)',
       'CREATE INDEX IF NOT EXISTS idx_arbitration_notifications_guild_id ON arbitration_notifications(guild_id)',
-      'CREATE INDEX IF NOT EXISTS idx_incarnon_notifications_guild_id ON incarnon_notifications(guild_id)'
+      'CREATE INDEX IF NOT EXISTS idx_incarnon_notifications_guild_id ON incarnon_notifications(guild_id)',
+      'CREATE INDEX IF NOT EXISTS idx_sortie_notifications_guild_id ON sortie_notifications(guild_id)',
+      'CREATE INDEX IF NOT EXISTS idx_archon_notifications_guild_id ON archon_notifications(guild_id)',
+      'CREATE INDEX IF NOT EXISTS idx_nightwave_notifications_guild_id ON nightwave_notifications(guild_id)',
+      'CREATE INDEX IF NOT EXISTS idx_cycle_notifications_guild_id ON cycle_notifications(guild_id)',
+      'CREATE INDEX IF NOT EXISTS idx_cycle_alerts_guild_id ON cycle_alerts(guild_id)',
+      'CREATE INDEX IF NOT EXISTS idx_fissure_subscriptions_user_id ON fissure_subscriptions(user_id)',
+      'CREATE INDEX IF NOT EXISTS idx_baro_visits_arrival ON baro_visits(arrival)',
+      'CREATE INDEX IF NOT EXISTS idx_baro_visit_items_visit_id ON baro_visit_items(visit_id)',
+      'CREATE INDEX IF NOT EXISTS idx_baro_visit_items_item_name ON baro_visit_items(item_name)',
+      'CREATE INDEX IF NOT EXISTS idx_baro_wishlists_user_id ON baro_wishlists(user_id)',
+      'CREATE INDEX IF NOT EXISTS idx_baro_wishlists_item_name ON baro_wishlists(item_name)',
+      'CREATE INDEX IF NOT EXISTS idx_teshin_notifications_guild_id ON teshin_notifications(guild_id)',
+      'CREATE INDEX IF NOT EXISTS idx_invasion_alerts_guild_id ON invasion_alerts(guild_id)',
+      'CREATE INDEX IF NOT EXISTS idx_riven_listings_guild_id ON riven_listings(guild_id)',
+      'CREATE INDEX IF NOT EXISTS idx_riven_listings_status_expires_at ON riven_listings(status, expires_at)',
+      'CREATE INDEX IF NOT EXISTS idx_riven_sessions_user_id ON riven_sessions(user_id)',
+      'CREATE INDEX IF NOT EXISTS idx_riven_rolls_session_id ON riven_rolls(session_id)',
+      'CREATE INDEX IF NOT EXISTS idx_disposition_snapshots_created_at ON disposition_snapshots(created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_disposition_changes_internal_path ON disposition_changes(internal_path)',
+      'CREATE INDEX IF NOT EXISTS idx_disposition_changes_snapshot_id ON disposition_changes(snapshot_id)',
+      'CREATE INDEX IF NOT EXISTS idx_disposition_notifications_guild_id ON disposition_notifications(guild_id)',
+      'CREATE INDEX IF NOT EXISTS idx_autocomplete_usage_source ON autocomplete_usage(source)'
     ];
 
     for (const indexQuery of indexes) {
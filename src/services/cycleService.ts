@@ -0,0 +1,414 @@
+import { Client, TextChannel, EmbedBuilder } from 'discord.js';
+import { logger } from '../utils/logger';
+import { pgdb } from './postgresDatabase';
+import { createEmbed } from '../utils/embedBuilder';
+import { SERVICE_INTERVALS } from '../constants/time';
+import { getWorldState, getWorldStateTime } from './worldStateService';
+import { WarframeWorldState, parseWorldStateDate } from '../types/warframe';
+
+// Get environment variable for logging
+const ENABLE_SERVICE_LOGS = process.env.ENABLE_CYCLE_SERVICE_LOGS === 'true';
+
+// Custom logger that respects the service logging setting
+const serviceLogger = {
+  debug: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.debug(`[Cycles] ${message}`, ...args);
+    }
+  },
+  info: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.info(`[Cycles] ${message}`, ...args);
+    }
+  },
+  // Always log warnings and errors
+  warn: (message: string, ...args: any[]) => {
+    logger.warn(`[Cycles] ${message}`, ...args);
+  },
+  error: (message: string, ...args: any[]) => {
+    logger.error(`[Cycles] ${message}`, ...args);
+  }
+};
+
+export type CycleId = 'cetus' | 'vallis' | 'cambion' | 'duviri';
+
+interface CyclePhase {
+  id: string;
+  name: string;
+  duration: number; // Milliseconds
+}
+
+interface CycleDefinition {
+  id: CycleId;
+  name: string;
+  emoji: string;
+  phases: CyclePhase[];
+  // Start of any full loop (first phase), or null if it can't be determined
+  getAnchor: (worldState: WarframeWorldState) => number | null;
+}
+
+export interface CycleStatus {
+  id: CycleId;
+  name: string;
+  emoji: string;
+  state: string;
+  stateName: string;
+  nextState: string;
+  nextStateName: string;
+  expiry: number; // Milliseconds
+}
+
+// Interfaces
+interface CycleNotification {
+  id: string;
+  guild_id: string;
+  channel_id: string;
+  message_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface CycleAlert {
+  id: string;
+  guild_id: string;
+  channel_id: string;
+  role_id: string;
+  cycle: CycleId;
+  state: string;
+  minutes_before: number;
+  last_transition: string | null; // BIGINT comes back as a string
+  created_at: Date;
+  updated_at: Date;
+}
+
+const MINUTE = 60 * 1000;
+
+// Plains of Eidolon and Cambion Drift share the Cetus bounty cycle (100 minutes day, 50 minutes night)
+function getCetusAnchor(worldState: WarframeWorldState): number | null {
+  const cetusMission = worldState.SyndicateMissions?.find(mission => mission.Tag === 'CetusSyndicate');
+  if (!cetusMission) {
+    return null;
+  }
+  return parseWorldStateDate(cetusMission.Expiry) - 150 * MINUTE;
+}
+
+// Orb Vallis loops every 26m40s from a known warm period start
+const VALLIS_EPOCH = 1541837628000;
+
+export const CYCLES: CycleDefinition[] = [
+  {
+    id: 'cetus',
+    name: 'Plains of Eidolon',
+    emoji: '🌄',
+    phases: [
+      { id: 'day', name: 'Day', duration: 100 * MINUTE },
+      { id: 'night', name: 'Night', duration: 50 * MINUTE }
+    ],
+    getAnchor: getCetusAnchor
+  },
+  {
+    id: 'vallis',
+    name: 'Orb Vallis',
+    emoji: '❄️',
+    phases: [
+      { id: 'warm', name: 'Warm', duration: 400 * 1000 },
+      { id: 'cold', name: 'Cold', duration: 1200 * 1000 }
+    ],
+    getAnchor: () => VALLIS_EPOCH
+  },
+  {
+    id: 'cambion',
+    name: 'Cambion Drift',
+    emoji: '🪱',
+    phases: [
+      { id: 'fass', name: 'Fass', duration: 100 * MINUTE },
+      { id: 'vome', name: 'Vome', duration: 50 * MINUTE }
+    ],
+    getAnchor: getCetusAnchor
+  },
+  {
+    id: 'duviri',
+    name: 'Duviri',
+    emoji: '🎭',
+    phases: [
+      { id: 'sorrow', name: 'Sorrow', duration: 120 * MINUTE },
+      { id: 'fear', name: 'Fear', duration: 120 * MINUTE },
+      { id: 'joy', name: 'Joy', duration: 120 * MINUTE },
+      { id: 'anger', name: 'Anger', duration: 120 * MINUTE },
+      { id: 'envy', name: 'Envy', duration: 120 * MINUTE }
+    ],
+    getAnchor: () => 0
+  }
+];
+
+// Global state
+let isServiceRunning = false;
+let lastStateKey = '';
+
+export function getCycleDefinition(id: string): CycleDefinition | undefined {
+  return CYCLES.find(cycle => cycle.id === id);
+}
+
+// Position within the current loop, for any anchor in the past or future
+function getLoopOffset(definition: CycleDefinition, anchor: number, at: number): number {
+  const loopLength = definition.phases.reduce((sum, phase) => sum + phase.duration, 0);
+  return (((at - anchor) % loopLength) + loopLength) % loopLength;
+}
+
+// Work out the current phase of a cycle and when it ends
+function getStatus(definition: CycleDefinition, anchor: number, at: number): CycleStatus {
+  const offset = getLoopOffset(definition, anchor, at);
+
+  let phaseStart = 0;
+  let index = 0;
+  while (offset >= phaseStart + definition.phases[index].duration) {
+    phaseStart += definition.phases[index].duration;
+    index++;
+  }
+
+  const phase = definition.phases[index];
+  const next = definition.phases[(index + 1) % definition.phases.length];
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    emoji: definition.emoji,
+    state: phase.id,
+    stateName: phase.name,
+    nextState: next.id,
+    nextStateName: next.name,
+    expiry: at - offset + phaseStart + phase.duration
+  };
+}
+
+/**
+ * Get the current state of every open world cycle from a world state snapshot.
+ * Cycles whose timing can't be determined from the snapshot are left out.
+ */
+export function getCycleStatuses(worldState: WarframeWorldState, at: number = getWorldStateTime()): CycleStatus[] {
+  return CYCLES
+    .map(definition => {
+      const anchor = definition.getAnchor(worldState);
+      return anchor === null ? null : getStatus(definition, anchor, at);
+    })
+    .filter((status): status is CycleStatus => status !== null);
+}
+
+/**
+ * Get the next time (ms) a cycle enters the given state, or null if unknown
+ */
+export function getNextTransition(worldState: WarframeWorldState, cycleId: CycleId, state: string, at: number = getWorldStateTime()): number | null {
+  const definition = getCycleDefinition(cycleId);
+  const anchor = definition?.getAnchor(worldState);
+  if (!definition || anchor === null || anchor === undefined) {
+    return null;
+  }
+
+  const phaseIndex = definition.phases.findIndex(phase => phase.id === state);
+  if (phaseIndex === -1) {
+    return null;
+  }
+
+  const loopLength = definition.phases.reduce((sum, phase) => sum + phase.duration, 0);
+  const phaseOffset = definition.phases.slice(0, phaseIndex).reduce((sum, phase) => sum + phase.duration, 0);
+  const loopStart = at - getLoopOffset(definition, anchor, at);
+  const start = loopStart + phaseOffset;
+
+  return start > at ? start : start + loopLength;
+}
+
+/**
+ * Longest alert lead time in whole minutes for a state, so the alert fires during the phase before it
+ * instead of right after the previous transition. Returns 0 for an unknown cycle or state.
+ */
+export function getMaxAlertMinutes(cycleId: string, state: string): number {
+  const definition = getCycleDefinition(cycleId);
+  const phaseIndex = definition?.phases.findIndex(phase => phase.id === state) ?? -1;
+  if (phaseIndex === -1) {
+    return 0;
+  }
+
+  const previous = definition.phases[(phaseIndex + definition.phases.length - 1) % definition.phases.length];
+  return Math.floor(previous.duration / MINUTE);
+}
+
+// Fetch the current cycle states
+export async function fetchCycleStatuses(): Promise<CycleStatus[]> {
+  const worldState = await getWorldState();
+  return getCycleStatuses(worldState);
+}
+
+/**
+ * Create the open world cycles embed
+ */
+export function createCyclesEmbed(statuses: CycleStatus[]): EmbedBuilder {
+  const fields = statuses.map(status => {
+    const expiry = Math.floor(status.expiry / 1000);
+    return {
+      name: `${status.emoji} ${status.name}`,
+      value: `**${status.stateName}**\n${status.nextStateName} <t:${expiry}:R> (<t:${expiry}:t>)`,
+      inline: true
+    };
+  });
+
+  return createEmbed({
+    type: 'info',
+    title: 'Open World Cycles',
+    description: statuses.length > 0 ? undefined : 'Cycle data is currently unavailable.',
+    fields,
+    timestamp: true
+  });
+}
+
+// Initialize the cycle service
+export function startCycleService(client: Client): void {
+  if (isServiceRunning) {
+    serviceLogger.debug('Cycle service is already running');
+    return;
+  }
+
+  serviceLogger.info('Starting open world cycle service');
+  isServiceRunning = true;
+
+  // Cycles change on a fixed schedule, so check on our own timer
+  checkCycles(client);
+  setInterval(() => checkCycles(client), SERVICE_INTERVALS.CYCLE_CHECK);
+}
+
+// Manually trigger an update (used for immediate posting after setup)
+export function triggerCycleUpdate(client: Client): void {
+  serviceLogger.info('Manually triggering cycle update');
+  updateAllMessages(client);
+}
+
+// Refresh messages when any cycle changes state and send any due alerts
+async function checkCycles(client: Client): Promise<void> {
+  try {
+    const worldState = await getWorldState();
+    const now = getWorldStateTime();
+    const statuses = getCycleStatuses(worldState, now);
+
+    const stateKey = statuses.map(status => `${status.id}:${status.state}`).join(',');
+    if (stateKey !== lastStateKey) {
+      serviceLogger.info(`Cycle state changed: ${stateKey}`);
+      lastStateKey = stateKey;
+      await updateAllMessages(client, statuses);
+    }
+
+    await sendDueAlerts(client, worldState, now);
+  } catch (error) {
+    serviceLogger.error('Error checking open world cycles:', error);
+  }
+}
+
+// Ping roles for alerts whose transition is within their lead time
+async function sendDueAlerts(client: Client, worldState: WarframeWorldState, now: number): Promise<void> {
+  const alerts: CycleAlert[] = await pgdb.getCycleAlerts();
+
+  for (const alert of alerts) {
+    try {
+      const transition = getNextTransition(worldState, alert.cycle, alert.state, now);
+      if (transition === null) {
+        continue;
+      }
+
+      // Alerts saved with a lead time longer than the phase before the state are clamped to it
+      const minutesBefore = Math.min(alert.minutes_before, getMaxAlertMinutes(alert.cycle, alert.state));
+
+      // Only alert once per transition
+      if (transition - now > minutesBefore * MINUTE || Number(alert.last_transition) === transition) {
+        continue;
+      }
+
+      const guild = client.guilds.cache.get(alert.guild_id);
+      if (!guild) {
+        serviceLogger.warn(`Guild ${alert.guild_id} not found, skipping cycle alert`);
+        continue;
+      }
+
+      const channel = await guild.channels.fetch(alert.channel_id).catch((): null => null);
+      if (!channel || !(channel instanceof TextChannel)) {
+        serviceLogger.warn(`Channel ${alert.channel_id} in guild ${alert.guild_id} not found or not a text channel`);
+        continue;
+      }
+
+      // Record the transition first so a failed send doesn't spam retries
+      await pgdb.updateCycleAlertTransition(alert.id, transition);
+
+      const definition = getCycleDefinition(alert.cycle);
+      const phase = definition.phases.find(p => p.id === alert.state);
+      const timestamp = Math.floor(transition / 1000);
+
+      const pingMessage = await channel.send({
+        content: `<@&${alert.role_id}> ${definition.emoji} **${phase.name}** begins on **${definition.name}** <t:${timestamp}:R>`,
+        allowedMentions: { roles: [alert.role_id] }
+      });
+      serviceLogger.info(`Sent ${alert.cycle} ${alert.state} alert to channel ${channel.name} (${channel.id})`);
+
+      // Remove the alert once the transition has happened
+      setTimeout(async () => {
+        try {
+          await pingMessage.delete();
+        } catch (deleteError) {
+          serviceLogger.warn(`Could not delete cycle alert message: ${deleteError}`);
+        }
+      }, Math.max(transition - now, 0) + MINUTE);
+    } catch (alertError) {
+      serviceLogger.error(`Error sending cycle alert ${alert.id}:`, alertError);
+    }
+  }
+}
+
+// Update all configured channels with the current cycle states
+async function updateAllMessages(client: Client, statuses?: CycleStatus[]): Promise<void> {
+  try {
+    const notifications: CycleNotification[] = await pgdb.getCycleNotifications();
+
+    if (notifications.length === 0) {
+      serviceLogger.info('No channels configured for cycle notifications');
+      return;
+    }
+
+    const embed = createCyclesEmbed(statuses || await fetchCycleStatuses());
+    serviceLogger.info(`Updating cycle messages for ${notifications.length} channels`);
+
+    for (const config of notifications) {
+      try {
+        // Get the guild
+        const guild = client.guilds.cache.get(config.guild_id);
+        if (!guild) {
+          serviceLogger.warn(`Guild ${config.guild_id} not found, skipping update`);
+          continue;
+        }
+
+        // Get the channel
+        const channel = await guild.channels.fetch(config.channel_id).catch((): null => null);
+        if (!channel || !(channel instanceof TextChannel)) {
+          serviceLogger.warn(`Channel ${config.channel_id} in guild ${config.guild_id} not found or not a text channel`);
+          continue;
+        }
+
+        // Check if we have a message ID
+        if (config.message_id) {
+          try {
+            const message = await channel.messages.fetch(config.message_id);
+            await message.edit({ content: null, embeds: [embed] });
+            serviceLogger.info(`Updated cycle message in channel ${channel.name} (${channel.id})`);
+            continue;
+          } catch (messageError) {
+            serviceLogger.warn(`Could not find existing message (${config.message_id}) in channel ${channel.name}, sending new message instead`);
+          }
+        }
+
+        // No usable message, send a new one
+        const newMessage = await channel.send({ embeds: [embed] });
+        await pgdb.updateCycleMessageId(config.id, newMessage.id);
+        serviceLogger.info(`Sent new cycle message to channel ${channel.name} (${channel.id}) with message ID ${newMessage.id}`);
+      } catch (channelError) {
+        serviceLogger.error(`Error updating cycle message for channel ${config.channel_id}:`, channelError);
+      }
+    }
+  } catch (error) {
+    serviceLogger.error('Error updating all cycle messages:', error);
+  }
+}
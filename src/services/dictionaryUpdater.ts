@@ -4,6 +4,7 @@ import path from 'path';
 import { logger } from '../utils/logger';
 import { createHash } from 'crypto';
 import { dictionaryEvents } from '../utils/dictionaryLoader';
+import { config } from '../config/config';
 
 // GitHub repository information
 const REPO_OWNER = 'calamity-inc';
@@ -375,11 +376,12 @@ async function listDictionaryFiles(): Promise<string[]> {
     }
     
     // Filter for only the dictionary files we need:
-    // - dict.en.json (English only)
+    // - dict.en.json, plus the languages in DICTIONARY_LANGUAGES
     // - All Export*.json files
+    const languageFiles = ['en', ...config.DICTIONARY_LANGUAGES].map(code => `dict.${code}.json`);
     const fileList = response.data
       .filter((item: any) => item.type === 'file' && (
-        item.name === 'dict.en.json' || 
+        languageFiles.includes(item.name) || 
         item.name.startsWith('Export')
       ))
       .map((item: any) => item.name);
@@ -0,0 +1,268 @@
+import fs from 'fs';
+import path from 'path';
+import { Client, EmbedBuilder, TextChannel } from 'discord.js';
+import { logger } from '../utils/logger';
+import { pgdb } from './postgresDatabase';
+import { createEmbed } from '../utils/embedBuilder';
+import { dictionaryEvents } from '../utils/dictionaryLoader';
+import { weaponLookupService } from './weaponLookupService';
+import { generateWeaponMap } from '../scripts/generateWeaponMap';
+import { formatDisposition } from '../utils/rivenEngine';
+import { DISPOSITION_LIMITS } from '../constants/time';
+
+// Get environment variable for logging
+const ENABLE_SERVICE_LOGS = process.env.ENABLE_DISPOSITION_SERVICE_LOGS === 'true';
+
+// Custom logger that respects the service logging setting
+const serviceLogger = {
+  debug: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.debug(`[Disposition] ${message}`, ...args);
+    }
+  },
+  info: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.info(`[Disposition] ${message}`, ...args);
+    }
+  },
+  // Always log warnings and errors
+  warn: (message: string, ...args: any[]) => {
+    logger.warn(`[Disposition] ${message}`, ...args);
+  },
+  error: (message: string, ...args: any[]) => {
+    logger.error(`[Disposition] ${message}`, ...args);
+  }
+};
+
+// Interfaces
+export interface DispositionChange {
+  internal_path: string;
+  weapon: string;
+  old_disposition: number | null; // null when the weapon is new
+  new_disposition: number;
+  created_at: Date;
+}
+
+type DispositionMap = Record<string, { name: string, disposition: number }>;
+
+// Global state
+let isServiceRunning = false;
+let isChecking = false;
+
+/**
+ * Read the current disposition of every weapon from weaponMap.json, keyed by internal path
+ */
+function loadCurrentDispositions(): DispositionMap {
+  const weaponMapPath = path.join(process.cwd(), 'dict', 'weaponMap.json');
+  if (!fs.existsSync(weaponMapPath)) {
+    serviceLogger.warn('weaponMap.json not found, run npm run riven-maps to generate it');
+    return {};
+  }
+
+  const weaponMap: Record<string, { internalPath: string, displayName: string, disposition: number }> =
+    JSON.parse(fs.readFileSync(weaponMapPath, 'utf8'));
+
+  // The map also has entries keyed by display name, only keep the internal path ones
+  const dispositions: DispositionMap = {};
+  for (const [key, entry] of Object.entries(weaponMap)) {
+    if (key === entry.internalPath) {
+      dispositions[key] = { name: entry.displayName, disposition: entry.disposition };
+    }
+  }
+  return dispositions;
+}
+
+/**
+ * List the weapons whose disposition changed or that are new since the previous snapshot
+ */
+function diffDispositions(previous: DispositionMap, current: DispositionMap) {
+  const changes: Array<{ internalPath: string, weapon: string, oldDisposition: number | null, newDisposition: number }> = [];
+
+  for (const [internalPath, entry] of Object.entries(current)) {
+    const before = previous[internalPath];
+    if (!before) {
+      changes.push({ internalPath, weapon: entry.name, oldDisposition: null, newDisposition: entry.disposition });
+    } else if (Math.abs(before.disposition - entry.disposition) >= DISPOSITION_LIMITS.MIN_CHANGE) {
+      changes.push({ internalPath, weapon: entry.name, oldDisposition: before.disposition, newDisposition: entry.disposition });
+    }
+  }
+
+  return changes;
+}
+
+function formatChangeLine(change: DispositionChange): string {
+  if (change.old_disposition === null) {
+    return `✦ **${change.weapon}** ${formatDisposition(change.new_disposition)}`;
+  }
+  const arrow = change.new_disposition > change.old_disposition ? '▲' : '▼';
+  return `${arrow} **${change.weapon}** ${formatDisposition(change.old_disposition)} → ${formatDisposition(change.new_disposition)}`;
+}
+
+/**
+ * Create the digest embed, buffs first and then nerfs, each by the size of the change
+ */
+export function createDispositionDigestEmbed(changes: DispositionChange[]): EmbedBuilder {
+  // Variants sharing a display name change together, list them once
+  const unique = changes.filter((change, index) => changes.findIndex(other =>
+    other.weapon === change.weapon &&
+    other.old_disposition === change.old_disposition &&
+    other.new_disposition === change.new_disposition
+  ) === index);
+
+  const delta = (change: DispositionChange) => change.new_disposition - (change.old_disposition ?? change.new_disposition);
+  const changed = unique.filter(change => change.old_disposition !== null).sort((a, b) => delta(b) - delta(a));
+  const added = unique.filter(change => change.old_disposition === null).sort((a, b) => a.weapon.localeCompare(b.weapon));
+
+  const lines = [...changed, ...added].map(formatChangeLine);
+  const shown = lines.slice(0, DISPOSITION_LIMITS.DIGEST_ENTRIES);
+  if (lines.length > shown.length) {
+    shown.push(`*...and ${lines.length - shown.length} more, use \`/disposition\` to look up a weapon*`);
+  }
+
+  const buffs = changed.filter(change => delta(change) > 0).length;
+  const nerfs = changed.length - buffs;
+
+  return createEmbed({
+    type: 'info',
+    title: 'Riven Disposition Changes',
+    description: shown.join('\n'),
+    footer: `${buffs} increased • ${nerfs} decreased${added.length > 0 ? ` • ${added.length} new` : ''}`,
+    timestamp: true
+  });
+}
+
+/**
+ * Post the digest to every guild that opted in with /setdisposition
+ */
+async function postDispositionDigest(client: Client, changes: DispositionChange[]): Promise<void> {
+  const notifications = await pgdb.getDispositionNotifications();
+  if (notifications.length === 0) {
+    serviceLogger.debug('No disposition digest channels configured');
+    return;
+  }
+
+  const embed = createDispositionDigestEmbed(changes);
+
+  for (const config of notifications) {
+    try {
+      const guild = client.guilds.cache.get(config.guild_id);
+      if (!guild) {
+        serviceLogger.warn(`Guild ${config.guild_id} not found, skipping disposition digest`);
+        continue;
+      }
+
+      const channel = await guild.channels.fetch(config.channel_id).catch((): null => null);
+      if (!channel || !(channel instanceof TextChannel)) {
+        serviceLogger.warn(`Channel ${config.channel_id} in guild ${config.guild_id} not found or not a text channel`);
+        continue;
+      }
+
+      await channel.send({
+        content: config.role_id ? `<@&${config.role_id}>` : undefined,
+        embeds: [embed]
+      });
+      serviceLogger.info(`Sent disposition digest to channel ${channel.name} (${channel.id})`);
+    } catch (error) {
+      serviceLogger.error(`Error sending disposition digest to guild ${config.guild_id}:`, error);
+    }
+  }
+}
+
+/**
+ * Compare the current dispositions with the latest snapshot and store a new snapshot.
+ * Without a previous snapshot the current dispositions become the baseline.
+ * @param recordUnchanged store a snapshot even when nothing changed, used for dictionary updates
+ */
+export async function checkDispositions(client: Client, recordUnchanged = false): Promise<DispositionChange[]> {
+  if (isChecking) {
+    serviceLogger.debug('Disposition check already in progress, skipping');
+    return [];
+  }
+
+  isChecking = true;
+  try {
+    const current = loadCurrentDispositions();
+    if (Object.keys(current).length === 0) {
+      return [];
+    }
+
+    const latest = await pgdb.getLatestDispositionSnapshot();
+    if (!latest) {
+      await pgdb.addDispositionSnapshot(current, []);
+      serviceLogger.info(`Recorded baseline disposition snapshot of ${Object.keys(current).length} weapons`);
+      return [];
+    }
+
+    const changes = diffDispositions(latest.dispositions, current);
+    if (changes.length === 0 && !recordUnchanged) {
+      serviceLogger.debug('No disposition changes since the latest snapshot');
+      return [];
+    }
+
+    await pgdb.addDispositionSnapshot(current, changes);
+    serviceLogger.info(`Recorded disposition snapshot with ${changes.length} changes`);
+
+    const recorded: DispositionChange[] = changes.map(change => ({
+      internal_path: change.internalPath,
+      weapon: change.weapon,
+      old_disposition: change.oldDisposition,
+      new_disposition: change.newDisposition,
+      created_at: new Date()
+    }));
+
+    if (recorded.length > 0) {
+      await postDispositionDigest(client, recorded);
+    }
+    return recorded;
+  } catch (error) {
+    serviceLogger.error('Error checking dispositions:', error);
+    return [];
+  } finally {
+    isChecking = false;
+  }
+}
+
+/**
+ * Regenerate the weapon maps from the new ExportWeapons.json, then snapshot the dispositions
+ */
+async function handleWeaponExportUpdate(client: Client): Promise<void> {
+  try {
+    serviceLogger.info('ExportWeapons.json updated, regenerating weapon maps');
+    await generateWeaponMap();
+    weaponLookupService.reloadWeaponData();
+  } catch (error) {
+    serviceLogger.error('Error regenerating weapon maps:', error);
+    return;
+  }
+
+  await checkDispositions(client, true);
+}
+
+/**
+ * Disposition history of a weapon, newest first
+ */
+export async function getDispositionHistory(internalPath: string): Promise<DispositionChange[]> {
+  return pgdb.getDispositionChanges(internalPath, DISPOSITION_LIMITS.HISTORY_ENTRIES);
+}
+
+/**
+ * Start tracking disposition changes across dictionary updates
+ */
+export function startDispositionService(client: Client): void {
+  if (isServiceRunning) {
+    serviceLogger.debug('Disposition service is already running');
+    return;
+  }
+
+  serviceLogger.info('Starting disposition service');
+  isServiceRunning = true;
+
+  dictionaryEvents.on('dictionaryUpdated', (filenames: string[]) => {
+    if (filenames.includes('ExportWeapons.json')) {
+      handleWeaponExportUpdate(client);
+    }
+  });
+
+  // Catch changes made while the bot was offline, e.g. by npm run riven-maps
+  checkDispositions(client);
+}
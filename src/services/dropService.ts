@@ -0,0 +1,284 @@
+import { logger } from '../utils/logger';
+import { createDictionaryIndex, getDictionary, getLocalizedName } from '../utils/dictionaryLoader';
+import { resolveRewardName } from './relicService';
+import { getArbitrationSchedule } from './arbitrationService';
+import { getFissureDetails } from './fissureService';
+import { getFissureMissions, getWorldState, getWorldStateTime } from './worldStateService';
+
+// Rebuilt when any of these files is updated
+const dropIndex = createDictionaryIndex('drop', [
+  'ExportRegions.json', 'ExportRewards.json', 'ExportSystems.json', 'ExportMissionTypes.json',
+  'ExportRecipes.json', 'ExportRelics.json', 'dict.en.json'
+], buildDropIndex);
+
+// Reward tables of endless missions are the A, B and C rotations, single tables are completion rewards
+const ROTATIONS = ['A', 'B', 'C'];
+
+export type DropSource = 'mission' | 'cache';
+
+export type ResourceRarity = 'Common' | 'Uncommon' | 'Rare';
+
+// Interfaces
+export interface DropLocation {
+  node: string; // Node key, e.g. SolNode94
+  nodeName: string;
+  systemName: string;
+  missionType: string;
+  source: DropSource;
+  rotation: string | null;
+  chance: number; // Percent
+  minCount: number;
+  maxCount: number;
+}
+
+export interface PlanetDrop {
+  systemName: string;
+  rarity: ResourceRarity;
+}
+
+// A drop location that is part of today's arbitrations or an active fissure
+export interface DropHint {
+  type: 'arbitration' | 'fissure';
+  location: DropLocation;
+  detail: string; // Arbitration tier or fissure relic tier, e.g. "S" or "Axi"
+  timestamp: number; // Unix seconds the arbitration starts or the fissure expires
+  active: boolean;
+}
+
+// Global state
+let locationsByItem = new Map<string, DropLocation[]>();
+let planetsByItem = new Map<string, PlanetDrop[]>();
+let itemNames: string[] = [];
+
+// Mission names are upper case in the language dictionary, e.g. "MOBILE DEFENSE"
+function toTitleCase(name: string): string {
+  return name.toLowerCase().replace(/\b\w/g, char => char.toUpperCase());
+}
+
+function toRarity(rarity: string): ResourceRarity {
+  switch (rarity) {
+    case 'RARE':
+      return 'Rare';
+    case 'UNCOMMON':
+      return 'Uncommon';
+    default:
+      return 'Common';
+  }
+}
+
+function getRotation(index: number, tableCount: number): string | null {
+  return tableCount > 1 ? ROTATIONS[index] || null : null;
+}
+
+/**
+ * Build the reverse drop index from the loaded dictionaries
+ */
+export function buildDropIndex(): boolean {
+  const regions = getDictionary('ExportRegions.json');
+  const rewards = getDictionary('ExportRewards.json');
+  const missionTypes = getDictionary('ExportMissionTypes.json') || {};
+  const systems = (getDictionary('ExportSystems.json') || []) as any[];
+  const recipes = getDictionary('ExportRecipes.json') || {};
+  const relics = getDictionary('ExportRelics.json') || {};
+
+  if (!regions || !rewards) {
+    logger.warn('ExportRegions.json or ExportRewards.json is missing, drop index not built');
+    return false;
+  }
+
+  const nameCache = new Map<string, string>();
+  const resolveName = (storePath: string): string => {
+    if (!nameCache.has(storePath)) {
+      // Relics have no localized name, they are named like /relic does, e.g. "Axi A1 Relic"
+      const relic = relics[storePath.replace('/StoreItems/', '/')];
+      nameCache.set(storePath, relic?.era ? `${relic.era} ${relic.category} Relic` : resolveRewardName(storePath, recipes));
+    }
+    return nameCache.get(storePath);
+  };
+
+  const byItem = new Map<string, DropLocation[]>();
+  const displayNames = new Map<string, string>();
+
+  for (const [node, region] of Object.entries<any>(regions)) {
+    const missionName = region.missionName || missionTypes[region.missionType]?.name;
+    const location = {
+      node,
+      nodeName: getLocalizedName(region.name, node),
+      systemName: getLocalizedName(region.systemName, 'Unknown'),
+      missionType: missionName ? toTitleCase(getLocalizedName(missionName, region.missionType)) : 'Unknown'
+    };
+
+    const tables: Array<{ source: DropSource, manifest: string }> = [
+      ...(region.rewardManifests || []).map((manifest: string) => ({ source: 'mission' as DropSource, manifest })),
+      ...(region.cacheRewardManifest ? [{ source: 'cache' as DropSource, manifest: region.cacheRewardManifest }] : [])
+    ];
+
+    for (const { source, manifest } of tables) {
+      const rotations = rewards[manifest];
+      if (!Array.isArray(rotations)) {
+        continue;
+      }
+
+      rotations.forEach((table: any[], index: number) => {
+        if (!Array.isArray(table)) {
+          return;
+        }
+
+        // The same item can be listed once per stack size, those are merged into one chance
+        const merged = new Map<string, DropLocation>();
+        for (const reward of table) {
+          const item = resolveName(reward.type);
+          const count = reward.itemCount || 1;
+          const drop = merged.get(item);
+
+          if (drop) {
+            drop.chance += reward.probability * 100;
+            drop.minCount = Math.min(drop.minCount, count);
+            drop.maxCount = Math.max(drop.maxCount, count);
+          } else {
+            merged.set(item, {
+              ...location,
+              source,
+              rotation: getRotation(index, rotations.length),
+              chance: reward.probability * 100,
+              minCount: count,
+              maxCount: count
+            });
+          }
+        }
+
+        for (const [item, drop] of merged) {
+          const itemKey = item.toLowerCase();
+          displayNames.set(itemKey, item);
+          const locations = byItem.get(itemKey) || [];
+          locations.push(drop);
+          byItem.set(itemKey, locations);
+        }
+      });
+    }
+  }
+
+  for (const locations of byItem.values()) {
+    locations.sort((a, b) => b.chance - a.chance);
+  }
+
+  // Resources picked up from enemies and containers anywhere on a planet
+  const byPlanet = new Map<string, PlanetDrop[]>();
+  for (const system of systems) {
+    for (const resource of system.resources || []) {
+      const item = resolveName(resource.StoreItem);
+      const itemKey = item.toLowerCase();
+      displayNames.set(itemKey, item);
+      const planets = byPlanet.get(itemKey) || [];
+      planets.push({ systemName: getLocalizedName(system.name), rarity: toRarity(resource.Rarity) });
+      byPlanet.set(itemKey, planets);
+    }
+  }
+
+  locationsByItem = byItem;
+  planetsByItem = byPlanet;
+  itemNames = [...displayNames.values()].sort();
+
+  logger.info(`Built drop index with ${itemNames.length} items`);
+  return true;
+}
+
+/**
+ * Build the drop index and keep it in sync with dictionary updates
+ */
+export function initializeDropIndex(): void {
+  dropIndex.initialize();
+}
+
+/**
+ * Every node, mission type and rotation that drops an item, highest chance first
+ */
+export function getDropLocations(item: string): DropLocation[] {
+  dropIndex.ensureBuilt();
+  return locationsByItem.get(item.toLowerCase().trim()) || [];
+}
+
+/**
+ * Planets where an item is picked up from enemies and containers
+ */
+export function getPlanetDrops(item: string): PlanetDrop[] {
+  dropIndex.ensureBuilt();
+  return planetsByItem.get(item.toLowerCase().trim()) || [];
+}
+
+/**
+ * Every item with a known drop location, alphabetically
+ */
+export function getDropItemNames(): string[] {
+  dropIndex.ensureBuilt();
+  return itemNames;
+}
+
+/**
+ * Item names containing the query, exact matches first
+ */
+export function searchDropItems(query: string, limit = 25): string[] {
+  dropIndex.ensureBuilt();
+  const normalized = query.toLowerCase().trim();
+
+  const matches = itemNames.filter(item => item.toLowerCase().includes(normalized));
+  return [
+    ...matches.filter(item => item.toLowerCase() === normalized),
+    ...matches.filter(item => item.toLowerCase() !== normalized)
+  ].slice(0, limit);
+}
+
+/**
+ * Drop locations that are one of the next 24 hours of arbitrations or an active fissure.
+ * Each worldstate source that can't be reached is skipped.
+ */
+export async function getDropHints(locations: DropLocation[]): Promise<DropHint[]> {
+  const byNode = new Map<string, DropLocation>();
+  for (const location of locations) {
+    // Locations are sorted by chance, so keep the best one per node
+    if (!byNode.has(location.node)) {
+      byNode.set(location.node, location);
+    }
+  }
+
+  const hints: DropHint[] = [];
+  const now = Math.floor(getWorldStateTime() / 1000);
+
+  try {
+    const schedule = await getArbitrationSchedule(now, now + 24 * 3600);
+    for (const arbitration of schedule || []) {
+      const location = byNode.get(arbitration.node);
+      if (location) {
+        hints.push({
+          type: 'arbitration',
+          location,
+          detail: arbitration.tier,
+          timestamp: arbitration.timestamp,
+          active: arbitration.isActive
+        });
+      }
+    }
+  } catch (error) {
+    logger.error('Error checking arbitrations for drop hints:', error);
+  }
+
+  try {
+    const fissures = await getFissureDetails(getFissureMissions(await getWorldState()));
+    for (const fissure of fissures) {
+      const location = byNode.get(fissure.mission.Node);
+      if (location) {
+        hints.push({
+          type: 'fissure',
+          location,
+          detail: fissure.steelPath ? `${fissure.tier} Steel Path` : fissure.tier,
+          timestamp: Math.floor(fissure.expiry / 1000),
+          active: true
+        });
+      }
+    }
+  } catch (error) {
+    logger.error('Error checking fissures for drop hints:', error);
+  }
+
+  return hints;
+}
@@ -1,5 +1,4 @@
 import { Client, TextChannel } from 'discord.js';
-import axios from 'axios';
 import fs from 'fs';
 import path from 'path';
 import { logger } from '../utils/logger';
@@ -7,6 +6,7 @@ import { pgdb } from './postgresDatabase';  // PostgreSQL database
 import { createEmbed } from '../utils/embedBuilder';
 import { ActiveMission, getExpiryTimestamp } from '../types/warframe';
 import { SERVICE_INTERVALS } from '../constants/time';
+import { getWorldState, getWorldStateTime, getFissureMissions, worldStateEvents } from './worldStateService';
 import os from 'os';
 
 // Get environment variable for logging
@@ -45,6 +45,18 @@ interface FissureNotification {
   updated_at: string;
   last_notified?: string;
   message_id?: string;
+  filters?: FissureFilter | string | null;
+}
+
+/**
+ * Extra conditions a fissure notification can require, stored as JSON on fissure_notifications.
+ * All set conditions must match. List conditions match if any value matches (case-insensitive).
+ */
+export interface FissureFilter {
+  tiers?: string[]; // Relic tier names from VOID_TIER_MAP, e.g. ['Axi', 'Omnia']
+  missionTypes?: string[]; // Replaces mission_type when set
+  factions?: string[]; // Faction names from FISSURE_FACTIONS, e.g. ['Corpus']
+  minMinutesRemaining?: number;
 }
 
 interface RegionInfo {
@@ -54,12 +66,20 @@ interface RegionInfo {
   factionName: string;
 }
 
-interface ApiResponse {
-  ActiveMissions: ActiveMission[];
+// Resolved display details for a single fissure mission
+export interface FissureDetails {
+  mission: ActiveMission;
+  missionType: string;
+  tier: string;
+  steelPath: boolean;
+  node: string;
+  system: string;
+  faction: string;
+  expiry: number; // Milliseconds
 }
 
 // Mapping for Void Fissure Tiers to Relic Names
-const VOID_TIER_MAP: Record<string, string> = {
+export const VOID_TIER_MAP: Record<string, string> = {
   'VoidT1': 'Lith',
   'VoidT2': 'Meso',
   'VoidT3': 'Neo',
@@ -68,17 +88,192 @@ const VOID_TIER_MAP: Record<string, string> = {
   'VoidT6': 'Omnia'
 };
 
+// Omnia fissures accept relics of any era
+export const OMNIA_TIER = 'Omnia';
+
+export type MissionSpeed = 'Fast' | 'Medium' | 'Slow';
+
+// Rough time to open a relic, mission types not listed here are treated as Medium
+const MISSION_SPEEDS: Record<string, MissionSpeed> = {
+  'capture': 'Fast',
+  'exterminate': 'Fast',
+  'sabotage': 'Fast',
+  'rescue': 'Fast',
+  'spy': 'Medium',
+  'mobile defense': 'Medium',
+  'excavation': 'Medium',
+  'hijack': 'Medium',
+  'void cascade': 'Medium',
+  'void flood': 'Medium',
+  'void armageddon': 'Medium',
+  'survival': 'Slow',
+  'defense': 'Slow',
+  'interception': 'Slow',
+  'disruption': 'Slow',
+  'alchemy': 'Slow',
+  'orphix': 'Slow'
+};
+
+const MISSION_SPEED_ORDER: MissionSpeed[] = ['Fast', 'Medium', 'Slow'];
+
+// Look up how quickly a fissure mission type can be completed
+export function getMissionSpeed(missionType: string): MissionSpeed {
+  return MISSION_SPEEDS[missionType.toLowerCase()] || 'Medium';
+}
+
+// Sort helper, faster mission types first
+export function compareMissionSpeed(a: string, b: string): number {
+  return MISSION_SPEED_ORDER.indexOf(getMissionSpeed(a)) - MISSION_SPEED_ORDER.indexOf(getMissionSpeed(b));
+}
+
+// Parse the filters column (JSONB comes back as an object, but tolerate strings)
+export function parseFissureFilter(value: FissureFilter | string | null | undefined): FissureFilter | null {
+  if (!value) {
+    return null;
+  }
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value) as FissureFilter;
+    } catch (error) {
+      logger.warn(`Ignoring invalid fissure filter: ${value}`);
+      return null;
+    }
+  }
+  return value;
+}
+
+/**
+ * Resolve tier names against VOID_TIER_MAP, returning the canonical names and any that didn't match
+ */
+export function validateFissureTiers(tiers: string[]): { valid: string[], invalid: string[] } {
+  const knownTiers = Object.values(VOID_TIER_MAP);
+  const valid: string[] = [];
+  const invalid: string[] = [];
+
+  for (const tier of tiers) {
+    const match = knownTiers.find(known => known.toLowerCase() === tier.trim().toLowerCase());
+    if (match) {
+      if (!valid.includes(match)) {
+        valid.push(match);
+      }
+    } else {
+      invalid.push(tier.trim());
+    }
+  }
+
+  return { valid, invalid };
+}
+
+// Node factions each filter faction matches. Corrupted fissures are on Orokin nodes, so both names match them
+export const FISSURE_FACTIONS: Record<string, string[]> = {
+  Grineer: ['grineer'],
+  Corpus: ['corpus'],
+  Infestation: ['infestation'],
+  Orokin: ['orokin'],
+  Corrupted: ['orokin'],
+  Murmur: ['the murmur'],
+  Scaldra: ['scaldra'],
+  Techrot: ['techrot'],
+  Sentient: ['sentient']
+};
+
+const FISSURE_FACTION_ALIASES: Record<string, string> = {
+  infested: 'Infestation'
+};
+
+// Resolve a faction name or alias to its FISSURE_FACTIONS key
+function resolveFissureFaction(faction: string): string | null {
+  const normalized = faction.trim().toLowerCase();
+  return Object.keys(FISSURE_FACTIONS).find(known => known.toLowerCase() === normalized)
+    || FISSURE_FACTION_ALIASES[normalized]
+    || null;
+}
+
+/**
+ * Resolve faction names against FISSURE_FACTIONS, returning the canonical names and any that didn't match
+ */
+export function validateFissureFactions(factions: string[]): { valid: string[], invalid: string[] } {
+  const valid: string[] = [];
+  const invalid: string[] = [];
+
+  for (const faction of factions) {
+    const match = resolveFissureFaction(faction);
+    if (match) {
+      if (!valid.includes(match)) {
+        valid.push(match);
+      }
+    } else {
+      invalid.push(faction.trim());
+    }
+  }
+
+  return { valid, invalid };
+}
+
+// Whether a fissure's node faction is one a filter faction stands for
+export function matchesFissureFaction(filterFaction: string, fissureFaction: string): boolean {
+  const nodeFaction = fissureFaction.toLowerCase();
+  const known = resolveFissureFaction(filterFaction);
+  // Filters saved before factions were validated fall back to comparing the names
+  return known ? FISSURE_FACTIONS[known].includes(nodeFaction) : filterFaction.toLowerCase() === nodeFaction;
+}
+
+// Check a fissure against every condition set on a filter
+export function matchesFissureFilter(filter: FissureFilter | null, fissure: FissureDetails, now: number = getWorldStateTime()): boolean {
+  if (!filter) {
+    return true;
+  }
+  if (filter.tiers?.length && !filter.tiers.some(tier => tier.toLowerCase() === fissure.tier.toLowerCase())) {
+    return false;
+  }
+  if (filter.missionTypes?.length && !filter.missionTypes.some(type => type.toLowerCase() === fissure.missionType.toLowerCase())) {
+    return false;
+  }
+  if (filter.factions?.length && !filter.factions.some(faction => matchesFissureFaction(faction, fissure.faction))) {
+    return false;
+  }
+  if (filter.minMinutesRemaining && (fissure.expiry - now) / 60000 < filter.minMinutesRemaining) {
+    return false;
+  }
+  return true;
+}
+
+// Describe a filter as a readable expression, e.g. "tier in (Axi, Omnia) and faction = Corpus"
+export function describeFissureFilter(filter: FissureFilter | null): string {
+  if (!filter) {
+    return 'None';
+  }
+
+  const describeList = (name: string, values?: string[]): string | null => {
+    if (!values?.length) return null;
+    return values.length === 1 ? `${name} = ${values[0]}` : `${name} in (${values.join(', ')})`;
+  };
+
+  const conditions = [
+    describeList('tier', filter.tiers),
+    describeList('faction', filter.factions),
+    describeList('missionType', filter.missionTypes),
+    filter.minMinutesRemaining ? `minutes remaining >= ${filter.minMinutesRemaining}` : null
+  ].filter(Boolean);
+
+  return conditions.length > 0 ? conditions.join(' and ') : 'None';
+}
+
+// Mission types a notification listens for (the filter list replaces the single mission_type)
+function getNotificationMissionTypes(notification: FissureNotification): string[] {
+  const filter = parseFissureFilter(notification.filters);
+  return filter?.missionTypes?.length ? filter.missionTypes : [notification.mission_type];
+}
+
 // Global state
 let isServiceRunning = false;
 let isFirstRun = true;
 let lastFissureList: Record<string, ActiveMission[]> | null = null;
 
-let checkInterval = SERVICE_INTERVALS.FISSURE_CHECK;
+let checkInterval = SERVICE_INTERVALS.WORLD_STATE_POLL;
 let recentlyNotifiedMissions = new Map<string, string>(); // Map to track recently notified missions
-let lastSuccessfulCheck = 0; // Timestamp of last successful check
-let errorCount = 0; // Track consecutive errors
-const MAX_ERRORS_BEFORE_RESTART = 3; // Restart service after this many consecutive errors
-const WATCHDOG_INTERVAL = 120000; // Check service health every 2 minutes
+let isCheckInProgress = false; // Prevent overlapping checks
+let isCheckPending = false; // Re-run once the current check finishes
 
 // Special mission types that need special handling
 const SPECIAL_MISSION_TYPES = [
@@ -105,36 +300,16 @@ export function startFissureService(client: Client): void {
   // Use normal logger for critical service events
   logger.info('Starting Fissure notification service');
   isServiceRunning = true;
-  lastSuccessfulCheck = Date.now(); // Initialize last successful check time
-  errorCount = 0; // Reset error counter
   
   // Empty the lastFissureList on startup to force notification checking
   lastFissureList = null;
   logger.info('Cleared fissure cache on startup to ensure initial notifications are sent');
   
-  // Start checking for updates
-  checkAndNotify(client);
+  // Re-check whenever the shared world state poller sees fissures appear or expire
+  worldStateEvents.on('fissuresChanged', () => checkAndNotify(client));
   
-  // Start the watchdog to ensure service keeps running
-  startWatchdog(client);
-}
-
-// Watchdog to ensure the service is running properly
-function startWatchdog(client: Client): void {
-  setInterval(() => {
-    // Check if the service is running but hasn't had a successful check in a while
-    const now = Date.now();
-    const timeSinceLastCheck = now - lastSuccessfulCheck;
-    
-    // If it's been more than 3x the check interval since last successful check, restart
-    if (isServiceRunning && timeSinceLastCheck > checkInterval * 3) {
-      logger.warn(`Fissure service watchdog: No successful checks in ${Math.floor(timeSinceLastCheck/1000)} seconds. Restarting service.`);
-      
-      // Reset state and restart
-      isServiceRunning = false;
-      startFissureService(client);
-    }
-  }, WATCHDOG_INTERVAL);
+  // Run the initial check against the current snapshot
+  checkAndNotify(client);
 }
 
 // Manually trigger a fissure check (used for immediate notification after setup)
@@ -161,6 +336,12 @@ export function triggerFissureCheck(client: Client): void {
 
 // Main function to check for updates and send notifications
 async function checkAndNotify(client: Client): Promise<void> {
+  if (isCheckInProgress) {
+    isCheckPending = true;
+    return;
+  }
+  isCheckInProgress = true;
+  
   try {
     // Only show check started message if service logs are enabled
     if (ENABLE_SERVICE_LOGS) {
@@ -225,38 +406,16 @@ async function checkAndNotify(client: Client): Promise<void> {
       logger.error('Error checking for marker files:', fsError);
     }
     
-    // Fetch current world state for fissure missions
-    const response = await axios.get<ApiResponse>('https://oracle.browse.wf/worldState.json', {
-      timeout: 10000,
-      headers: {
-        'User-Agent': 'WardenPrimeBot/1.0.0'
-      }
-    });
-
-    const { ActiveMissions } = response.data;
-    serviceLogger.debug(`API Response received. Total ActiveMissions: ${ActiveMissions?.length ?? 0}`);
-
-    if (!ActiveMissions || ActiveMissions.length === 0) {
-      serviceLogger.warn('No active missions found in API response or incorrect format.');
-      errorCount++;
-      if (errorCount >= MAX_ERRORS_BEFORE_RESTART) {
-        logger.error(`Fissure service: ${errorCount} consecutive errors. Service may be stuck.`);
-      }
-      scheduleNextCheck(client);
-      return;
-    }
-
-    // Reset error count on successful API call
-    errorCount = 0;
-    lastSuccessfulCheck = Date.now();
+    // Get the shared world state snapshot
+    const worldState = await getWorldState();
+    serviceLogger.debug(`World state received. Total ActiveMissions: ${worldState.ActiveMissions.length}`);
 
     // Filter only void fissure missions
-    const fissureMissions = ActiveMissions.filter(mission => mission.Modifier && mission.Modifier.startsWith('VoidT'));
+    const fissureMissions = getFissureMissions(worldState);
     serviceLogger.debug(`Filtered down to ${fissureMissions.length} void fissure missions`);
 
     if (fissureMissions.length === 0) {
       serviceLogger.warn('No void fissure missions found after filtering.');
-      scheduleNextCheck(client);
       return;
     }
 
@@ -264,7 +423,6 @@ async function checkAndNotify(client: Client): Promise<void> {
     const dictionaries = await loadDictionaries();
     if (!dictionaries) {
       logger.error('Failed to load mission dictionaries');
-      scheduleNextCheck(client);
       return;
     }
 
@@ -490,9 +648,9 @@ async function checkAndNotify(client: Client): Promise<void> {
       logger.info(`Found new fissure missions for types: ${newFissuresMissionTypes.join(', ')}`);
       
       // Filter notifications for mission types that have new fissures
-      const notificationsToSend = allNotifications.filter(notification => {
+      const notificationsToSend = allNotifications.filter(notification => getNotificationMissionTypes(notification).some(configType => {
         // Normalize mission type for comparison
-        const normalizedConfigType = notification.mission_type.toLowerCase().trim();
+        const normalizedConfigType = configType.toLowerCase().trim();
         
         // Check if the normalized notification type matches any of the new mission types
         return newFissuresMissionTypes.some(newType => {
@@ -512,7 +670,7 @@ async function checkAndNotify(client: Client): Promise<void> {
           // For other types, check if either contains the other
           return normalizedNewType.includes(normalizedConfigType) || normalizedConfigType.includes(normalizedNewType);
         });
-      });
+      }));
       
       if (notificationsToSend.length > 0) {
         await sendFissureNotifications(client, notificationsToSend, currentFissures);
@@ -540,15 +698,15 @@ async function checkAndNotify(client: Client): Promise<void> {
         logger.info(`Found ${specialMissionTypes.length} special mission types to always notify about`);
         
         // Filter notifications for special mission types
-        const specialNotifications = allNotifications.filter(notification => {
-          const normalizedType = notification.mission_type.toLowerCase().trim();
+        const specialNotifications = allNotifications.filter(notification => getNotificationMissionTypes(notification).some(configType => {
+          const normalizedType = configType.toLowerCase().trim();
           return specialMissionTypes.some(specialType => {
             const specialTypeLower = specialType.toLowerCase();
             return (normalizedType.includes('cascade') && specialTypeLower.includes('cascade')) ||
                    (normalizedType.includes('flood') && specialTypeLower.includes('flood')) ||
                    (normalizedType.includes('armageddon') && specialTypeLower.includes('armageddon'));
           });
-        });
+        }));
         
         if (specialNotifications.length > 0) {
           await sendFissureNotifications(client, specialNotifications, currentFissures);
@@ -559,28 +717,19 @@ async function checkAndNotify(client: Client): Promise<void> {
     // Update the last fissure list
     lastFissureList = currentFissures;
     
-    // Schedule the next check
-    scheduleNextCheck(client);
-    
   } catch (error) {
-    errorCount++;
-    logger.error(`Error in fissure service check (error #${errorCount}):`, error);
+    logger.error('Error in fissure service check:', error);
+  } finally {
+    isCheckInProgress = false;
     
-    // If there have been multiple consecutive errors, the service might be stuck
-    if (errorCount >= MAX_ERRORS_BEFORE_RESTART) {
-      logger.warn(`Fissure service: ${errorCount} consecutive errors. Will attempt restart if condition persists.`);
+    // A change arrived while we were busy, check again
+    if (isCheckPending) {
+      isCheckPending = false;
+      checkAndNotify(client);
     }
-    
-    // Even if there's an error, continue checking
-    scheduleNextCheck(client);
   }
 }
 
-// Schedule the next check
-function scheduleNextCheck(client: Client): void {
-  setTimeout(() => checkAndNotify(client), checkInterval);
-}
-
 // Load dictionaries from files
 async function loadDictionaries() {
   try {
@@ -699,7 +848,7 @@ function findNewFissureMissions(currentFissures: Record<string, ActiveMission[]>
       const currentMissions = currentFissures[missionType];
       const activeCount = currentMissions.filter(mission => {
         const expiryTime = getExpiryTimestamp(mission);
-        return expiryTime > Date.now();
+        return expiryTime > getWorldStateTime();
       }).length;
       
       console.log(`SPECIAL MISSION: ${missionType} has ${activeCount} active missions`);
@@ -815,7 +964,7 @@ function findNewFissureMissions(currentFissures: Record<string, ActiveMission[]>
       }
       
       // Get current time in milliseconds
-      const currentTime = Date.now();
+      const currentTime = getWorldStateTime();
       
       // Flag to track if we found any new missions
       let hasNewMissions = false;
@@ -954,11 +1103,13 @@ async function sendFissureNotifications(
       for (const notification of channelNotifications) {
         console.log(`Processing notification: ${notification.id}, type: ${notification.mission_type}`);
         
-        const missionType = notification.mission_type.toLowerCase();
+        const notificationTypes = getNotificationMissionTypes(notification);
+        const missionType = notificationTypes.join(', ').toLowerCase();
         const steelPathOnly = notification.steel_path;
+        const filter = parseFissureFilter(notification.filters);
         
-        // CHANGE: Create a unique key for this notification type + channel
-        const notificationKey = `${channelKey}:${missionType}:${steelPathOnly}`;
+        // CHANGE: Create a unique key for this notification type + channel (and filter)
+        const notificationKey = `${channelKey}:${missionType}:${steelPathOnly}:${describeFissureFilter(filter)}`;
         
         // CHANGE: Skip if we've already processed this notification type for this channel
         if (processedNotifications.has(notificationKey)) {
@@ -969,99 +1120,18 @@ async function sendFissureNotifications(
         // Add to processed set
         processedNotifications.add(notificationKey);
         
-        // Standardize and normalize mission type for consistent comparison
-        const standardizedType = missionType
-          .replace(/\s+/g, ' ') // Replace multiple spaces with a single space
-          .split(' ')
-          .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-          .join(' ');
-        
-        console.log(`Standardized mission type: "${standardizedType}", Steel Path only: ${steelPathOnly}`);
-        console.log(`Available mission types for matching: ${Object.keys(fissures).join(', ')}`);
-        
-        // Case-insensitive lookup for mission types
+        // Collect the fissures for every mission type this notification listens for
         let relevantFissures: ActiveMission[] = [];
-        
-        // Try direct lookup first
-        if (fissures[standardizedType]) {
-          console.log(`DIRECT MATCH: Found ${fissures[standardizedType].length} fissures with type "${standardizedType}"`);
-          relevantFissures = fissures[standardizedType];
-        } else {
-          // If not found directly, try case-insensitive search
-          const missionTypeLower = standardizedType.toLowerCase().trim();
-          
-          // Try known mission types first with exact match
-          for (const [type, missions] of Object.entries(fissures)) {
-            const typeLower = type.toLowerCase().trim();
-            
-            if (typeLower === missionTypeLower) {
-              relevantFissures = missions;
-              console.log(`EXACT MATCH: Found ${relevantFissures.length} fissures with type "${type}"`);
-              break;
-            }
-          }
-          
-          // If still not found, try special mission type handling
-          if (relevantFissures.length === 0) {
-            console.log(`Trying special mission type handling for "${missionTypeLower}"...`);
-            
-            // ENHANCED: Improved special handling for Cascade/Flood/Armageddon
-            if (missionTypeLower.includes('cascade') || missionTypeLower.includes('void cascade')) {
-              console.log(`SPECIAL DETECTION: Looking for Cascade fissures`);
-              for (const [type, missions] of Object.entries(fissures)) {
-                const typeLower = type.toLowerCase();
-                if (typeLower.includes('cascade') || typeLower === 'voidcascade') {
-                  console.log(`CASCADE MATCH: Found fissures with type "${type}"`);
-                  relevantFissures = [...relevantFissures, ...missions];
-                }
-              }
-              
-              if (relevantFissures.length > 0) {
-                console.log(`SPECIAL CASCADE: Found total of ${relevantFissures.length} Cascade fissures`);
-              }
-            } 
-            else if (missionTypeLower.includes('flood') || missionTypeLower.includes('void flood')) {
-              console.log(`SPECIAL DETECTION: Looking for Flood fissures`);
-              for (const [type, missions] of Object.entries(fissures)) {
-                const typeLower = type.toLowerCase();
-                if (typeLower.includes('flood') || typeLower === 'corruption') {
-                  console.log(`FLOOD MATCH: Found fissures with type "${type}"`);
-                  relevantFissures = [...relevantFissures, ...missions];
-                }
-              }
-              
-              if (relevantFissures.length > 0) {
-                console.log(`SPECIAL FLOOD: Found total of ${relevantFissures.length} Flood fissures`);
-              }
-            } 
-            else if (missionTypeLower.includes('armageddon') || missionTypeLower.includes('void armageddon')) {
-              console.log(`SPECIAL DETECTION: Looking for Armageddon fissures`);
-              for (const [type, missions] of Object.entries(fissures)) {
-                const typeLower = type.toLowerCase();
-                if (typeLower.includes('armageddon')) {
-                  console.log(`ARMAGEDDON MATCH: Found fissures with type "${type}"`);
-                  relevantFissures = [...relevantFissures, ...missions];
-                }
-              }
-              
-              if (relevantFissures.length > 0) {
-                console.log(`SPECIAL ARMAGEDDON: Found total of ${relevantFissures.length} Armageddon fissures`);
-              }
-            } else {
-              // Try fuzzy matching for other types
-              for (const [type, missions] of Object.entries(fissures)) {
-                const typeLower = type.toLowerCase().trim();
-                if (typeLower.includes(missionTypeLower) || missionTypeLower.includes(typeLower)) {
-                  console.log(`FUZZY MATCH: Found ${missions.length} fissures with partial match: "${type}" for "${missionType}"`);
-                  relevantFissures = [...relevantFissures, ...missions];
-                }
-              }
+        for (const type of notificationTypes) {
+          for (const mission of findFissuresForMissionType(fissures, type.toLowerCase())) {
+            if (!relevantFissures.includes(mission)) {
+              relevantFissures.push(mission);
             }
           }
         }
         
         if (relevantFissures.length === 0) {
-          console.error(`ERROR: No matching fissures found for mission type "${missionType}" (standardized: "${standardizedType}")`);
+          console.error(`ERROR: No matching fissures found for mission type "${missionType}"`);
           console.error(`Available types in current fissures: ${Object.keys(fissures).join(', ')}`);
           console.error(`SKIPPING this notification`);
           continue;
@@ -1086,6 +1156,19 @@ async function sendFissureNotifications(
           continue;
         }
         
+        // Apply the notification's filter expression
+        if (filter) {
+          const details = await getFissureDetails(relevantFissures);
+          relevantFissures = details
+            .filter(fissure => matchesFissureFilter(filter, fissure))
+            .map(fissure => fissure.mission);
+          
+          if (relevantFissures.length === 0) {
+            console.log(`SKIP: No fissures match filter ${describeFissureFilter(filter)}`);
+            continue;
+          }
+        }
+        
         // Create a more comprehensive signature for these missions, including IDs and expiry times
         const missionIds = relevantFissures.map(m => m._id.$oid).sort().join(',');
         const missionExpiryTimes = relevantFissures.map(m => getExpiryTimestamp(m)).sort().join(',');
@@ -1108,7 +1191,7 @@ async function sendFissureNotifications(
         };
         
         const missionIdentifiers = relevantFissures.map(mission => getMissionIdentifier(mission)).sort().join(',');
-        const dedupeKey = `${channelId}:${missionType}:${steelPathOnly}`;
+        const dedupeKey = `${channelId}:${missionType}:${steelPathOnly}:${describeFissureFilter(filter)}`;
         const lastNotifiedForThisConfig = recentlyNotifiedMissions.get(dedupeKey);
 
         // Compare the current missions with what we've already notified about in this session
@@ -1182,6 +1265,103 @@ async function sendFissureNotifications(
   }
 }
 
+// Find the current fissures for a configured mission type, handling the special Zariman types
+function findFissuresForMissionType(fissures: Record<string, ActiveMission[]>, missionType: string): ActiveMission[] {
+  // Standardize and normalize mission type for consistent comparison
+  const standardizedType = missionType
+    .replace(/\s+/g, ' ') // Replace multiple spaces with a single space
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+  
+  console.log(`Standardized mission type: "${standardizedType}"`);
+  console.log(`Available mission types for matching: ${Object.keys(fissures).join(', ')}`);
+  
+  // Case-insensitive lookup for mission types
+  let relevantFissures: ActiveMission[] = [];
+  
+  // Try direct lookup first
+  if (fissures[standardizedType]) {
+    console.log(`DIRECT MATCH: Found ${fissures[standardizedType].length} fissures with type "${standardizedType}"`);
+    relevantFissures = fissures[standardizedType];
+  } else {
+    // If not found directly, try case-insensitive search
+    const missionTypeLower = standardizedType.toLowerCase().trim();
+    
+    // Try known mission types first with exact match
+    for (const [type, missions] of Object.entries(fissures)) {
+      const typeLower = type.toLowerCase().trim();
+      
+      if (typeLower === missionTypeLower) {
+        relevantFissures = missions;
+        console.log(`EXACT MATCH: Found ${relevantFissures.length} fissures with type "${type}"`);
+        break;
+      }
+    }
+    
+    // If still not found, try special mission type handling
+    if (relevantFissures.length === 0) {
+      console.log(`Trying special mission type handling for "${missionTypeLower}"...`);
+      
+      // ENHANCED: Improved special handling for Cascade/Flood/Armageddon
+      if (missionTypeLower.includes('cascade') || missionTypeLower.includes('void cascade')) {
+        console.log(`SPECIAL DETECTION: Looking for Cascade fissures`);
+        for (const [type, missions] of Object.entries(fissures)) {
+          const typeLower = type.toLowerCase();
+          if (typeLower.includes('cascade') || typeLower === 'voidcascade') {
+            console.log(`CASCADE MATCH: Found fissures with type "${type}"`);
+            relevantFissures = [...relevantFissures, ...missions];
+          }
+        }
+        
+        if (relevantFissures.length > 0) {
+          console.log(`SPECIAL CASCADE: Found total of ${relevantFissures.length} Cascade fissures`);
+        }
+      } 
+      else if (missionTypeLower.includes('flood') || missionTypeLower.includes('void flood')) {
+        console.log(`SPECIAL DETECTION: Looking for Flood fissures`);
+        for (const [type, missions] of Object.entries(fissures)) {
+          const typeLower = type.toLowerCase();
+          if (typeLower.includes('flood') || typeLower === 'corruption') {
+            console.log(`FLOOD MATCH: Found fissures with type "${type}"`);
+            relevantFissures = [...relevantFissures, ...missions];
+          }
+        }
+        
+        if (relevantFissures.length > 0) {
+          console.log(`SPECIAL FLOOD: Found total of ${relevantFissures.length} Flood fissures`);
+        }
+      } 
+      else if (missionTypeLower.includes('armageddon') || missionTypeLower.includes('void armageddon')) {
+        console.log(`SPECIAL DETECTION: Looking for Armageddon fissures`);
+        for (const [type, missions] of Object.entries(fissures)) {
+          const typeLower = type.toLowerCase();
+          if (typeLower.includes('armageddon')) {
+            console.log(`ARMAGEDDON MATCH: Found fissures with type "${type}"`);
+            relevantFissures = [...relevantFissures, ...missions];
+          }
+        }
+        
+        if (relevantFissures.length > 0) {
+          console.log(`SPECIAL ARMAGEDDON: Found total of ${relevantFissures.length} Armageddon fissures`);
+        }
+      } else {
+        // Try fuzzy matching for other types
+        for (const [type, missions] of Object.entries(fissures)) {
+          const typeLower = type.toLowerCase().trim();
+          if (typeLower.includes(missionTypeLower) || missionTypeLower.includes(typeLower)) {
+            console.log(`FUZZY MATCH: Found ${missions.length} fissures with partial match: "${type}" for "${missionType}"`);
+            relevantFissures = [...relevantFissures, ...missions];
+          }
+        }
+      }
+    }
+  }
+  
+  
+  return relevantFissures;
+}
+
 // Format fissure missions for display in notifications
 function formatFissuresForDisplay(
   missions: ActiveMission[],
@@ -1223,6 +1403,45 @@ function formatFissuresForDisplay(
   });
 }
 
+// Resolve node, mission type, faction and tier names for fissure missions
+export async function getFissureDetails(missions: ActiveMission[]): Promise<FissureDetails[]> {
+  const dictionaries = await loadDictionaries();
+  if (!dictionaries) {
+    return [];
+  }
+  
+  const { regionsData, langDict } = dictionaries;
+  
+  return missions.map(mission => {
+    const nodeInfo = regionsData[mission.Node];
+    
+    let missionType = mission.MissionType;
+    if (nodeInfo?.missionName) {
+      const translatedName = langDict[nodeInfo.missionName] || nodeInfo.missionName;
+      const missionTypeParts = translatedName.split('_');
+      if (missionTypeParts.length > 0) {
+        missionType = missionTypeParts[missionTypeParts.length - 1].replace('MissionName_', '');
+      }
+    }
+    
+    // Standardize Zariman mission types the same way as the grouping
+    if (missionType === 'VoidCascade') missionType = 'Void Cascade';
+    if (missionType === 'Corruption') missionType = 'Void Flood';
+    if (missionType === 'Armageddon') missionType = 'Void Armageddon';
+    
+    return {
+      mission,
+      missionType,
+      tier: VOID_TIER_MAP[mission.Modifier] || 'Unknown',
+      steelPath: !!mission.Hard,
+      node: nodeInfo?.name ? (langDict[nodeInfo.name] || nodeInfo.name) : mission.Node,
+      system: nodeInfo?.systemName ? (langDict[nodeInfo.systemName] || nodeInfo.systemName) : 'Unknown',
+      faction: nodeInfo?.factionName ? (langDict[nodeInfo.factionName] || nodeInfo.factionName) : 'Unknown',
+      expiry: getExpiryTimestamp(mission)
+    };
+  });
+}
+
 // Helper function to get faction icons
 function getFactionIcon(factionName: string): string {
   const lowerFaction = factionName.toLowerCase();
@@ -1237,21 +1456,11 @@ function getFactionIcon(factionName: string): string {
 // Regular exports
 export async function fetchFissures(): Promise<Record<string, ActiveMission[]> | null> {
   try {
-    // Fetch current world state for fissure missions
-    const response = await axios.get<ApiResponse>('https://oracle.browse.wf/worldState.json', {
-      timeout: 10000,
-      headers: {
-        'User-Agent': 'WardenPrimeBot/1.0.0'
-      }
-    });
-
-    const { ActiveMissions } = response.data;
-    if (!ActiveMissions || ActiveMissions.length === 0) {
-      return null;
-    }
+    // Get the shared world state snapshot
+    const worldState = await getWorldState();
 
     // Filter only void fissure missions
-    const fissureMissions = ActiveMissions.filter(mission => mission.Modifier && mission.Modifier.startsWith('VoidT'));
+    const fissureMissions = getFissureMissions(worldState);
     if (fissureMissions.length === 0) {
       return null;
     }
@@ -0,0 +1,195 @@
+import { Client, DiscordAPIError, RESTJSONErrorCodes } from 'discord.js';
+import { logger } from '../utils/logger';
+import { pgdb } from './postgresDatabase';
+import { createEmbed } from '../utils/embedBuilder';
+import { FISSURE_DM_LIMITS } from '../constants/time';
+import { ActiveMission } from '../types/warframe';
+import { getWorldStateTime, worldStateEvents } from './worldStateService';
+import { FissureDetails, getFissureDetails, matchesFissureFaction } from './fissureService';
+
+// Get environment variable for logging
+const ENABLE_SERVICE_LOGS = process.env.ENABLE_FISSURE_SERVICE_LOGS === 'true';
+
+// Custom logger that respects the service logging setting
+const serviceLogger = {
+  debug: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.debug(`[FissureDM] ${message}`, ...args);
+    }
+  },
+  info: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.info(`[FissureDM] ${message}`, ...args);
+    }
+  },
+  // Always log warnings and errors
+  warn: (message: string, ...args: any[]) => {
+    logger.warn(`[FissureDM] ${message}`, ...args);
+  },
+  error: (message: string, ...args: any[]) => {
+    logger.error(`[FissureDM] ${message}`, ...args);
+  }
+};
+
+// Interfaces
+export interface FissureSubscription {
+  id: string;
+  user_id: string;
+  mission_type: string | null;
+  tier: string | null;
+  steel_path: boolean | null; // null matches both
+  node: string | null;
+  faction: string | null;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Global state
+let isServiceRunning = false;
+const recentDeliveries = new Map<string, number[]>(); // User ID -> DM send times
+
+// Initialize the fissure DM subscription service
+export function startFissureSubscriptionService(client: Client): void {
+  if (isServiceRunning) {
+    serviceLogger.debug('Fissure subscription service is already running');
+    return;
+  }
+
+  logger.info('Starting fissure DM subscription service');
+  isServiceRunning = true;
+
+  // Only newly spawned fissures are delivered, so restarts don't resend everything
+  worldStateEvents.on('fissuresChanged', added => {
+    if (added.length > 0) {
+      deliverNewFissures(client, added);
+    }
+  });
+}
+
+// Check whether a fissure matches every filter set on a subscription
+export function matchesSubscription(subscription: FissureSubscription, fissure: FissureDetails): boolean {
+  if (subscription.mission_type && subscription.mission_type.toLowerCase() !== fissure.missionType.toLowerCase()) {
+    return false;
+  }
+  if (subscription.tier && subscription.tier.toLowerCase() !== fissure.tier.toLowerCase()) {
+    return false;
+  }
+  if (subscription.steel_path !== null && subscription.steel_path !== fissure.steelPath) {
+    return false;
+  }
+  if (subscription.node && !fissure.node.toLowerCase().includes(subscription.node.toLowerCase())) {
+    return false;
+  }
+  if (subscription.faction && !matchesFissureFaction(subscription.faction, fissure.faction)) {
+    return false;
+  }
+  return true;
+}
+
+// Summarize a subscription's filters for display
+export function describeSubscription(subscription: FissureSubscription): string {
+  const parts = [
+    subscription.steel_path === true ? 'Steel Path' : subscription.steel_path === false ? 'Normal' : null,
+    subscription.tier,
+    subscription.mission_type,
+    subscription.node ? `on ${subscription.node}` : null,
+    subscription.faction ? `against ${subscription.faction}` : null
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(' ') : 'Any fissure';
+}
+
+// Record a DM for the user if they are under the rate limit
+function tryConsumeRateLimit(userId: string, now: number): boolean {
+  const deliveries = (recentDeliveries.get(userId) || [])
+    .filter(time => now - time < FISSURE_DM_LIMITS.WINDOW);
+
+  if (deliveries.length >= FISSURE_DM_LIMITS.MAX_MESSAGES) {
+    recentDeliveries.set(userId, deliveries);
+    return false;
+  }
+
+  deliveries.push(now);
+  recentDeliveries.set(userId, deliveries);
+  return true;
+}
+
+// Send each subscriber one DM listing the new fissures that match any of their subscriptions
+async function deliverNewFissures(client: Client, added: ActiveMission[]): Promise<void> {
+  try {
+    const subscriptions: FissureSubscription[] = await pgdb.getActiveFissureSubscriptions();
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const now = getWorldStateTime();
+    const fissures = (await getFissureDetails(added)).filter(fissure => fissure.expiry > now);
+    if (fissures.length === 0) {
+      return;
+    }
+
+    // Group the matching fissures by user
+    const matchesByUser = new Map<string, FissureDetails[]>();
+    for (const subscription of subscriptions) {
+      const matching = fissures.filter(fissure => matchesSubscription(subscription, fissure));
+      if (matching.length === 0) {
+        continue;
+      }
+
+      const userMatches = matchesByUser.get(subscription.user_id) || [];
+      for (const fissure of matching) {
+        if (!userMatches.includes(fissure)) {
+          userMatches.push(fissure);
+        }
+      }
+      matchesByUser.set(subscription.user_id, userMatches);
+    }
+
+    serviceLogger.info(`${fissures.length} new fissures matched subscriptions for ${matchesByUser.size} users`);
+
+    for (const [userId, matches] of matchesByUser) {
+      if (!tryConsumeRateLimit(userId, Date.now())) {
+        serviceLogger.debug(`User ${userId} hit the fissure DM rate limit, skipping ${matches.length} fissures`);
+        continue;
+      }
+
+      await sendFissureDM(client, userId, matches);
+    }
+  } catch (error) {
+    serviceLogger.error('Error delivering fissure subscriptions:', error);
+  }
+}
+
+async function sendFissureDM(client: Client, userId: string, fissures: FissureDetails[]): Promise<void> {
+  const lines = fissures.map(fissure => {
+    const expiry = Math.floor(fissure.expiry / 1000);
+    return [
+      `**${fissure.steelPath ? 'Steel Path ' : ''}${fissure.tier} ${fissure.missionType}** - ${fissure.node} (${fissure.system})`,
+      `${fissure.faction} • Expires <t:${expiry}:R>`
+    ].join('\n');
+  });
+
+  const embed = createEmbed({
+    type: 'info',
+    title: fissures.length === 1 ? 'New Void Fissure' : `${fissures.length} New Void Fissures`,
+    description: lines.join('\n\n').slice(0, 4096),
+    thumbnail: 'https://browse.wf/Lotus/Interface/icons/Store/OrokinStoreTearC.png',
+    footer: 'Manage your alerts with /fissure subscribe',
+    timestamp: true
+  });
+
+  try {
+    const user = await client.users.fetch(userId);
+    await user.send({ embeds: [embed] });
+    serviceLogger.info(`Sent ${fissures.length} fissures to user ${userId}`);
+  } catch (error) {
+    // Stop trying users who have DMs closed until they re-enable their subscriptions
+    if (error instanceof DiscordAPIError && error.code === RESTJSONErrorCodes.CannotSendMessagesToThisUser) {
+      serviceLogger.warn(`User ${userId} has DMs closed, disabling their fissure subscriptions`);
+      await pgdb.setFissureSubscriptionsEnabled(userId, false);
+      return;
+    }
+    serviceLogger.error(`Error sending fissure DM to user ${userId}:`, error);
+  }
+}
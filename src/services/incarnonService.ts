@@ -1,8 +1,8 @@
 import { Client, TextChannel, EmbedBuilder } from 'discord.js';
 import { logger } from '../utils/logger';
 import { pgdb } from './postgresDatabase';
-import axios from 'axios';
 import { createEmbed } from '../utils/embedBuilder';
+import { getWorldState, worldStateEvents } from './worldStateService';
 
 // Get environment variable for logging
 const ENABLE_SERVICE_LOGS = process.env.ENABLE_INCARNON_SERVICE_LOGS === 'true';
@@ -100,10 +100,83 @@ interface SteelPathReward {
 }
 
 interface ApiResponse {
-  EndlessXpChoices: RewardCategory[];
+  EndlessXpChoices?: RewardCategory[];
   SteelPathIncarnon?: SteelPathReward;
 }
 
+// Resolve the active Steel Path rotation, from worldstate when it has it
+function getCurrentRotation(worldState: ApiResponse): { rotation: string, weapons: string[] } {
+  // If the API provides Steel Path rotation directly
+  if (worldState?.SteelPathIncarnon) {
+    const currentRotationLetter = worldState.SteelPathIncarnon.CurrentRotation;
+    // Use the hardcoded rotation data to get all weapons for this rotation
+    const rotation = STEEL_PATH_ROTATIONS.find(r => r.rotation === currentRotationLetter);
+    if (rotation) {
+      return rotation;
+    }
+    // Fallback if rotation letter doesn't match
+    serviceLogger.warn(`Unknown Steel Path rotation: ${currentRotationLetter}`);
+    return { rotation: currentRotationLetter, weapons: [worldState.SteelPathIncarnon.Weapon] };
+  }
+  
+  // If worldstate doesn't have the data, log warning
+  serviceLogger.warn('SteelPathIncarnon not found in worldstate, using hardcoded data');
+  
+  // Fallback to date-based rotation if worldstate doesn't provide it
+  // This is a temporary measure until worldstate includes this data
+  const dateNow = new Date();
+  const hardcodedStartDate = new Date('2024-03-03T00:00:00Z');
+  const daysSinceStart = Math.floor((dateNow.getTime() - hardcodedStartDate.getTime()) / (1000 * 60 * 60 * 24));
+  const weeksSinceStart = Math.floor(daysSinceStart / 7);
+  return STEEL_PATH_ROTATIONS[weeksSinceStart % STEEL_PATH_ROTATIONS.length];
+}
+
+export interface IncarnonAvailability {
+  rotation: string;
+  genesis: string; // Base weapon the Incarnon Genesis adapter is for
+  active: boolean;
+  timestamp: number | null; // Unix time the rotation ends when active, otherwise when it starts. Null when the current rotation is unknown
+}
+
+/**
+ * Find the Steel Path circuit rotation offering an Incarnon Genesis for a weapon.
+ * Variants match their base weapon, e.g. "Braton Prime" matches "Braton" but "Boar" does not match "Bo".
+ */
+export async function getIncarnonAvailability(weaponName: string): Promise<IncarnonAvailability | null> {
+  const rotationIndex = STEEL_PATH_ROTATIONS.findIndex(r => r.weapons.some(weapon => matchesGenesis(weaponName, weapon)));
+  if (rotationIndex === -1) {
+    return null;
+  }
+  
+  const rotation = STEEL_PATH_ROTATIONS[rotationIndex];
+  const genesis = rotation.weapons.find(weapon => matchesGenesis(weaponName, weapon));
+  const current = getCurrentRotation(await getWorldState());
+  const currentIndex = STEEL_PATH_ROTATIONS.findIndex(r => r.rotation === current.rotation);
+  const nextMondayTimestamp = getNextMondayTimestamp();
+  
+  if (currentIndex === -1) {
+    return { rotation: rotation.rotation, genesis, active: false, timestamp: null };
+  }
+  
+  if (rotationIndex === currentIndex) {
+    return { rotation: rotation.rotation, genesis, active: true, timestamp: nextMondayTimestamp };
+  }
+  
+  // Weeks until the rotation comes up, the first one starts next Monday
+  const weeksAway = (rotationIndex - currentIndex + STEEL_PATH_ROTATIONS.length) % STEEL_PATH_ROTATIONS.length;
+  return {
+    rotation: rotation.rotation,
+    genesis,
+    active: false,
+    timestamp: nextMondayTimestamp + (weeksAway - 1) * 7 * 24 * 60 * 60
+  };
+}
+
+function matchesGenesis(weaponName: string, genesisWeapon: string): boolean {
+  const escaped = genesisWeapon.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[\\s-])${escaped}($|\\s)`, 'i').test(weaponName);
+}
+
 // Global state
 let isServiceRunning = false;
 let lastResetTimestamp = 0;
@@ -114,19 +187,14 @@ async function createIncarnationEmbed(): Promise<EmbedBuilder> {
   try {
     serviceLogger.info('Fetching Incarnon rotations from worldstate...');
     
-    // Get worldstate data
-    const response = await axios.get<ApiResponse>('https://oracle.browse.wf/worldState.json', {
-      timeout: 10000,
-      headers: {
-      'User-Agent': 'WardenPrimeBot/1.0.0'
-      }
-    });
+    // Get the shared world state snapshot
+    const worldState: ApiResponse = await getWorldState();
     
     // Process API data for regular incarnon rewards (frames)
     let normalRewards = 'None available';
     
-    if (response?.data?.EndlessXpChoices) {
-      const { EndlessXpChoices } = response.data;
+    if (worldState?.EndlessXpChoices) {
+      const { EndlessXpChoices } = worldState;
       for (const category of EndlessXpChoices) {
         if (category.Category === 'EXC_NORMAL') {
           normalRewards = category.Choices.join(', ');
@@ -136,36 +204,7 @@ async function createIncarnationEmbed(): Promise<EmbedBuilder> {
     }
     
     // Get Steel Path rotation from worldstate if available
-    let currentRotationLetter = 'Unknown';
-    let currentRotationWeapons: string[] = [];
-    
-    // If the API provides Steel Path rotation directly
-    if (response?.data?.SteelPathIncarnon) {
-      currentRotationLetter = response.data.SteelPathIncarnon.CurrentRotation;
-      // Use the hardcoded rotation data to get all weapons for this rotation
-      const rotationIndex = STEEL_PATH_ROTATIONS.findIndex(r => r.rotation === currentRotationLetter);
-      if (rotationIndex !== -1) {
-        currentRotationWeapons = STEEL_PATH_ROTATIONS[rotationIndex].weapons;
-      } else {
-        // Fallback if rotation letter doesn't match
-        currentRotationWeapons = [response.data.SteelPathIncarnon.Weapon];
-        serviceLogger.warn(`Unknown Steel Path rotation: ${currentRotationLetter}`);
-      }
-    } else {
-      // If worldstate doesn't have the data, log warning
-      serviceLogger.warn('SteelPathIncarnon not found in worldstate, using hardcoded data');
-      
-      // Fallback to date-based rotation if worldstate doesn't provide it
-      // This is a temporary measure until worldstate includes this data
-      const dateNow = new Date();
-      const hardcodedStartDate = new Date('2024-03-03T00:00:00Z');
-      const daysSinceStart = Math.floor((dateNow.getTime() - hardcodedStartDate.getTime()) / (1000 * 60 * 60 * 24));
-      const weeksSinceStart = Math.floor(daysSinceStart / 7);
-      const rotationIndex = weeksSinceStart % STEEL_PATH_ROTATIONS.length;
-      
-      currentRotationLetter = STEEL_PATH_ROTATIONS[rotationIndex].rotation;
-      currentRotationWeapons = STEEL_PATH_ROTATIONS[rotationIndex].weapons;
-    }
+    const { rotation: currentRotationLetter, weapons: currentRotationWeapons } = getCurrentRotation(worldState);
     
     // Format the active weapons as a comma-separated list
     const activeWeapons = currentRotationWeapons.join(', ');
@@ -256,6 +295,11 @@ export function startIncarnationService(client: Client): void {
   serviceLogger.info('Starting Incarnon rotation notification service');
   isServiceRunning = true;
   
+  // Refresh the embeds as soon as the world state shows the new rotation
+  worldStateEvents.on('incarnonRotated', () => {
+    updateAllMessages(client, false).catch(error => serviceLogger.error('Error updating Incarnon messages:', error));
+  });
+  
   // Start checking for updates
   checkAndUpdate(client);
 }
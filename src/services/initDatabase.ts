@@ -333,26 +333,6 @@ export async function initDatabase(): Promise<void> {
         logger.error('Error creating role reactions tables:', error);
       }
 
-      // Warframe catalog table
-      try {
-        await pgdb.createTableIfNotExists(
-          'warframe_catalog',
-          `
-          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-          name VARCHAR(255) NOT NULL,
-          crafting_cost INTEGER,
-          resources JSONB NOT NULL DEFAULT '{}'::JSONB,
-          updated_by VARCHAR(255),
-          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
-          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
-          `
-        );
-        await pgdb.query(`CREATE INDEX IF NOT EXISTS idx_warframe_catalog_name ON warframe_catalog(name)`);
-        logger.info('Ensured warframe_catalog exists');
-      } catch (error) {
-        logger.error('Error creating warframe_catalog table:', error);
-      }
-      
       // Create Warframe notification tables
       try {
         // Fissure notifications table
@@ -366,11 +346,15 @@ export async function initDatabase(): Promise<void> {
           steel_path BOOLEAN DEFAULT false,
           role_id VARCHAR(255),
           last_notified VARCHAR(255),
+          filters JSONB,
           created_at TIMESTAMP NOT NULL DEFAULT NOW(),
           updated_at TIMESTAMP NOT NULL DEFAULT NOW()
           `
         );
         
+        // Filter expressions were added later, make sure existing tables have the column
+        await pgdb.query('ALTER TABLE fissure_notifications ADD COLUMN IF NOT EXISTS filters JSONB');
+        
         // Aya notifications table
         await pgdb.createTableIfNotExists(
           'aya_notifications',
@@ -408,11 +392,15 @@ export async function initDatabase(): Promise<void> {
           channel_id VARCHAR(255) NOT NULL,
           role_id VARCHAR(255),
           message_id VARCHAR(255),
+          top_tiers_only BOOLEAN NOT NULL DEFAULT FALSE,
           created_at TIMESTAMP NOT NULL DEFAULT NOW(),
           updated_at TIMESTAMP NOT NULL DEFAULT NOW()
           `
         );
         
+        // The S/A tier filter was added later, make sure existing tables have the column
+        await pgdb.query('ALTER TABLE arbitration_notifications ADD COLUMN IF NOT EXISTS top_tiers_only BOOLEAN NOT NULL DEFAULT FALSE');
+        
         // Incarnon notifications table
         await pgdb.createTableIfNotExists(
           'incarnon_notifications',
@@ -427,6 +415,294 @@ export async function initDatabase(): Promise<void> {
           `
         );
         
+        // Sortie notifications table
+        await pgdb.createTableIfNotExists(
+          'sortie_notifications',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          guild_id VARCHAR(255) NOT NULL,
+          channel_id VARCHAR(255) NOT NULL,
+          role_id VARCHAR(255),
+          message_id VARCHAR(255),
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+          `
+        );
+        
+        // Archon Hunt notifications table
+        await pgdb.createTableIfNotExists(
+          'archon_notifications',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          guild_id VARCHAR(255) NOT NULL,
+          channel_id VARCHAR(255) NOT NULL,
+          role_id VARCHAR(255),
+          message_id VARCHAR(255),
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+          `
+        );
+        
+        // Nightwave notifications table
+        await pgdb.createTableIfNotExists(
+          'nightwave_notifications',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          guild_id VARCHAR(255) NOT NULL,
+          channel_id VARCHAR(255) NOT NULL,
+          message_id VARCHAR(255),
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+          `
+        );
+        
+        // Cycle notifications table
+        await pgdb.createTableIfNotExists(
+          'cycle_notifications',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          guild_id VARCHAR(255) NOT NULL,
+          channel_id VARCHAR(255) NOT NULL,
+          message_id VARCHAR(255),
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+          `
+        );
+        
+        // Cycle alerts table
+        await pgdb.createTableIfNotExists(
+          'cycle_alerts',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          guild_id VARCHAR(255) NOT NULL,
+          channel_id VARCHAR(255) NOT NULL,
+          role_id VARCHAR(255) NOT NULL,
+          cycle VARCHAR(20) NOT NULL,
+          state VARCHAR(20) NOT NULL,
+          minutes_before INTEGER NOT NULL DEFAULT 5,
+          last_transition BIGINT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+          `
+        );
+        
+        // Fissure subscriptions table
+        await pgdb.createTableIfNotExists(
+          'fissure_subscriptions',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          user_id VARCHAR(255) NOT NULL,
+          mission_type VARCHAR(100),
+          tier VARCHAR(20),
+          steel_path BOOLEAN,
+          node VARCHAR(255),
+          faction VARCHAR(100),
+          enabled BOOLEAN NOT NULL DEFAULT TRUE,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+          `
+        );
+        
+        // Baro visits table
+        await pgdb.createTableIfNotExists(
+          'baro_visits',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          trader_id VARCHAR(255) NOT NULL UNIQUE,
+          node VARCHAR(255) NOT NULL,
+          relay VARCHAR(255) NOT NULL,
+          planet VARCHAR(255) NOT NULL,
+          arrival TIMESTAMP NOT NULL,
+          departure TIMESTAMP NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+          `
+        );
+        
+        // Baro visit items table
+        await pgdb.createTableIfNotExists(
+          'baro_visit_items',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          visit_id UUID NOT NULL REFERENCES baro_visits(id) ON DELETE CASCADE,
+          item_name VARCHAR(255) NOT NULL,
+          item_type VARCHAR(255) NOT NULL,
+          ducats INTEGER NOT NULL DEFAULT 0,
+          credits INTEGER NOT NULL DEFAULT 0,
+          UNIQUE(visit_id, item_name)
+          `
+        );
+        
+        // Baro wishlists table
+        await pgdb.createTableIfNotExists(
+          'baro_wishlists',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          user_id VARCHAR(255) NOT NULL,
+          item_name VARCHAR(255) NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          UNIQUE(user_id, item_name)
+          `
+        );
+        
+        // Teshin notifications table
+        await pgdb.createTableIfNotExists(
+          'teshin_notifications',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          guild_id VARCHAR(255) NOT NULL,
+          channel_id VARCHAR(255) NOT NULL,
+          role_id VARCHAR(255),
+          message_id VARCHAR(255),
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+          `
+        );
+        
+        // Invasion alerts table
+        await pgdb.createTableIfNotExists(
+          'invasion_alerts',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          guild_id VARCHAR(255) NOT NULL,
+          channel_id VARCHAR(255) NOT NULL,
+          role_id VARCHAR(255),
+          reward VARCHAR(255) NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+          `
+        );
+        
+        // Riven market settings table
+        await pgdb.createTableIfNotExists(
+          'riven_market_settings',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          guild_id VARCHAR(255) NOT NULL UNIQUE,
+          channel_id VARCHAR(255) NOT NULL,
+          listing_days INTEGER NOT NULL DEFAULT 7,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+          `
+        );
+        
+        // Riven listings table
+        await pgdb.createTableIfNotExists(
+          'riven_listings',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          guild_id VARCHAR(255) NOT NULL,
+          seller_id VARCHAR(255) NOT NULL,
+          channel_id VARCHAR(255) NOT NULL,
+          thread_id VARCHAR(255),
+          message_id VARCHAR(255),
+          weapon VARCHAR(255) NOT NULL,
+          riven_type VARCHAR(100) NOT NULL,
+          rank INTEGER NOT NULL,
+          buffs INTEGER NOT NULL,
+          curses INTEGER NOT NULL,
+          stats JSONB NOT NULL DEFAULT '[]',
+          overall_grade VARCHAR(10) NOT NULL,
+          overall_quality REAL NOT NULL DEFAULT 0,
+          price INTEGER NOT NULL,
+          notes TEXT,
+          status VARCHAR(20) NOT NULL DEFAULT 'active',
+          expires_at TIMESTAMP NOT NULL,
+          bumped_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+          `
+        );
+        
+        // Riven sessions table
+        await pgdb.createTableIfNotExists(
+          'riven_sessions',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          user_id VARCHAR(255) NOT NULL,
+          weapon VARCHAR(255) NOT NULL,
+          riven_type VARCHAR(100) NOT NULL,
+          mastery_rank INTEGER NOT NULL,
+          polarity VARCHAR(20) NOT NULL,
+          label VARCHAR(100),
+          targets JSONB NOT NULL DEFAULT '[]',
+          status VARCHAR(20) NOT NULL DEFAULT 'active',
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          UNIQUE(user_id, weapon, mastery_rank, polarity)
+          `
+        );
+        
+        // Riven rolls table
+        await pgdb.createTableIfNotExists(
+          'riven_rolls',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          session_id UUID NOT NULL REFERENCES riven_sessions(id) ON DELETE CASCADE,
+          roll_number INTEGER NOT NULL,
+          rank INTEGER NOT NULL,
+          buffs INTEGER NOT NULL,
+          curses INTEGER NOT NULL,
+          stats JSONB NOT NULL DEFAULT '[]',
+          overall_grade VARCHAR(10) NOT NULL,
+          overall_quality REAL NOT NULL DEFAULT 0,
+          source VARCHAR(20) NOT NULL DEFAULT 'manual',
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          UNIQUE(session_id, roll_number)
+          `
+        );
+        
+        // Disposition snapshots table
+        await pgdb.createTableIfNotExists(
+          'disposition_snapshots',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          dispositions JSONB NOT NULL DEFAULT '{}',
+          weapon_count INTEGER NOT NULL DEFAULT 0,
+          changed_count INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+          `
+        );
+        
+        // Disposition changes table
+        await pgdb.createTableIfNotExists(
+          'disposition_changes',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          snapshot_id UUID NOT NULL REFERENCES disposition_snapshots(id) ON DELETE CASCADE,
+          internal_path VARCHAR(255) NOT NULL,
+          weapon VARCHAR(255) NOT NULL,
+          old_disposition REAL,
+          new_disposition REAL NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+          `
+        );
+        
+        // Disposition notifications table
+        await pgdb.createTableIfNotExists(
+          'disposition_notifications',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          guild_id VARCHAR(255) NOT NULL UNIQUE,
+          channel_id VARCHAR(255) NOT NULL,
+          role_id VARCHAR(255),
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+          `
+        );
+        
+        // Autocomplete usage table
+        await pgdb.createTableIfNotExists(
+          'autocomplete_usage',
+          `
+          id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+          source VARCHAR(50) NOT NULL,
+          value VARCHAR(255) NOT NULL,
+          uses INTEGER NOT NULL DEFAULT 0,
+          last_used_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          UNIQUE(source, value)
+          `
+        );
+        
         logger.info('Warframe notification tables initialized');
       } catch (error) {
         logger.error('Error creating Warframe notification tables:', error);
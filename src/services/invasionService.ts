@@ -0,0 +1,258 @@
+import { Client, TextChannel, EmbedBuilder } from 'discord.js';
+import { logger } from '../utils/logger';
+import { pgdb } from './postgresDatabase';
+import { createEmbed } from '../utils/embedBuilder';
+import { getDictionary, initializeDictionaries } from '../utils/dictionaryLoader';
+import { Invasion, InvasionReward, WarframeWorldState, parseWorldStateDate } from '../types/warframe';
+import { getWorldState, worldStateEvents } from './worldStateService';
+import { resolveRewardName } from './relicService';
+import { resolveNode } from './sortieService';
+
+// Get environment variable for logging
+const ENABLE_SERVICE_LOGS = process.env.ENABLE_INVASION_SERVICE_LOGS === 'true';
+
+// Custom logger that respects the service logging setting
+const serviceLogger = {
+  debug: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.debug(`[Invasion] ${message}`, ...args);
+    }
+  },
+  info: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.info(`[Invasion] ${message}`, ...args);
+    }
+  },
+  // Always log warnings and errors
+  warn: (message: string, ...args: any[]) => {
+    logger.warn(`[Invasion] ${message}`, ...args);
+  },
+  error: (message: string, ...args: any[]) => {
+    logger.error(`[Invasion] ${message}`, ...args);
+  }
+};
+
+const FACTION_NAMES: Record<string, string> = {
+  FC_GRINEER: 'Grineer',
+  FC_CORPUS: 'Corpus',
+  FC_INFESTATION: 'Infested',
+  FC_OROKIN: 'Orokin',
+  FC_SENTIENT: 'Sentient',
+  FC_MITW: 'The Murmur'
+};
+
+// Rewards worth watching for, offered as suggestions when adding an alert
+export const NOTABLE_INVASION_REWARDS = [
+  'Orokin Catalyst Blueprint',
+  'Orokin Reactor Blueprint',
+  'Forma Blueprint',
+  'Exilus Adapter Blueprint',
+  'Wraith',
+  'Vandal',
+  'Mutagen Mass',
+  'Fieldron',
+  'Detonite Injector',
+  'Mutalist Alad V Nav Coordinate'
+];
+
+// Length of the progress bar in the embeds
+const PROGRESS_BAR_LENGTH = 12;
+
+// Interfaces
+export interface InvasionItem {
+  item: string;
+  count: number;
+}
+
+export interface InvasionSide {
+  faction: string;
+  rewards: InvasionItem[];
+}
+
+export interface InvasionDetails {
+  id: string;
+  location: string;
+  description: string;
+  attacker: InvasionSide;
+  defender: InvasionSide;
+  // Attacker progress as a percentage, the defender has the rest
+  completion: number;
+  vsInfestation: boolean;
+  activation: number;
+}
+
+// Global state
+let isServiceRunning = false;
+
+function getFactionName(faction: string): string {
+  return FACTION_NAMES[faction] || faction.replace(/^FC_/, '').toLowerCase().replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+function resolveRewards(reward: InvasionReward | InvasionReward[], recipes: Record<string, any>): InvasionItem[] {
+  // Sides without a reward are sent as an empty array
+  if (Array.isArray(reward) || !reward) {
+    return [];
+  }
+
+  const items = (reward.countedItems || []).map(item => ({
+    item: resolveRewardName(item.ItemType, recipes),
+    count: item.ItemCount || 1
+  }));
+
+  if (reward.credits) {
+    items.push({ item: 'Credits', count: reward.credits });
+  }
+
+  return items;
+}
+
+/**
+ * Resolve the active invasions in a world state snapshot
+ */
+export function getInvasionDetails(invasions: Invasion[]): InvasionDetails[] {
+  const recipes = getDictionary('ExportRecipes.json') || {};
+
+  return invasions
+    .filter(invasion => !invasion.Completed)
+    .map(invasion => {
+      const vsInfestation = invasion.Faction === 'FC_INFESTATION';
+      // Count runs from -Goal to Goal, or from -Goal to 0 against the Infested
+      const completion = (1 + invasion.Count / invasion.Goal) * (vsInfestation ? 100 : 50);
+      const { location } = resolveNode(invasion.Node);
+
+      return {
+        id: invasion._id.$oid,
+        location,
+        description: `${getFactionName(invasion.Faction)} vs ${getFactionName(invasion.DefenderFaction)}`,
+        attacker: {
+          faction: getFactionName(invasion.Faction),
+          rewards: resolveRewards(invasion.AttackerReward, recipes)
+        },
+        defender: {
+          faction: getFactionName(invasion.DefenderFaction),
+          rewards: resolveRewards(invasion.DefenderReward, recipes)
+        },
+        completion: Math.min(100, Math.max(0, completion)),
+        vsInfestation,
+        activation: Math.floor(parseWorldStateDate(invasion.Activation) / 1000)
+      };
+    });
+}
+
+/**
+ * Fetch and resolve the active invasions
+ */
+export async function fetchInvasions(): Promise<InvasionDetails[]> {
+  await initializeDictionaries();
+  const worldState: WarframeWorldState = await getWorldState();
+  return getInvasionDetails(worldState.Invasions || []);
+}
+
+export function formatInvasionRewards(side: InvasionSide): string {
+  return side.rewards.length > 0
+    ? side.rewards.map(reward => `${reward.count > 1 ? `${reward.count.toLocaleString()}x ` : ''}${reward.item}`).join(', ')
+    : 'No reward';
+}
+
+// e.g. "Grineer ▰▰▰▰▰▰▱▱▱▱▱▱ Corpus (52.3%)"
+export function formatInvasionProgress(invasion: InvasionDetails): string {
+  const filled = Math.round(invasion.completion / 100 * PROGRESS_BAR_LENGTH);
+  const bar = '▰'.repeat(filled) + '▱'.repeat(PROGRESS_BAR_LENGTH - filled);
+  return `${invasion.attacker.faction} ${bar} ${invasion.defender.faction} (${invasion.completion.toFixed(1)}%)`;
+}
+
+/**
+ * Reward names of an invasion that contain the alert text
+ */
+export function getMatchingRewards(invasion: InvasionDetails, reward: string): string[] {
+  const needle = reward.toLowerCase();
+  return [...invasion.attacker.rewards, ...invasion.defender.rewards]
+    .map(item => item.item)
+    .filter(item => item.toLowerCase().includes(needle));
+}
+
+// Create the embed announcing a new invasion
+export function createInvasionEmbed(invasion: InvasionDetails): EmbedBuilder {
+  return createEmbed({
+    type: 'info',
+    title: `Invasion - ${invasion.location}`,
+    description: `${invasion.description}\n${formatInvasionProgress(invasion)}`,
+    fields: [
+      { name: `${invasion.attacker.faction} (Attacker)`, value: formatInvasionRewards(invasion.attacker), inline: true },
+      { name: `${invasion.defender.faction} (Defender)`, value: formatInvasionRewards(invasion.defender), inline: true }
+    ],
+    timestamp: true
+  });
+}
+
+// Initialize the invasion service
+export function startInvasionService(client: Client): void {
+  if (isServiceRunning) {
+    serviceLogger.debug('Invasion service is already running');
+    return;
+  }
+
+  serviceLogger.info('Starting invasion alert service');
+  isServiceRunning = true;
+
+  // New invasions are detected by the shared world state poller
+  worldStateEvents.on('invasionsAdded', added => {
+    notifyAlerts(client, added).catch(error => serviceLogger.error('Error sending invasion alerts:', error));
+  });
+}
+
+// Ping the guilds whose alerts match a reward of a new invasion
+async function notifyAlerts(client: Client, added: Invasion[]): Promise<void> {
+  const alerts = await pgdb.getInvasionAlerts();
+  if (alerts.length === 0) {
+    return;
+  }
+
+  await initializeDictionaries();
+  const invasions = getInvasionDetails(added);
+
+  for (const invasion of invasions) {
+    // Group the matching alerts so each channel gets a single message
+    const byChannel = new Map<string, { guildId: string; roles: Set<string>; rewards: Set<string> }>();
+
+    for (const alert of alerts) {
+      const matches = getMatchingRewards(invasion, alert.reward);
+      if (matches.length === 0) {
+        continue;
+      }
+
+      const entry = byChannel.get(alert.channel_id) || { guildId: alert.guild_id, roles: new Set<string>(), rewards: new Set<string>() };
+      if (alert.role_id) {
+        entry.roles.add(alert.role_id);
+      }
+      matches.forEach(match => entry.rewards.add(match));
+      byChannel.set(alert.channel_id, entry);
+    }
+
+    for (const [channelId, entry] of byChannel) {
+      try {
+        const guild = client.guilds.cache.get(entry.guildId);
+        if (!guild) {
+          serviceLogger.warn(`Guild ${entry.guildId} not found, skipping invasion alert`);
+          continue;
+        }
+
+        const channel = await guild.channels.fetch(channelId).catch((): null => null);
+        if (!channel || !(channel instanceof TextChannel)) {
+          serviceLogger.warn(`Channel ${channelId} in guild ${entry.guildId} not found or not a text channel`);
+          continue;
+        }
+
+        const mentions = [...entry.roles].map(roleId => `<@&${roleId}>`).join(' ');
+        await channel.send({
+          content: `${mentions ? `${mentions} ` : ''}New invasion with ${[...entry.rewards].join(', ')}!`,
+          embeds: [createInvasionEmbed(invasion)]
+        });
+
+        serviceLogger.info(`Sent invasion alert for ${invasion.id} to channel ${channel.name} (${channel.id})`);
+      } catch (channelError) {
+        serviceLogger.error(`Error sending invasion alert to channel ${channelId}:`, channelError);
+      }
+    }
+  }
+}
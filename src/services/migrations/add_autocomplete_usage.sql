@@ -0,0 +1,13 @@
+-- Migration to add autocomplete usage counts
+-- Counts how often each weapon, node, relic or item was picked so autocomplete can rank popular choices first
+CREATE TABLE IF NOT EXISTS autocomplete_usage (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  source VARCHAR(50) NOT NULL,
+  value VARCHAR(255) NOT NULL,
+  uses INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE(source, value)
+);
+
+-- Create index for loading the counts of a source
+CREATE INDEX IF NOT EXISTS idx_autocomplete_usage_source ON autocomplete_usage(source);
@@ -0,0 +1,39 @@
+-- Migration to keep Baro Ki'Teer visit history and per-user wishlists
+-- One row per visit, keyed by the trader ID and arrival time
+CREATE TABLE IF NOT EXISTS baro_visits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  trader_id VARCHAR(255) NOT NULL UNIQUE,
+  node VARCHAR(255) NOT NULL,
+  relay VARCHAR(255) NOT NULL,
+  planet VARCHAR(255) NOT NULL,
+  arrival TIMESTAMP NOT NULL,
+  departure TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Inventory offered during each visit
+CREATE TABLE IF NOT EXISTS baro_visit_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  visit_id UUID NOT NULL REFERENCES baro_visits(id) ON DELETE CASCADE,
+  item_name VARCHAR(255) NOT NULL,
+  item_type VARCHAR(255) NOT NULL,
+  ducats INTEGER NOT NULL DEFAULT 0,
+  credits INTEGER NOT NULL DEFAULT 0,
+  UNIQUE(visit_id, item_name)
+);
+
+-- Items users want a DM about when Baro brings them
+CREATE TABLE IF NOT EXISTS baro_wishlists (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id VARCHAR(255) NOT NULL,
+  item_name VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE(user_id, item_name)
+);
+
+-- Create indexes for history and wishlist lookups
+CREATE INDEX IF NOT EXISTS idx_baro_visits_arrival ON baro_visits(arrival);
+CREATE INDEX IF NOT EXISTS idx_baro_visit_items_visit_id ON baro_visit_items(visit_id);
+CREATE INDEX IF NOT EXISTS idx_baro_visit_items_item_name ON baro_visit_items(item_name);
+CREATE INDEX IF NOT EXISTS idx_baro_wishlists_user_id ON baro_wishlists(user_id);
+CREATE INDEX IF NOT EXISTS idx_baro_wishlists_item_name ON baro_wishlists(item_name);
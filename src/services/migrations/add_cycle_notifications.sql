@@ -0,0 +1,27 @@
+-- Migration to add open world cycle notification and alert tables
+CREATE TABLE IF NOT EXISTS cycle_notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  guild_id VARCHAR(255) NOT NULL,
+  channel_id VARCHAR(255) NOT NULL,
+  message_id VARCHAR(255),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Alerts ping a role a number of minutes before a cycle enters a state
+CREATE TABLE IF NOT EXISTS cycle_alerts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  guild_id VARCHAR(255) NOT NULL,
+  channel_id VARCHAR(255) NOT NULL,
+  role_id VARCHAR(255) NOT NULL,
+  cycle VARCHAR(20) NOT NULL,
+  state VARCHAR(20) NOT NULL,
+  minutes_before INTEGER NOT NULL DEFAULT 5,
+  last_transition BIGINT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for faster guild lookups
+CREATE INDEX IF NOT EXISTS idx_cycle_notifications_guild_id ON cycle_notifications(guild_id);
+CREATE INDEX IF NOT EXISTS idx_cycle_alerts_guild_id ON cycle_alerts(guild_id);
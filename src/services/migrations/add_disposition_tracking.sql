@@ -0,0 +1,34 @@
+-- Migration to add riven disposition tracking
+-- Each dictionary update stores a snapshot of every weapon's disposition and the changes since the previous snapshot
+CREATE TABLE IF NOT EXISTS disposition_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  dispositions JSONB NOT NULL DEFAULT '{}',
+  weapon_count INTEGER NOT NULL DEFAULT 0,
+  changed_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS disposition_changes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  snapshot_id UUID NOT NULL REFERENCES disposition_snapshots(id) ON DELETE CASCADE,
+  internal_path VARCHAR(255) NOT NULL,
+  weapon VARCHAR(255) NOT NULL,
+  old_disposition REAL,
+  new_disposition REAL NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Guilds that opted in to the disposition changes digest
+CREATE TABLE IF NOT EXISTS disposition_notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  guild_id VARCHAR(255) NOT NULL UNIQUE,
+  channel_id VARCHAR(255) NOT NULL,
+  role_id VARCHAR(255),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for the latest snapshot and per weapon history lookups
+CREATE INDEX IF NOT EXISTS idx_disposition_snapshots_created_at ON disposition_snapshots(created_at);
+CREATE INDEX IF NOT EXISTS idx_disposition_changes_internal_path ON disposition_changes(internal_path);
+CREATE INDEX IF NOT EXISTS idx_disposition_changes_snapshot_id ON disposition_changes(snapshot_id);
@@ -0,0 +1,3 @@
+-- Add JSON filter expressions to fissure_notifications
+-- e.g. {"tiers": ["Axi", "Omnia"], "factions": ["Corpus"], "missionTypes": ["Survival", "Defense"], "minMinutesRemaining": 20}
+ALTER TABLE fissure_notifications ADD COLUMN IF NOT EXISTS filters JSONB;
@@ -0,0 +1,17 @@
+-- Migration to add per-user fissure DM subscriptions
+-- Null filter columns match any value
+CREATE TABLE IF NOT EXISTS fissure_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id VARCHAR(255) NOT NULL,
+  mission_type VARCHAR(100),
+  tier VARCHAR(20),
+  steel_path BOOLEAN,
+  node VARCHAR(255),
+  faction VARCHAR(100),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create index for faster user lookups
+CREATE INDEX IF NOT EXISTS idx_fissure_subscriptions_user_id ON fissure_subscriptions(user_id);
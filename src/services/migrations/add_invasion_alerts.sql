@@ -0,0 +1,14 @@
+-- Migration to add invasion reward alerts
+-- Each alert pings a role when a new invasion offers a reward containing the configured text
+CREATE TABLE IF NOT EXISTS invasion_alerts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  guild_id VARCHAR(255) NOT NULL,
+  channel_id VARCHAR(255) NOT NULL,
+  role_id VARCHAR(255),
+  reward VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create index for faster guild lookups
+CREATE INDEX IF NOT EXISTS idx_invasion_alerts_guild_id ON invasion_alerts(guild_id);
@@ -0,0 +1,12 @@
+-- Migration to add Nightwave notification table
+CREATE TABLE IF NOT EXISTS nightwave_notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  guild_id VARCHAR(255) NOT NULL,
+  channel_id VARCHAR(255) NOT NULL,
+  message_id VARCHAR(255),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create index for faster guild lookups
+CREATE INDEX IF NOT EXISTS idx_nightwave_notifications_guild_id ON nightwave_notifications(guild_id);
@@ -0,0 +1,38 @@
+-- Migration to add the guild riven market
+-- Guilds pick a forum or text channel for listings, each listing keeps the graded stats it was posted with
+CREATE TABLE IF NOT EXISTS riven_market_settings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  guild_id VARCHAR(255) NOT NULL UNIQUE,
+  channel_id VARCHAR(255) NOT NULL,
+  listing_days INTEGER NOT NULL DEFAULT 7,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS riven_listings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  guild_id VARCHAR(255) NOT NULL,
+  seller_id VARCHAR(255) NOT NULL,
+  channel_id VARCHAR(255) NOT NULL,
+  thread_id VARCHAR(255),
+  message_id VARCHAR(255),
+  weapon VARCHAR(255) NOT NULL,
+  riven_type VARCHAR(100) NOT NULL,
+  rank INTEGER NOT NULL,
+  buffs INTEGER NOT NULL,
+  curses INTEGER NOT NULL,
+  stats JSONB NOT NULL DEFAULT '[]',
+  overall_grade VARCHAR(10) NOT NULL,
+  overall_quality REAL NOT NULL DEFAULT 0,
+  price INTEGER NOT NULL,
+  notes TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'active',
+  expires_at TIMESTAMP NOT NULL,
+  bumped_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for guild lookups and the expiry sweep
+CREATE INDEX IF NOT EXISTS idx_riven_listings_guild_id ON riven_listings(guild_id);
+CREATE INDEX IF NOT EXISTS idx_riven_listings_status_expires_at ON riven_listings(status, expires_at);
@@ -0,0 +1,35 @@
+-- Migration to add riven reroll sessions
+-- A session tracks one riven per user, identified by weapon, mastery rank and polarity which stay the same across rerolls
+CREATE TABLE IF NOT EXISTS riven_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id VARCHAR(255) NOT NULL,
+  weapon VARCHAR(255) NOT NULL,
+  riven_type VARCHAR(100) NOT NULL,
+  mastery_rank INTEGER NOT NULL,
+  polarity VARCHAR(20) NOT NULL,
+  label VARCHAR(100),
+  targets JSONB NOT NULL DEFAULT '[]',
+  status VARCHAR(20) NOT NULL DEFAULT 'active',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE(user_id, weapon, mastery_rank, polarity)
+);
+
+CREATE TABLE IF NOT EXISTS riven_rolls (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES riven_sessions(id) ON DELETE CASCADE,
+  roll_number INTEGER NOT NULL,
+  rank INTEGER NOT NULL,
+  buffs INTEGER NOT NULL,
+  curses INTEGER NOT NULL,
+  stats JSONB NOT NULL DEFAULT '[]',
+  overall_grade VARCHAR(10) NOT NULL,
+  overall_quality REAL NOT NULL DEFAULT 0,
+  source VARCHAR(20) NOT NULL DEFAULT 'manual',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE(session_id, roll_number)
+);
+
+-- Create indexes for looking up a user's sessions and a session's rolls
+CREATE INDEX IF NOT EXISTS idx_riven_sessions_user_id ON riven_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_riven_rolls_session_id ON riven_rolls(session_id);
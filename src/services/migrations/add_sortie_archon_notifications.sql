@@ -0,0 +1,24 @@
+-- Migration to add Sortie and Archon Hunt notification tables
+CREATE TABLE IF NOT EXISTS sortie_notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  guild_id VARCHAR(255) NOT NULL,
+  channel_id VARCHAR(255) NOT NULL,
+  role_id VARCHAR(255),
+  message_id VARCHAR(255),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS archon_notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  guild_id VARCHAR(255) NOT NULL,
+  channel_id VARCHAR(255) NOT NULL,
+  role_id VARCHAR(255),
+  message_id VARCHAR(255),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for faster guild lookups
+CREATE INDEX IF NOT EXISTS idx_sortie_notifications_guild_id ON sortie_notifications(guild_id);
+CREATE INDEX IF NOT EXISTS idx_archon_notifications_guild_id ON archon_notifications(guild_id);
@@ -0,0 +1,13 @@
+-- Migration to add the Teshin Steel Path Honors notification table
+CREATE TABLE IF NOT EXISTS teshin_notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  guild_id VARCHAR(255) NOT NULL,
+  channel_id VARCHAR(255) NOT NULL,
+  role_id VARCHAR(255),
+  message_id VARCHAR(255),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create index for faster guild lookups
+CREATE INDEX IF NOT EXISTS idx_teshin_notifications_guild_id ON teshin_notifications(guild_id);
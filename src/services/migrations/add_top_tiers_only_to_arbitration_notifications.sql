@@ -0,0 +1,2 @@
+-- Let guilds limit arbitration notifications to S and A tier nodes
+ALTER TABLE arbitration_notifications ADD COLUMN IF NOT EXISTS top_tiers_only BOOLEAN NOT NULL DEFAULT FALSE;
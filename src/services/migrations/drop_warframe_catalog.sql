@@ -0,0 +1,4 @@
+-- Migration to drop the hand-edited warframe catalog
+-- Crafting costs and resources are now generated from ExportRecipes.json (see /craft and the dashboard Crafting page)
+DROP INDEX IF EXISTS idx_warframe_catalog_name;
+DROP TABLE IF EXISTS warframe_catalog;
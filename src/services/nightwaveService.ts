@@ -0,0 +1,275 @@
+import { Client, TextChannel, EmbedBuilder } from 'discord.js';
+import { logger } from '../utils/logger';
+import { pgdb } from './postgresDatabase';
+import { createEmbed } from '../utils/embedBuilder';
+import { getDictionary, getLocalizedName } from '../utils/dictionaryLoader';
+import { getWorldState, getWorldStateTime, worldStateEvents } from './worldStateService';
+import { SeasonChallenge, SeasonInfo, WarframeWorldState, parseWorldStateDate } from '../types/warframe';
+
+// Get environment variable for logging
+const ENABLE_SERVICE_LOGS = process.env.ENABLE_NIGHTWAVE_SERVICE_LOGS === 'true';
+
+// Custom logger that respects the service logging setting
+const serviceLogger = {
+  debug: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.debug(`[Nightwave] ${message}`, ...args);
+    }
+  },
+  info: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.info(`[Nightwave] ${message}`, ...args);
+    }
+  },
+  // Always log warnings and errors
+  warn: (message: string, ...args: any[]) => {
+    logger.warn(`[Nightwave] ${message}`, ...args);
+  },
+  error: (message: string, ...args: any[]) => {
+    logger.error(`[Nightwave] ${message}`, ...args);
+  }
+};
+
+export type NightwaveActType = 'daily' | 'weekly' | 'elite';
+
+export interface NightwaveAct {
+  id: string;
+  type: NightwaveActType;
+  name: string;
+  description: string;
+  standing: number;
+  expiry: number; // Unix seconds
+}
+
+export interface NightwaveData {
+  season: number;
+  phase: number;
+  expiry: number; // Unix seconds
+  acts: NightwaveAct[];
+}
+
+// Interfaces
+interface NightwaveNotification {
+  id: string;
+  guild_id: string;
+  channel_id: string;
+  message_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ChallengeInfo {
+  name: string;
+  description: string;
+  standing?: number;
+  required?: number;
+  requiredCount?: number;
+}
+
+// Standing awarded when the export doesn't list it
+const DEFAULT_STANDING: Record<NightwaveActType, number> = {
+  daily: 1000,
+  weekly: 4500,
+  elite: 7000
+};
+
+const ACT_SECTIONS: Array<{ type: NightwaveActType; title: string }> = [
+  { type: 'daily', title: 'Daily Acts' },
+  { type: 'weekly', title: 'Weekly Acts' },
+  { type: 'elite', title: 'Elite Weekly Acts' }
+];
+
+// Global state
+let isServiceRunning = false;
+let newActIds = new Set<string>(); // Acts added by the most recent rotation
+
+// Determine the act type from the challenge path
+function getActType(challenge: SeasonChallenge): NightwaveActType {
+  if (challenge.Daily || challenge.Challenge.includes('/Daily/')) {
+    return 'daily';
+  }
+  return challenge.Challenge.includes('/WeeklyHard/') ? 'elite' : 'weekly';
+}
+
+// Look a challenge up in ExportNightwave, falling back to ExportChallenges
+function getChallengeInfo(challengePath: string): ChallengeInfo | null {
+  const nightwave = getDictionary('ExportNightwave.json');
+  const fromNightwave = nightwave?.challenges?.[challengePath];
+  if (fromNightwave) {
+    return fromNightwave;
+  }
+
+  const challenges = getDictionary('ExportChallenges.json');
+  return challenges?.[challengePath] || null;
+}
+
+// Convert a world state challenge into a display act
+function toAct(challenge: SeasonChallenge): NightwaveAct {
+  const type = getActType(challenge);
+  const info = getChallengeInfo(challenge.Challenge);
+  const fallbackName = challenge.Challenge.split('/').pop() || 'Unknown Act';
+  const required = info?.required ?? info?.requiredCount;
+
+  const description = info?.description
+    ? getLocalizedName(info.description, '').replace(/\|COUNT\|/g, required !== undefined ? String(required) : 'X')
+    : '';
+
+  return {
+    id: challenge._id.$oid,
+    type,
+    name: info?.name ? getLocalizedName(info.name, fallbackName) : fallbackName,
+    description,
+    standing: info?.standing ?? DEFAULT_STANDING[type],
+    expiry: Math.floor(parseWorldStateDate(challenge.Expiry) / 1000)
+  };
+}
+
+/**
+ * Get the current Nightwave season and its active acts from a world state snapshot
+ */
+export function getNightwaveData(worldState: WarframeWorldState): NightwaveData | null {
+  const season: SeasonInfo | undefined = worldState.SeasonInfo;
+  if (!season?.ActiveChallenges) {
+    return null;
+  }
+
+  // Skip acts that expired but are still listed
+  const now = getWorldStateTime();
+  const acts = season.ActiveChallenges
+    .filter(challenge => parseWorldStateDate(challenge.Expiry) > now)
+    .map(toAct);
+
+  return {
+    season: season.Season,
+    phase: season.Phase,
+    expiry: Math.floor(parseWorldStateDate(season.Expiry) / 1000),
+    acts
+  };
+}
+
+// Fetch the current Nightwave data
+export async function fetchNightwaveData(): Promise<NightwaveData | null> {
+  const worldState = await getWorldState();
+  return getNightwaveData(worldState);
+}
+
+/**
+ * Create the Nightwave embed, marking acts from the latest rotation as new
+ */
+export function createNightwaveEmbed(data: NightwaveData, highlightIds: Set<string> = newActIds): EmbedBuilder {
+  const fields = ACT_SECTIONS.map(section => {
+    const acts = data.acts.filter(act => act.type === section.type);
+    const totalStanding = acts.reduce((sum, act) => sum + act.standing, 0);
+    const earliestExpiry = acts.length > 0 ? Math.min(...acts.map(act => act.expiry)) : 0;
+
+    const lines = acts.map(act => {
+      const marker = highlightIds.has(act.id) ? '🆕 ' : '';
+      return `${marker}**${act.name}** (${act.standing.toLocaleString()})\n${act.description}`;
+    });
+
+    return {
+      name: acts.length > 0
+        ? `${section.title} - ${totalStanding.toLocaleString()} standing`
+        : section.title,
+      value: acts.length > 0
+        ? `${lines.join('\n')}\nExpires <t:${earliestExpiry}:R>`.slice(0, 1024) // Discord field limit
+        : 'None available',
+      inline: false
+    };
+  });
+
+  return createEmbed({
+    type: 'info',
+    title: `Nightwave Season ${data.season}`,
+    description: `Season ends <t:${data.expiry}:R> (<t:${data.expiry}:F>)`,
+    fields,
+    footer: '🆕 marks acts from the latest rotation',
+    timestamp: true
+  });
+}
+
+// Initialize the Nightwave service
+export function startNightwaveService(client: Client): void {
+  if (isServiceRunning) {
+    serviceLogger.debug('Nightwave service is already running');
+    return;
+  }
+
+  serviceLogger.info('Starting Nightwave notification service');
+  isServiceRunning = true;
+
+  // Rotations are detected by the shared world state poller
+  worldStateEvents.on('nightwaveRotated', added => {
+    newActIds = new Set(added.map(challenge => challenge._id.$oid));
+    updateAllMessages(client);
+  });
+
+  // Refresh existing messages on startup
+  updateAllMessages(client);
+}
+
+// Manually trigger an update (used for immediate posting after setup)
+export function triggerNightwaveUpdate(client: Client): void {
+  serviceLogger.info('Manually triggering Nightwave update');
+  updateAllMessages(client);
+}
+
+// Update all configured channels with the latest Nightwave acts
+async function updateAllMessages(client: Client): Promise<void> {
+  try {
+    const notifications: NightwaveNotification[] = await pgdb.getNightwaveNotifications();
+
+    if (notifications.length === 0) {
+      serviceLogger.info('No channels configured for Nightwave notifications');
+      return;
+    }
+
+    const data = await fetchNightwaveData();
+    if (!data) {
+      serviceLogger.warn('No Nightwave season found in world state, skipping update');
+      return;
+    }
+
+    const embed = createNightwaveEmbed(data);
+    serviceLogger.info(`Updating Nightwave messages for ${notifications.length} channels`);
+
+    for (const config of notifications) {
+      try {
+        // Get the guild
+        const guild = client.guilds.cache.get(config.guild_id);
+        if (!guild) {
+          serviceLogger.warn(`Guild ${config.guild_id} not found, skipping update`);
+          continue;
+        }
+
+        // Get the channel
+        const channel = await guild.channels.fetch(config.channel_id).catch((): null => null);
+        if (!channel || !(channel instanceof TextChannel)) {
+          serviceLogger.warn(`Channel ${config.channel_id} in guild ${config.guild_id} not found or not a text channel`);
+          continue;
+        }
+
+        // Check if we have a message ID
+        if (config.message_id) {
+          try {
+            const message = await channel.messages.fetch(config.message_id);
+            await message.edit({ content: null, embeds: [embed] });
+            serviceLogger.info(`Updated Nightwave message in channel ${channel.name} (${channel.id})`);
+            continue;
+          } catch (messageError) {
+            serviceLogger.warn(`Could not find existing message (${config.message_id}) in channel ${channel.name}, sending new message instead`);
+          }
+        }
+
+        // No usable message, send a new one
+        const newMessage = await channel.send({ embeds: [embed] });
+        await pgdb.updateNightwaveMessageId(config.id, newMessage.id);
+        serviceLogger.info(`Sent new Nightwave message to channel ${channel.name} (${channel.id}) with message ID ${newMessage.id}`);
+      } catch (channelError) {
+        serviceLogger.error(`Error updating Nightwave message for channel ${config.channel_id}:`, channelError);
+      }
+    }
+  } catch (error) {
+    serviceLogger.error('Error updating all Nightwave messages:', error);
+  }
+}
@@ -0,0 +1,252 @@
+import axios from 'axios';
+import fs from 'fs';
+import sharp from 'sharp';
+import FormData from 'form-data';
+import { createWorker, Worker, WorkerOptions } from 'tesseract.js';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+
+/**
+ * Text recognised in an image and the provider that read it
+ */
+export interface OcrResult {
+  text: string;
+  provider: string;
+  durationMs: number;
+}
+
+/**
+ * An OCR engine that can read the text of a riven screenshot.
+ * isAvailable() is checked before every attempt so providers missing their
+ * configuration are skipped instead of failing.
+ */
+export interface OcrProvider {
+  readonly name: string;
+  isAvailable(): boolean;
+  recognize(imagePath: string): Promise<string>;
+}
+
+// Results shorter than this are treated as a failed read and the next provider is tried
+const MIN_TEXT_LENGTH = 20;
+
+/**
+ * OCR.space API, trying each datacenter in turn
+ */
+export class OcrSpaceProvider implements OcrProvider {
+  readonly name = 'ocrspace';
+
+  private static readonly ENDPOINTS = [
+    'https://apipro1.ocr.space/parse/image', // Datacenter #1
+    'https://apipro2.ocr.space/parse/image'  // Datacenter #2
+  ];
+
+  constructor(private readonly apiKey: string) {}
+
+  isAvailable(): boolean {
+    return !!this.apiKey;
+  }
+
+  async recognize(imagePath: string): Promise<string> {
+    const startTime = Date.now();
+    let response;
+    let apiError;
+
+    for (let i = 0; i < OcrSpaceProvider.ENDPOINTS.length; i++) {
+      const endpoint = OcrSpaceProvider.ENDPOINTS[i];
+
+      // Form data streams can only be consumed once, so each attempt builds its own
+      const formData = new FormData();
+      formData.append('file', fs.createReadStream(imagePath), { filename: 'riven.jpg' });
+      formData.append('language', 'eng');
+      formData.append('isOverlayRequired', 'false');
+      formData.append('OCREngine', '2'); // Use OCR engine 2 for better quality
+      formData.append('scale', 'true');
+      formData.append('detectOrientation', 'true');
+
+      try {
+        logger.info(`Sending OCR request to endpoint #${i + 1}: ${endpoint}`);
+        response = await axios.post(endpoint, formData, {
+          headers: {
+            ...formData.getHeaders(),
+            'apikey': this.apiKey
+          }
+        });
+        logger.info(`OCR API responded in ${Date.now() - startTime}ms with status ${response.status}`);
+        break;
+      } catch (err) {
+        apiError = err;
+        logger.error(`OCR API error with endpoint #${i + 1} after ${Date.now() - startTime}ms:`, err);
+
+        if (axios.isAxiosError(err)) {
+          if (err.response) {
+            logger.error(`OCR API response error: status=${err.response.status}, data=${JSON.stringify(err.response.data)}`);
+          } else if (err.request) {
+            logger.error('OCR API request was made but no response received');
+          } else {
+            logger.error(`OCR API request setup error: ${err.message}`);
+          }
+        }
+      }
+    }
+
+    if (!response) {
+      throw apiError || new Error('Failed to connect to OCR service');
+    }
+
+    if (!response.data || !response.data.ParsedResults || response.data.ParsedResults.length === 0) {
+      if (response.data?.IsErroredOnProcessing) {
+        logger.error(`OCR API processing error: ${response.data.ErrorMessage || 'No error message'}`);
+        logger.error(`OCR API error details: ${response.data.ErrorDetails || 'No details'}`);
+      }
+      throw new Error('OCR service returned no results');
+    }
+
+    logger.info(`OCR API processing time: ${response.data.ProcessingTimeInMilliseconds}ms, exit code ${response.data.OCRExitCode}`);
+    return response.data.ParsedResults[0].ParsedText?.trim() || '';
+  }
+}
+
+/**
+ * Local tesseract.js engine, needs no API key.
+ * Language data is downloaded on first use unless langPath points at a local eng.traineddata.
+ */
+export class TesseractProvider implements OcrProvider {
+  readonly name = 'tesseract';
+
+  private worker: Promise<Worker> | null = null;
+
+  constructor(private readonly langPath?: string, private readonly cachePath?: string) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async recognize(imagePath: string): Promise<string> {
+    // Riven cards are light text on a dark background, tesseract reads dark text on light best
+    const prepared = await sharp(imagePath)
+      .resize({ width: 2000, height: 2000, fit: 'inside', withoutEnlargement: false })
+      .grayscale()
+      .negate()
+      .normalize()
+      .png()
+      .toBuffer();
+
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(prepared);
+    logger.info(`Tesseract confidence: ${data.confidence}`);
+    return data.text.trim();
+  }
+
+  // Stop the worker, e.g. at the end of a script
+  async terminate(): Promise<void> {
+    if (this.worker) {
+      const worker = await this.worker.catch((): null => null);
+      this.worker = null;
+      await worker?.terminate();
+    }
+  }
+
+  // Workers are expensive to start, so a single one is reused for every image
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      this.worker = new Promise<Worker>((resolve, reject) => {
+        const options: Partial<WorkerOptions> = {
+          // tesseract.js reports failed jobs here, including a language download failing during startup,
+          // which would otherwise leave createWorker pending forever
+          errorHandler: (error: unknown) => {
+            logger.warn(`Tesseract worker error: ${error}`);
+            reject(new Error(`Tesseract worker error: ${error}`));
+          }
+        };
+        if (this.langPath) {
+          options.langPath = this.langPath;
+        }
+        if (this.cachePath) {
+          options.cachePath = this.cachePath;
+        }
+
+        createWorker('eng', undefined, options).then(resolve, reject);
+      });
+      this.worker.catch(() => {
+        this.worker = null;
+      });
+    }
+    return this.worker;
+  }
+}
+
+/**
+ * Create the named OCR providers in fallback order, by default those listed in OCR_PROVIDERS
+ */
+export function createOcrProviders(names: string[] = config.OCR_PROVIDERS): OcrProvider[] {
+  const providers: OcrProvider[] = [];
+
+  for (const name of names) {
+    switch (name) {
+      case 'ocrspace':
+        providers.push(new OcrSpaceProvider(config.OCR_API_KEY));
+        break;
+      case 'tesseract':
+        providers.push(new TesseractProvider(config.OCR_TESSERACT_LANG_PATH || undefined, config.OCR_TESSERACT_CACHE_PATH || undefined));
+        break;
+      default:
+        logger.warn(`Unknown OCR provider: ${name}, skipping`);
+    }
+  }
+
+  if (providers.length === 0) {
+    logger.warn('No valid OCR providers configured, falling back to tesseract');
+    providers.push(new TesseractProvider());
+  }
+
+  return providers;
+}
+
+let defaultProviders: OcrProvider[] | null = null;
+
+/**
+ * Read the text of an image with the first provider that succeeds.
+ * Providers that are unavailable, throw or return almost no text are skipped.
+ */
+export async function recognizeText(imagePath: string, providers?: OcrProvider[]): Promise<OcrResult> {
+  if (!providers) {
+    defaultProviders = defaultProviders || createOcrProviders();
+    providers = defaultProviders;
+  }
+
+  let lastError: Error | null = null;
+  let bestResult: OcrResult | null = null;
+
+  for (const provider of providers) {
+    if (!provider.isAvailable()) {
+      logger.debug(`OCR provider ${provider.name} is not configured, skipping`);
+      continue;
+    }
+
+    const startTime = Date.now();
+    try {
+      const text = await provider.recognize(imagePath);
+      const result = { text, provider: provider.name, durationMs: Date.now() - startTime };
+      logger.info(`OCR provider ${provider.name} returned ${text.length} characters in ${result.durationMs}ms`);
+
+      if (text.length >= MIN_TEXT_LENGTH) {
+        return result;
+      }
+
+      logger.warn(`OCR provider ${provider.name} returned too little text, trying the next provider`);
+      if (!bestResult || text.length > bestResult.text.length) {
+        bestResult = result;
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      logger.error(`OCR provider ${provider.name} failed:`, error);
+    }
+  }
+
+  // A short read is still better than nothing, the caller decides whether it is usable
+  if (bestResult) {
+    return bestResult;
+  }
+
+  throw lastError || new Error('No OCR provider is available');
+}
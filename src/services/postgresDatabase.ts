@@ -284,7 +284,8 @@ export type PostgresClient = {
   // Fissure Notifications
   getFissureNotifications(): Promise<any[]>;
   getFissureNotificationsByType(missionType: string, steelPath: boolean): Promise<any[]>;
-  addFissureNotification(guildId: string, channelId: string, missionType: string, steelPath: boolean, roleId?: string, nodeName?: string): Promise<any>;
+  addFissureNotification(guildId: string, channelId: string, missionType: string, steelPath: boolean, roleId?: string, nodeName?: string, filters?: Record<string, any> | null): Promise<any>;
+  updateFissureNotificationFilters(id: string, filters: Record<string, any> | null): Promise<void>;
   updateFissureLastNotified(id: string, lastNotified: string): Promise<void>;
   updateFissureMessageId(id: string, messageId: string): Promise<void>;
   removeFissureNotification(id: string): Promise<void>;
@@ -313,7 +314,8 @@ export type PostgresClient = {
     bTierRoleId?: string | null,
     cTierRoleId?: string | null,
     dTierRoleId?: string | null,
-    fTierRoleId?: string | null
+    fTierRoleId?: string | null,
+    topTiersOnly?: boolean
   ): Promise<any>;
   updateArbitrationMessageId(id: string, messageId: string): Promise<void>;
   removeArbitrationNotification(id: string): Promise<void>;
@@ -326,6 +328,147 @@ export type PostgresClient = {
   updateIncarnonMessageId(id: string, messageId: string): Promise<boolean>;
   removeIncarnonNotification(guildId: string): Promise<boolean>;
 
+  // PostgreSQL Sortie notification handling
+  getSortieNotifications(): Promise<any[]>;
+  getSortieNotificationByGuild(guildId: string): Promise<any>;
+  addSortieNotification(guildId: string, channelId: string, roleId: string | null): Promise<any>;
+  updateSortieNotification(id: string, channelId: string, roleId: string | null): Promise<boolean>;
+  updateSortieMessageId(id: string, messageId: string): Promise<boolean>;
+  removeSortieNotification(guildId: string): Promise<boolean>;
+
+  // PostgreSQL Archon Hunt notification handling
+  getArchonNotifications(): Promise<any[]>;
+  getArchonNotificationByGuild(guildId: string): Promise<any>;
+  addArchonNotification(guildId: string, channelId: string, roleId: string | null): Promise<any>;
+  updateArchonNotification(id: string, channelId: string, roleId: string | null): Promise<boolean>;
+  updateArchonMessageId(id: string, messageId: string): Promise<boolean>;
+  removeArchonNotification(guildId: string): Promise<boolean>;
+
+  // PostgreSQL Nightwave notification handling
+  getNightwaveNotifications(): Promise<any[]>;
+  getNightwaveNotificationByGuild(guildId: string): Promise<any>;
+  addNightwaveNotification(guildId: string, channelId: string): Promise<any>;
+  updateNightwaveNotification(id: string, channelId: string): Promise<boolean>;
+  updateNightwaveMessageId(id: string, messageId: string): Promise<boolean>;
+  removeNightwaveNotification(guildId: string): Promise<boolean>;
+
+  // PostgreSQL open world cycle notification handling
+  getCycleNotifications(): Promise<any[]>;
+  getCycleNotificationByGuild(guildId: string): Promise<any>;
+  addCycleNotification(guildId: string, channelId: string): Promise<any>;
+  updateCycleNotification(id: string, channelId: string): Promise<boolean>;
+  updateCycleMessageId(id: string, messageId: string): Promise<boolean>;
+  removeCycleNotification(guildId: string): Promise<boolean>;
+  getCycleAlerts(): Promise<any[]>;
+  getCycleAlertsByGuild(guildId: string): Promise<any[]>;
+  addCycleAlert(guildId: string, channelId: string, roleId: string, cycle: string, state: string, minutesBefore: number): Promise<any>;
+  updateCycleAlertTransition(id: string, transition: number): Promise<boolean>;
+  removeCycleAlert(guildId: string, id: string): Promise<boolean>;
+  removeCycleAlerts(guildId: string): Promise<boolean>;
+
+  // PostgreSQL fissure DM subscription handling
+  getActiveFissureSubscriptions(): Promise<any[]>;
+  getFissureSubscriptionsByUser(userId: string): Promise<any[]>;
+  addFissureSubscription(userId: string, filters: { missionType?: string | null, tier?: string | null, steelPath?: boolean | null, node?: string | null, faction?: string | null }): Promise<any>;
+  removeFissureSubscription(userId: string, id: string): Promise<boolean>;
+  setFissureSubscriptionsEnabled(userId: string, enabled: boolean): Promise<boolean>;
+
+  // PostgreSQL Baro visit history and wishlist handling
+  addBaroVisit(visit: { traderId: string, node: string, relay: string, planet: string, arrival: Date, departure: Date }, items: Array<{ name: string, type: string, ducats: number, credits: number }>): Promise<boolean>;
+  getBaroItemHistory(itemName: string, limit?: number): Promise<any[]>;
+  searchBaroItemNames(query: string, limit?: number): Promise<string[]>;
+  getBaroWishlistsForItems(itemNames: string[]): Promise<any[]>;
+  getBaroWishlistByUser(userId: string): Promise<any[]>;
+  addBaroWishlistItem(userId: string, itemName: string): Promise<any>;
+  removeBaroWishlistItem(userId: string, itemName: string): Promise<boolean>;
+
+  // PostgreSQL Teshin Steel Path Honors notification handling
+  getTeshinNotifications(): Promise<any[]>;
+  getTeshinNotificationByGuild(guildId: string): Promise<any>;
+  addTeshinNotification(guildId: string, channelId: string, roleId: string | null): Promise<any>;
+  updateTeshinNotification(id: string, channelId: string, roleId: string | null): Promise<boolean>;
+  updateTeshinMessageId(id: string, messageId: string): Promise<boolean>;
+  removeTeshinNotification(guildId: string): Promise<boolean>;
+
+  // PostgreSQL invasion reward alert handling
+  getInvasionAlerts(): Promise<any[]>;
+  getInvasionAlertsByGuild(guildId: string): Promise<any[]>;
+  addInvasionAlert(guildId: string, channelId: string, roleId: string | null, reward: string): Promise<any>;
+  removeInvasionAlert(guildId: string, id: string): Promise<boolean>;
+
+  // PostgreSQL riven market handling
+  getRivenMarketSettings(guildId: string): Promise<any>;
+  setRivenMarketSettings(guildId: string, channelId: string, listingDays: number): Promise<any>;
+  removeRivenMarketSettings(guildId: string): Promise<boolean>;
+  addRivenListing(listing: {
+    guildId: string;
+    sellerId: string;
+    channelId: string;
+    weapon: string;
+    rivenType: string;
+    rank: number;
+    buffs: number;
+    curses: number;
+    stats: any[];
+    overallGrade: string;
+    overallQuality: number;
+    price: number;
+    notes: string | null;
+    expiresAt: Date;
+  }): Promise<any>;
+  getRivenListing(id: string): Promise<any>;
+  getRivenListingsBySeller(guildId: string, sellerId: string): Promise<any[]>;
+  searchRivenListings(guildId: string, weapon: string | null, stat: string | null): Promise<any[]>;
+  updateRivenListingMessage(id: string, threadId: string | null, messageId: string): Promise<boolean>;
+  bumpRivenListing(id: string, expiresAt: Date): Promise<boolean>;
+  updateRivenListingStatus(id: string, status: string): Promise<boolean>;
+  getExpiredRivenListings(): Promise<any[]>;
+  getRivenPriceHistory(guildId: string, weapon: string): Promise<any[]>;
+
+  // PostgreSQL riven session handling
+  getRivenSession(id: string): Promise<any>;
+  getRivenSessionsByUser(userId: string, includeClosed?: boolean): Promise<any[]>;
+  findRivenSession(userId: string, weapon: string, masteryRank: number, polarity: string): Promise<any>;
+  addRivenSession(session: {
+    userId: string;
+    weapon: string;
+    rivenType: string;
+    masteryRank: number;
+    polarity: string;
+    label: string | null;
+    targets: string[];
+  }): Promise<any>;
+  updateRivenSessionTargets(id: string, targets: string[]): Promise<boolean>;
+  updateRivenSessionStatus(id: string, status: string): Promise<boolean>;
+  addRivenRoll(roll: {
+    sessionId: string;
+    rank: number;
+    buffs: number;
+    curses: number;
+    stats: any[];
+    overallGrade: string;
+    overallQuality: number;
+    source: string;
+  }): Promise<any>;
+  getRivenRolls(sessionId: string): Promise<any[]>;
+
+  // PostgreSQL disposition tracking handling
+  getLatestDispositionSnapshot(): Promise<any>;
+  getDispositionTrackingStart(): Promise<Date | null>;
+  addDispositionSnapshot(
+    dispositions: Record<string, { name: string, disposition: number }>,
+    changes: Array<{ internalPath: string, weapon: string, oldDisposition: number | null, newDisposition: number }>
+  ): Promise<any>;
+  getDispositionChanges(internalPath: string, limit?: number): Promise<any[]>;
+  getDispositionNotifications(): Promise<any[]>;
+  getDispositionNotificationByGuild(guildId: string): Promise<any>;
+  setDispositionNotification(guildId: string, channelId: string, roleId: string | null): Promise<any>;
+  removeDispositionNotification(guildId: string): Promise<boolean>;
+
+  // PostgreSQL autocomplete usage handling
+  getAutocompleteUsage(): Promise<any[]>;
+  incrementAutocompleteUsage(source: string, value: string): Promise<void>;
+
   // Join Form Configuration methods
   getJoinFormConfig(guildId: string): Promise<any>;
   updateJoinFormConfig(guildId: string, config: any): Promise<any>;
@@ -815,36 +958,6 @@ class PostgresDatabase {
     }
   }
 
-  /**
-   * Warframe catalog CRUD
-   */
-  public async upsertWarframe(item: { id?: string, name: string, crafting_cost?: number, resources?: any, updated_by?: string }): Promise<any> {
-    const idRow = await this.query<{ uuid: string }>('SELECT uuid_generate_v4() as uuid');
-    const id = item.id || idRow[0].uuid;
-    const rows = await this.query<any>(
-      `INSERT INTO warframe_catalog (id, name, crafting_cost, resources, updated_by)
-       VALUES ($1, $2, $3, $4, $5)
-       ON CONFLICT (id) DO UPDATE SET
-         name = EXCLUDED.name,
-         crafting_cost = EXCLUDED.crafting_cost,
-         resources = EXCLUDED.resources,
-         updated_by = EXCLUDED.updated_by,
-         updated_at = NOW()
-       RETURNING *`,
-      [id, item.name, item.crafting_cost ?? null, item.resources ?? {}, item.updated_by ?? null]
-    );
-    return rows[0];
-  }
-
-  public async getWarframes(): Promise<any[]> {
-    return this.query<any>('SELECT * FROM warframe_catalog ORDER BY name');
-  }
-
-  public async getWarframeById(id: string): Promise<any | null> {
-    const rows = await this.query<any>('SELECT * FROM warframe_catalog WHERE id = $1', [id]);
-    return rows[0] || null;
-  }
-
   /**
    * Close the database connection
    */
@@ -2895,17 +3008,24 @@ class PostgresDatabase {
     return results;
   }
 
-  async addFissureNotification(guildId: string, channelId: string, missionType: string, steelPath: boolean, roleId?: string, nodeName?: string): Promise<any> {
+  async addFissureNotification(guildId: string, channelId: string, missionType: string, steelPath: boolean, roleId?: string, nodeName?: string, filters?: Record<string, any> | null): Promise<any> {
     const result = await this.query(
       `INSERT INTO fissure_notifications 
-       (guild_id, channel_id, mission_type, steel_path, role_id, node_name)
-       VALUES ($1, $2, $3, $4, $5, $6)
+       (guild_id, channel_id, mission_type, steel_path, role_id, node_name, filters)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
        RETURNING *`,
-      [guildId, channelId, missionType, steelPath, roleId || null, nodeName || null]
+      [guildId, channelId, missionType, steelPath, roleId || null, nodeName || null, filters ? JSON.stringify(filters) : null]
     );
     return result[0];
   }
 
+  async updateFissureNotificationFilters(id: string, filters: Record<string, any> | null): Promise<void> {
+    await this.query(
+      'UPDATE fissure_notifications SET filters = $1, last_notified = NULL, updated_at = NOW() WHERE id = $2',
+      [filters ? JSON.stringify(filters) : null, id]
+    );
+  }
+
   async updateFissureLastNotified(id: string, lastNotified: string): Promise<void> {
     await this.query(
       'UPDATE fissure_notifications SET last_notified = $1, updated_at = NOW() WHERE id = $2',
@@ -2996,12 +3116,13 @@ class PostgresDatabase {
     bTierRoleId?: string | null,
     cTierRoleId?: string | null,
     dTierRoleId?: string | null,
-    fTierRoleId?: string | null
+    fTierRoleId?: string | null,
+    topTiersOnly = false
   ): Promise<any> {
     const result = await this.query(
       `INSERT INTO arbitration_notifications 
-       (guild_id, channel_id, role_id, message_id, s_tier_role_id, a_tier_role_id, b_tier_role_id, c_tier_role_id, d_tier_role_id, f_tier_role_id)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       (guild_id, channel_id, role_id, message_id, s_tier_role_id, a_tier_role_id, b_tier_role_id, c_tier_role_id, d_tier_role_id, f_tier_role_id, top_tiers_only)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
        RETURNING *`,
       [
         guildId, 
@@ -3013,7 +3134,8 @@ class PostgresDatabase {
         bTierRoleId || null,
         cTierRoleId || null,
         dTierRoleId || null,
-        fTierRoleId || null
+        fTierRoleId || null,
+        topTiersOnly
       ]
     );
     return result[0];
@@ -3117,6 +3239,1344 @@ class PostgresDatabase {
     }
   }
 
+  // PostgreSQL Sortie notification handling
+  async getSortieNotifications(): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM sortie_notifications
+      `);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting Sortie notifications:', error);
+      return [];
+    }
+  }
+
+  async getSortieNotificationByGuild(guildId: string): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM sortie_notifications
+        WHERE guild_id = $1
+      `, [guildId]);
+      
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error(`Error getting Sortie notification for guild ${guildId}:`, error);
+      return null;
+    }
+  }
+
+  async addSortieNotification(guildId: string, channelId: string, roleId: string | null): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        INSERT INTO sortie_notifications 
+        (guild_id, channel_id, role_id)
+        VALUES ($1, $2, $3)
+        RETURNING *
+      `, [guildId, channelId, roleId]);
+      
+      return result.rows[0];
+    } catch (error) {
+      logger.error(`Error adding Sortie notification for guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
+  async updateSortieNotification(id: string, channelId: string, roleId: string | null): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        UPDATE sortie_notifications
+        SET channel_id = $1, role_id = $2, message_id = NULL, updated_at = NOW()
+        WHERE id = $3
+      `, [channelId, roleId, id]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error updating Sortie notification ${id}:`, error);
+      return false;
+    }
+  }
+
+  async updateSortieMessageId(id: string, messageId: string): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        UPDATE sortie_notifications
+        SET message_id = $1, updated_at = NOW()
+        WHERE id = $2
+      `, [messageId, id]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error updating Sortie notification message ID for ${id}:`, error);
+      return false;
+    }
+  }
+
+  async removeSortieNotification(guildId: string): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        DELETE FROM sortie_notifications
+        WHERE guild_id = $1
+      `, [guildId]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error removing Sortie notification for guild ${guildId}:`, error);
+      return false;
+    }
+  }
+
+  // PostgreSQL Archon Hunt notification handling
+  async getArchonNotifications(): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM archon_notifications
+      `);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting Archon Hunt notifications:', error);
+      return [];
+    }
+  }
+
+  async getArchonNotificationByGuild(guildId: string): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM archon_notifications
+        WHERE guild_id = $1
+      `, [guildId]);
+      
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error(`Error getting Archon Hunt notification for guild ${guildId}:`, error);
+      return null;
+    }
+  }
+
+  async addArchonNotification(guildId: string, channelId: string, roleId: string | null): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        INSERT INTO archon_notifications 
+        (guild_id, channel_id, role_id)
+        VALUES ($1, $2, $3)
+        RETURNING *
+      `, [guildId, channelId, roleId]);
+      
+      return result.rows[0];
+    } catch (error) {
+      logger.error(`Error adding Archon Hunt notification for guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
+  async updateArchonNotification(id: string, channelId: string, roleId: string | null): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        UPDATE archon_notifications
+        SET channel_id = $1, role_id = $2, message_id = NULL, updated_at = NOW()
+        WHERE id = $3
+      `, [channelId, roleId, id]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error updating Archon Hunt notification ${id}:`, error);
+      return false;
+    }
+  }
+
+  async updateArchonMessageId(id: string, messageId: string): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        UPDATE archon_notifications
+        SET message_id = $1, updated_at = NOW()
+        WHERE id = $2
+      `, [messageId, id]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error updating Archon Hunt notification message ID for ${id}:`, error);
+      return false;
+    }
+  }
+
+  async removeArchonNotification(guildId: string): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        DELETE FROM archon_notifications
+        WHERE guild_id = $1
+      `, [guildId]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error removing Archon Hunt notification for guild ${guildId}:`, error);
+      return false;
+    }
+  }
+
+  // PostgreSQL Nightwave notification handling
+  async getNightwaveNotifications(): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM nightwave_notifications
+      `);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting Nightwave notifications:', error);
+      return [];
+    }
+  }
+
+  async getNightwaveNotificationByGuild(guildId: string): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM nightwave_notifications
+        WHERE guild_id = $1
+      `, [guildId]);
+      
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error(`Error getting Nightwave notification for guild ${guildId}:`, error);
+      return null;
+    }
+  }
+
+  async addNightwaveNotification(guildId: string, channelId: string): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        INSERT INTO nightwave_notifications 
+        (guild_id, channel_id)
+        VALUES ($1, $2)
+        RETURNING *
+      `, [guildId, channelId]);
+      
+      return result.rows[0];
+    } catch (error) {
+      logger.error(`Error adding Nightwave notification for guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
+  async updateNightwaveNotification(id: string, channelId: string): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        UPDATE nightwave_notifications
+        SET channel_id = $1, message_id = NULL, updated_at = NOW()
+        WHERE id = $2
+      `, [channelId, id]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error updating Nightwave notification ${id}:`, error);
+      return false;
+    }
+  }
+
+  async updateNightwaveMessageId(id: string, messageId: string): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        UPDATE nightwave_notifications
+        SET message_id = $1, updated_at = NOW()
+        WHERE id = $2
+      `, [messageId, id]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error updating Nightwave notification message ID for ${id}:`, error);
+      return false;
+    }
+  }
+
+  async removeNightwaveNotification(guildId: string): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        DELETE FROM nightwave_notifications
+        WHERE guild_id = $1
+      `, [guildId]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error removing Nightwave notification for guild ${guildId}:`, error);
+      return false;
+    }
+  }
+
+  // PostgreSQL open world cycle notification handling
+  async getCycleNotifications(): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM cycle_notifications
+      `);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting cycle notifications:', error);
+      return [];
+    }
+  }
+
+  async getCycleNotificationByGuild(guildId: string): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM cycle_notifications
+        WHERE guild_id = $1
+      `, [guildId]);
+      
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error(`Error getting cycle notification for guild ${guildId}:`, error);
+      return null;
+    }
+  }
+
+  async addCycleNotification(guildId: string, channelId: string): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        INSERT INTO cycle_notifications 
+        (guild_id, channel_id)
+        VALUES ($1, $2)
+        RETURNING *
+      `, [guildId, channelId]);
+      
+      return result.rows[0];
+    } catch (error) {
+      logger.error(`Error adding cycle notification for guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
+  async updateCycleNotification(id: string, channelId: string): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        UPDATE cycle_notifications
+        SET channel_id = $1, message_id = NULL, updated_at = NOW()
+        WHERE id = $2
+      `, [channelId, id]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error updating cycle notification ${id}:`, error);
+      return false;
+    }
+  }
+
+  async updateCycleMessageId(id: string, messageId: string): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        UPDATE cycle_notifications
+        SET message_id = $1, updated_at = NOW()
+        WHERE id = $2
+      `, [messageId, id]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error updating cycle notification message ID for ${id}:`, error);
+      return false;
+    }
+  }
+
+  async removeCycleNotification(guildId: string): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        DELETE FROM cycle_notifications
+        WHERE guild_id = $1
+      `, [guildId]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error removing cycle notification for guild ${guildId}:`, error);
+      return false;
+    }
+  }
+
+  async getCycleAlerts(): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM cycle_alerts
+      `);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting cycle alerts:', error);
+      return [];
+    }
+  }
+
+  async getCycleAlertsByGuild(guildId: string): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM cycle_alerts
+        WHERE guild_id = $1
+        ORDER BY created_at
+      `, [guildId]);
+      
+      return result.rows;
+    } catch (error) {
+      logger.error(`Error getting cycle alerts for guild ${guildId}:`, error);
+      return [];
+    }
+  }
+
+  async addCycleAlert(guildId: string, channelId: string, roleId: string, cycle: string, state: string, minutesBefore: number): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        INSERT INTO cycle_alerts 
+        (guild_id, channel_id, role_id, cycle, state, minutes_before)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING *
+      `, [guildId, channelId, roleId, cycle, state, minutesBefore]);
+      
+      return result.rows[0];
+    } catch (error) {
+      logger.error(`Error adding cycle alert for guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
+  async updateCycleAlertTransition(id: string, transition: number): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        UPDATE cycle_alerts
+        SET last_transition = $1, updated_at = NOW()
+        WHERE id = $2
+      `, [transition, id]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error updating cycle alert transition for ${id}:`, error);
+      return false;
+    }
+  }
+
+  async removeCycleAlert(guildId: string, id: string): Promise<boolean> {
+    try {
+      const result = await this.pool.query(`
+        DELETE FROM cycle_alerts
+        WHERE guild_id = $1 AND id = $2
+      `, [guildId, id]);
+      
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error removing cycle alert ${id} for guild ${guildId}:`, error);
+      return false;
+    }
+  }
+
+  async removeCycleAlerts(guildId: string): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        DELETE FROM cycle_alerts
+        WHERE guild_id = $1
+      `, [guildId]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error removing cycle alerts for guild ${guildId}:`, error);
+      return false;
+    }
+  }
+
+  // PostgreSQL fissure DM subscription handling
+  async getActiveFissureSubscriptions(): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM fissure_subscriptions
+        WHERE enabled = TRUE
+      `);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting fissure subscriptions:', error);
+      return [];
+    }
+  }
+
+  async getFissureSubscriptionsByUser(userId: string): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM fissure_subscriptions
+        WHERE user_id = $1
+        ORDER BY created_at
+      `, [userId]);
+      
+      return result.rows;
+    } catch (error) {
+      logger.error(`Error getting fissure subscriptions for user ${userId}:`, error);
+      return [];
+    }
+  }
+
+  async addFissureSubscription(userId: string, filters: { missionType?: string | null, tier?: string | null, steelPath?: boolean | null, node?: string | null, faction?: string | null }): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        INSERT INTO fissure_subscriptions 
+        (user_id, mission_type, tier, steel_path, node, faction)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING *
+      `, [
+        userId,
+        filters.missionType ?? null,
+        filters.tier ?? null,
+        filters.steelPath ?? null,
+        filters.node ?? null,
+        filters.faction ?? null
+      ]);
+      
+      return result.rows[0];
+    } catch (error) {
+      logger.error(`Error adding fissure subscription for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  async removeFissureSubscription(userId: string, id: string): Promise<boolean> {
+    try {
+      const result = await this.pool.query(`
+        DELETE FROM fissure_subscriptions
+        WHERE user_id = $1 AND id = $2
+      `, [userId, id]);
+      
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error removing fissure subscription ${id} for user ${userId}:`, error);
+      return false;
+    }
+  }
+
+  async setFissureSubscriptionsEnabled(userId: string, enabled: boolean): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        UPDATE fissure_subscriptions
+        SET enabled = $1, updated_at = NOW()
+        WHERE user_id = $2
+      `, [enabled, userId]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error updating fissure subscriptions for user ${userId}:`, error);
+      return false;
+    }
+  }
+
+  // PostgreSQL Baro visit history and wishlist handling
+  /**
+   * Record a Baro visit and its inventory
+   * @returns true if the visit was new, false if it was already recorded
+   */
+  async addBaroVisit(visit: { traderId: string, node: string, relay: string, planet: string, arrival: Date, departure: Date }, items: Array<{ name: string, type: string, ducats: number, credits: number }>): Promise<boolean> {
+    const client = await this.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const visitResult = await client.query(`
+        INSERT INTO baro_visits
+        (trader_id, node, relay, planet, arrival, departure)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (trader_id) DO NOTHING
+        RETURNING id
+      `, [visit.traderId, visit.node, visit.relay, visit.planet, visit.arrival, visit.departure]);
+
+      // Already recorded on an earlier check or before a restart
+      if (visitResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      const visitId = visitResult.rows[0].id;
+      for (const item of items) {
+        await client.query(`
+          INSERT INTO baro_visit_items
+          (visit_id, item_name, item_type, ducats, credits)
+          VALUES ($1, $2, $3, $4, $5)
+          ON CONFLICT (visit_id, item_name) DO NOTHING
+        `, [visitId, item.name, item.type, item.ducats || 0, item.credits || 0]);
+      }
+
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error(`Error recording Baro visit ${visit.traderId}:`, error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getBaroItemHistory(itemName: string, limit = 10): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT i.item_name, i.ducats, i.credits, v.relay, v.planet, v.arrival, v.departure,
+          COUNT(*) OVER() AS total_visits
+        FROM baro_visit_items i
+        JOIN baro_visits v ON v.id = i.visit_id
+        WHERE LOWER(i.item_name) = LOWER($1)
+        ORDER BY v.arrival DESC
+        LIMIT $2
+      `, [itemName, limit]);
+
+      return result.rows;
+    } catch (error) {
+      logger.error(`Error getting Baro history for ${itemName}:`, error);
+      return [];
+    }
+  }
+
+  async searchBaroItemNames(query: string, limit = 25): Promise<string[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT DISTINCT item_name FROM baro_visit_items
+        WHERE item_name ILIKE $1
+        ORDER BY item_name
+        LIMIT $2
+      `, [`%${query}%`, limit]);
+
+      return result.rows.map(row => row.item_name);
+    } catch (error) {
+      logger.error('Error searching Baro item names:', error);
+      return [];
+    }
+  }
+
+  async getBaroWishlistsForItems(itemNames: string[]): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM baro_wishlists
+        WHERE LOWER(item_name) = ANY($1)
+      `, [itemNames.map(name => name.toLowerCase())]);
+
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting Baro wishlists:', error);
+      return [];
+    }
+  }
+
+  async getBaroWishlistByUser(userId: string): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM baro_wishlists
+        WHERE user_id = $1
+        ORDER BY item_name
+      `, [userId]);
+
+      return result.rows;
+    } catch (error) {
+      logger.error(`Error getting Baro wishlist for user ${userId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Add an item to a user's Baro wishlist
+   * @returns The new wishlist entry, or null if the item was already on the wishlist
+   */
+  async addBaroWishlistItem(userId: string, itemName: string): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        INSERT INTO baro_wishlists (user_id, item_name)
+        SELECT $1, $2
+        WHERE NOT EXISTS (
+          SELECT 1 FROM baro_wishlists
+          WHERE user_id = $1 AND LOWER(item_name) = LOWER($2)
+        )
+        RETURNING *
+      `, [userId, itemName]);
+
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error(`Error adding Baro wishlist item for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  async removeBaroWishlistItem(userId: string, itemName: string): Promise<boolean> {
+    try {
+      const result = await this.pool.query(`
+        DELETE FROM baro_wishlists
+        WHERE user_id = $1 AND LOWER(item_name) = LOWER($2)
+      `, [userId, itemName]);
+
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error removing Baro wishlist item for user ${userId}:`, error);
+      return false;
+    }
+  }
+
+  async getTeshinNotifications(): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM teshin_notifications
+      `);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting Teshin notifications:', error);
+      return [];
+    }
+  }
+
+  async getTeshinNotificationByGuild(guildId: string): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM teshin_notifications
+        WHERE guild_id = $1
+      `, [guildId]);
+      
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error(`Error getting Teshin notification for guild ${guildId}:`, error);
+      return null;
+    }
+  }
+
+  async addTeshinNotification(guildId: string, channelId: string, roleId: string | null): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        INSERT INTO teshin_notifications 
+        (guild_id, channel_id, role_id)
+        VALUES ($1, $2, $3)
+        RETURNING *
+      `, [guildId, channelId, roleId]);
+      
+      return result.rows[0];
+    } catch (error) {
+      logger.error(`Error adding Teshin notification for guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
+  async updateTeshinNotification(id: string, channelId: string, roleId: string | null): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        UPDATE teshin_notifications
+        SET channel_id = $1, role_id = $2, message_id = NULL, updated_at = NOW()
+        WHERE id = $3
+      `, [channelId, roleId, id]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error updating Teshin notification ${id}:`, error);
+      return false;
+    }
+  }
+
+  async updateTeshinMessageId(id: string, messageId: string): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        UPDATE teshin_notifications
+        SET message_id = $1, updated_at = NOW()
+        WHERE id = $2
+      `, [messageId, id]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error updating Teshin notification message ID for ${id}:`, error);
+      return false;
+    }
+  }
+
+  async removeTeshinNotification(guildId: string): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        DELETE FROM teshin_notifications
+        WHERE guild_id = $1
+      `, [guildId]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error removing Teshin notification for guild ${guildId}:`, error);
+      return false;
+    }
+  }
+
+  async getInvasionAlerts(): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM invasion_alerts
+      `);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting invasion alerts:', error);
+      return [];
+    }
+  }
+
+  async getInvasionAlertsByGuild(guildId: string): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM invasion_alerts
+        WHERE guild_id = $1
+        ORDER BY created_at
+      `, [guildId]);
+      
+      return result.rows;
+    } catch (error) {
+      logger.error(`Error getting invasion alerts for guild ${guildId}:`, error);
+      return [];
+    }
+  }
+
+  async addInvasionAlert(guildId: string, channelId: string, roleId: string | null, reward: string): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        INSERT INTO invasion_alerts 
+        (guild_id, channel_id, role_id, reward)
+        VALUES ($1, $2, $3, $4)
+        RETURNING *
+      `, [guildId, channelId, roleId, reward]);
+      
+      return result.rows[0];
+    } catch (error) {
+      logger.error(`Error adding invasion alert for guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
+  async removeInvasionAlert(guildId: string, id: string): Promise<boolean> {
+    try {
+      const result = await this.pool.query(`
+        DELETE FROM invasion_alerts
+        WHERE guild_id = $1 AND id = $2
+      `, [guildId, id]);
+      
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error removing invasion alert ${id} for guild ${guildId}:`, error);
+      return false;
+    }
+  }
+
+  async getRivenMarketSettings(guildId: string): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM riven_market_settings
+        WHERE guild_id = $1
+      `, [guildId]);
+      
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error(`Error getting riven market settings for guild ${guildId}:`, error);
+      return null;
+    }
+  }
+
+  async setRivenMarketSettings(guildId: string, channelId: string, listingDays: number): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        INSERT INTO riven_market_settings 
+        (guild_id, channel_id, listing_days)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (guild_id) 
+        DO UPDATE SET channel_id = $2, listing_days = $3, updated_at = NOW()
+        RETURNING *
+      `, [guildId, channelId, listingDays]);
+      
+      return result.rows[0];
+    } catch (error) {
+      logger.error(`Error setting riven market settings for guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
+  async removeRivenMarketSettings(guildId: string): Promise<boolean> {
+    try {
+      const result = await this.pool.query(`
+        DELETE FROM riven_market_settings
+        WHERE guild_id = $1
+      `, [guildId]);
+      
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error removing riven market settings for guild ${guildId}:`, error);
+      return false;
+    }
+  }
+
+  async addRivenListing(listing: {
+    guildId: string;
+    sellerId: string;
+    channelId: string;
+    weapon: string;
+    rivenType: string;
+    rank: number;
+    buffs: number;
+    curses: number;
+    stats: any[];
+    overallGrade: string;
+    overallQuality: number;
+    price: number;
+    notes: string | null;
+    expiresAt: Date;
+  }): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        INSERT INTO riven_listings 
+        (guild_id, seller_id, channel_id, weapon, riven_type, rank, buffs, curses,
+         stats, overall_grade, overall_quality, price, notes, expires_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        RETURNING *
+      `, [
+        listing.guildId, listing.sellerId, listing.channelId, listing.weapon, listing.rivenType,
+        listing.rank, listing.buffs, listing.curses, JSON.stringify(listing.stats),
+        listing.overallGrade, listing.overallQuality, listing.price, listing.notes, listing.expiresAt
+      ]);
+      
+      return result.rows[0];
+    } catch (error) {
+      logger.error(`Error adding riven listing for guild ${listing.guildId}:`, error);
+      throw error;
+    }
+  }
+
+  async getRivenListing(id: string): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM riven_listings
+        WHERE id = $1
+      `, [id]);
+      
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error(`Error getting riven listing ${id}:`, error);
+      return null;
+    }
+  }
+
+  async getRivenListingsBySeller(guildId: string, sellerId: string): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM riven_listings
+        WHERE guild_id = $1 AND seller_id = $2 AND status = 'active'
+        ORDER BY created_at DESC
+      `, [guildId, sellerId]);
+      
+      return result.rows;
+    } catch (error) {
+      logger.error(`Error getting riven listings of ${sellerId} in guild ${guildId}:`, error);
+      return [];
+    }
+  }
+
+  async searchRivenListings(guildId: string, weapon: string | null, stat: string | null): Promise<any[]> {
+    try {
+      // Stats are matched against the positives only, a curse is rarely what a buyer searches for
+      const result = await this.pool.query(`
+        SELECT * FROM riven_listings
+        WHERE guild_id = $1 AND status = 'active'
+          AND ($2::text IS NULL OR weapon ILIKE '%' || $2 || '%')
+          AND ($3::text IS NULL OR EXISTS (
+            SELECT 1 FROM jsonb_array_elements(stats) AS stat
+            WHERE stat->>'name' ILIKE '%' || $3 || '%'
+              AND (stat->>'isCurse')::boolean IS NOT TRUE
+          ))
+        ORDER BY COALESCE(bumped_at, created_at) DESC
+        LIMIT 25
+      `, [guildId, weapon, stat]);
+      
+      return result.rows;
+    } catch (error) {
+      logger.error(`Error searching riven listings in guild ${guildId}:`, error);
+      return [];
+    }
+  }
+
+  async updateRivenListingMessage(id: string, threadId: string | null, messageId: string): Promise<boolean> {
+    try {
+      await this.pool.query(`
+        UPDATE riven_listings
+        SET thread_id = $1, message_id = $2, updated_at = NOW()
+        WHERE id = $3
+      `, [threadId, messageId, id]);
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error updating riven listing message for ${id}:`, error);
+      return false;
+    }
+  }
+
+  async bumpRivenListing(id: string, expiresAt: Date): Promise<boolean> {
+    try {
+      const result = await this.pool.query(`
+        UPDATE riven_listings
+        SET bumped_at = NOW(), expires_at = $1, updated_at = NOW()
+        WHERE id = $2 AND status = 'active'
+      `, [expiresAt, id]);
+      
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error bumping riven listing ${id}:`, error);
+      return false;
+    }
+  }
+
+  async updateRivenListingStatus(id: string, status: string): Promise<boolean> {
+    try {
+      const result = await this.pool.query(`
+        UPDATE riven_listings
+        SET status = $1, updated_at = NOW()
+        WHERE id = $2
+      `, [status, id]);
+      
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error updating riven listing ${id} status:`, error);
+      return false;
+    }
+  }
+
+  async getExpiredRivenListings(): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM riven_listings
+        WHERE status = 'active' AND expires_at <= NOW()
+      `);
+      
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting expired riven listings:', error);
+      return [];
+    }
+  }
+
+  async getRivenPriceHistory(guildId: string, weapon: string): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM riven_listings
+        WHERE guild_id = $1 AND LOWER(weapon) = LOWER($2) AND status <> 'removed'
+        ORDER BY created_at DESC
+        LIMIT 100
+      `, [guildId, weapon]);
+      
+      return result.rows;
+    } catch (error) {
+      logger.error(`Error getting riven price history for ${weapon} in guild ${guildId}:`, error);
+      return [];
+    }
+  }
+
+  // PostgreSQL riven session handling
+  async getRivenSession(id: string): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM riven_sessions
+        WHERE id = $1
+      `, [id]);
+      
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error(`Error getting riven session ${id}:`, error);
+      return null;
+    }
+  }
+
+  async getRivenSessionsByUser(userId: string, includeClosed: boolean = false): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM riven_sessions
+        WHERE user_id = $1 AND ($2 OR status = 'active')
+        ORDER BY updated_at DESC
+      `, [userId, includeClosed]);
+      
+      return result.rows;
+    } catch (error) {
+      logger.error(`Error getting riven sessions of user ${userId}:`, error);
+      return [];
+    }
+  }
+
+  async findRivenSession(userId: string, weapon: string, masteryRank: number, polarity: string): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM riven_sessions
+        WHERE user_id = $1 AND weapon = $2 AND mastery_rank = $3 AND polarity = $4
+      `, [userId, weapon, masteryRank, polarity]);
+      
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error(`Error finding ${weapon} riven session of user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  async addRivenSession(session: {
+    userId: string;
+    weapon: string;
+    rivenType: string;
+    masteryRank: number;
+    polarity: string;
+    label: string | null;
+    targets: string[];
+  }): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        INSERT INTO riven_sessions 
+        (user_id, weapon, riven_type, mastery_rank, polarity, label, targets)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *
+      `, [
+        session.userId, session.weapon, session.rivenType, session.masteryRank,
+        session.polarity, session.label, JSON.stringify(session.targets)
+      ]);
+      
+      return result.rows[0];
+    } catch (error) {
+      logger.error(`Error adding riven session for user ${session.userId}:`, error);
+      throw error;
+    }
+  }
+
+  async updateRivenSessionTargets(id: string, targets: string[]): Promise<boolean> {
+    try {
+      const result = await this.pool.query(`
+        UPDATE riven_sessions
+        SET targets = $1, updated_at = NOW()
+        WHERE id = $2
+      `, [JSON.stringify(targets), id]);
+      
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error updating targets of riven session ${id}:`, error);
+      return false;
+    }
+  }
+
+  async updateRivenSessionStatus(id: string, status: string): Promise<boolean> {
+    try {
+      const result = await this.pool.query(`
+        UPDATE riven_sessions
+        SET status = $1, updated_at = NOW()
+        WHERE id = $2
+      `, [status, id]);
+      
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error updating status of riven session ${id}:`, error);
+      return false;
+    }
+  }
+
+  async addRivenRoll(roll: {
+    sessionId: string;
+    rank: number;
+    buffs: number;
+    curses: number;
+    stats: any[];
+    overallGrade: string;
+    overallQuality: number;
+    source: string;
+  }): Promise<any> {
+    try {
+      // Rolls are numbered per session, and adding one marks the session as recently used
+      const result = await this.pool.query(`
+        INSERT INTO riven_rolls 
+        (session_id, roll_number, rank, buffs, curses, stats, overall_grade, overall_quality, source)
+        VALUES ($1, (SELECT COALESCE(MAX(roll_number), 0) + 1 FROM riven_rolls WHERE session_id = $1),
+                $2, $3, $4, $5, $6, $7, $8)
+        RETURNING *
+      `, [
+        roll.sessionId, roll.rank, roll.buffs, roll.curses, JSON.stringify(roll.stats),
+        roll.overallGrade, roll.overallQuality, roll.source
+      ]);
+      
+      await this.pool.query(`
+        UPDATE riven_sessions
+        SET updated_at = NOW()
+        WHERE id = $1
+      `, [roll.sessionId]);
+      
+      return result.rows[0];
+    } catch (error) {
+      logger.error(`Error adding roll to riven session ${roll.sessionId}:`, error);
+      throw error;
+    }
+  }
+
+  async getRivenRolls(sessionId: string): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM riven_rolls
+        WHERE session_id = $1
+        ORDER BY roll_number ASC
+      `, [sessionId]);
+      
+      return result.rows;
+    } catch (error) {
+      logger.error(`Error getting rolls of riven session ${sessionId}:`, error);
+      return [];
+    }
+  }
+
+  // PostgreSQL disposition tracking handling
+  async getLatestDispositionSnapshot(): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM disposition_snapshots
+        ORDER BY created_at DESC
+        LIMIT 1
+      `);
+
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error getting the latest disposition snapshot:', error);
+      return null;
+    }
+  }
+
+  async getDispositionTrackingStart(): Promise<Date | null> {
+    try {
+      const result = await this.pool.query(`
+        SELECT MIN(created_at) AS started_at FROM disposition_snapshots
+      `);
+
+      return result.rows[0]?.started_at || null;
+    } catch (error) {
+      logger.error('Error getting the disposition tracking start:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a snapshot of every weapon's disposition together with the changes since the previous snapshot
+   */
+  async addDispositionSnapshot(
+    dispositions: Record<string, { name: string, disposition: number }>,
+    changes: Array<{ internalPath: string, weapon: string, oldDisposition: number | null, newDisposition: number }>
+  ): Promise<any> {
+    const client = await this.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const snapshotResult = await client.query(`
+        INSERT INTO disposition_snapshots
+        (dispositions, weapon_count, changed_count)
+        VALUES ($1, $2, $3)
+        RETURNING *
+      `, [JSON.stringify(dispositions), Object.keys(dispositions).length, changes.length]);
+
+      const snapshot = snapshotResult.rows[0];
+      for (const change of changes) {
+        await client.query(`
+          INSERT INTO disposition_changes
+          (snapshot_id, internal_path, weapon, old_disposition, new_disposition)
+          VALUES ($1, $2, $3, $4, $5)
+        `, [snapshot.id, change.internalPath, change.weapon, change.oldDisposition, change.newDisposition]);
+      }
+
+      await client.query('COMMIT');
+      return snapshot;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error recording disposition snapshot:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getDispositionChanges(internalPath: string, limit = 10): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM disposition_changes
+        WHERE internal_path = $1
+        ORDER BY created_at DESC
+        LIMIT $2
+      `, [internalPath, limit]);
+
+      return result.rows;
+    } catch (error) {
+      logger.error(`Error getting disposition changes for ${internalPath}:`, error);
+      return [];
+    }
+  }
+
+  async getDispositionNotifications(): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM disposition_notifications
+      `);
+
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting disposition notifications:', error);
+      return [];
+    }
+  }
+
+  async getDispositionNotificationByGuild(guildId: string): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM disposition_notifications
+        WHERE guild_id = $1
+      `, [guildId]);
+
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error(`Error getting disposition notification for guild ${guildId}:`, error);
+      return null;
+    }
+  }
+
+  async setDispositionNotification(guildId: string, channelId: string, roleId: string | null): Promise<any> {
+    try {
+      const result = await this.pool.query(`
+        INSERT INTO disposition_notifications
+        (guild_id, channel_id, role_id)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (guild_id)
+        DO UPDATE SET channel_id = $2, role_id = $3, updated_at = NOW()
+        RETURNING *
+      `, [guildId, channelId, roleId]);
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error(`Error setting disposition notification for guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
+  async removeDispositionNotification(guildId: string): Promise<boolean> {
+    try {
+      const result = await this.pool.query(`
+        DELETE FROM disposition_notifications
+        WHERE guild_id = $1
+      `, [guildId]);
+
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error removing disposition notification for guild ${guildId}:`, error);
+      return false;
+    }
+  }
+
+  // PostgreSQL autocomplete usage handling
+  async getAutocompleteUsage(): Promise<any[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT source, value, uses FROM autocomplete_usage
+      `);
+
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting autocomplete usage:', error);
+      return [];
+    }
+  }
+
+  async incrementAutocompleteUsage(source: string, value: string): Promise<void> {
+    try {
+      await this.pool.query(`
+        INSERT INTO autocomplete_usage
+        (source, value, uses)
+        VALUES ($1, $2, 1)
+        ON CONFLICT (source, value)
+        DO UPDATE SET uses = autocomplete_usage.uses + 1, last_used_at = NOW()
+      `, [source, value]);
+    } catch (error) {
+      logger.error(`Error recording autocomplete usage of ${source} ${value}:`, error);
+      throw error;
+    }
+  }
+
   // Join Form Configuration methods
   async getJoinFormConfig(guildId: string): Promise<any> {
     try {
@@ -0,0 +1,297 @@
+import { logger } from '../utils/logger';
+import { createDictionaryIndex, getDictionary, getLocalizedName } from '../utils/dictionaryLoader';
+
+// Rebuilt when any of these files is updated
+const recipeIndex = createDictionaryIndex('recipe', [
+  'ExportRecipes.json', 'ExportResources.json', 'ExportWarframes.json', 'ExportWeapons.json',
+  'ExportSentinels.json', 'ExportGear.json', 'ExportCustoms.json', 'dict.en.json'
+], buildRecipeIndex);
+
+// Category of a crafted item by the export it is defined in, components are split off by path
+const CATEGORY_SOURCES: Array<[string, string]> = [
+  ['ExportWarframes.json', 'Warframes'],
+  ['ExportWeapons.json', 'Weapons'],
+  ['ExportSentinels.json', 'Companions'],
+  ['ExportGear.json', 'Gear'],
+  ['ExportCustoms.json', 'Cosmetics'],
+  ['ExportResources.json', 'Resources']
+];
+
+export const CRAFTING_CATEGORIES = ['Warframes', 'Weapons', 'Companions', 'Components', 'Resources', 'Gear', 'Cosmetics', 'Other'];
+
+// Deepest level of sub-recipes resolved, e.g. weapon -> component -> resource
+const MAX_DEPTH = 5;
+
+// Interfaces
+export interface CraftingComponent {
+  item: string;
+  itemType: string;
+  count: number;
+  recipe: CraftingRecipe | null;
+}
+
+export interface CraftingRecipe {
+  blueprint: string;
+  credits: number;
+  buildTime: number;
+  num: number;
+  ingredients: CraftingComponent[];
+}
+
+export interface CraftingResource {
+  item: string;
+  itemType: string;
+  count: number;
+}
+
+export interface CraftableItem {
+  name: string;
+  itemType: string;
+  category: string;
+  icon: string | null;
+  credits: number;
+  buildTime: number;
+}
+
+export interface CraftingTree extends CraftableItem {
+  recipe: CraftingRecipe;
+  totalCredits: number;
+  totalBuildTime: number;
+  resources: CraftingResource[];
+}
+
+interface IndexedItem extends CraftableItem {
+  blueprint: string;
+}
+
+// Global state
+let itemsByName = new Map<string, IndexedItem>();
+let recipesByResult = new Map<string, { blueprint: string, data: any }>();
+let names = new Map<string, string>();
+
+// Strip markup like "<ARCHWING> " from the localized names
+function cleanName(name: string): string {
+  return name.replace(/<[^>]+>\s*/g, '').trim();
+}
+
+function resolveName(itemType: string): string {
+  if (!names.has(itemType)) {
+    names.set(itemType, cleanName(getLocalizedName(itemType)));
+  }
+  return names.get(itemType);
+}
+
+function findExportEntry(itemType: string): [string, any] | null {
+  for (const [file, category] of CATEGORY_SOURCES) {
+    const entry = getDictionary(file)?.[itemType];
+    if (entry) {
+      return [category, entry];
+    }
+  }
+  return null;
+}
+
+function getCategory(itemType: string, exportCategory: string | undefined): string {
+  if (exportCategory === 'Resources' && itemType.includes('/Recipes/')) {
+    return 'Components';
+  }
+  return exportCategory || 'Other';
+}
+
+// Farmed resources like Neurodes also have research recipes, those are not expanded in a tree
+function isBaseResource(itemType: string): boolean {
+  return !!getDictionary('ExportResources.json')?.[itemType] && !itemType.includes('/Recipes/');
+}
+
+// Prefer recipes shown in the codex that cost credits over conversions and hidden variants
+function recipePriority(data: any): number {
+  return (data.excludeFromCodex ? 0 : 2) + (data.buildPrice > 0 ? 1 : 0);
+}
+
+/**
+ * Build the crafting index from the loaded dictionaries
+ */
+export function buildRecipeIndex(): boolean {
+  const recipes = getDictionary('ExportRecipes.json');
+
+  if (!recipes) {
+    logger.warn('ExportRecipes.json is missing, recipe index not built');
+    return false;
+  }
+
+  names = new Map();
+  const byResult = new Map<string, { blueprint: string, data: any }>();
+  const byName = new Map<string, IndexedItem>();
+
+  for (const [blueprint, data] of Object.entries<any>(recipes)) {
+    if (!data.resultType || !Array.isArray(data.ingredients) || data.ingredients.length === 0) {
+      continue;
+    }
+
+    const current = byResult.get(data.resultType);
+    if (!current || recipePriority(data) > recipePriority(current.data)) {
+      byResult.set(data.resultType, { blueprint, data });
+    }
+  }
+
+  for (const [itemType, { blueprint, data }] of byResult) {
+    const name = resolveName(itemType);
+    const key = name.toLowerCase();
+    const [exportCategory, entry] = findExportEntry(itemType) || [];
+
+    // Items without a localized name resolve to the last path segment
+    if (!entry && name === itemType.split('/').pop()) {
+      continue;
+    }
+
+    const current = byName.get(key);
+    if (current && recipePriority(recipes[current.blueprint]) >= recipePriority(data)) {
+      continue;
+    }
+
+    byName.set(key, {
+      name,
+      itemType,
+      blueprint,
+      category: getCategory(itemType, exportCategory),
+      icon: entry?.icon ? `https://browse.wf${entry.icon}` : null,
+      credits: data.buildPrice || 0,
+      buildTime: data.buildTime || 0
+    });
+  }
+
+  recipesByResult = byResult;
+  itemsByName = byName;
+
+  logger.info(`Built recipe index with ${byName.size} craftable items`);
+  return true;
+}
+
+/**
+ * Build the recipe index and keep it in sync with dictionary updates
+ */
+export function initializeRecipeIndex(): void {
+  recipeIndex.initialize();
+}
+
+// Resolve a recipe and its sub-recipes, stopping at cycles like conversion recipes
+function resolveRecipe(blueprint: string, data: any, visited: Set<string>): CraftingRecipe {
+  return {
+    blueprint,
+    credits: data.buildPrice || 0,
+    buildTime: data.buildTime || 0,
+    num: data.num || 1,
+    ingredients: data.ingredients.map((ingredient: any): CraftingComponent => {
+      const subRecipe = recipesByResult.get(ingredient.ItemType);
+      const canExpand = subRecipe && !isBaseResource(ingredient.ItemType) &&
+        !visited.has(ingredient.ItemType) && visited.size < MAX_DEPTH;
+
+      return {
+        item: resolveName(ingredient.ItemType),
+        itemType: ingredient.ItemType,
+        count: ingredient.ItemCount || 1,
+        recipe: canExpand
+          ? resolveRecipe(subRecipe.blueprint, subRecipe.data, new Set([...visited, ingredient.ItemType]))
+          : null
+      };
+    })
+  };
+}
+
+// Add up credits and raw resources for crafting `crafts` times, returns the longest build time
+function sumRecipe(recipe: CraftingRecipe, crafts: number, resources: Map<string, CraftingResource>, totals: { credits: number }): number {
+  totals.credits += recipe.credits * crafts;
+
+  let longestComponent = 0;
+  for (const ingredient of recipe.ingredients) {
+    const needed = ingredient.count * crafts;
+
+    if (ingredient.recipe) {
+      const componentCrafts = Math.ceil(needed / ingredient.recipe.num);
+      longestComponent = Math.max(longestComponent, sumRecipe(ingredient.recipe, componentCrafts, resources, totals));
+    } else {
+      const resource = resources.get(ingredient.itemType) || { item: ingredient.item, itemType: ingredient.itemType, count: 0 };
+      resource.count += needed;
+      resources.set(ingredient.itemType, resource);
+    }
+  }
+
+  // Components are built side by side before the item itself
+  return longestComponent + recipe.buildTime;
+}
+
+/**
+ * Every craftable item, alphabetically
+ */
+export function getCraftableItems(): CraftableItem[] {
+  recipeIndex.ensureBuilt();
+  return [...itemsByName.values()]
+    .map(({ blueprint, ...item }) => item)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Every craftable item name, alphabetically
+ */
+export function getCraftableNames(): string[] {
+  return getCraftableItems().map(item => item.name);
+}
+
+/**
+ * Craftable items whose name contains the query, exact matches first
+ */
+export function searchCraftableItems(query: string, limit = 25): CraftableItem[] {
+  const normalized = query.toLowerCase().trim();
+
+  const matches = getCraftableItems().filter(item => item.name.toLowerCase().includes(normalized));
+  return [
+    ...matches.filter(item => item.name.toLowerCase() === normalized),
+    ...matches.filter(item => item.name.toLowerCase() !== normalized)
+  ].slice(0, limit);
+}
+
+/**
+ * Resolve the full recipe tree of an item, e.g. "Excalibur", with the raw resources,
+ * credits and build time needed to craft it from scratch
+ */
+export function getCraftingTree(name: string): CraftingTree | null {
+  recipeIndex.ensureBuilt();
+  const indexed = itemsByName.get(name.toLowerCase().trim());
+  if (!indexed) {
+    return null;
+  }
+
+  const { blueprint, ...item } = indexed;
+  const recipe = resolveRecipe(blueprint, recipesByResult.get(item.itemType).data, new Set([item.itemType]));
+
+  const resources = new Map<string, CraftingResource>();
+  const totals = { credits: 0 };
+  const totalBuildTime = sumRecipe(recipe, 1, resources, totals);
+
+  return {
+    ...item,
+    recipe,
+    totalCredits: totals.credits,
+    totalBuildTime,
+    resources: [...resources.values()].sort((a, b) => b.count - a.count)
+  };
+}
+
+/**
+ * Format a build time in seconds, e.g. "3d 12h" or "1m"
+ */
+export function formatBuildTime(seconds: number): string {
+  if (seconds <= 0) {
+    return 'Instant';
+  }
+
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  const parts = [];
+  if (days > 0) parts.push(`${days}d`);
+  if (hours > 0) parts.push(`${hours}h`);
+  if (minutes > 0 && days === 0) parts.push(`${minutes}m`);
+  return parts.length > 0 ? parts.join(' ') : `${seconds}s`;
+}
@@ -0,0 +1,245 @@
+import { logger } from '../utils/logger';
+import { createDictionaryIndex, getDictionary, getLocalizedName } from '../utils/dictionaryLoader';
+
+// Refinement levels in the order they are shown
+export const RELIC_REFINEMENTS = ['Intact', 'Exceptional', 'Flawless', 'Radiant'] as const;
+export type RelicRefinement = typeof RELIC_REFINEMENTS[number];
+
+export type RelicRarity = 'Common' | 'Uncommon' | 'Rare';
+
+// Chance of each individual reward dropping, for the standard 3 common / 2 uncommon / 1 rare layout
+export const RELIC_DROP_CHANCES: Record<RelicRarity, Record<RelicRefinement, number>> = {
+  Common: { Intact: 25.33, Exceptional: 23.33, Flawless: 20, Radiant: 16.67 },
+  Uncommon: { Intact: 11, Exceptional: 13, Flawless: 17, Radiant: 20 },
+  Rare: { Intact: 2, Exceptional: 4, Flawless: 6, Radiant: 10 }
+};
+
+export const RELIC_ERAS = ['Lith', 'Meso', 'Neo', 'Axi', 'Requiem'];
+
+const RARITY_ORDER: RelicRarity[] = ['Common', 'Uncommon', 'Rare'];
+
+// Rebuilt when any of these files is updated
+const relicIndex = createDictionaryIndex('relic', [
+  'ExportRelics.json', 'ExportRewards.json', 'ExportRecipes.json', 'dict.en.json'
+], buildRelicIndex);
+
+// Interfaces
+export interface RelicReward {
+  item: string;
+  itemType: string;
+  count: number;
+  rarity: RelicRarity;
+}
+
+export interface Relic {
+  name: string;
+  era: string;
+  category: string;
+  icon: string | null;
+  rewards: RelicReward[];
+}
+
+export interface RelicDropSource {
+  relic: Relic;
+  reward: RelicReward;
+}
+
+// Global state
+let relicsByName = new Map<string, Relic>();
+let relicsByItem = new Map<string, RelicDropSource[]>();
+let itemNames: string[] = [];
+
+// Normalize user input so "axi h3", "Axi H3 Relic" and "AXI  H3" all match
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\brelic\b/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// Resolve a reward's store path to a display name, blueprints are named after what they build
+export function resolveRewardName(storePath: string, recipes: Record<string, any>): string {
+  const itemPath = storePath.replace('/StoreItems/', '/');
+  const recipe = recipes[itemPath];
+
+  const name = recipe?.resultType
+    ? `${getLocalizedName(recipe.resultType)} Blueprint`
+    : getLocalizedName(itemPath);
+
+  // Strip markup like "<ARCHWING> " from the localized names
+  return name.replace(/<[^>]+>\s*/g, '').trim();
+}
+
+function toRarity(rarity: string): RelicRarity {
+  switch (rarity) {
+    case 'RARE':
+      return 'Rare';
+    case 'UNCOMMON':
+      return 'Uncommon';
+    default:
+      return 'Common';
+  }
+}
+
+function compareRelics(a: Relic, b: Relic): number {
+  const eraDiff = RELIC_ERAS.indexOf(a.era) - RELIC_ERAS.indexOf(b.era);
+  if (eraDiff !== 0) {
+    return eraDiff;
+  }
+  return a.category.localeCompare(b.category, undefined, { numeric: true });
+}
+
+/**
+ * Build the relic and reverse item indexes from the loaded dictionaries
+ */
+export function buildRelicIndex(): boolean {
+  const relics = getDictionary('ExportRelics.json');
+  const rewards = getDictionary('ExportRewards.json');
+  const recipes = getDictionary('ExportRecipes.json') || {};
+
+  if (!relics || !rewards) {
+    logger.warn('ExportRelics.json or ExportRewards.json is missing, relic index not built');
+    return false;
+  }
+
+  const nameCache = new Map<string, string>();
+  const byName = new Map<string, Relic>();
+  const byItem = new Map<string, RelicDropSource[]>();
+
+  for (const relicData of Object.values<any>(relics)) {
+    if (!relicData.era || !relicData.category || !relicData.rewardManifest) {
+      continue;
+    }
+
+    const name = `${relicData.era} ${relicData.category}`;
+    const key = normalizeName(name);
+
+    // Every refinement shares the same reward table, so only index the relic once
+    if (byName.has(key)) {
+      continue;
+    }
+
+    const manifest = rewards[relicData.rewardManifest];
+    if (!Array.isArray(manifest) || !Array.isArray(manifest[0])) {
+      continue;
+    }
+
+    const relic: Relic = {
+      name,
+      era: relicData.era,
+      category: relicData.category,
+      icon: relicData.icon ? `https://browse.wf${relicData.icon}` : null,
+      rewards: manifest[0]
+        .map((reward: any): RelicReward => {
+          if (!nameCache.has(reward.type)) {
+            nameCache.set(reward.type, resolveRewardName(reward.type, recipes));
+          }
+          return {
+            item: nameCache.get(reward.type),
+            itemType: reward.type,
+            count: reward.itemCount || 1,
+            rarity: toRarity(reward.rarity)
+          };
+        })
+        .sort((a: RelicReward, b: RelicReward) => RARITY_ORDER.indexOf(a.rarity) - RARITY_ORDER.indexOf(b.rarity))
+    };
+
+    byName.set(key, relic);
+
+    for (const reward of relic.rewards) {
+      const itemKey = reward.item.toLowerCase();
+      const sources = byItem.get(itemKey) || [];
+      sources.push({ relic, reward });
+      byItem.set(itemKey, sources);
+    }
+  }
+
+  for (const sources of byItem.values()) {
+    sources.sort((a, b) => compareRelics(a.relic, b.relic));
+  }
+
+  relicsByName = byName;
+  relicsByItem = byItem;
+  itemNames = [...new Set([...byItem.values()].map(sources => sources[0].reward.item))].sort();
+
+  logger.info(`Built relic index with ${byName.size} relics and ${itemNames.length} rewards`);
+  return true;
+}
+
+/**
+ * Build the relic index and keep it in sync with dictionary updates
+ */
+export function initializeRelicIndex(): void {
+  relicIndex.initialize();
+}
+
+/**
+ * Look up a relic by name, e.g. "Axi H3"
+ */
+export function getRelic(name: string): Relic | null {
+  relicIndex.ensureBuilt();
+  return relicsByName.get(normalizeName(name)) || null;
+}
+
+/**
+ * Relic names containing the query, in era order
+ */
+export function searchRelics(query: string, limit = 25): Relic[] {
+  relicIndex.ensureBuilt();
+  const normalized = normalizeName(query);
+
+  return [...relicsByName.entries()]
+    .filter(([key]) => key.includes(normalized))
+    .map(([, relic]) => relic)
+    .sort(compareRelics)
+    .slice(0, limit);
+}
+
+/**
+ * Reward names containing the query, exact matches first
+ */
+export function searchRelicRewards(query: string, limit = 25): string[] {
+  relicIndex.ensureBuilt();
+  const normalized = query.toLowerCase().trim();
+
+  const matches = itemNames.filter(item => item.toLowerCase().includes(normalized));
+  return [
+    ...matches.filter(item => item.toLowerCase() === normalized),
+    ...matches.filter(item => item.toLowerCase() !== normalized)
+  ].slice(0, limit);
+}
+
+/**
+ * Every relic name, in era order
+ */
+export function getRelicNames(): string[] {
+  relicIndex.ensureBuilt();
+  return [...relicsByName.values()].sort(compareRelics).map(relic => relic.name);
+}
+
+/**
+ * Every reward name, alphabetically
+ */
+export function getRelicRewardNames(): string[] {
+  relicIndex.ensureBuilt();
+  return itemNames;
+}
+
+/**
+ * Every relic that drops the given reward, in era order
+ */
+export function getRelicsDropping(item: string): RelicDropSource[] {
+  relicIndex.ensureBuilt();
+  return relicsByItem.get(item.toLowerCase().trim()) || [];
+}
+
+/**
+ * Format a drop chance percentage without trailing zeros
+ */
+export function formatDropChance(chance: number): string {
+  return `${Number(chance.toFixed(2))}%`;
+}
+
+/**
+ * Look up the chance of a reward dropping at a refinement
+ */
+export function getDropChance(rarity: RelicRarity, refinement: RelicRefinement): number {
+  return RELIC_DROP_CHANCES[rarity][refinement];
+}
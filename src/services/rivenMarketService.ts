@@ -0,0 +1,353 @@
+import { Client, TextChannel, ForumChannel, ThreadChannel, EmbedBuilder, AttachmentBuilder, Guild } from 'discord.js';
+import { logger } from '../utils/logger';
+import { pgdb } from './postgresDatabase';
+import { createEmbed } from '../utils/embedBuilder';
+import { SERVICE_INTERVALS, RIVEN_MARKET_LIMITS, TIME } from '../constants/time';
+import { GradedRivenStat, formatRivenType, formatStatValue } from '../utils/rivenEngine';
+import { generateGradeImage } from '../utils/rivenGradeImage';
+
+// Get environment variable for logging
+const ENABLE_SERVICE_LOGS = process.env.ENABLE_RIVEN_MARKET_SERVICE_LOGS === 'true';
+
+// Custom logger that respects the service logging setting
+const serviceLogger = {
+  debug: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.debug(`[RivenMarket] ${message}`, ...args);
+    }
+  },
+  info: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.info(`[RivenMarket] ${message}`, ...args);
+    }
+  },
+  // Always log warnings and errors
+  warn: (message: string, ...args: any[]) => {
+    logger.warn(`[RivenMarket] ${message}`, ...args);
+  },
+  error: (message: string, ...args: any[]) => {
+    logger.error(`[RivenMarket] ${message}`, ...args);
+  }
+};
+
+// Interfaces
+export interface RivenListing {
+  id: string;
+  guild_id: string;
+  seller_id: string;
+  channel_id: string;
+  thread_id: string | null;
+  message_id: string | null;
+  weapon: string;
+  riven_type: string;
+  rank: number;
+  buffs: number;
+  curses: number;
+  stats: GradedRivenStat[];
+  overall_grade: string;
+  overall_quality: number;
+  price: number;
+  notes: string | null;
+  status: 'active' | 'sold' | 'removed' | 'expired';
+  expires_at: Date;
+  bumped_at: Date | null;
+  created_at: Date;
+}
+
+export interface RivenPriceSummary {
+  listings: number;
+  sold: number;
+  median: number | null;
+  low: number | null;
+  high: number | null;
+  recent: RivenListing[];
+}
+
+type MarketChannel = TextChannel | ForumChannel;
+
+const STATUS_LABELS: Record<RivenListing['status'], string> = {
+  active: 'For sale',
+  sold: 'Sold',
+  removed: 'Withdrawn',
+  expired: 'Expired'
+};
+
+// Global state
+let isServiceRunning = false;
+
+function toUnix(date: Date | string): number {
+  return Math.floor(new Date(date).getTime() / 1000);
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? Math.round((sorted[middle - 1] + sorted[middle]) / 2) : sorted[middle];
+}
+
+/**
+ * Short one-line summary of a listing, used in search results and autocomplete
+ */
+export function describeListing(listing: RivenListing): string {
+  const positives = listing.stats.filter(stat => !stat.isCurse).map(stat => stat.name).join('/');
+  return `${listing.weapon} (${listing.overall_grade}) ${positives} - ${listing.price.toLocaleString()}p`;
+}
+
+/**
+ * Link to the message or forum post of a listing
+ */
+export function getListingUrl(listing: RivenListing): string | null {
+  // Both forum posts and discussion threads open the listing with its replies
+  if (listing.thread_id) {
+    return `https://discord.com/channels/${listing.guild_id}/${listing.thread_id}`;
+  }
+  return listing.message_id ? `https://discord.com/channels/${listing.guild_id}/${listing.channel_id}/${listing.message_id}` : null;
+}
+
+// Create the embed shown for a listing
+export function createListingEmbed(listing: RivenListing): EmbedBuilder {
+  const type = listing.status === 'active' ? 'info' : listing.status === 'sold' ? 'success' : 'warning';
+
+  return createEmbed({
+    type,
+    title: `${listing.weapon} Riven - ${listing.price.toLocaleString()} Platinum`,
+    description: [
+      `Seller: <@${listing.seller_id}>`,
+      `${formatRivenType(listing.riven_type)} • Rank ${listing.rank}/8 • ${listing.buffs} positive / ${listing.curses} negative`,
+      `Overall Grade: **${listing.overall_grade}** (${Math.round(listing.overall_quality * 100)}%)`,
+      listing.status === 'active'
+        ? `Expires <t:${toUnix(listing.expires_at)}:R>`
+        : `**${STATUS_LABELS[listing.status]}**`
+    ].join('\n'),
+    fields: [
+      ...listing.stats.map(stat => ({
+        name: `${formatStatValue(stat.name, stat.value)} ${stat.name}`,
+        value: stat.grade === 'N/A' ? 'Grade: **N/A**' : `Grade: **${stat.grade}** (${Math.round(stat.quality * 100)}%)`,
+        inline: true
+      })),
+      ...(listing.notes ? [{ name: 'Notes', value: listing.notes.slice(0, 1024), inline: false }] : [])
+    ],
+    image: 'attachment://riven-grade.png',
+    footer: `Listing ${listing.id}`,
+    timestamp: true
+  });
+}
+
+async function createListingMessage(listing: RivenListing) {
+  const imageBuffer = await generateGradeImage(listing.stats);
+  return {
+    embeds: [createListingEmbed(listing)],
+    files: [new AttachmentBuilder(imageBuffer, { name: 'riven-grade.png' })]
+  };
+}
+
+function getThreadName(listing: RivenListing): string {
+  return `${listing.weapon} ${listing.overall_grade} - ${listing.price}p`.slice(0, 100);
+}
+
+async function getMarketChannel(guild: Guild, channelId: string): Promise<MarketChannel | null> {
+  const channel = await guild.channels.fetch(channelId).catch((): null => null);
+  if (!channel || !(channel instanceof TextChannel || channel instanceof ForumChannel)) {
+    return null;
+  }
+  return channel;
+}
+
+async function getListingThread(guild: Guild, listing: RivenListing): Promise<ThreadChannel | null> {
+  if (!listing.thread_id) {
+    return null;
+  }
+  const thread = await guild.channels.fetch(listing.thread_id).catch((): null => null);
+  return thread instanceof ThreadChannel ? thread : null;
+}
+
+/**
+ * Post a listing to the market channel, as a forum post or a message with a discussion thread
+ */
+export async function postListing(client: Client, listing: RivenListing): Promise<RivenListing | null> {
+  const guild = client.guilds.cache.get(listing.guild_id);
+  if (!guild) {
+    serviceLogger.warn(`Guild ${listing.guild_id} not found, cannot post riven listing`);
+    return null;
+  }
+
+  const channel = await getMarketChannel(guild, listing.channel_id);
+  if (!channel) {
+    serviceLogger.warn(`Riven market channel ${listing.channel_id} in guild ${listing.guild_id} not found`);
+    return null;
+  }
+
+  const message = await createListingMessage(listing);
+  let threadId: string | null = null;
+  let messageId: string;
+
+  if (channel instanceof ForumChannel) {
+    const thread = await channel.threads.create({ name: getThreadName(listing), message });
+    threadId = thread.id;
+    messageId = thread.id;
+  } else {
+    const sent = await channel.send(message);
+    messageId = sent.id;
+    const thread = await sent.startThread({ name: getThreadName(listing) }).catch((): null => null);
+    threadId = thread?.id || null;
+  }
+
+  await pgdb.updateRivenListingMessage(listing.id, threadId, messageId);
+  serviceLogger.info(`Posted riven listing ${listing.id} to channel ${channel.name} (${channel.id})`);
+
+  return { ...listing, thread_id: threadId, message_id: messageId };
+}
+
+/**
+ * Refresh the posted message of a listing after its status or expiry changed
+ */
+async function refreshListingMessage(guild: Guild, listing: RivenListing): Promise<void> {
+  if (!listing.message_id) {
+    return;
+  }
+
+  const channel = await getMarketChannel(guild, listing.channel_id);
+  const thread = await getListingThread(guild, listing);
+
+  try {
+    if (channel instanceof ForumChannel && thread) {
+      const starter = await thread.fetchStarterMessage().catch((): null => null);
+      await starter?.edit({ embeds: [createListingEmbed(listing)] });
+    } else if (channel instanceof TextChannel) {
+      const message = await channel.messages.fetch(listing.message_id).catch((): null => null);
+      await message?.edit({ embeds: [createListingEmbed(listing)] });
+    }
+  } catch (error) {
+    serviceLogger.warn(`Could not update the message of riven listing ${listing.id}:`, error);
+  }
+
+  // Closed listings keep their thread for reference but no longer take replies
+  if (listing.status !== 'active' && thread && !thread.archived) {
+    await thread.setLocked(true).catch((): null => null);
+    await thread.setArchived(true).catch((): null => null);
+  }
+}
+
+/**
+ * Bump a listing: extend its expiry and move it back to the top of the market channel
+ */
+export async function bumpListing(client: Client, listing: RivenListing, listingDays: number): Promise<RivenListing | null> {
+  const expiresAt = new Date(Date.now() + listingDays * TIME.DAY);
+  if (!await pgdb.bumpRivenListing(listing.id, expiresAt)) {
+    return null;
+  }
+
+  const bumped: RivenListing = { ...listing, expires_at: expiresAt, bumped_at: new Date() };
+  const guild = client.guilds.cache.get(listing.guild_id);
+  if (!guild) {
+    return bumped;
+  }
+
+  const channel = await getMarketChannel(guild, listing.channel_id);
+  const thread = await getListingThread(guild, listing);
+
+  if (channel instanceof ForumChannel && thread) {
+    // A new message in a forum post moves it to the top of the forum
+    await refreshListingMessage(guild, bumped);
+    await thread.send(`Bumped by <@${listing.seller_id}>, still for sale at ${listing.price.toLocaleString()}p.`);
+    return bumped;
+  }
+
+  // Text channels have no ordering, so the listing is reposted and the old post removed
+  if (channel instanceof TextChannel && listing.message_id) {
+    const old = await channel.messages.fetch(listing.message_id).catch((): null => null);
+    await old?.delete().catch((): null => null);
+  }
+  if (thread) {
+    await thread.setArchived(true).catch((): null => null);
+  }
+
+  return await postListing(client, bumped) || bumped;
+}
+
+/**
+ * Close a listing as sold or withdrawn by the seller
+ */
+export async function closeListing(client: Client, listing: RivenListing, status: 'sold' | 'removed'): Promise<boolean> {
+  if (!await pgdb.updateRivenListingStatus(listing.id, status)) {
+    return false;
+  }
+
+  const guild = client.guilds.cache.get(listing.guild_id);
+  if (guild) {
+    await refreshListingMessage(guild, { ...listing, status });
+  }
+  return true;
+}
+
+/**
+ * Summarise the prices of a weapon's listings in a guild, leaving out withdrawn and never posted ones
+ */
+export async function getPriceSummary(guildId: string, weapon: string): Promise<RivenPriceSummary> {
+  const listings: RivenListing[] = await pgdb.getRivenPriceHistory(guildId, weapon);
+  const sold = listings.filter(listing => listing.status === 'sold');
+  // Sold prices are what buyers actually paid, asking prices only fill in when nothing sold yet
+  const prices = (sold.length > 0 ? sold : listings).map(listing => listing.price);
+
+  return {
+    listings: listings.length,
+    sold: sold.length,
+    median: median(prices),
+    low: prices.length > 0 ? Math.min(...prices) : null,
+    high: prices.length > 0 ? Math.max(...prices) : null,
+    recent: listings.slice(0, 10)
+  };
+}
+
+/**
+ * Whether a listing can be bumped again, returns the time of the next allowed bump otherwise
+ */
+export function getNextBumpTime(listing: RivenListing): number | null {
+  const last = new Date(listing.bumped_at || listing.created_at).getTime();
+  const next = last + RIVEN_MARKET_LIMITS.BUMP_COOLDOWN;
+  return next > Date.now() ? Math.floor(next / 1000) : null;
+}
+
+// Initialize the riven market service
+export function startRivenMarketService(client: Client): void {
+  if (isServiceRunning) {
+    serviceLogger.debug('Riven market service is already running');
+    return;
+  }
+
+  serviceLogger.info('Starting riven market service');
+  isServiceRunning = true;
+
+  expireListings(client);
+  setInterval(() => expireListings(client), SERVICE_INTERVALS.RIVEN_MARKET_EXPIRY);
+}
+
+// Close listings that ran past their expiry
+async function expireListings(client: Client): Promise<void> {
+  try {
+    const expired: RivenListing[] = await pgdb.getExpiredRivenListings();
+    if (expired.length === 0) {
+      return;
+    }
+
+    serviceLogger.info(`Expiring ${expired.length} riven listings`);
+
+    for (const listing of expired) {
+      try {
+        await pgdb.updateRivenListingStatus(listing.id, 'expired');
+
+        const guild = client.guilds.cache.get(listing.guild_id);
+        if (guild) {
+          await refreshListingMessage(guild, { ...listing, status: 'expired' });
+        }
+      } catch (listingError) {
+        serviceLogger.error(`Error expiring riven listing ${listing.id}:`, listingError);
+      }
+    }
+  } catch (error) {
+    serviceLogger.error('Error expiring riven listings:', error);
+  }
+}
@@ -0,0 +1,162 @@
+import axios from 'axios';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { logger } from '../utils/logger';
+import { tryDetectAndCropRiven } from '../utils/rivenImageProcessor';
+import { parseRivenText, ParsedRivenText } from '../utils/rivenTextParser';
+import { recognizeText } from './ocrProvider';
+import { GradedRivenStat, findTagForStatName, getStatDisplayName, isCurseStat } from '../utils/rivenEngine';
+
+// Interfaces
+export interface RivenSession {
+  id: string;
+  user_id: string;
+  weapon: string;
+  riven_type: string;
+  mastery_rank: number;
+  polarity: string;
+  label: string | null;
+  targets: string[];
+  status: 'active' | 'closed';
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RivenRoll {
+  id: string;
+  session_id: string;
+  roll_number: number;
+  rank: number;
+  buffs: number;
+  curses: number;
+  stats: GradedRivenStat[];
+  overall_grade: string;
+  overall_quality: number;
+  source: 'manual' | 'image';
+  created_at: Date;
+}
+
+export interface RankedRivenRoll {
+  roll: RivenRoll;
+  score: number;
+  matchedTargets: number;
+}
+
+// Riven polarities, the mastery rank and polarity of a riven stay the same when it is cycled
+export const RIVEN_POLARITIES = ['Madurai', 'Vazarin', 'Naramon'] as const;
+
+/**
+ * Short one-line summary of a session, used in autocomplete and embed titles
+ */
+export function describeSession(session: RivenSession): string {
+  const fingerprint = `MR ${session.mastery_rank} ${session.polarity}`;
+  return session.label ? `${session.weapon} "${session.label}" (${fingerprint})` : `${session.weapon} (${fingerprint})`;
+}
+
+/**
+ * Resolve comma separated stat names to stat tags, keeping the names that could not be matched
+ */
+export function resolveTargetStats(input: string): { targets: string[], unknown: string[] } {
+  const targets: string[] = [];
+  const unknown: string[] = [];
+
+  for (const name of input.split(',').map(part => part.trim()).filter(Boolean)) {
+    const tag = findTagForStatName(name);
+    if (tag === 'unknown') {
+      unknown.push(name);
+    } else if (!targets.includes(tag)) {
+      targets.push(tag);
+    }
+  }
+
+  return { targets, unknown };
+}
+
+export function formatTargets(targets: string[]): string {
+  return targets.length > 0 ? targets.map(getStatDisplayName).join(', ') : 'None, rolls are ranked by overall grade';
+}
+
+/**
+ * Count the negatives of a roll
+ */
+export function countCurses(stats: Array<{ name: string, value: number }>): number {
+  return stats.filter(isCurseStat).length;
+}
+
+/**
+ * Score a roll from 0 to 100 against the target stats of its session.
+ * Having a target stat is worth half of its share and how well it rolled the other half,
+ * so a roll with every target always beats one missing a target. Without targets the
+ * overall quality is used.
+ */
+export function scoreRoll(roll: RivenRoll, targets: string[]): { score: number, matchedTargets: number } {
+  if (targets.length === 0) {
+    return { score: roll.overall_quality * 100, matchedTargets: 0 };
+  }
+
+  let total = 0;
+  let matchedTargets = 0;
+
+  for (const target of targets) {
+    const stat = roll.stats.find(candidate => !candidate.isCurse && findTagForStatName(candidate.name) === target);
+    if (stat && stat.grade !== 'N/A') {
+      total += 0.5 + stat.quality * 0.5;
+      matchedTargets++;
+    }
+  }
+
+  return { score: total / targets.length * 100, matchedTargets };
+}
+
+/**
+ * Rank rolls best first, ties are broken by overall quality and then by the earlier roll
+ */
+export function rankRolls(rolls: RivenRoll[], targets: string[]): RankedRivenRoll[] {
+  return rolls
+    .map(roll => ({ roll, ...scoreRoll(roll, targets) }))
+    .sort((a, b) =>
+      b.score - a.score ||
+      b.roll.overall_quality - a.roll.overall_quality ||
+      a.roll.roll_number - b.roll.roll_number
+    );
+}
+
+/**
+ * Read a riven screenshot the same way /autograde does: crop the card, OCR it and parse the text.
+ * Returns null when the text has no weapon name or stats.
+ */
+export async function readRivenScreenshot(imageUrl: string, contentType: string): Promise<ParsedRivenText | null> {
+  const tempFiles: string[] = [];
+
+  try {
+    const originalPath = path.join(os.tmpdir(), `riven-session-${Date.now()}-original.${contentType.split('/')[1]}`);
+    tempFiles.push(originalPath);
+
+    const response = await axios.get(imageUrl, { responseType: 'arraybuffer' });
+    fs.writeFileSync(originalPath, Buffer.from(response.data));
+
+    const croppedPath = await tryDetectAndCropRiven(originalPath);
+    if (croppedPath !== originalPath) {
+      tempFiles.push(croppedPath);
+    }
+
+    // OCR.space rejects images over 1MB, a 1000px JPEG stays well below that
+    const resizedPath = path.join(os.tmpdir(), `riven-session-${Date.now()}-resized.jpg`);
+    tempFiles.push(resizedPath);
+    await sharp(croppedPath)
+      .resize({ width: 1000, height: 1000, fit: 'inside' })
+      .jpeg({ quality: 85 })
+      .toFile(resizedPath);
+
+    const ocrResult = await recognizeText(resizedPath);
+    logger.info(`Riven session screenshot read by ${ocrResult.provider} in ${ocrResult.durationMs}ms`);
+
+    return parseRivenText(ocrResult.text);
+  } finally {
+    for (const file of tempFiles) {
+      fs.rmSync(file, { force: true });
+    }
+  }
+}
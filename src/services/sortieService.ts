@@ -0,0 +1,334 @@
+import { Client, TextChannel, EmbedBuilder } from 'discord.js';
+import { logger } from '../utils/logger';
+import { pgdb } from './postgresDatabase';
+import { createEmbed } from '../utils/embedBuilder';
+import { getDictionary, getLocalizedName } from '../utils/dictionaryLoader';
+import { getWorldState, worldStateEvents } from './worldStateService';
+import { ArchonHunt, Sortie, parseWorldStateDate } from '../types/warframe';
+
+// Get environment variable for logging
+const ENABLE_SERVICE_LOGS = process.env.ENABLE_SORTIE_SERVICE_LOGS === 'true';
+
+// Custom logger that respects the service logging setting
+const serviceLogger = {
+  debug: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.debug(`[Sortie] ${message}`, ...args);
+    }
+  },
+  info: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.info(`[Sortie] ${message}`, ...args);
+    }
+  },
+  // Always log warnings and errors
+  warn: (message: string, ...args: any[]) => {
+    logger.warn(`[Sortie] ${message}`, ...args);
+  },
+  error: (message: string, ...args: any[]) => {
+    logger.error(`[Sortie] ${message}`, ...args);
+  }
+};
+
+export type SortieKind = 'sortie' | 'archon';
+
+// Interfaces
+interface SortieNotification {
+  id: string;
+  guild_id: string;
+  channel_id: string;
+  role_id: string | null;
+  message_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface RegionInfo {
+  name: string;
+  systemName: string;
+  missionType: string;
+  missionName: string;
+  factionName: string;
+}
+
+// Boss names are not in the language dictionary, so they are mapped here
+const SORTIE_BOSSES: Record<string, { name: string; faction: string }> = {
+  'SORTIE_BOSS_HYENA': { name: 'Hyena Pack', faction: 'Corpus' },
+  'SORTIE_BOSS_KELA': { name: 'Kela De Thaym', faction: 'Grineer' },
+  'SORTIE_BOSS_VOR': { name: 'Captain Vor', faction: 'Grineer' },
+  'SORTIE_BOSS_RUK': { name: 'General Sargas Ruk', faction: 'Grineer' },
+  'SORTIE_BOSS_HEK': { name: 'Councilor Vay Hek', faction: 'Grineer' },
+  'SORTIE_BOSS_KRIL': { name: 'Lieutenant Lech Kril', faction: 'Grineer' },
+  'SORTIE_BOSS_TYL': { name: 'Tyl Regor', faction: 'Grineer' },
+  'SORTIE_BOSS_JACKAL': { name: 'Jackal', faction: 'Corpus' },
+  'SORTIE_BOSS_ALAD': { name: 'Alad V', faction: 'Corpus' },
+  'SORTIE_BOSS_AMBULAS': { name: 'Ambulas', faction: 'Corpus' },
+  'SORTIE_BOSS_NEF': { name: 'Nef Anyo', faction: 'Corpus' },
+  'SORTIE_BOSS_RAPTOR': { name: 'Raptors', faction: 'Corpus' },
+  'SORTIE_BOSS_PHORID': { name: 'Phorid', faction: 'Infested' },
+  'SORTIE_BOSS_LEPHANTIS': { name: 'Lephantis', faction: 'Infested' },
+  'SORTIE_BOSS_INFALAD': { name: 'Mutalist Alad V', faction: 'Infested' },
+  'SORTIE_BOSS_CORRUPTED_VOR': { name: 'Corrupted Vor', faction: 'Corrupted' },
+  'SORTIE_BOSS_AMAR': { name: 'Archon Amar', faction: 'Narmer' },
+  'SORTIE_BOSS_NIRA': { name: 'Archon Nira', faction: 'Narmer' },
+  'SORTIE_BOSS_BOREAL': { name: 'Archon Boreal', faction: 'Narmer' }
+};
+
+// Archon Shard dropped by each Archon
+const ARCHON_SHARDS: Record<string, string> = {
+  'SORTIE_BOSS_AMAR': 'Crimson Archon Shard',
+  'SORTIE_BOSS_NIRA': 'Amber Archon Shard',
+  'SORTIE_BOSS_BOREAL': 'Azure Archon Shard'
+};
+
+// Sortie modifier names
+const SORTIE_MODIFIERS: Record<string, string> = {
+  'SORTIE_MODIFIER_LOW_ENERGY': 'Energy Reduction',
+  'SORTIE_MODIFIER_IMPACT': 'Enemy Physical Enhancement: Impact',
+  'SORTIE_MODIFIER_SLASH': 'Enemy Physical Enhancement: Slash',
+  'SORTIE_MODIFIER_PUNCTURE': 'Enemy Physical Enhancement: Puncture',
+  'SORTIE_MODIFIER_EXIMUS': 'Eximus Stronghold',
+  'SORTIE_MODIFIER_MAGNETIC': 'Enemy Elemental Enhancement: Magnetic',
+  'SORTIE_MODIFIER_CORROSIVE': 'Enemy Elemental Enhancement: Corrosive',
+  'SORTIE_MODIFIER_VIRAL': 'Enemy Elemental Enhancement: Viral',
+  'SORTIE_MODIFIER_ELECTRICITY': 'Enemy Elemental Enhancement: Electricity',
+  'SORTIE_MODIFIER_RADIATION': 'Enemy Elemental Enhancement: Radiation',
+  'SORTIE_MODIFIER_GAS': 'Enemy Elemental Enhancement: Gas',
+  'SORTIE_MODIFIER_FIRE': 'Enemy Elemental Enhancement: Heat',
+  'SORTIE_MODIFIER_EXPLOSION': 'Enemy Elemental Enhancement: Blast',
+  'SORTIE_MODIFIER_FREEZE': 'Enemy Elemental Enhancement: Cold',
+  'SORTIE_MODIFIER_TOXIN': 'Enemy Elemental Enhancement: Toxin',
+  'SORTIE_MODIFIER_POISON': 'Enemy Elemental Enhancement: Toxin',
+  'SORTIE_MODIFIER_HAZARD_RADIATION': 'Environmental Hazard: Radiation Pockets',
+  'SORTIE_MODIFIER_HAZARD_MAGNETIC': 'Environmental Hazard: Electromagnetic Anomalies',
+  'SORTIE_MODIFIER_HAZARD_FOG': 'Environmental Hazard: Dense Fog',
+  'SORTIE_MODIFIER_HAZARD_FIRE': 'Environmental Hazard: Fire',
+  'SORTIE_MODIFIER_HAZARD_ICE': 'Environmental Hazard: Cryogenic Leakage',
+  'SORTIE_MODIFIER_HAZARD_COLD': 'Environmental Effect: Extreme Cold',
+  'SORTIE_MODIFIER_ARMOR': 'Augmented Enemy Armor',
+  'SORTIE_MODIFIER_SHIELDS': 'Enhanced Enemy Shields',
+  'SORTIE_MODIFIER_SECONDARY_ONLY': 'Weapon Restriction: Pistol Only',
+  'SORTIE_MODIFIER_SHOTGUN_ONLY': 'Weapon Restriction: Shotgun Only',
+  'SORTIE_MODIFIER_SNIPER_ONLY': 'Weapon Restriction: Sniper Only',
+  'SORTIE_MODIFIER_RIFLE_ONLY': 'Weapon Restriction: Assault Rifle Only',
+  'SORTIE_MODIFIER_MELEE_ONLY': 'Weapon Restriction: Melee Only',
+  'SORTIE_MODIFIER_BOW_ONLY': 'Weapon Restriction: Bow Only'
+};
+
+// Global state
+let isServiceRunning = false;
+
+// Turn an unmapped key like SORTIE_MODIFIER_NEW_THING into "New Thing"
+function prettifyKey(key: string, prefix: string): string {
+  return key
+    .replace(prefix, '')
+    .toLowerCase()
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// Resolve a node to "Node (Planet)" and its mission type using ExportRegions
+export function resolveNode(node: string, missionType?: string): { location: string; mission: string } {
+  const regions = getDictionary('ExportRegions.json') as Record<string, RegionInfo> | null;
+  const missionTypes = getDictionary('ExportMissionTypes.json') as Record<string, { name: string }> | null;
+  const region = regions?.[node];
+
+  const location = region
+    ? `${getLocalizedName(region.name, node)} (${getLocalizedName(region.systemName, 'Unknown')})`
+    : node;
+
+  // Prefer the mission type from the world state, since sortie missions can differ from the node default
+  const missionKey = missionType || region?.missionType;
+  const missionPath = missionKey ? missionTypes?.[missionKey]?.name : region?.missionName;
+  const mission = missionPath
+    ? getLocalizedName(missionPath, prettifyKey(missionKey || '', 'MT_'))
+    : prettifyKey(missionKey || 'Unknown', 'MT_');
+
+  return { location, mission };
+}
+
+export function getBossName(boss: string): string {
+  return SORTIE_BOSSES[boss]?.name || prettifyKey(boss, 'SORTIE_BOSS_');
+}
+
+export function getModifierName(modifier: string): string {
+  return SORTIE_MODIFIERS[modifier] || prettifyKey(modifier, 'SORTIE_MODIFIER_');
+}
+
+// Create the daily Sortie embed
+export function createSortieEmbed(sortie: Sortie): EmbedBuilder {
+  const boss = SORTIE_BOSSES[sortie.Boss];
+  const expiry = Math.floor(parseWorldStateDate(sortie.Expiry) / 1000);
+
+  const fields = sortie.Variants.map((variant, index) => {
+    const { location, mission } = resolveNode(variant.node, variant.missionType);
+    return {
+      name: `${index + 1}. ${mission} - ${location}`,
+      value: getModifierName(variant.modifierType),
+      inline: false
+    };
+  });
+
+  return createEmbed({
+    type: 'info',
+    title: 'Daily Sortie',
+    description: `**Boss:** ${getBossName(sortie.Boss)}${boss ? ` (${boss.faction})` : ''}\n**Resets:** <t:${expiry}:R> (<t:${expiry}:F>)`,
+    fields,
+    footer: 'Sorties reset daily at 16:00 UTC',
+    timestamp: true
+  });
+}
+
+// Create the weekly Archon Hunt embed
+export function createArchonHuntEmbed(hunt: ArchonHunt): EmbedBuilder {
+  const expiry = Math.floor(parseWorldStateDate(hunt.Expiry) / 1000);
+  const shard = ARCHON_SHARDS[hunt.Boss];
+
+  const fields = hunt.Missions.map((huntMission, index) => {
+    const { location, mission } = resolveNode(huntMission.node, huntMission.missionType);
+    return {
+      name: `${index + 1}. ${mission}`,
+      value: location,
+      inline: false
+    };
+  });
+
+  return createEmbed({
+    type: 'info',
+    title: 'Weekly Archon Hunt',
+    description: `**Archon:** ${getBossName(hunt.Boss)}${shard ? `\n**Reward:** ${shard}` : ''}\n**Resets:** <t:${expiry}:R> (<t:${expiry}:F>)`,
+    fields,
+    footer: 'Archon Hunts reset every Monday at 00:00 UTC',
+    timestamp: true
+  });
+}
+
+// Build the embed for the given kind from the current world state
+async function createEmbedForKind(kind: SortieKind): Promise<EmbedBuilder | null> {
+  const worldState = await getWorldState();
+
+  if (kind === 'sortie') {
+    const sortie = worldState.Sorties?.[0];
+    return sortie ? createSortieEmbed(sortie) : null;
+  }
+
+  const hunt = worldState.LiteSorties?.[0];
+  return hunt ? createArchonHuntEmbed(hunt) : null;
+}
+
+// Initialize the Sortie and Archon Hunt service
+export function startSortieService(client: Client): void {
+  if (isServiceRunning) {
+    serviceLogger.debug('Sortie service is already running');
+    return;
+  }
+
+  serviceLogger.info('Starting Sortie and Archon Hunt notification service');
+  isServiceRunning = true;
+
+  // Resets are detected by the shared world state poller
+  worldStateEvents.on('sortieReset', () => updateAllMessages(client, 'sortie', true));
+  worldStateEvents.on('archonHuntReset', () => updateAllMessages(client, 'archon', true));
+
+  // Refresh existing messages on startup without pinging
+  updateAllMessages(client, 'sortie', false);
+  updateAllMessages(client, 'archon', false);
+}
+
+// Manually trigger an update (used for immediate posting after setup)
+export function triggerSortieUpdate(client: Client, kind: SortieKind): void {
+  serviceLogger.info(`Manually triggering ${kind} update`);
+  updateAllMessages(client, kind, false);
+}
+
+// Update all configured channels with the latest Sortie or Archon Hunt
+async function updateAllMessages(client: Client, kind: SortieKind, pingRole: boolean): Promise<void> {
+  const label = kind === 'sortie' ? 'Sortie' : 'Archon Hunt';
+
+  try {
+    // Get all configured channels
+    const notifications: SortieNotification[] = kind === 'sortie'
+      ? await pgdb.getSortieNotifications()
+      : await pgdb.getArchonNotifications();
+
+    if (notifications.length === 0) {
+      serviceLogger.info(`No channels configured for ${label} notifications`);
+      return;
+    }
+
+    const embed = await createEmbedForKind(kind);
+    if (!embed) {
+      serviceLogger.warn(`No ${label} found in world state, skipping update`);
+      return;
+    }
+
+    serviceLogger.info(`Updating ${label} messages for ${notifications.length} channels`);
+
+    for (const config of notifications) {
+      try {
+        // Get the guild
+        const guild = client.guilds.cache.get(config.guild_id);
+        if (!guild) {
+          serviceLogger.warn(`Guild ${config.guild_id} not found, skipping update`);
+          continue;
+        }
+
+        // Get the channel
+        const channel = await guild.channels.fetch(config.channel_id).catch((): null => null);
+        if (!channel || !(channel instanceof TextChannel)) {
+          serviceLogger.warn(`Channel ${config.channel_id} in guild ${config.guild_id} not found or not a text channel`);
+          continue;
+        }
+
+        // Try to update the existing message first
+        let updated = false;
+        if (config.message_id) {
+          try {
+            const message = await channel.messages.fetch(config.message_id);
+            await message.edit({
+              content: null, // Remove any existing content/ping
+              embeds: [embed]
+            });
+            updated = true;
+            serviceLogger.info(`Updated ${label} message in channel ${channel.name} (${channel.id})`);
+          } catch (messageError) {
+            serviceLogger.warn(`Could not find existing ${label} message (${config.message_id}) in channel ${channel.name}, sending new message instead`);
+          }
+        }
+
+        if (!updated) {
+          const newMessage = await channel.send({ embeds: [embed] });
+
+          if (kind === 'sortie') {
+            await pgdb.updateSortieMessageId(config.id, newMessage.id);
+          } else {
+            await pgdb.updateArchonMessageId(config.id, newMessage.id);
+          }
+
+          serviceLogger.info(`Sent new ${label} message to channel ${channel.name} (${channel.id}) with message ID ${newMessage.id}`);
+        }
+
+        // Ping the role at reset with a separate message, since edits with pings don't notify users
+        if (pingRole && config.role_id) {
+          const pingMessage = await channel.send(`<@&${config.role_id}> A new ${label} is available! Check the details above.`);
+          serviceLogger.info(`Sent ping message for role ${config.role_id} in channel ${channel.name}`);
+
+          // Delete the ping message after 10 seconds to avoid cluttering the channel
+          setTimeout(async () => {
+            try {
+              await pingMessage.delete();
+              serviceLogger.debug(`Deleted ping message in channel ${channel.name}`);
+            } catch (deleteError) {
+              serviceLogger.warn(`Failed to delete ping message: ${deleteError}`);
+            }
+          }, 10000); // 10 seconds
+        }
+      } catch (channelError) {
+        serviceLogger.error(`Error updating ${label} message for channel ${config.channel_id}:`, channelError);
+      }
+    }
+  } catch (error) {
+    serviceLogger.error(`Error updating all ${label} messages:`, error);
+  }
+}
@@ -0,0 +1,252 @@
+import { Client, TextChannel, EmbedBuilder } from 'discord.js';
+import { logger } from '../utils/logger';
+import { pgdb } from './postgresDatabase';
+import { createEmbed } from '../utils/embedBuilder';
+
+// Get environment variable for logging
+const ENABLE_SERVICE_LOGS = process.env.ENABLE_TESHIN_SERVICE_LOGS === 'true';
+
+// Custom logger that respects the service logging setting
+const serviceLogger = {
+  debug: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.debug(`[Teshin] ${message}`, ...args);
+    }
+  },
+  info: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.info(`[Teshin] ${message}`, ...args);
+    }
+  },
+  // Always log warnings and errors
+  warn: (message: string, ...args: any[]) => {
+    logger.warn(`[Teshin] ${message}`, ...args);
+  },
+  error: (message: string, ...args: any[]) => {
+    logger.error(`[Teshin] ${message}`, ...args);
+  }
+};
+
+// Interfaces
+export interface TeshinOffering {
+  name: string;
+  cost: number;
+}
+
+export interface TeshinRotation {
+  offering: TeshinOffering;
+  start: number;
+  expiry: number;
+}
+
+// Weekly rotating Steel Path Honors offering, in rotation order
+const ROTATING_OFFERINGS: TeshinOffering[] = [
+  { name: 'Umbra Forma Blueprint', cost: 150 },
+  { name: '50,000 Kuva', cost: 55 },
+  { name: 'Kitgun Riven Mod', cost: 75 },
+  { name: '3x Forma', cost: 75 },
+  { name: 'Zaw Riven Mod', cost: 75 },
+  { name: '30,000 Endo', cost: 150 },
+  { name: 'Rifle Riven Mod', cost: 75 },
+  { name: 'Shotgun Riven Mod', cost: 75 }
+];
+
+// Offerings that are always available alongside the weekly one
+export const EVERGREEN_OFFERINGS: TeshinOffering[] = [
+  { name: 'Bishamo Pauldrons Blueprint', cost: 15 },
+  { name: 'Bishamo Cuirass Blueprint', cost: 25 },
+  { name: 'Bishamo Helmet Blueprint', cost: 20 },
+  { name: 'Bishamo Greaves Blueprint', cost: 25 },
+  { name: '10,000 Kuva', cost: 15 },
+  { name: 'Relic Pack', cost: 15 },
+  { name: 'Stance Forma Blueprint', cost: 10 },
+  { name: 'Trio Orbit Ephemera', cost: 3 },
+  { name: 'Veiled Riven Cipher', cost: 20 }
+];
+
+// The rotation started with the Umbra Forma Blueprint on Monday 2020-11-16 00:00 UTC
+const ROTATION_START = Date.UTC(2020, 10, 16) / 1000;
+const WEEK_SECONDS = 7 * 24 * 60 * 60;
+
+// Wait a minute past the reset before refreshing so clocks that are slightly behind still see the new week
+const RESET_GRACE_MS = 60 * 1000;
+
+// Global state
+let isServiceRunning = false;
+let resetTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Get the Steel Path Honors rotation active at a point in time
+ * @param atSec Unix timestamp in seconds, defaults to now
+ */
+export function getTeshinRotation(atSec: number = Math.floor(Date.now() / 1000)): TeshinRotation {
+  const weeks = Math.floor((atSec - ROTATION_START) / WEEK_SECONDS);
+  const index = ((weeks % ROTATING_OFFERINGS.length) + ROTATING_OFFERINGS.length) % ROTATING_OFFERINGS.length;
+  const start = ROTATION_START + weeks * WEEK_SECONDS;
+
+  return {
+    offering: ROTATING_OFFERINGS[index],
+    start,
+    expiry: start + WEEK_SECONDS
+  };
+}
+
+/**
+ * Get the rotations following the current one
+ * @param count Number of upcoming weeks, defaults to the rest of the cycle
+ */
+export function getUpcomingTeshinRotations(count: number = ROTATING_OFFERINGS.length - 1): TeshinRotation[] {
+  const current = getTeshinRotation();
+  const upcoming: TeshinRotation[] = [];
+
+  for (let i = 0; i < count; i++) {
+    upcoming.push(getTeshinRotation(current.expiry + i * WEEK_SECONDS));
+  }
+
+  return upcoming;
+}
+
+function formatOffering(offering: TeshinOffering): string {
+  return `**${offering.name}** - ${offering.cost} Steel Essence`;
+}
+
+// Create the Steel Path Honors embed
+export function createTeshinEmbed(): EmbedBuilder {
+  const current = getTeshinRotation();
+  const upcoming = getUpcomingTeshinRotations();
+
+  return createEmbed({
+    type: 'info',
+    title: 'Teshin - Steel Path Honors',
+    description: `${formatOffering(current.offering)}\n**Resets:** <t:${current.expiry}:F> (<t:${current.expiry}:R>)`,
+    fields: [
+      {
+        name: 'Upcoming',
+        value: upcoming.map(rotation => `<t:${rotation.start}:d> ${formatOffering(rotation.offering)}`).join('\n'),
+        inline: false
+      },
+      {
+        name: 'Always Available',
+        value: EVERGREEN_OFFERINGS.map(offering => `${offering.name} - ${offering.cost}`).join('\n'),
+        inline: false
+      }
+    ],
+    footer: 'Steel Path Honors rotate every Monday at 00:00 UTC',
+    timestamp: false
+  });
+}
+
+// Initialize the Teshin service
+export function startTeshinService(client: Client): void {
+  if (isServiceRunning) {
+    serviceLogger.debug('Teshin service is already running');
+    return;
+  }
+
+  serviceLogger.info('Starting Teshin Steel Path Honors notification service');
+  isServiceRunning = true;
+
+  // Refresh existing messages on startup without pinging
+  updateAllMessages(client, false);
+  scheduleNextReset(client);
+}
+
+// Manually trigger an update (used for immediate posting after setup)
+export function triggerTeshinUpdate(client: Client): void {
+  serviceLogger.info('Manually triggering Teshin update');
+  updateAllMessages(client, false);
+}
+
+// The rotation is fixed, so a timer at each weekly reset is all that's needed
+function scheduleNextReset(client: Client): void {
+  if (resetTimer) {
+    clearTimeout(resetTimer);
+  }
+
+  const delay = getTeshinRotation().expiry * 1000 - Date.now() + RESET_GRACE_MS;
+  serviceLogger.debug(`Next Steel Path Honors reset in ${Math.round(delay / 3600000)} hours`);
+
+  resetTimer = setTimeout(async () => {
+    serviceLogger.info('Steel Path Honors rotated, updating all messages');
+    await updateAllMessages(client, true);
+    scheduleNextReset(client);
+  }, delay);
+}
+
+// Update all configured channels with the current Steel Path Honors offering
+async function updateAllMessages(client: Client, pingRole: boolean): Promise<void> {
+  try {
+    // Get all configured channels
+    const notifications = await pgdb.getTeshinNotifications();
+
+    if (notifications.length === 0) {
+      serviceLogger.info('No channels configured for Teshin notifications');
+      return;
+    }
+
+    serviceLogger.info(`Updating Teshin messages for ${notifications.length} channels`);
+
+    const embed = createTeshinEmbed();
+    const offering = getTeshinRotation().offering;
+
+    for (const config of notifications) {
+      try {
+        // Get the guild
+        const guild = client.guilds.cache.get(config.guild_id);
+        if (!guild) {
+          serviceLogger.warn(`Guild ${config.guild_id} not found, skipping update`);
+          continue;
+        }
+
+        // Get the channel
+        const channel = await guild.channels.fetch(config.channel_id).catch((): null => null);
+        if (!channel || !(channel instanceof TextChannel)) {
+          serviceLogger.warn(`Channel ${config.channel_id} in guild ${config.guild_id} not found or not a text channel`);
+          continue;
+        }
+
+        // Try to update the existing message first
+        let updated = false;
+        if (config.message_id) {
+          try {
+            const message = await channel.messages.fetch(config.message_id);
+            await message.edit({
+              content: null, // Remove any existing content/ping
+              embeds: [embed]
+            });
+            updated = true;
+            serviceLogger.info(`Updated Teshin message in channel ${channel.name} (${channel.id})`);
+          } catch (messageError) {
+            serviceLogger.warn(`Could not find existing Teshin message (${config.message_id}) in channel ${channel.name}, sending new message instead`);
+          }
+        }
+
+        if (!updated) {
+          const newMessage = await channel.send({ embeds: [embed] });
+          await pgdb.updateTeshinMessageId(config.id, newMessage.id);
+          serviceLogger.info(`Sent new Teshin message to channel ${channel.name} (${channel.id}) with message ID ${newMessage.id}`);
+        }
+
+        // Ping the role at reset with a separate message, since edits with pings don't notify users
+        if (pingRole && config.role_id) {
+          const pingMessage = await channel.send(`<@&${config.role_id}> Teshin is now offering ${offering.name} for ${offering.cost} Steel Essence!`);
+          serviceLogger.info(`Sent ping message for role ${config.role_id} in channel ${channel.name}`);
+
+          // Delete the ping message after 10 seconds to avoid cluttering the channel
+          setTimeout(async () => {
+            try {
+              await pingMessage.delete();
+              serviceLogger.debug(`Deleted ping message in channel ${channel.name}`);
+            } catch (deleteError) {
+              serviceLogger.warn(`Failed to delete ping message: ${deleteError}`);
+            }
+          }, 10000); // 10 seconds
+        }
+      } catch (channelError) {
+        serviceLogger.error(`Error updating Teshin message for channel ${config.channel_id}:`, channelError);
+      }
+    }
+  } catch (error) {
+    serviceLogger.error('Error updating all Teshin messages:', error);
+  }
+}
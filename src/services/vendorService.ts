@@ -0,0 +1,145 @@
+import { getDictionary, getLocalizedName } from '../utils/dictionaryLoader';
+import { resolveRewardName } from './relicService';
+
+const MANIFEST_PREFIX = '/Lotus/Types/Game/VendorManifests/';
+
+// Manifests are named after what they sell, so give the well known vendors their in-game names
+const VENDOR_NAMES: Record<string, string> = {
+  'Hubs/TeshinHardModeVendorManifest': 'Teshin (Steel Path Honors)',
+  'Ostron/FishmongerVendorManifest': 'Fisher Hai-Luk',
+  'Ostron/ProspectorVendorManifest': 'Old Man Suumbaat',
+  'Solaris/FishmongerVendorManifest': 'The Business',
+  'Solaris/ProspectorVendorManifest': 'Smokefinger',
+  'Solaris/DebtTokenVendorManifest': 'Little Duck',
+  'Solaris/NightcapVendorManifest': 'Nightcap',
+  'Deimos/FishmongerVendorManifest': 'Daughter',
+  'Deimos/ProspectorVendorManifest': 'Father',
+  'Deimos/PetVendorManifest': 'Son',
+  'Deimos/HivemindTokenVendorManifest': 'Grandmother',
+  'Deimos/EntratiFragmentVendorProductsManifest': 'Mother',
+  'Deimos/OtakLastWishManifest': 'Otak',
+  'Zariman/ArchimedeanVendorManifest': 'Archimedean Yonta',
+  'Zariman/ZarimanWeaponsmithIncarnonShopManifest': 'Cavalero',
+  'EntratiLabs/EntratiLabVendorManifest': 'Bird 3',
+  'Kahl/ChipperVendorManifest': 'Chipper'
+};
+
+// Interfaces
+export interface VendorItem {
+  item: string;
+  quantity: number;
+  prices: string[];
+  alwaysOffered: boolean;
+  chance: number | null;
+  purchaseLimit: number | null;
+  durationHours: number | null;
+  rotatedWeekly: boolean;
+}
+
+export interface Vendor {
+  id: string;
+  name: string;
+  location: string;
+  isDynamic: boolean;
+  items: VendorItem[];
+}
+
+// Turn "Ostron/ConservationRewardsManifest" into "Conservation Rewards (Ostron)"
+function getVendorName(id: string): string {
+  if (VENDOR_NAMES[id]) {
+    return VENDOR_NAMES[id];
+  }
+
+  const [location, manifest] = id.split('/');
+  const name = manifest
+    .replace(/(Vendor)?(Products)?Manifest$/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+
+  return `${name} (${location})`;
+}
+
+function formatPrices(item: any): string[] {
+  const prices: string[] = [];
+
+  if (item.platinum) {
+    const { minValue, maxValue } = item.platinum;
+    prices.push(`${minValue === maxValue ? minValue : `${minValue}-${maxValue}`} Platinum`);
+  }
+  if (item.credits) {
+    prices.push(`${Number(item.credits).toLocaleString()} Credits`);
+  }
+  for (const price of item.itemPrices || []) {
+    prices.push(`${Number(price.ItemCount).toLocaleString()} ${getLocalizedName(price.ItemType)}`);
+  }
+  if (prices.length === 0 && item.numRandomItemPrices) {
+    prices.push('Random price');
+  }
+  if (item.syndicate?.minRank) {
+    prices.push(`Rank ${item.syndicate.minRank}+`);
+  }
+
+  return prices;
+}
+
+function describeVendor(id: string, manifest: any, recipes: Record<string, any>): Vendor {
+  return {
+    id,
+    name: getVendorName(id),
+    location: id.split('/')[0],
+    isDynamic: manifest.isDynamic === true,
+    items: (manifest.items || []).map((item: any): VendorItem => ({
+      item: resolveRewardName(item.storeItem, recipes),
+      quantity: item.quantity || 1,
+      prices: formatPrices(item),
+      alwaysOffered: item.alwaysOffered === true,
+      chance: typeof item.probability === 'number' ? item.probability * 100 : null,
+      purchaseLimit: item.purchaseLimit || null,
+      durationHours: item.durationHours || null,
+      rotatedWeekly: item.rotatedWeekly === true
+    }))
+  };
+}
+
+/**
+ * List every vendor with its display name, sorted by name
+ */
+export function listVendors(): Array<{ id: string; name: string }> {
+  const vendors = getDictionary('ExportVendors.json') || {};
+
+  return Object.keys(vendors)
+    .map(id => {
+      const shortId = id.replace(MANIFEST_PREFIX, '');
+      return { id: shortId, name: getVendorName(shortId) };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Vendors whose name or manifest contains the query
+ */
+export function searchVendors(query: string, limit = 25): Array<{ id: string; name: string }> {
+  const normalized = query.toLowerCase().trim();
+
+  return listVendors()
+    .filter(vendor => vendor.name.toLowerCase().includes(normalized) || vendor.id.toLowerCase().includes(normalized))
+    .slice(0, limit);
+}
+
+/**
+ * Look up a vendor by manifest id (e.g. "Ostron/FishmongerVendorManifest") or display name
+ */
+export function getVendor(query: string): Vendor | null {
+  const vendors = getDictionary('ExportVendors.json') || {};
+  const normalized = query.toLowerCase().trim();
+
+  const match = listVendors().find(vendor =>
+    vendor.id.toLowerCase() === normalized || vendor.name.toLowerCase() === normalized
+  ) || searchVendors(query, 1)[0];
+
+  if (!match) {
+    return null;
+  }
+
+  const recipes = getDictionary('ExportRecipes.json') || {};
+  return describeVendor(match.id, vendors[MANIFEST_PREFIX + match.id], recipes);
+}
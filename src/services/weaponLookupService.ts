@@ -259,6 +259,40 @@ class WeaponLookupService {
     }
   }
   
+  /**
+   * Get the ExportWeapons entry of a weapon by its internal path
+   */
+  public getWeaponData(internalPath: string): any {
+    return this.exportWeapons?.[internalPath] || null;
+  }
+
+  /**
+   * Get the English display name of a weapon by its internal path
+   */
+  public getDisplayName(internalPath: string): string | null {
+    const languageKey = this.exportWeapons?.[internalPath]?.name;
+    return (languageKey && this.dictionary?.[languageKey]) || null;
+  }
+
+  /**
+   * Get the weaponLookup entries sharing a display name, e.g. the parts of a kitgun
+   */
+  public getWeaponsByName(displayName: string): WeaponMapEntry[] {
+    return this.weaponLookup?.[displayName.toLowerCase()] || [];
+  }
+
+  /**
+   * Get the display name of every weapon in weaponLookup
+   */
+  public getWeaponNames(): string[] {
+    if (!this.weaponLookup) {
+      return [];
+    }
+    return Object.values(this.weaponLookup)
+      .filter(entries => entries.length > 0)
+      .map(entries => entries[0].displayName);
+  }
+
   /**
    * Determine the riven type based on weapon characteristics
    */
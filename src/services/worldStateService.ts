@@ -0,0 +1,360 @@
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+import { SERVICE_INTERVALS } from '../constants/time';
+import { WorldStateSource, createWorldStateSource } from './worldStateSource';
+import {
+  ActiveMission,
+  ArchonHunt,
+  Invasion,
+  SeasonChallenge,
+  SeasonInfo,
+  Sortie,
+  VoidTrader,
+  WarframeWorldState,
+  parseWorldStateDate
+} from '../types/warframe';
+
+// Get environment variable for logging
+const ENABLE_SERVICE_LOGS = process.env.ENABLE_WORLDSTATE_SERVICE_LOGS === 'true';
+
+// Custom logger that respects the service logging setting
+const serviceLogger = {
+  debug: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.debug(`[WorldState] ${message}`, ...args);
+    }
+  },
+  info: (message: string, ...args: any[]) => {
+    if (ENABLE_SERVICE_LOGS) {
+      logger.info(`[WorldState] ${message}`, ...args);
+    }
+  },
+  // Always log warnings and errors
+  warn: (message: string, ...args: any[]) => {
+    logger.warn(`[WorldState] ${message}`, ...args);
+  },
+  error: (message: string, ...args: any[]) => {
+    logger.error(`[WorldState] ${message}`, ...args);
+  }
+};
+
+/**
+ * Events emitted after each poll, with the listener arguments for each event
+ */
+export interface WorldStateEventMap {
+  snapshot: [state: WarframeWorldState, previous: WarframeWorldState | null];
+  fissureAdded: [mission: ActiveMission];
+  fissureExpired: [mission: ActiveMission];
+  fissuresChanged: [added: ActiveMission[], expired: ActiveMission[]];
+  baroArrived: [trader: VoidTrader];
+  baroDeparted: [trader: VoidTrader];
+  baroUpdated: [trader: VoidTrader];
+  sortieReset: [sortie: Sortie];
+  archonHuntReset: [hunt: ArchonHunt];
+  incarnonRotated: [choices: string[]];
+  nightwaveRotated: [added: SeasonChallenge[], season: SeasonInfo];
+  invasionsAdded: [added: Invasion[]];
+}
+
+/**
+ * EventEmitter with listener signatures checked against WorldStateEventMap
+ */
+class WorldStateEventBus extends EventEmitter {
+  on<K extends keyof WorldStateEventMap>(event: K, listener: (...args: WorldStateEventMap[K]) => void): this {
+    return super.on(event, listener as (...args: any[]) => void);
+  }
+
+  once<K extends keyof WorldStateEventMap>(event: K, listener: (...args: WorldStateEventMap[K]) => void): this {
+    return super.once(event, listener as (...args: any[]) => void);
+  }
+
+  off<K extends keyof WorldStateEventMap>(event: K, listener: (...args: WorldStateEventMap[K]) => void): this {
+    return super.off(event, listener as (...args: any[]) => void);
+  }
+
+  // Listeners are called one by one, so a listener that throws doesn't stop the others or the rest of the diff
+  emit<K extends keyof WorldStateEventMap>(event: K, ...args: WorldStateEventMap[K]): boolean {
+    const listeners = this.rawListeners(event);
+    for (const listener of listeners) {
+      try {
+        const result = listener(...args);
+        if (result instanceof Promise) {
+          result.catch(error => serviceLogger.error(`Error in ${event} listener:`, error));
+        }
+      } catch (error) {
+        serviceLogger.error(`Error in ${event} listener:`, error);
+      }
+    }
+    return listeners.length > 0;
+  }
+}
+
+// Event bus for world state changes
+export const worldStateEvents = new WorldStateEventBus();
+
+// Every notification service subscribes here, so lift the default listener cap
+worldStateEvents.setMaxListeners(50);
+
+// Global state
+let isServiceRunning = false;
+let source: WorldStateSource | null = null;
+let currentSnapshot: WarframeWorldState | null = null;
+let lastFetchTime = 0;
+let lastStateTime = 0; // Source clock at the last fetch
+let inFlightFetch: Promise<WarframeWorldState> | null = null;
+let errorCount = 0; // Track consecutive errors for backoff
+let pollTimer: NodeJS.Timeout | null = null;
+
+// Start polling the world state and emitting change events
+export function startWorldStateService(): void {
+  if (isServiceRunning) {
+    serviceLogger.debug('World state service is already running');
+    return;
+  }
+
+  logger.info('Starting world state service');
+  isServiceRunning = true;
+  poll();
+}
+
+// Stop polling (the cached snapshot stays available)
+export function stopWorldStateService(): void {
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+  isServiceRunning = false;
+}
+
+/**
+ * Get the current world state.
+ * Returns the cached snapshot if it is younger than maxAge, otherwise fetches a new one.
+ * Concurrent callers share a single request, and a stale snapshot is returned if the fetch fails.
+ */
+export async function getWorldState(maxAge: number = SERVICE_INTERVALS.WORLD_STATE_POLL): Promise<WarframeWorldState> {
+  if (currentSnapshot && Date.now() - lastFetchTime < maxAge) {
+    return currentSnapshot;
+  }
+
+  try {
+    return await refreshWorldState();
+  } catch (error) {
+    if (currentSnapshot) {
+      serviceLogger.warn('Fetch failed, serving cached world state');
+      return currentSnapshot;
+    }
+    throw error;
+  }
+}
+
+// Get the active world state source, creating it from config on first use
+export function getWorldStateSource(): WorldStateSource {
+  if (!source) {
+    source = createWorldStateSource();
+  }
+  return source;
+}
+
+// Replace the world state source and drop the cached snapshot
+export function setWorldStateSource(newSource: WorldStateSource): void {
+  source = newSource;
+  currentSnapshot = null;
+  lastFetchTime = 0;
+  lastStateTime = 0;
+}
+
+/**
+ * Current time according to the world state source.
+ * Compare world state timestamps against this instead of Date.now() so replayed snapshots behave as they did live.
+ */
+export function getWorldStateTime(): number {
+  return getWorldStateSource().now();
+}
+
+// Get the cached snapshot without fetching
+export function getCachedWorldState(): WarframeWorldState | null {
+  return currentSnapshot;
+}
+
+// Fetch a new snapshot, diff it against the previous one and emit events
+async function refreshWorldState(): Promise<WarframeWorldState> {
+  if (inFlightFetch) {
+    return inFlightFetch;
+  }
+
+  inFlightFetch = (async () => {
+    const state = await fetchWorldState();
+    const previous = currentSnapshot;
+    const previousTime = lastStateTime;
+
+    currentSnapshot = state;
+    lastFetchTime = Date.now();
+    lastStateTime = getWorldStateTime();
+
+    emitChanges(state, previous, previousTime);
+    return state;
+  })();
+
+  try {
+    return await inFlightFetch;
+  } finally {
+    inFlightFetch = null;
+  }
+}
+
+async function fetchWorldState(): Promise<WarframeWorldState> {
+  const worldStateSource = getWorldStateSource();
+  serviceLogger.debug(`Fetching world state from ${worldStateSource.name} source`);
+  return worldStateSource.fetch();
+}
+
+// Poll loop with exponential backoff on consecutive errors
+async function poll(): Promise<void> {
+  try {
+    await refreshWorldState();
+    errorCount = 0;
+  } catch (error) {
+    errorCount++;
+    serviceLogger.error(`Error fetching world state (error #${errorCount}):`, error);
+  }
+
+  if (!isServiceRunning) {
+    return;
+  }
+
+  const delay = errorCount === 0
+    ? SERVICE_INTERVALS.WORLD_STATE_POLL
+    : Math.min(SERVICE_INTERVALS.WORLD_STATE_POLL * 2 ** errorCount, SERVICE_INTERVALS.WORLD_STATE_MAX_BACKOFF);
+
+  if (errorCount > 0) {
+    serviceLogger.warn(`Backing off, next world state poll in ${Math.floor(delay / 1000)} seconds`);
+  }
+
+  pollTimer = setTimeout(() => poll(), delay);
+}
+
+// Compare two snapshots and emit typed events for everything that changed
+function emitChanges(state: WarframeWorldState, previous: WarframeWorldState | null, previousTime: number): void {
+  try {
+    worldStateEvents.emit('snapshot', state, previous);
+
+    // On the first snapshot there is nothing to diff against
+    if (!previous) {
+      return;
+    }
+
+    diffFissures(state, previous);
+    diffVoidTrader(state, previous, previousTime);
+
+    const sortie = state.Sorties?.[0];
+    if (sortie && sortie._id.$oid !== previous.Sorties?.[0]?._id.$oid) {
+      serviceLogger.info('Sortie reset detected');
+      worldStateEvents.emit('sortieReset', sortie);
+    }
+
+    const archonHunt = state.LiteSorties?.[0];
+    if (archonHunt && archonHunt._id.$oid !== previous.LiteSorties?.[0]?._id.$oid) {
+      serviceLogger.info('Archon Hunt reset detected');
+      worldStateEvents.emit('archonHuntReset', archonHunt);
+    }
+
+    diffNightwave(state, previous);
+    diffInvasions(state, previous);
+
+    const incarnonChoices = getNormalIncarnonChoices(state);
+    if (incarnonChoices.length > 0 && incarnonChoices.join(',') !== getNormalIncarnonChoices(previous).join(',')) {
+      serviceLogger.info('Incarnon rotation change detected');
+      worldStateEvents.emit('incarnonRotated', incarnonChoices);
+    }
+  } catch (error) {
+    // A malformed snapshot must not break the poll loop, listener errors are caught by the event bus
+    serviceLogger.error('Error emitting world state events:', error);
+  }
+}
+
+function diffFissures(state: WarframeWorldState, previous: WarframeWorldState): void {
+  const current = getFissureMissions(state);
+  const old = getFissureMissions(previous);
+
+  const currentIds = new Set(current.map(mission => mission._id.$oid));
+  const oldIds = new Set(old.map(mission => mission._id.$oid));
+
+  const added = current.filter(mission => !oldIds.has(mission._id.$oid));
+  const expired = old.filter(mission => !currentIds.has(mission._id.$oid));
+
+  if (added.length === 0 && expired.length === 0) {
+    return;
+  }
+
+  serviceLogger.info(`Fissures changed: ${added.length} added, ${expired.length} expired`);
+  added.forEach(mission => worldStateEvents.emit('fissureAdded', mission));
+  expired.forEach(mission => worldStateEvents.emit('fissureExpired', mission));
+  worldStateEvents.emit('fissuresChanged', added, expired);
+}
+
+function diffVoidTrader(state: WarframeWorldState, previous: WarframeWorldState, previousTime: number): void {
+  const trader = state.VoidTraders?.[0];
+  const oldTrader = previous.VoidTraders?.[0];
+  if (!trader) {
+    return;
+  }
+
+  const isSameCycle = !!oldTrader && oldTrader._id.$oid === trader._id.$oid;
+  const isActive = isTraderActive(trader, lastStateTime);
+  const wasActive = !!oldTrader && isTraderActive(oldTrader, previousTime);
+
+  if (isActive && !(wasActive && isSameCycle)) {
+    serviceLogger.info('Baro Ki\'Teer arrival detected');
+    worldStateEvents.emit('baroArrived', trader);
+  } else if (wasActive && !(isActive && isSameCycle)) {
+    serviceLogger.info('Baro Ki\'Teer departure detected');
+    worldStateEvents.emit('baroDeparted', oldTrader);
+  }
+
+  // Any change to the trader entry (new cycle, new dates or new manifest)
+  if (!isSameCycle ||
+      parseWorldStateDate(trader.Activation) !== parseWorldStateDate(oldTrader.Activation) ||
+      parseWorldStateDate(trader.Expiry) !== parseWorldStateDate(oldTrader.Expiry) ||
+      (trader.Manifest?.length ?? 0) !== (oldTrader.Manifest?.length ?? 0)) {
+    worldStateEvents.emit('baroUpdated', trader);
+  }
+}
+
+function diffNightwave(state: WarframeWorldState, previous: WarframeWorldState): void {
+  const season = state.SeasonInfo;
+  if (!season?.ActiveChallenges) {
+    return;
+  }
+
+  const oldIds = new Set((previous.SeasonInfo?.ActiveChallenges || []).map(challenge => challenge._id.$oid));
+  const added = season.ActiveChallenges.filter(challenge => !oldIds.has(challenge._id.$oid));
+
+  if (added.length > 0) {
+    serviceLogger.info(`Nightwave rotation detected: ${added.length} new acts`);
+    worldStateEvents.emit('nightwaveRotated', added, season);
+  }
+}
+
+function diffInvasions(state: WarframeWorldState, previous: WarframeWorldState): void {
+  const oldIds = new Set((previous.Invasions || []).map(invasion => invasion._id.$oid));
+  const added = (state.Invasions || []).filter(invasion => !invasion.Completed && !oldIds.has(invasion._id.$oid));
+
+  if (added.length > 0) {
+    serviceLogger.info(`Invasions changed: ${added.length} added`);
+    worldStateEvents.emit('invasionsAdded', added);
+  }
+}
+
+function isTraderActive(trader: VoidTrader, at: number): boolean {
+  return parseWorldStateDate(trader.Activation) <= at && parseWorldStateDate(trader.Expiry) > at;
+}
+
+// Filter the void fissure missions out of a snapshot
+export function getFissureMissions(state: WarframeWorldState): ActiveMission[] {
+  return (state.ActiveMissions || []).filter(mission => mission.Modifier && mission.Modifier.startsWith('VoidT'));
+}
+
+function getNormalIncarnonChoices(state: WarframeWorldState): string[] {
+  const category = state.EndlessXpChoices?.find(choice => choice.Category === 'EXC_NORMAL');
+  return category?.Choices ?? [];
+}
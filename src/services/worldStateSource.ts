@@ -0,0 +1,191 @@
+import axios from 'axios';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { WarframeWorldState } from '../types/warframe';
+
+/**
+ * Where world state snapshots come from.
+ * now() is the clock the snapshot should be evaluated against, so replayed
+ * snapshots see the same "current time" they were captured at.
+ */
+export interface WorldStateSource {
+  readonly name: string;
+  fetch(): Promise<WarframeWorldState>;
+  now(): number;
+}
+
+// Make sure a parsed snapshot looks like a world state
+function validateSnapshot(data: any, origin: string): WarframeWorldState {
+  if (!data || !Array.isArray(data.ActiveMissions)) {
+    throw new Error(`World state from ${origin} is missing ActiveMissions`);
+  }
+  return data as WarframeWorldState;
+}
+
+/**
+ * Live world state over HTTP, optionally recording every snapshot to a directory
+ */
+export class HttpWorldStateSource implements WorldStateSource {
+  readonly name = 'http';
+
+  constructor(private readonly url: string, private readonly recordDir?: string) {}
+
+  async fetch(): Promise<WarframeWorldState> {
+    const response = await axios.get(this.url, {
+      timeout: 10000,
+      headers: {
+        'User-Agent': 'WardenPrimeBot/1.0.0'
+      }
+    });
+
+    const state = validateSnapshot(response.data, this.url);
+
+    if (this.recordDir) {
+      await this.record(state);
+    }
+
+    return state;
+  }
+
+  now(): number {
+    return Date.now();
+  }
+
+  // Save the snapshot as <timestamp>.json so it can be replayed later
+  private async record(state: WarframeWorldState): Promise<void> {
+    try {
+      await fs.promises.mkdir(this.recordDir, { recursive: true });
+      const filePath = path.join(this.recordDir, `${Date.now()}.json`);
+      await fs.promises.writeFile(filePath, JSON.stringify(state));
+    } catch (error) {
+      logger.warn(`Failed to record world state snapshot to ${this.recordDir}:`, error);
+    }
+  }
+}
+
+/**
+ * A single world state file, re-read on every fetch so it can be edited while the bot runs.
+ * The clock is the snapshot's own Time, so a captured file is evaluated as it was when captured.
+ */
+export class FileWorldStateSource implements WorldStateSource {
+  readonly name = 'file';
+
+  private snapshotTime: number | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  async fetch(): Promise<WarframeWorldState> {
+    const content = await fs.promises.readFile(this.filePath, 'utf8');
+    const state = validateSnapshot(JSON.parse(content), this.filePath);
+    this.snapshotTime = typeof state.Time === 'number' ? state.Time * 1000 : null;
+    return state;
+  }
+
+  now(): number {
+    return this.snapshotTime ?? Date.now();
+  }
+}
+
+interface ReplayEntry {
+  time: number;
+  filePath: string;
+}
+
+/**
+ * A directory of timestamped snapshots replayed on a virtual clock.
+ * Files are named by capture time (unix seconds or milliseconds, e.g. 1718000000000.json).
+ * The clock starts at the first snapshot and advances at the configured speed.
+ */
+export class ReplayWorldStateSource implements WorldStateSource {
+  readonly name = 'replay';
+
+  private entries: ReplayEntry[] | null = null;
+  private replayStart = 0;
+  private realStart = 0;
+  private hasReportedEnd = false;
+
+  constructor(private readonly directory: string, private readonly speed: number = 1) {}
+
+  async fetch(): Promise<WarframeWorldState> {
+    const entries = await this.loadEntries();
+    const now = this.now();
+
+    // Latest snapshot captured at or before the replay clock
+    let current = entries[0];
+    for (const entry of entries) {
+      if (entry.time > now) {
+        break;
+      }
+      current = entry;
+    }
+
+    if (current === entries[entries.length - 1] && !this.hasReportedEnd) {
+      logger.info(`World state replay reached the last snapshot (${path.basename(current.filePath)})`);
+      this.hasReportedEnd = true;
+    }
+
+    const content = await fs.promises.readFile(current.filePath, 'utf8');
+    return validateSnapshot(JSON.parse(content), current.filePath);
+  }
+
+  now(): number {
+    if (!this.realStart) {
+      return Date.now();
+    }
+    return this.replayStart + (Date.now() - this.realStart) * this.speed;
+  }
+
+  private async loadEntries(): Promise<ReplayEntry[]> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    const files = await fs.promises.readdir(this.directory);
+    const entries = files
+      .filter(file => file.endsWith('.json'))
+      .map(file => ({ time: parseSnapshotTime(file), filePath: path.join(this.directory, file) }))
+      .filter(entry => !isNaN(entry.time))
+      .sort((a, b) => a.time - b.time);
+
+    if (entries.length === 0) {
+      throw new Error(`No timestamped world state snapshots found in ${this.directory}`);
+    }
+
+    this.entries = entries;
+    this.replayStart = entries[0].time;
+    this.realStart = Date.now();
+    logger.info(`Replaying ${entries.length} world state snapshots from ${this.directory} at ${this.speed}x speed`);
+
+    return entries;
+  }
+}
+
+// Parse the capture time from a snapshot filename (seconds are converted to milliseconds)
+function parseSnapshotTime(fileName: string): number {
+  const match = path.basename(fileName, '.json').match(/^(\d+)/);
+  if (!match) {
+    return NaN;
+  }
+  const value = parseInt(match[1]);
+  return match[1].length <= 10 ? value * 1000 : value;
+}
+
+/**
+ * Create the world state source selected by WORLD_STATE_SOURCE
+ */
+export function createWorldStateSource(): WorldStateSource {
+  switch (config.WORLD_STATE_SOURCE) {
+    case 'file':
+      logger.info(`Using world state file ${config.WORLD_STATE_PATH}`);
+      return new FileWorldStateSource(config.WORLD_STATE_PATH);
+    case 'replay':
+      return new ReplayWorldStateSource(config.WORLD_STATE_PATH, config.WORLD_STATE_REPLAY_SPEED);
+    case 'http':
+      return new HttpWorldStateSource(config.WORLD_STATE_URL, config.WORLD_STATE_RECORD_DIR || undefined);
+    default:
+      logger.warn(`Unknown world state source: ${config.WORLD_STATE_SOURCE}, falling back to http`);
+      return new HttpWorldStateSource(config.WORLD_STATE_URL, config.WORLD_STATE_RECORD_DIR || undefined);
+  }
+}
@@ -6,6 +6,7 @@ import {
   ClientEvents,
   AutocompleteInteraction
 } from 'discord.js';
+import { AutocompleteSource } from '../utils/autocomplete';
 
 declare module 'discord.js' {
   export interface Client {
@@ -18,6 +19,7 @@ export interface Command {
   execute: (interaction: ChatInputCommandInteraction) => Promise<void>;
   cooldown?: number; // Cooldown in seconds
   autocomplete?: (interaction: AutocompleteInteraction) => Promise<void>; // Autocomplete handler
+  autocompleteOptions?: Record<string, AutocompleteSource>; // Options answered by the shared autocomplete, by option name
 }
 
 export interface Event<K extends keyof ClientEvents> {
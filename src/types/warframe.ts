@@ -28,7 +28,15 @@ export interface ActiveMission {
 }
 
 export interface WarframeWorldState {
+  Time?: number; // Unix seconds the snapshot was generated
   ActiveMissions: ActiveMission[];
+  VoidTraders?: VoidTrader[];
+  Sorties?: Sortie[];
+  LiteSorties?: ArchonHunt[];
+  SyndicateMissions?: SyndicateMission[];
+  EndlessXpChoices?: Array<{ Category: string; Choices: string[] }>;
+  SeasonInfo?: SeasonInfo;
+  Invasions?: Invasion[];
   [key: string]: any;
 }
 
@@ -59,3 +67,135 @@ export function getExpiryTimestamp(mission: ActiveMission): number {
   }
   return 0;
 }
+
+/**
+ * MongoDB-style date as it appears in the world state
+ */
+export interface WorldStateDate {
+  $date: { $numberLong: string };
+}
+
+export interface VoidTraderManifestEntry {
+  ItemType: string;
+  PrimePrice: number;
+  RegularPrice: number;
+}
+
+export interface VoidTrader {
+  _id: { $oid: string };
+  Activation: WorldStateDate;
+  Expiry: WorldStateDate;
+  Character: string;
+  Node: string;
+  Manifest?: VoidTraderManifestEntry[];
+}
+
+export interface SortieVariant {
+  missionType: string;
+  modifierType: string;
+  node: string;
+  tileset?: string;
+}
+
+export interface Sortie {
+  _id: { $oid: string };
+  Activation: WorldStateDate;
+  Expiry: WorldStateDate;
+  Reward?: string;
+  Seed?: number;
+  Boss: string;
+  ExtraDrops?: string[];
+  Variants: SortieVariant[];
+  Twitter?: boolean;
+}
+
+export interface ArchonHuntMission {
+  missionType: string;
+  node: string;
+}
+
+export interface ArchonHunt {
+  _id: { $oid: string };
+  Activation: WorldStateDate;
+  Expiry: WorldStateDate;
+  Reward?: string;
+  Seed?: number;
+  Boss: string;
+  Missions: ArchonHuntMission[];
+}
+
+export interface SyndicateMission {
+  _id: { $oid: string };
+  Activation: WorldStateDate;
+  Expiry: WorldStateDate;
+  Tag: string;
+  Seed?: number;
+  Nodes?: string[];
+  Jobs?: SyndicateJob[];
+}
+
+export interface SyndicateJob {
+  jobType?: string;
+  rewards: string;
+  masteryReq: number;
+  minEnemyLevel: number;
+  maxEnemyLevel: number;
+  xpAmounts: number[];
+  endless?: boolean;
+  isVault?: boolean;
+  locationTag?: string;
+}
+
+export interface InvasionReward {
+  countedItems?: Array<{ ItemType: string; ItemCount: number }>;
+  credits?: number;
+}
+
+export interface Invasion {
+  _id: { $oid: string };
+  Faction: string;
+  DefenderFaction: string;
+  Node: string;
+  Count: number;
+  Goal: number;
+  LocTag?: string;
+  Completed: boolean;
+  ChainID?: { $oid: string };
+  // Sides without a reward (the Infested) have an empty array instead
+  AttackerReward: InvasionReward | InvasionReward[];
+  AttackerMissionInfo?: { seed: number; faction: string };
+  DefenderReward: InvasionReward | InvasionReward[];
+  DefenderMissionInfo?: { seed: number; faction: string };
+  Activation: WorldStateDate;
+}
+
+export interface SeasonChallenge {
+  _id: { $oid: string };
+  Daily?: boolean;
+  Activation: WorldStateDate;
+  Expiry: WorldStateDate;
+  Challenge: string;
+}
+
+export interface SeasonInfo {
+  Activation: WorldStateDate;
+  Expiry: WorldStateDate;
+  AffiliationTag: string;
+  Season: number;
+  Phase: number;
+  Params?: string;
+  ActiveChallenges: SeasonChallenge[];
+}
+
+/**
+ * Helper function to convert a world state date into a millisecond timestamp
+ */
+export function parseWorldStateDate(date: WorldStateDate | string | undefined): number {
+  if (!date) {
+    return 0;
+  }
+  if (typeof date === 'string') {
+    return new Date(date).getTime();
+  }
+  return parseInt(date.$date.$numberLong);
+}
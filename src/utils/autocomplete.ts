@@ -0,0 +1,206 @@
+import { AutocompleteInteraction, ApplicationCommandOptionChoiceData, ChatInputCommandInteraction } from 'discord.js';
+import { logger } from './logger';
+import { dictionaryEvents, getDictionary, getLanguageDictionary, getLocalizedName, initializeDictionaries } from './dictionaryLoader';
+import { weaponLookupService } from '../services/weaponLookupService';
+import { getRelicNames, getRelicRewardNames } from '../services/relicService';
+import { getCraftableNames } from '../services/recipeService';
+import { getDropItemNames } from '../services/dropService';
+import { pgdb } from '../services/postgresDatabase';
+
+/**
+ * Shared autocomplete for options naming game data. Commands map their option
+ * names to a source with `autocompleteOptions`, interactionCreate answers those
+ * options here and records the picked values, so popular choices rank first.
+ */
+
+export type AutocompleteSource = 'weapon' | 'node' | 'relic' | 'relic_reward' | 'craftable' | 'drop';
+
+interface Candidate {
+  value: string; // English name, what the command receives
+  languageKey?: string; // Key into the language dictionaries for localized names
+  missionType?: string; // Lowercase mission type of a node
+}
+
+// Discord limit for choices
+const MAX_CHOICES = 25;
+
+// Untranslated mission names of the Zariman missions
+const SPECIAL_MISSION_TYPES: Record<string, string> = {
+  VoidCascade: 'void cascade',
+  Corruption: 'void flood',
+  Armageddon: 'void armageddon'
+};
+
+// Global state
+const candidateCache = new Map<AutocompleteSource, Candidate[]>();
+let usageCounts: Map<string, number> | null = null;
+let usageLoading: Promise<void> | null = null;
+let isListening = false;
+
+function usageKey(source: AutocompleteSource, value: string): string {
+  return `${source}:${value.toLowerCase()}`;
+}
+
+function getMissionType(missionName: string): string {
+  const missionType = getLocalizedName(missionName, missionName).split('_').pop();
+  return SPECIAL_MISSION_TYPES[missionType] || missionType.toLowerCase();
+}
+
+function buildCandidates(source: AutocompleteSource): Candidate[] {
+  switch (source) {
+    case 'weapon':
+      return weaponLookupService.getWeaponNames().map(name => {
+        const entry = weaponLookupService.getWeaponsByName(name)[0];
+        return { value: name, languageKey: weaponLookupService.getWeaponData(entry?.internalPath)?.name };
+      });
+    case 'node': {
+      const regions = getDictionary('ExportRegions.json') || {};
+      const nodes = new Map<string, Candidate>();
+      for (const region of Object.values(regions) as Array<{ name?: string, missionName?: string }>) {
+        if (region.name) {
+          const value = getLocalizedName(region.name, region.name);
+          nodes.set(value, {
+            value,
+            languageKey: region.name,
+            missionType: region.missionName ? getMissionType(region.missionName) : undefined
+          });
+        }
+      }
+      return [...nodes.values()];
+    }
+    case 'relic':
+      return getRelicNames().map(name => ({ value: name }));
+    case 'relic_reward':
+      return getRelicRewardNames().map(name => ({ value: name }));
+    case 'craftable':
+      return getCraftableNames().map(name => ({ value: name }));
+    case 'drop':
+      return getDropItemNames().map(name => ({ value: name }));
+  }
+}
+
+function getCandidates(source: AutocompleteSource): Candidate[] {
+  if (!isListening) {
+    isListening = true;
+    // Names change with the dictionaries, rebuild them on next use
+    dictionaryEvents.on('dictionaryUpdated', () => candidateCache.clear());
+  }
+
+  if (!candidateCache.has(source)) {
+    candidateCache.set(source, buildCandidates(source));
+  }
+  return candidateCache.get(source);
+}
+
+// Load the usage counts once, autocomplete works without them until then
+function loadUsageCounts(): Promise<void> {
+  if (!usageLoading) {
+    usageLoading = pgdb.getAutocompleteUsage()
+      .then(rows => {
+        usageCounts = new Map(rows.map(row => [usageKey(row.source, row.value), row.uses]));
+      })
+      .catch(error => {
+        logger.error('Error loading autocomplete usage:', error);
+        usageCounts = new Map();
+      });
+  }
+  return usageLoading;
+}
+
+/**
+ * Score how well a lowercase query matches a lowercase name, 0 for no match.
+ * Prefix matches rank above word prefix matches, then substrings, then the
+ * letters of the query appearing in order (e.g. "kbram" for "kuva bramma").
+ */
+export function fuzzyScore(query: string, name: string): number {
+  if (name === query) return 100;
+  if (name.startsWith(query)) return 80;
+  if (name.split(/[\s-]+/).some(word => word.startsWith(query))) return 60;
+  if (name.includes(query)) return 40;
+
+  // Subsequence match, consecutive letters score higher
+  let position = -1;
+  let consecutive = 0;
+  for (const char of query) {
+    const next = name.indexOf(char, position + 1);
+    if (next === -1) return 0;
+    if (next === position + 1) consecutive++;
+    position = next;
+  }
+  return 10 + Math.round(10 * consecutive / query.length);
+}
+
+/**
+ * Choices for a query, best matches first and the most picked first among equal matches.
+ * With a language dictionary for the locale, localized names are shown and matched too.
+ *
+ * @param missionType Only offer nodes of this mission type, e.g. "Survival"
+ */
+export function getAutocompleteChoices(
+  source: AutocompleteSource,
+  query: string,
+  options: { locale?: string, missionType?: string } = {}
+): ApplicationCommandOptionChoiceData<string>[] {
+  const search = query.toLowerCase().trim();
+  const languageDict = options.locale ? getLanguageDictionary(options.locale) : null;
+  const missionType = options.missionType?.toLowerCase();
+
+  return getCandidates(source)
+    .filter(candidate => !missionType || candidate.missionType === missionType)
+    .map(candidate => {
+      const localized = candidate.languageKey && languageDict?.[candidate.languageKey];
+      const score = search
+        ? Math.max(fuzzyScore(search, candidate.value.toLowerCase()), localized ? fuzzyScore(search, localized.toLowerCase()) : 0)
+        : 1;
+      return {
+        name: localized || candidate.value,
+        value: candidate.value,
+        score,
+        uses: usageCounts?.get(usageKey(source, candidate.value)) || 0
+      };
+    })
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || b.uses - a.uses || a.name.length - b.name.length || a.name.localeCompare(b.name))
+    .slice(0, MAX_CHOICES)
+    .map(match => ({ name: match.name.slice(0, 100), value: match.value.slice(0, 100) }));
+}
+
+/**
+ * Answer an autocomplete interaction for an option backed by a shared source
+ */
+export async function respondWithAutocomplete(interaction: AutocompleteInteraction, source: AutocompleteSource): Promise<void> {
+  await initializeDictionaries();
+  await loadUsageCounts();
+
+  const choices = getAutocompleteChoices(source, interaction.options.getFocused(), {
+    locale: interaction.locale,
+    // Nodes follow the mission type picked earlier in the same command, e.g. /setfissure
+    missionType: source === 'node' ? interaction.options.getString('mission_type') || undefined : undefined
+  });
+
+  await interaction.respond(choices);
+}
+
+/**
+ * Count the values a command was run with, for the options it answers from a shared source.
+ * Only known names are counted, so free text typed past the suggestions is ignored.
+ */
+export async function recordAutocompleteUsage(
+  interaction: ChatInputCommandInteraction,
+  autocompleteOptions: Record<string, AutocompleteSource>
+): Promise<void> {
+  await initializeDictionaries();
+  await loadUsageCounts();
+
+  for (const [optionName, source] of Object.entries(autocompleteOptions)) {
+    const value = interaction.options.getString(optionName);
+    const candidate = value && getCandidates(source).find(c => c.value.toLowerCase() === value.toLowerCase());
+    if (!candidate) {
+      continue;
+    }
+
+    const key = usageKey(source, candidate.value);
+    usageCounts.set(key, (usageCounts.get(key) || 0) + 1);
+    await pgdb.incrementAutocompleteUsage(source, candidate.value);
+  }
+}
@@ -15,6 +15,7 @@ interface DictionaryCache {
 let dictionaryCache: DictionaryCache = {};
 let nameCache: Map<string, string> = new Map();
 let languageDict: Record<string, string> = {};
+let localeDicts: Map<string, Record<string, string> | null> = new Map();
 let isInitialized = false;
 
 // Max size for the LRU cache
@@ -115,9 +116,17 @@ export const refreshDictionaryCache = (filenames: string[]): void => {
     }
   }
   
+  // Other languages are loaded again on their next use
+  for (const filename of filenames) {
+    const match = filename.match(/^dict\.(\w+)\.json$/);
+    if (match) {
+      localeDicts.delete(match[1]);
+    }
+  }
+  
   // Refresh specific dictionaries
   for (const filename of filenames) {
-    if (filename !== 'dict.en.json' && filename.endsWith('.json')) {
+    if (!filename.startsWith('dict.') && filename.endsWith('.json')) {
       const filePath = path.join(dictPath, filename);
       if (fs.existsSync(filePath)) {
         try {
@@ -270,6 +279,42 @@ export const getLocalizedName = (itemPath: string, fallback?: string): string =>
   }
 };
 
+// Discord locales whose dictionary code is not the language part of the locale
+const LOCALE_DICTIONARY_CODES: Record<string, string> = {
+  'zh-CN': 'zh',
+  'zh-TW': 'tc'
+};
+
+/**
+ * Get the language dictionary for a Discord locale, e.g. dict.de.json for "de".
+ * Returns null for English and for languages that have not been downloaded
+ * (see DICTIONARY_LANGUAGES).
+ *
+ * @param locale The Discord locale, e.g. "de" or "pt-BR"
+ */
+export const getLanguageDictionary = (locale: string): Record<string, string> | null => {
+  const code = LOCALE_DICTIONARY_CODES[locale] || locale.split('-')[0].toLowerCase();
+  if (code === 'en') {
+    return null;
+  }
+  
+  if (!localeDicts.has(code)) {
+    const dictPath = path.join(process.cwd(), 'dict', `dict.${code}.json`);
+    let dict: Record<string, string> | null = null;
+    if (fs.existsSync(dictPath)) {
+      try {
+        dict = JSON.parse(fs.readFileSync(dictPath, 'utf8'));
+        logger.info(`Loaded ${code} language dictionary with ${Object.keys(dict).length} entries`);
+      } catch (err) {
+        logger.error(`Error loading ${code} language dictionary:`, err);
+      }
+    }
+    localeDicts.set(code, dict);
+  }
+  
+  return localeDicts.get(code);
+};
+
 /**
  * Get the dictionary by name
  * 
@@ -466,4 +511,54 @@ export function findItemInDicts(itemPath: string): { name?: string, translatedNa
   // Cache the negative result to avoid repeated lookups
   nameCache.set(itemPath, '');
   return null;
-} 
\ No newline at end of file
+} 
+/**
+ * A lookup index built from dictionary files, e.g. the relic or drop index
+ */
+export interface DictionaryIndex {
+  // Build the index and rebuild it whenever one of its source files is updated
+  initialize(): void;
+  // Build the index on first use if startup didn't get to it
+  ensureBuilt(): void;
+}
+
+/**
+ * Create an index that is rebuilt when any of its source dictionaries is updated.
+ * build returns false when a required dictionary is missing, so the next use tries again.
+ */
+export function createDictionaryIndex(name: string, sources: string[], build: () => boolean): DictionaryIndex {
+  let isBuilt = false;
+  let isListening = false;
+
+  const rebuild = (): void => {
+    isBuilt = build();
+  };
+
+  return {
+    initialize(): void {
+      if (!isListening) {
+        isListening = true;
+
+        // Registered after initializeDictionaries' own listener, so the cache is already refreshed
+        dictionaryEvents.on('dictionaryUpdated', (filenames: string[]) => {
+          if (filenames.some(filename => sources.includes(filename))) {
+            logger.info(`Dictionaries updated, rebuilding ${name} index`);
+            try {
+              rebuild();
+            } catch (error) {
+              logger.error(`Error rebuilding ${name} index:`, error);
+            }
+          }
+        });
+      }
+
+      rebuild();
+    },
+
+    ensureBuilt(): void {
+      if (!isBuilt) {
+        rebuild();
+      }
+    }
+  };
+}
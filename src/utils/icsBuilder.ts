@@ -0,0 +1,85 @@
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+}
+
+/**
+ * Format a date as an iCalendar UTC timestamp, e.g. 20240101T120000Z
+ */
+function formatICSDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escape text values as required by RFC 5545
+ */
+function escapeICSText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 characters onto continuation lines
+ */
+function foldICSLine(line: string): string {
+  const parts: string[] = [];
+  let remaining = line;
+
+  while (remaining.length > 75) {
+    parts.push(remaining.slice(0, 75));
+    remaining = ' ' + remaining.slice(75);
+  }
+  parts.push(remaining);
+
+  return parts.join('\r\n');
+}
+
+/**
+ * Build an iCalendar (.ics) file that calendar apps can import
+ * @param name Calendar name shown by the importing app
+ * @param events Events to include
+ * @returns The calendar file contents
+ */
+export function buildICS(name: string, events: CalendarEvent[]): string {
+  const now = formatICSDate(new Date());
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//WardenPrime//Warframe Bot//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICSText(name)}`
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${now}`,
+      `DTSTART:${formatICSDate(event.start)}`,
+      `DTEND:${formatICSDate(event.end)}`,
+      `SUMMARY:${escapeICSText(event.summary)}`
+    );
+
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeICSText(event.description)}`);
+    }
+    if (event.location) {
+      lines.push(`LOCATION:${escapeICSText(event.location)}`);
+    }
+
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldICSLine).join('\r\n') + '\r\n';
+}
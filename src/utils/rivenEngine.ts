@@ -0,0 +1,700 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+import { weaponLookupService } from '../services/weaponLookupService';
+
+/**
+ * Riven engine: stat tags, roll ranges, disposition, value to grade conversion and
+ * weapon resolution shared by /rivengrade, /statranges, /autograde and the riven services.
+ * The roll math itself lives in rivenparser.js, this module is the typed wrapper around it.
+ */
+
+// A stat a riven type can roll, as listed in rivenparser.js
+interface RivenTagDefinition {
+  tag: string;
+  value: number;
+  prefix?: string;
+  suffix?: string;
+}
+
+interface RivenFingerprint {
+  lvl: number;
+  buffs: Array<{ Tag: string; Value: number }>;
+  curses: Array<{ Tag: string; Value: number }>;
+}
+
+// A stat value computed by rivenparser.js, displayValue is the value shown in game
+interface ParsedRivenStat {
+  tag: string;
+  value: number;
+  displayValue: number;
+}
+
+interface RivenParserLibrary {
+  riven_tags: Record<string, RivenTagDefinition[]>;
+  floatToRivenInt(value: number): number;
+  parseRiven(rivenType: string, fingerprint: RivenFingerprint, omegaAttenuation: number): { stats: ParsedRivenStat[], name: string };
+}
+
+// Load the RivenParser library
+const RivenParser: RivenParserLibrary = require('../rivenparser.js');
+
+// A weapon resolved for riven calculations
+export interface RivenWeapon {
+  name: string; // internal path
+  displayName: string;
+  rivenType: string;
+  omegaAttenuation: number;
+  data: any;
+}
+
+// A stat a riven type can roll and whether it can appear as a positive and as a negative
+export interface RollableStat {
+  tag: string;
+  canBeBuff: boolean;
+  canBeCurse: boolean;
+}
+
+// Format stat names for better readability
+const statNameMap: Record<string, string> = {
+  "WeaponArmorPiercingDamageMod": "Puncture Damage",
+  "WeaponCritChanceMod": "Critical Chance",
+  "WeaponCritDamageMod": "Critical Damage",
+  "WeaponElectricityDamageMod": "Electricity Damage",
+  "WeaponFireDamageMod": "Heat Damage",
+  "WeaponFireRateMod": "Fire Rate",
+  "WeaponFreezeDamageMod": "Cold Damage",
+  "WeaponImpactDamageMod": "Impact Damage",
+  "WeaponProcTimeMod": "Status Duration",
+  "WeaponSlashDamageMod": "Slash Damage",
+  "WeaponStunChanceMod": "Status Chance",
+  "WeaponToxinDamageMod": "Toxin Damage",
+  "WeaponAmmoMaxMod": "Ammo Maximum",
+  "WeaponClipMaxMod": "Magazine Capacity",
+  "WeaponDamageAmountMod": "Damage",
+  "WeaponFireIterationsMod": "Multishot",
+  "WeaponProjectileSpeedMod": "Projectile Speed",
+  "WeaponPunctureDepthMod": "Punch Through",
+  "WeaponRecoilReductionMod": "Recoil",
+  "WeaponReloadSpeedMod": "Reload Speed",
+  "WeaponZoomFovMod": "Zoom",
+  "WeaponFactionDamageCorpus": "Damage to Corpus",
+  "WeaponFactionDamageGrineer": "Damage to Grineer",
+  "WeaponFactionDamageInfested": "Damage to Infested",
+  "WeaponMeleeDamageMod": "Melee Damage",
+  "WeaponMeleeFactionDamageCorpus": "Melee Damage to Corpus",
+  "WeaponMeleeFactionDamageGrineer": "Melee Damage to Grineer",
+  "WeaponMeleeFactionDamageInfested": "Melee Damage to Infested",
+  "ComboDurationMod": "Combo Duration",
+  "SlideAttackCritChanceMod": "Slide Crit Chance",
+  "WeaponMeleeRangeIncMod": "Range",
+  "WeaponMeleeFinisherDamageMod": "Finisher Damage",
+  "WeaponMeleeComboEfficiencyMod": "Combo Efficiency",
+  "WeaponMeleeComboInitialBonusMod": "Initial Combo",
+  "WeaponMeleeComboPointsOnHitMod": "Melee Combo Count Chance",
+  "WeaponMeleeComboBonusOnHitMod": "Heavy Attack Efficiency"
+};
+
+// Stats that need reversed symbols for display
+const reverseSymbolStats: string[] = [
+  "WeaponDamageAmountMod",
+  "WeaponCritChanceMod",
+  "WeaponCritDamageMod"
+];
+
+// Stats that are displayed as raw values but need to be treated as percentages internally
+const rawValueStats: string[] = [
+  "WeaponPunctureDepthMod", // Punch Through
+  "WeaponMeleeRangeIncMod", // Range (Melee)
+];
+
+// Function to find a stat tag from its name
+export function findTagForStatName(statName: string): string {
+  // Remove any leading +/- signs and trim whitespace
+  const normalizedName = statName.replace(/^[+-]\s*/, '').toLowerCase().trim();
+  
+  logger.debug(`Normalized stat name for lookup: "${normalizedName}"`);
+  
+  // Check for exact match first
+  for (const [tag, displayName] of Object.entries(statNameMap)) {
+    if (displayName.toLowerCase() === normalizedName) {
+      return tag;
+    }
+  }
+  
+  // Handle faction damage special cases
+  if (normalizedName === 'damage to corpus') {
+    return "WeaponFactionDamageCorpus";
+  }
+  
+  if (normalizedName === 'damage to grineer') {
+    return "WeaponFactionDamageGrineer";
+  }
+  
+  if (normalizedName === 'damage to infested') {
+    return "WeaponFactionDamageInfested";
+  }
+  
+  // Handle melee attack speed (which is internally "Fire Rate" in Warframe)
+  if (normalizedName === 'attack speed') {
+    return "WeaponFireRateMod";
+  }
+  
+  // Handle partial matches for common cases
+  if (normalizedName === 'cold') {
+    return "WeaponFreezeDamageMod"; // Cold Damage
+  }
+  
+  if (normalizedName === 'heat') {
+    return "WeaponFireDamageMod"; // Heat Damage
+  }
+  
+  if (normalizedName === 'electricity') {
+    return "WeaponElectricityDamageMod"; // Electricity Damage
+  }
+  
+  if (normalizedName === 'toxin') {
+    return "WeaponToxinDamageMod"; // Toxin Damage
+  }
+  
+  if (normalizedName === 'puncture') {
+    return "WeaponArmorPiercingDamageMod"; // Puncture Damage
+  }
+  
+  if (normalizedName === 'impact') {
+    return "WeaponImpactDamageMod"; // Impact Damage
+  }
+  
+  if (normalizedName === 'slash') {
+    return "WeaponSlashDamageMod"; // Slash Damage
+  }
+  
+  // Special case for slide attack critical chance
+  if (normalizedName.includes('slide') && normalizedName.includes('crit')) {
+    return "SlideAttackCritChanceMod";
+  }
+  
+  if (normalizedName.includes('critical') && normalizedName.includes('slide')) {
+    return "SlideAttackCritChanceMod";
+  }
+  
+  // Additional check for "Slide Attack Critical Chance" exactly
+  if (normalizedName === 'slide attack critical chance') {
+    return "SlideAttackCritChanceMod";
+  }
+  
+  // Additional check for "Critical Chance for Slide Attack" exactly
+  if (normalizedName === 'critical chance for slide attack') {
+    return "SlideAttackCritChanceMod";
+  }
+  
+  // Check for contains matches as a fallback
+  for (const [tag, displayName] of Object.entries(statNameMap)) {
+    if (displayName.toLowerCase().includes(normalizedName) || 
+        normalizedName.includes(displayName.toLowerCase())) {
+      logger.debug(`Found partial match: "${normalizedName}" → "${displayName}" (${tag})`);
+      return tag;
+    }
+  }
+  
+  // Handle special cases and common OCR errors
+  if (normalizedName.includes('fire') && normalizedName.includes('rate')) {
+    return "WeaponFireRateMod";
+  }
+  
+  // Handle attack speed as fire rate for melee weapons
+  if (normalizedName.includes('attack') && (normalizedName.includes('speed') || normalizedName.includes('rate'))) {
+    return "WeaponFireRateMod";
+  }
+  
+  // Handle faction damage by keywords
+  if (normalizedName.includes('corpus')) {
+    return "WeaponFactionDamageCorpus";
+  }
+  
+  if (normalizedName.includes('grineer')) {
+    return "WeaponFactionDamageGrineer";
+  }
+  
+  if (normalizedName.includes('infested')) {
+    return "WeaponFactionDamageInfested";
+  }
+  
+  logger.warn(`Could not match stat name: "${statName}" (normalized: "${normalizedName}")`);
+  return "unknown";
+}
+
+// Get the display name of a stat tag, e.g. WeaponCritChanceMod -> Critical Chance
+export function getStatDisplayName(tag: string): string {
+  return statNameMap[tag] || tag;
+}
+
+// Format weapon type from the riven type
+export function formatRivenType(rivenType: string): string {
+  const typeMap: Record<string, string> = {
+    "LotusRifleRandomModRare": "Rifle",
+    "LotusPistolRandomModRare": "Pistol",
+    "PlayerMeleeWeaponRandomModRare": "Melee",
+    "LotusShotgunRandomModRare": "Shotgun",
+    "LotusModularPistolRandomModRare": "Kitgun",
+    "LotusModularMeleeRandomModRare": "Zaw",
+    "LotusArchgunRandomModRare": "Archgun"
+  };
+  
+  return typeMap[rivenType] || "Mod";
+}
+
+// A weapon as listed in dict/weaponArray.json
+export interface WeaponArrayEntry {
+  name: string;
+  internalPath: string;
+  category: string;
+  disposition: number;
+  rivenType: string;
+}
+
+// Archguns are listed as SpaceGuns in ExportWeapons and can be mislabelled as rifles
+function withArchgunRivenType(weapon: RivenWeapon): RivenWeapon {
+  if (weapon.data?.productCategory === 'SpaceGuns' && weapon.rivenType !== 'LotusArchgunRandomModRare') {
+    logger.debug(`Correcting riven type of ${weapon.displayName} to archgun`);
+    weapon.rivenType = 'LotusArchgunRandomModRare';
+  }
+  return weapon;
+}
+
+/**
+ * Read dict/weaponArray.json, it is regenerated when ExportWeapons.json changes so it is not cached
+ */
+export function loadWeaponArray(): WeaponArrayEntry[] {
+  try {
+    const weaponArrayPath = path.join(process.cwd(), 'dict', 'weaponArray.json');
+    if (fs.existsSync(weaponArrayPath)) {
+      return JSON.parse(fs.readFileSync(weaponArrayPath, 'utf8'));
+    }
+  } catch (error) {
+    logger.warn(`Error loading weaponArray.json: ${error}`);
+  }
+  return [];
+}
+
+/**
+ * Build a RivenWeapon from a weaponArray.json entry, e.g. a variant picked by the user
+ */
+export function rivenWeaponFromEntry(entry: WeaponArrayEntry): RivenWeapon {
+  return withArchgunRivenType({
+    name: entry.internalPath,
+    displayName: entry.name,
+    rivenType: entry.rivenType,
+    omegaAttenuation: entry.disposition,
+    data: weaponLookupService.getWeaponData(entry.internalPath)
+  });
+}
+
+/**
+ * Find a weapon by name, trying exact, prefix and contains matches in weaponArray.json
+ * before falling back to the weapon lookup service
+ */
+export function findWeapon(weaponName: string): RivenWeapon | null {
+  if (!weaponName) {
+    return null;
+  }
+
+  logger.debug(`Searching for weapon: "${weaponName}"`);
+
+  const weaponArray = loadWeaponArray();
+  const searchName = weaponName.toLowerCase();
+
+  const match = weaponArray.find(w => w.name.toLowerCase() === searchName)
+    || weaponArray.find(w => w.name.toLowerCase().startsWith(searchName))
+    || weaponArray.find(w => w.name.toLowerCase().includes(searchName));
+
+  if (match) {
+    logger.debug(`Found weapon in weaponArray: ${match.name}`);
+    return rivenWeaponFromEntry(match);
+  }
+
+  const weaponInfo = weaponLookupService.findWeapon(weaponName);
+  if (!weaponInfo) {
+    logger.debug(`No weapon found for "${weaponName}"`);
+    return null;
+  }
+
+  return withArchgunRivenType({
+    ...weaponInfo,
+    displayName: weaponLookupService.getDisplayName(weaponInfo.name) || weaponName
+  });
+}
+
+/**
+ * Number of disposition dots shown in game, from 1 (0.5x) to 5 (1.55x)
+ */
+export function getDispositionDots(disposition: number): number {
+  if (disposition < 0.7) return 1;
+  if (disposition < 0.9) return 2;
+  if (disposition <= 1.1) return 3;
+  if (disposition <= 1.3) return 4;
+  return 5;
+}
+
+// e.g. "1.30x ●●●●○"
+export function formatDisposition(disposition: number): string {
+  const dots = getDispositionDots(disposition);
+  return `${disposition.toFixed(2)}x ${'●'.repeat(dots)}${'○'.repeat(5 - dots)}`;
+}
+
+/**
+ * Whether a stat is a negative, negative recoil is a positive and positive recoil a negative
+ */
+export function isCurseStat(stat: { name: string, value: number }): boolean {
+  return findTagForStatName(stat.name) === 'WeaponRecoilReductionMod' ? stat.value > 0 : stat.value < 0;
+}
+
+/**
+ * List the stats a riven type can roll, combo count chance can never be a negative
+ */
+export function getRollableStats(rivenType: string): RollableStat[] {
+  return (RivenParser.riven_tags[rivenType] || []).map(stat => ({
+    tag: stat.tag,
+    canBeBuff: !!stat.prefix,
+    canBeCurse: stat.tag !== 'WeaponMeleeComboBonusOnHitMod'
+  }));
+}
+
+// Get min/max range for a buff stat
+export function getBuffRange(rivenType: string, tag: string, omegaAttenuation: number, lvl: number, buffs: number, curses: number): { min: number, max: number } {
+  const minValue = getBuffValue(rivenType, tag, 0, omegaAttenuation, lvl, buffs, curses);
+  const maxValue = getBuffValue(rivenType, tag, 1, omegaAttenuation, lvl, buffs, curses);
+  
+  return {
+    min: minValue.displayValue,
+    max: maxValue.displayValue
+  };
+}
+
+// Get min/max range for a curse stat
+export function getCurseRange(rivenType: string, tag: string, omegaAttenuation: number, lvl: number, buffs: number, curses: number): { min: number, max: number } {
+  const minValue = getCurseValue(rivenType, tag, 0, omegaAttenuation, lvl, buffs, curses);
+  const maxValue = getCurseValue(rivenType, tag, 1, omegaAttenuation, lvl, buffs, curses);
+  
+  // Some stats have reversed display values for curses
+  const shouldReverse = reverseSymbolStats.includes(tag);
+  const displayMin = shouldReverse ? minValue.displayValue * -1 : minValue.displayValue;
+  const displayMax = shouldReverse ? maxValue.displayValue * -1 : maxValue.displayValue;
+  
+  return {
+    min: displayMin,
+    max: displayMax
+  };
+}
+
+// Calculate buff value
+function getBuffValue(rivenType: string, tag: string, tagValue: number, omegaAttenuation: number, lvl: number, buffs: number, curses: number) {
+  tagValue = RivenParser.floatToRivenInt(tagValue);
+  const fingerprint: RivenFingerprint = { lvl, buffs: [], curses: [] };
+  let buffCount = buffs;
+  do {
+    fingerprint.buffs.push({ Tag: tag, Value: tagValue });
+  } while (--buffCount > 0);
+  
+  let curseCount = curses;
+  while (curseCount-- > 0) {
+    fingerprint.curses.push({ Tag: "WeaponCritChanceMod", Value: 0 });
+  }
+  
+  return RivenParser.parseRiven(rivenType, fingerprint, omegaAttenuation).stats[0];
+}
+
+// Calculate curse value
+function getCurseValue(rivenType: string, tag: string, tagValue: number, omegaAttenuation: number, lvl: number, buffs: number, curses: number) {
+  tagValue = RivenParser.floatToRivenInt(tagValue);
+  const fingerprint: RivenFingerprint = { lvl, buffs: [], curses: [] };
+  let buffCount = buffs;
+  while (buffCount-- > 0) {
+    fingerprint.buffs.push({ Tag: "WeaponCritChanceMod", Value: 0 });
+  }
+  
+  let curseCount = curses;
+  do {
+    fingerprint.curses.push({ Tag: tag, Value: tagValue });
+  } while (--curseCount > 0);
+  
+  return RivenParser.parseRiven(rivenType, fingerprint, omegaAttenuation).stats[fingerprint.buffs.length];
+}
+
+// Calculate where a value sits in a range (from 0 to 1)
+export function calculateValueOnScale(value: number, min: number, max: number, isCurse: boolean = false): number {
+  // For curses, we reverse the scale (a stronger curse is worse)
+  if (min === max) return 0.5; // Avoid division by zero
+  
+  const range = max - min;
+  const position = (value - min) / range;
+  
+  // For curses, we need to invert the scale
+  return isCurse ? 1 - position : position;
+}
+
+// A stat rolls between 90% and 110% of its average value, so quality 0-1 spans 20%
+const ROLL_SPREAD = 20;
+
+/**
+ * Percentage difference of a roll from the average roll, from -10 (0) to +10 (1)
+ */
+export function getRollDeviation(qualityValue: number): number {
+  return (qualityValue - 0.5) * ROLL_SPREAD;
+}
+
+// Convert a quality value to a letter grade, with the same thresholds as the in-game riven calculator
+export function floatToGrade(qualityValue: number): string {
+  const percentDiff = Math.abs(getRollDeviation(qualityValue));
+  
+  // Check for extremely high values (beyond normal grading scale)
+  if (percentDiff > 11.5) return "???";
+  
+  // Use the exact ranges from the reference image
+  if (percentDiff >= 9.5) return qualityValue >= 0.5 ? "S" : "F";
+  if (percentDiff >= 7.5) return qualityValue >= 0.5 ? "A+" : "C-";
+  if (percentDiff >= 5.5) return qualityValue >= 0.5 ? "A" : "C";
+  if (percentDiff >= 3.5) return qualityValue >= 0.5 ? "A-" : "C+";
+  if (percentDiff >= 1.5) return qualityValue >= 0.5 ? "B+" : "B-";
+  return "B"; // The center value (±1.5% from exact center)
+}
+
+// Update this function to format faction damage as "x0.8" format and raw values correctly
+export function formatStatValue(statName: string, statValue: number): string {
+  // Handle raw values
+  if (rawValueStats.includes(statName)) {
+    return `+${statValue.toFixed(1)}`;
+  }
+  
+  // Handle faction damage
+  if (statName.toLowerCase().includes('damage to')) {
+    // Convert -0.2 to x0.8 format
+    const multiplier = 1.0 + statValue;
+    return `x${multiplier.toFixed(2)}`;
+  }
+  
+  // Special case for slide attack crit chance
+  if (statName === "SlideAttackCritChanceMod") {
+    return `${statValue > 0 ? "+" : ""}${statValue.toFixed(1)}%`;
+  }
+  
+  // Default formatting
+  return `${statValue > 0 ? "+" : ""}${statValue.toFixed(1)}%`;
+}
+
+// A graded riven stat, as shown in the embed and the grade image
+export interface GradedRivenStat {
+  name: string;
+  value: number;
+  grade: string;
+  quality: number;
+  isCurse: boolean;
+  range: { min: number, max: number };
+}
+
+/**
+ * Grade each stat of a riven against its roll range and compute the overall grade
+ */
+export function gradeRivenStats(
+  weaponInfo: { rivenType: string, omegaAttenuation: number },
+  rank: number,
+  buffs: number,
+  curses: number,
+  stats: Array<{ name: string, value: number }>
+): { stats: GradedRivenStat[], overallGrade: string, overallQuality: number } {
+  // Process each stat
+  const processedStats: GradedRivenStat[] = [];
+  
+  let totalQuality = 0;
+  let validStats = 0;
+  
+  for (const stat of stats) {
+    // Find the corresponding tag
+    const tagName = findTagForStatName(stat.name);
+    
+    if (tagName === 'unknown') {
+      logger.warn(`Unknown stat name: ${stat.name}`);
+      processedStats.push({
+        name: stat.name,
+        value: stat.value,
+        grade: 'N/A',
+        quality: 0,
+        isCurse: stat.value < 0,
+        range: { min: 0, max: 0 }
+      });
+      continue;
+    }
+    
+    // Negative recoil is a positive and positive recoil a negative, both ranges are signed that way
+    const isCurse = isCurseStat(stat);
+    
+    // Punch Through is shown in meters but its range is in percent, melee Range is raw in both
+    const valueToUse = tagName === 'WeaponPunctureDepthMod' ? stat.value * 100 : stat.value;
+    
+    // Get the range for this stat
+    const range = isCurse
+      ? getCurseRange(weaponInfo.rivenType, tagName, weaponInfo.omegaAttenuation, rank, buffs, curses)
+      : getBuffRange(weaponInfo.rivenType, tagName, weaponInfo.omegaAttenuation, rank, buffs, curses);
+    
+    // Calculate where this value falls in the range
+    const quality = calculateValueOnScale(valueToUse, range.min, range.max, isCurse);
+    
+    // Convert to a grade
+    const grade = floatToGrade(quality);
+    
+    processedStats.push({
+      name: stat.name,
+      value: stat.value, // Keep original value for display
+      grade,
+      quality,
+      isCurse,
+      range
+    });
+    
+    // Curse quality is already inverted, a weaker curse scores higher
+    totalQuality += quality;
+    validStats++;
+  }
+  
+  // Calculate overall grade
+  let overallGrade = 'N/A';
+  let overallQuality = 0;
+  
+  if (validStats > 0) {
+    overallQuality = totalQuality / validStats;
+    overallGrade = floatToGrade(overallQuality);
+  }
+  
+  return { stats: processedStats, overallGrade, overallQuality };
+}
+
+// Which stats are worth having on a riven, as stat tags
+interface DesirabilityRules {
+  desired: string[];
+  acceptable: string[];
+  harmful: string[];
+}
+
+interface DesirabilityModel {
+  rivenTypes: Record<string, DesirabilityRules>;
+  weapons: Record<string, Partial<DesirabilityRules>>;
+}
+
+// How good the stat combination of a riven is, independent of how high each stat rolled
+export interface RivenCombinationScore {
+  score: number;
+  verdict: string;
+  desiredPositives: string[];
+  wastedPositives: string[];
+  negatives: Array<{ name: string, rating: 'acceptable' | 'neutral' | 'harmful' }>;
+}
+
+let desirabilityModel: DesirabilityModel | null = null;
+
+// Load src/data/riven_desirability.json once, with the stat names resolved to tags
+function loadDesirabilityModel(): DesirabilityModel {
+  if (desirabilityModel) {
+    return desirabilityModel;
+  }
+
+  const toTags = (names: string[] | undefined) => names?.map(name => {
+    const tag = findTagForStatName(name);
+    if (tag === 'unknown') {
+      logger.warn(`Unknown stat "${name}" in riven_desirability.json`);
+    }
+    return tag;
+  });
+
+  try {
+    const modelPath = path.join(process.cwd(), 'src', 'data', 'riven_desirability.json');
+    const raw = JSON.parse(fs.readFileSync(modelPath, 'utf8')) as DesirabilityModel;
+
+    desirabilityModel = { rivenTypes: {}, weapons: {} };
+    for (const [rivenType, rules] of Object.entries(raw.rivenTypes || {})) {
+      desirabilityModel.rivenTypes[rivenType] = {
+        desired: toTags(rules.desired) || [],
+        acceptable: toTags(rules.acceptable) || [],
+        harmful: toTags(rules.harmful) || []
+      };
+    }
+    // Weapons are matched case-insensitively and only replace the lists they define
+    for (const [weapon, rules] of Object.entries(raw.weapons || {})) {
+      desirabilityModel.weapons[weapon.toLowerCase()] = {
+        desired: toTags(rules.desired),
+        acceptable: toTags(rules.acceptable),
+        harmful: toTags(rules.harmful)
+      };
+    }
+  } catch (error) {
+    logger.error('Error loading riven desirability model:', error);
+    desirabilityModel = { rivenTypes: {}, weapons: {} };
+  }
+
+  return desirabilityModel;
+}
+
+/**
+ * Score the stat combination of a riven from 0 to 100 with the desirability model of its
+ * weapon or riven type. The share of positives that are desired counts for 80 points and
+ * the negatives for 20, an acceptable negative scores full points, no negative or one the
+ * model does not list half and a harmful one none. Returns null without rules for the riven type.
+ */
+export function scoreRivenCombination(
+  weaponName: string,
+  rivenType: string,
+  stats: Array<{ name: string, isCurse: boolean }>
+): RivenCombinationScore | null {
+  const model = loadDesirabilityModel();
+  const typeRules = model.rivenTypes[formatRivenType(rivenType)];
+  if (!typeRules) {
+    return null;
+  }
+
+  const weaponRules = model.weapons[weaponName.toLowerCase()] || {};
+  const rules: DesirabilityRules = {
+    desired: weaponRules.desired || typeRules.desired,
+    acceptable: weaponRules.acceptable || typeRules.acceptable,
+    harmful: weaponRules.harmful || typeRules.harmful
+  };
+
+  const positives = stats.filter(stat => !stat.isCurse);
+  const desiredPositives = positives.filter(stat => rules.desired.includes(findTagForStatName(stat.name))).map(stat => stat.name);
+  const wastedPositives = positives.filter(stat => !desiredPositives.includes(stat.name)).map(stat => stat.name);
+
+  const negatives = stats.filter(stat => stat.isCurse).map(stat => {
+    const tag = findTagForStatName(stat.name);
+    const rating: 'acceptable' | 'neutral' | 'harmful' = rules.harmful.includes(tag)
+      ? 'harmful'
+      : rules.acceptable.includes(tag) ? 'acceptable' : 'neutral';
+    return { name: stat.name, rating };
+  });
+
+  // Three positives is the most a cursed riven can have, so fewer desired ones always cost points
+  const positiveScore = desiredPositives.length / Math.max(positives.length, 3);
+  const negativeRatings = { acceptable: 1, neutral: 0.5, harmful: 0 };
+  const negativeScore = negatives.length > 0
+    ? negatives.reduce((total, negative) => total + negativeRatings[negative.rating], 0) / negatives.length
+    : 0.5;
+
+  const score = Math.round((positiveScore * 0.8 + negativeScore * 0.2) * 100);
+  const verdict = score >= 90 ? 'God Roll' : score >= 70 ? 'Strong' : score >= 45 ? 'Usable' : 'Reroll';
+
+  return { score, verdict, desiredPositives, wastedPositives, negatives };
+}
+
+// Format a combination score as an embed field value
+export function formatCombinationScore(combination: RivenCombinationScore): string {
+  const lines = [`**${combination.score}/100** (${combination.verdict})`];
+
+  if (combination.desiredPositives.length > 0) {
+    lines.push(`Wanted: ${combination.desiredPositives.join(', ')}`);
+  }
+  if (combination.wastedPositives.length > 0) {
+    lines.push(`Not wanted: ${combination.wastedPositives.join(', ')}`);
+  }
+  for (const negative of combination.negatives) {
+    lines.push(`Negative ${negative.name}: ${negative.rating}`);
+  }
+
+  return lines.join('\n');
+}
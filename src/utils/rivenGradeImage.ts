@@ -0,0 +1,206 @@
+import { createCanvas } from 'canvas';
+import { getRollDeviation } from './rivenEngine';
+
+/**
+ * Draw the grade of every stat next to the grade table, for /rivengrade, /rivensession and market listings
+ */
+export async function generateGradeImage(stats: Array<{ name: string, value: number, grade: string, quality: number, isCurse: boolean }>) {
+  const canvas = createCanvas(1280, 720);
+  const ctx = canvas.getContext('2d');
+  
+  // Background
+  ctx.fillStyle = '#1a1a2e';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  
+  // Title
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 32px Arial';
+  ctx.textAlign = 'center';
+  ctx.fillText('Riven Grade Analysis', canvas.width / 2, 60);
+  
+  // Draw grade table
+  drawGradeTable(ctx, canvas.width / 2 - 200, 100);
+  
+  // Draw stat grades
+  const startY = 280;
+  const lineHeight = 80;
+  
+  for (let i = 0; i < stats.length; i++) {
+    const stat = stats[i];
+    const yPos = startY + (i * lineHeight);
+    
+    // Stat name and value
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '24px Arial';
+    ctx.textAlign = 'left';
+    ctx.fillText(`${stat.name}: ${stat.value > 0 ? '+' : ''}${stat.value}%`, 100, yPos);
+    
+    // Calculate percentage difference from center for display
+    const percentDiff = Math.abs(getRollDeviation(stat.quality));
+    const plusMinus = stat.isCurse ? 
+      (stat.quality < 0.5 ? '+' : '-') : // For curses, lower quality means higher % (better curse)
+      (stat.quality > 0.5 ? '+' : '-');  // For buffs, higher quality means higher % (better buff)
+    
+    // Only show + sign if there's an actual difference
+    const displaySign = percentDiff > 1.5 ? plusMinus : '';
+    
+    // Grade with percentage
+    const gradeColor = getGradeColor(stat.grade, stat.isCurse);
+    ctx.fillStyle = gradeColor;
+    ctx.font = 'bold 28px Arial';
+    ctx.textAlign = 'right';
+    ctx.fillText(`${stat.grade} (${displaySign}${percentDiff.toFixed(1)}%)`, canvas.width - 100, yPos);
+  }
+  
+  return canvas.toBuffer();
+}
+
+/**
+ * Draw several rolls of the same riven side by side with the grade table, best roll first
+ */
+export async function generateComparisonImage(rolls: Array<{ label: string, overallGrade: string, score: number, stats: Array<{ name: string, value: number, grade: string, isCurse: boolean }> }>) {
+  const cardHeight = 150;
+  const canvas = createCanvas(1280, Math.max(480, 100 + rolls.length * cardHeight));
+  const ctx = canvas.getContext('2d');
+
+  // Background
+  ctx.fillStyle = '#1a1a2e';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Title
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 32px Arial';
+  ctx.textAlign = 'center';
+  ctx.fillText('Riven Roll Comparison', canvas.width / 2, 50);
+
+  // Grade table on the left, one card per roll on the right
+  drawGradeTable(ctx, 40, 130);
+
+  const cardX = 480;
+  const cardWidth = canvas.width - cardX - 40;
+
+  for (let i = 0; i < rolls.length; i++) {
+    const roll = rolls[i];
+    const cardY = 80 + i * cardHeight;
+
+    // The best roll gets a highlighted card
+    ctx.fillStyle = i === 0 ? '#2f2f55' : '#2a2a40';
+    ctx.fillRect(cardX, cardY, cardWidth, cardHeight - 10);
+
+    // Roll header with overall grade and score
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 22px Arial';
+    ctx.textAlign = 'left';
+    ctx.fillText(`#${i + 1}  ${roll.label}`, cardX + 15, cardY + 30);
+
+    ctx.fillStyle = getGradeColor(roll.overallGrade, false);
+    ctx.textAlign = 'right';
+    ctx.fillText(`${roll.overallGrade}  ${roll.score.toFixed(0)} pts`, cardX + cardWidth - 15, cardY + 30);
+
+    // Stats in two columns
+    ctx.font = '18px Arial';
+    for (let j = 0; j < roll.stats.length; j++) {
+      const stat = roll.stats[j];
+      const statX = cardX + 15 + (j % 2) * (cardWidth / 2);
+      const statY = cardY + 70 + Math.floor(j / 2) * 35;
+
+      ctx.fillStyle = getGradeColor(stat.grade, stat.isCurse);
+      ctx.textAlign = 'left';
+      ctx.fillText(`${stat.grade}  ${stat.value > 0 ? '+' : ''}${stat.value}% ${stat.name}`.slice(0, 40), statX, statY);
+    }
+  }
+
+  return canvas.toBuffer();
+}
+
+// Draw the grade table shown in the image
+function drawGradeTable(ctx: any, x: number, y: number) {
+  const grades = ['S', 'A+', 'A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'F'];
+  const ranges = ['9.5-11.5', '7.5-9.5', '5.5-7.5', '3.5-5.5', '1.5-3.5', '±1.5', '1.5-3.5', '3.5-5.5', '5.5-7.5', '7.5-9.5', '9.5-11.5'];
+  
+  // Table width and positioning
+  const tableWidth = 400;
+  const colWidth = tableWidth / 2;
+  const rowHeight = 30;
+  const tableX = x;  // Center the table
+  
+  // Save current text alignment
+  const originalTextAlign = ctx.textAlign;
+  
+  // Draw "Percentage Difference" label
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 18px Arial';
+  ctx.textAlign = 'center';
+  ctx.fillText('Percentage Difference from Average', tableX + colWidth, y - 30);
+  
+  // Draw "Positive" label
+  ctx.fillStyle = '#00ff00';
+  ctx.fillText('Better', tableX + colWidth / 2, y - 10);
+  
+  // Draw "Negative" label
+  ctx.fillStyle = '#ff0000';
+  ctx.fillText('Worse', tableX + colWidth + colWidth / 2, y - 10);
+  
+  // Draw the table
+  for (let i = 0; i < grades.length; i++) {
+    const grade = grades[i];
+    const range = ranges[i];
+    const yPos = y + i * rowHeight;
+    
+    // Middle grade has a different background
+    if (grade === 'B') {
+      ctx.fillStyle = '#2a2a40';
+      ctx.fillRect(tableX, yPos, tableWidth, rowHeight);
+    }
+    
+    // Set color based on grade
+    ctx.fillStyle = getGradeColor(grade, false);
+    
+    // Draw left side (positive)
+    if (i <= 5) {  // S to B
+      ctx.textAlign = 'center';
+      ctx.font = 'bold 20px Arial';
+      ctx.fillText(grade, tableX + colWidth / 4, yPos + rowHeight * 0.7);
+      
+      ctx.font = '16px Arial';
+      ctx.fillText(range, tableX + colWidth * 3/4, yPos + rowHeight * 0.7);
+    }
+    
+    // Set color based on grade, but for curses
+    ctx.fillStyle = getGradeColor(grade, true);
+    
+    // Draw right side (negative)
+    if (i >= 5) {  // B to F
+      ctx.textAlign = 'center';
+      ctx.font = 'bold 20px Arial';
+      ctx.fillText(grade, tableX + colWidth + colWidth / 4, yPos + rowHeight * 0.7);
+      
+      ctx.font = '16px Arial';
+      ctx.fillText(range, tableX + colWidth + colWidth * 3/4, yPos + rowHeight * 0.7);
+    }
+  }
+  
+  // Restore original text alignment
+  ctx.textAlign = originalTextAlign;
+}
+
+// Get color for a grade
+function getGradeColor(grade: string, isCurse: boolean): string {
+  // For positive stats: green is good (S), yellow is average (B), red is bad (F)
+  // For negative stats: red is good (F - weak curse), yellow is average (B), green is bad (S - strong curse)
+  if (!isCurse) {
+    switch (grade) {
+      case 'S': case 'A+': case 'A': case 'A-': return '#00ff00'; // Green
+      case 'B+': case 'B': case 'B-': return '#ffff00'; // Yellow
+      case 'C+': case 'C': case 'C-': case 'F': case '???': return '#ff0000'; // Red
+      default: return '#ffffff'; // White for unknown
+    }
+  } else {
+    switch (grade) {
+      case 'S': case 'A+': case 'A': case 'A-': case '???': return '#ff0000'; // Red (strong curse is bad)
+      case 'B+': case 'B': case 'B-': return '#ffff00'; // Yellow
+      case 'C+': case 'C': case 'C-': case 'F': return '#00ff00'; // Green (weak curse is good)
+      default: return '#ffffff'; // White for unknown
+    }
+  }
+}
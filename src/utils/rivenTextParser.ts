@@ -0,0 +1,535 @@
+import fs from 'fs/promises';
+import fsSync from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+/**
+ * Weapon, rank and stats read from the OCR text of a riven screenshot
+ */
+export interface ParsedRivenText {
+  weaponName: string;
+  stats: Array<{ name: string, value: number }>;
+  rank: number;
+}
+
+// Load weapon names from weaponLookup.json instead of hard-coding them
+let KNOWN_BASE_WEAPONS: string[] = [];
+
+// Load weapon names from weaponLookup.json at startup
+async function loadKnownWeapons(): Promise<void> {
+  try {
+    const weaponLookupPath = path.join(process.cwd(), 'dict', 'weaponLookup.json');
+    if (fsSync.existsSync(weaponLookupPath)) {
+      const data = await fs.readFile(weaponLookupPath, 'utf8');
+      const weaponLookup = JSON.parse(data);
+      
+      // Extract weapon names from the lookup - weaponLookup is an object where:
+      // - keys are weapon names (lowercase)
+      // - values are arrays of weapon data objects
+      // For our purposes, we just need the keys, properly capitalized
+      KNOWN_BASE_WEAPONS = Object.keys(weaponLookup).map(key => {
+        // Capitalize the first letter of each word for better display
+        return key.split(' ')
+          .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+          .join(' ');
+      });
+      
+      logger.info(`Loaded ${KNOWN_BASE_WEAPONS.length} weapon names from weaponLookup.json`);
+    } else {
+      logger.warn(`weaponLookup.json not found at ${weaponLookupPath}`);
+      // Fallback to a minimal set of common weapons in case the file isn't found
+      KNOWN_BASE_WEAPONS = [
+        'Broken Scepter', 'Braton', 'Soma', 'Paris', 'Tigris', 'Rubico'
+      ];
+      logger.warn(`Using fallback weapon list with ${KNOWN_BASE_WEAPONS.length} entries`);
+    }
+  } catch (error) {
+    logger.error('Error loading weaponLookup.json:', error);
+    // Fallback to a minimal set if there's an error
+    KNOWN_BASE_WEAPONS = [
+      'Broken Scepter', 'Braton', 'Soma', 'Paris', 'Tigris', 'Rubico'
+    ];
+    logger.warn(`Using fallback weapon list with ${KNOWN_BASE_WEAPONS.length} entries due to error`);
+  }
+}
+
+function extractBestWeaponName(ocrText: string): string {
+  if (!ocrText) return 'Unknown Weapon';
+  
+  logger.info(`[Autograde] Running weapon name extraction on: "${ocrText}"`);
+  
+  let bestMatch = '';
+  const lowerText = ocrText.toLowerCase();
+  
+  // First approach: Look for complete known weapon names within the text
+  // Use space padding for more accurate word boundary matching
+  const paddedLowerText = ` ${lowerText} `;
+  
+  for (const baseWeapon of KNOWN_BASE_WEAPONS) {
+    const paddedLowerWeapon = ` ${baseWeapon.toLowerCase()} `;
+    
+    // Check for exact word/phrase match with space boundaries
+    if (paddedLowerText.includes(paddedLowerWeapon)) {
+      if (baseWeapon.length > bestMatch.length) {
+        bestMatch = baseWeapon;
+        logger.info(`[Autograde] Found exact space-bounded match: "${baseWeapon}" in text`);
+      }
+    }
+    // Also try without space padding in case it's at beginning/end
+    else if (lowerText.includes(baseWeapon.toLowerCase())) {
+      if (baseWeapon.length > bestMatch.length) {
+        bestMatch = baseWeapon;
+        logger.info(`[Autograde] Found substring match: "${baseWeapon}" in text`);
+      }
+    }
+  }
+  
+  // If we found a match through the direct substring approach, return it
+  if (bestMatch) {
+    logger.info(`[Autograde] Using substring match: "${bestMatch}"`);
+    return bestMatch;
+  }
+  
+  // Second approach: Try word-by-word matching for multi-word weapons
+  const words = lowerText.split(/\s+/);
+  
+  for (const baseWeapon of KNOWN_BASE_WEAPONS) {
+    const baseWords = baseWeapon.toLowerCase().split(/\s+/);
+    
+    // Skip single-word weapons for now
+    if (baseWords.length < 2) continue;
+    
+    // Find the index where the base weapon name might start
+    for (let i = 0; i <= words.length - baseWords.length; i++) {
+      let match = true;
+      for (let j = 0; j < baseWords.length; j++) {
+        if (words[i + j] !== baseWords[j]) {
+          match = false;
+          break;
+        }
+      }
+      if (match) {
+        bestMatch = baseWeapon;
+        logger.info(`[Autograde] Found word-by-word match: "${baseWeapon}" at word index ${i}`);
+        return bestMatch; // Return immediately since this is a strong match
+      }
+    }
+  }
+  
+  // Third approach: Single-word prefix matching as fallback
+  if (!bestMatch && words.length > 0) {
+    for (const baseWeapon of KNOWN_BASE_WEAPONS) {
+      // Only check single-word weapons or first word of multi-word weapons
+      const baseFirstWord = baseWeapon.toLowerCase().split(/\s+/)[0];
+      
+      if (words[0] === baseFirstWord || 
+          words[0].startsWith(baseFirstWord) || 
+          baseFirstWord.startsWith(words[0])) {
+        if (baseWeapon.length > bestMatch.length) {
+          bestMatch = baseWeapon;
+          logger.info(`[Autograde] Found first-word match: "${baseWeapon}" matches first word "${words[0]}"`);
+        }
+      }
+    }
+  }
+  
+  // If we found any match, return it
+  if (bestMatch) {
+    logger.info(`[Autograde] Using best match: "${bestMatch}"`);
+    return bestMatch;
+  }
+  
+  // Ultimate fallback: use ocr text with basic cleanup
+  logger.warn(`[Autograde] No weapon match found for: "${ocrText}"`);
+  return ocrText.replace(/^[^a-zA-Z0-9-]+/, '').replace(/[^a-zA-Z0-9-]+$/, '').trim() || 'Unknown Weapon';
+}
+
+// Resolves once the known weapon names are loaded, scripts should wait for it before parsing
+export const knownWeaponsLoaded = loadKnownWeapons().catch(err => logger.error('Failed to initialize weapon list:', err));
+
+/**
+ * Parse the weapon name, rank and stats from the OCR text of a riven card.
+ * Returns null when no weapon name or no stat could be found.
+ */
+export function parseRivenText(fullText: string): ParsedRivenText | null {
+  const lines = fullText.split('\n').map((line: string) => line.trim()).filter((line: string) => line.length > 0);
+  logger.info(`OCR returned ${lines.length} lines of text`);
+  
+  // Find weapon name (typically found in first few lines of text)
+  let rawWeaponName = '';
+  let weaponLineIndex = -1;
+
+  // First, look for lines that have common weapon names
+  for (let i = 0; i < Math.min(10, lines.length); i++) {
+    const line = lines[i];
+    
+    // Skip lines that appear to be riven capacity values (number+letter format like "18V")
+    if (i === 0 && /^\d+[A-Za-z]$/.test(line.trim())) {
+      logger.info(`[Autograde] Skipping first line "${line}" - appears to be riven capacity`);
+      continue;
+    }
+    
+    if (KNOWN_BASE_WEAPONS.some(weapon => line.toLowerCase().includes(weapon.toLowerCase()))) {
+      rawWeaponName = line;
+      weaponLineIndex = i;
+      logger.info(`[Autograde] Found weapon name in line ${i}: ${rawWeaponName}`);
+      break;
+    }
+  }
+
+  // If no match found, use first non-empty line as a fallback
+  // BUT skip any line that looks like a riven capacity value (number+letter)
+  if (!rawWeaponName && lines.length > 0) {
+    for (let i = 0; i < Math.min(5, lines.length); i++) {
+      // Skip lines that look like riven capacity ("18V")
+      if (/^\d+[A-Za-z]$/.test(lines[i].trim())) {
+        logger.info(`[Autograde] Skipping line ${i} "${lines[i]}" - appears to be riven capacity`);
+        continue;
+      }
+      
+      rawWeaponName = lines[i];
+      weaponLineIndex = i;
+      logger.info(`[Autograde] Using line ${i} as weapon name fallback: ${rawWeaponName}`);
+      break;
+    }
+    
+    // If we still have nothing, use the first line as absolute fallback
+    if (!rawWeaponName && lines.length > 0) {
+      rawWeaponName = lines[0];
+      weaponLineIndex = 0;
+      logger.info(`[Autograde] Using first line as absolute fallback: ${rawWeaponName}`);
+    }
+  }
+
+  // Check if the next line might contain the rest of the riven name
+  // Riven names often have suffix parts like "-acricron", "-magnacron", etc.
+  if (weaponLineIndex >= 0 && weaponLineIndex + 1 < lines.length) {
+    const nextLine = lines[weaponLineIndex + 1];
+    // Only combine if next line is short and doesn't have % signs (not a stat line)
+    if (nextLine.length < 20 && !nextLine.includes('%') && !nextLine.includes('RANK')) {
+      rawWeaponName += ' ' + nextLine;
+      logger.info(`Combined with next line: "${rawWeaponName}"`);
+    }
+  }
+  
+  // Clean weapon name: remove newlines, multiple spaces, and extract known name
+  const cleanedRawName = rawWeaponName.replace(/[\r\n]+/g, ' ').replace(/\s+/g, ' ').trim();
+  logger.info(`Raw extracted weapon name: ${cleanedRawName}`);
+  let weaponName = extractBestWeaponName(cleanedRawName); // Use helper function
+  
+  logger.info(`Cleaned weapon name: ${weaponName}`);
+  
+  // Find riven rank (look for X/8 pattern or MR X pattern)
+  let rank = 8; // Default to max rank if not found
+  for (const line of lines) {
+    // Look for X/8 pattern
+    const rankMatch = line.match(/(\d+)\s*\/\s*8/);
+    if (rankMatch) {
+      rank = parseInt(rankMatch[1], 10);
+      logger.info(`Found riven rank: ${rank}/8`);
+      break;
+    }
+    
+    // Also look for MR X pattern which might indicate rank
+    const mrMatch = line.match(/MR\s*(\d+)/i);
+    if (mrMatch) {
+      // This could be Mastery Rank requirement, but we'll use it as a fallback
+      const possibleRank = parseInt(mrMatch[1], 10);
+      if (possibleRank <= 8) {
+        rank = possibleRank;
+        logger.info(`Found possible riven rank from MR: ${rank}`);
+      }
+    }
+  }
+
+  // Find stats (lines with percentage signs)
+  const statsLines = lines.filter((line: string) => line.includes('%'));
+  logger.info(`[Alias] Found ${statsLines.length} potential stat lines with percentages: ${JSON.stringify(statsLines)}`);
+
+  // Find "for Slide Attack" or similar lines
+  const slideAttackLines = lines.filter((line: string) => 
+    line.toLowerCase().includes('slide attack') || 
+    line.toLowerCase().includes('for slide')
+  );
+  logger.info(`[Slide_Attack] Found ${slideAttackLines.length} potential slide attack lines: ${JSON.stringify(slideAttackLines)}`);
+  
+  // Special case for slide attack critical chance
+  // Check if we have a "Critical Chance" stat with negative value and a "for Slide Attack" line
+  const negativeCritIndex = statsLines.findIndex((line: string) => 
+    line.includes('-') && line.toLowerCase().includes('critical chance')
+  );
+  
+  if (negativeCritIndex !== -1 && slideAttackLines.length > 0) {
+    // We have a negative crit chance and slide attack line - almost certainly slide attack crit chance
+    logger.info(`[Slide_Attack] Found negative crit chance at index ${negativeCritIndex} and slide attack line`);
+    
+    // Modify the statsLines array to change the negative crit chance line
+    const originalLine = statsLines[negativeCritIndex];
+    statsLines[negativeCritIndex] = originalLine + ' for Slide Attack';
+    logger.info(`[Slide_Attack] Modified stat line: "${originalLine}" → "${statsLines[negativeCritIndex]}"`);
+  }
+
+  // Find faction damage lines (lines with "x" followed by a number and "Damage to")
+  const factionLines = lines.filter((line: string) => /x[\d.]+.*Damage to (Corpus|Grineer|Infested)/i.test(line));
+  logger.info(`[Alias] Found ${factionLines.length} potential faction damage lines: ${JSON.stringify(factionLines)}`);
+
+  // Find time-based stats (lines with seconds like "-8.7s Combo Duration")
+  const timeBasedLines = lines.filter((line: string) => /[+-]?\d+\.?\d*s\s+\w+/i.test(line));
+  logger.info(`[Autograde] Found ${timeBasedLines.length} potential time-based stat lines: ${JSON.stringify(timeBasedLines)}`);
+
+  // Find lines that might be just percentage values without stat names
+  const percentOnlyLines = lines.filter((line: string) => /^[+-]?\s*\d+\.?\d*\s*%\s*$/.test(line.trim()));
+  logger.info(`[Autograde] Found ${percentOnlyLines.length} lines with just percentages: ${JSON.stringify(percentOnlyLines)}`);
+
+  // Find numeric stats without percentage signs (like "+1.7 Range" or "+20.9 Initial Combo")
+  const numericStatLines = lines.filter((line: string) => 
+      /^[+-]\s*\d+\.?\d*\s+[A-Za-z]/.test(line.trim()) && // Pattern: +/- number followed by text
+      !line.includes('%') && // Exclude percentage stats (already handled)
+      !line.includes('s ') // Exclude time-based stats (already handled)
+  );
+  logger.info(`[Autograde] Found ${numericStatLines.length} potential numeric stats without percentage: ${JSON.stringify(numericStatLines)}`);
+
+  const stats: Array<{ name: string, value: number }> = [];
+
+  // Process percentage stats
+  for (let i = 0; i < statsLines.length; i++) {
+    const line = statsLines[i];
+    const match = line.match(/(?:^|\s)([+-]\d+\.?\d*)\s*%+\s*(.+)/);
+    if (match) {
+      const value = parseFloat(match[1]);
+      
+      let originalName = match[2].trim();
+      let name = originalName; // Start with original
+      
+      // Check if the next line might contain additional stat description (like "for Slide Attack")
+      if (i < statsLines.length - 1 && name.toLowerCase().includes("critical chance")) {
+        // Get the next line
+        const nextLine = statsLines[i + 1];
+        
+        // If the next line doesn't have a percentage and might be a continuation
+        if (!nextLine.match(/[+-]?\d+\.?\d*\s*%/) && 
+            (nextLine.toLowerCase().includes("slide") || 
+             nextLine.toLowerCase().includes("for "))) {
+          
+          // This is likely a continuation of the current stat
+          name += " " + nextLine.trim();
+          logger.info(`[Stat_Combine] Combined stat lines: "${originalName}" + "${nextLine.trim()}" → "${name}"`);
+          
+          // Skip the next line since we've used it
+          i++;
+        }
+      }
+      
+      // Also check if there's a non-stat line that could be a continuation
+      // This handles cases where the line isn't in the statsLines array
+      if (i + weaponLineIndex + 1 < lines.length && name.toLowerCase().includes("critical chance")) {
+        const lineIdx = i + weaponLineIndex + 1;
+        if (lineIdx < lines.length) {
+          const potentialLine = lines[lineIdx].trim();
+          
+          // Check if this line mentions "slide attack" but isn't a stat line
+          if (!potentialLine.match(/[+-]?\d+\.?\d*\s*%/) && 
+              (potentialLine.toLowerCase().includes("slide") || 
+               potentialLine.toLowerCase().includes("for "))) {
+            
+            // Combine with this line
+            name += " " + potentialLine;
+            logger.info(`[Stat_Combine] Found continuation line: "${originalName}" + "${potentialLine}" → "${name}"`);
+          }
+        }
+      }
+      
+      // Special case handling for common elemental misreadings from OCR
+      if (name.toLowerCase().match(/^a\s+heat$/i) || name.toLowerCase() === 'a heat') {
+        // Special case for Heat with OCR misreading the icon as "A"
+        name = 'heat';
+        logger.info(`[Autograde] Found Heat with OCR misreading (A Heat), normalized to "heat"`);
+      } else if (name.toLowerCase().match(/^a\s+cold$/i) || name.toLowerCase() === 'a cold') {
+        // Special case for Cold with OCR misreading the icon
+        name = 'cold';
+        logger.info(`[Autograde] Found Cold with OCR misreading (A Cold), normalized to "cold"`);
+      } else if (name.toLowerCase().match(/^a\s+electricity$/i) || name.toLowerCase() === 'a electricity') {
+        // Special case for Electricity with OCR misreading the icon
+        name = 'electricity';
+        logger.info(`[Autograde] Found Electricity with OCR misreading (A Electricity), normalized to "electricity"`);
+      } else if (name.toLowerCase().match(/^a\s+toxin$/i) || name.toLowerCase() === 'a toxin') {
+        // Special case for Toxin with OCR misreading the icon
+        name = 'toxin';
+        logger.info(`[Autograde] Found Toxin with OCR misreading (A Toxin), normalized to "toxin"`);
+      } else if (name.toLowerCase().includes('fire') && name.toLowerCase().includes('rate')) {
+        name = 'fire rate'; // Immediately normalize Fire Rate
+        logger.info(`[Autograde] Found Fire Rate pattern, normalized to "fire rate"`);
+      } else if (name.toLowerCase().includes('critical') && name.toLowerCase().includes('damage')) {
+        // Handle critical damage as a special case - DO NOT normalize to "damage"
+        name = 'critical damage';
+        logger.info(`[Autograde] Found Critical Damage pattern, normalized to "critical damage"`);
+      } else {
+        // If not a special case, apply general cleanup:
+        // Remove both complete AND incomplete parentheses and everything within
+        name = name.replace(/\s*\([^)]*\)?/g, '');
+        // Remove other typical OCR artifacts and standardize 
+        name = name.replace(/[^a-zA-Z\s-]+/g, ' ').trim();
+        // Normalize spaces (no double spaces)
+        name = name.replace(/\s+/g, ' ').trim();
+        logger.info(`[Autograde] Applied general cleanup, result: "${name}"`);
+      }
+      
+      // Specific detection for slide attack critical chance
+      if (name.toLowerCase().includes('slide') && 
+          (name.toLowerCase().includes('critical chance') || name.toLowerCase().includes('crit chance'))) {
+        name = 'Critical Chance for Slide Attack';
+        logger.info(`[SLIDE_CRIT] Detected and normalized to "Critical Chance for Slide Attack"`);
+      }
+      // Also check for critical chance with slide attack in separate parts
+      else if (name.toLowerCase().includes('critical chance') && 
+               name.toLowerCase().includes('for slide')) {
+        name = 'Critical Chance for Slide Attack';
+        logger.info(`[SLIDE_CRIT] Found "Critical Chance for Slide" and normalized to "Critical Chance for Slide Attack"`);
+      }
+      // Final check - if this is a negative crit chance, AND we previously found a slide attack line,
+      // assume this is slide attack crit chance
+      else if (name.toLowerCase() === 'critical chance' && value < 0 && slideAttackLines.length > 0) {
+        name = 'Critical Chance for Slide Attack';
+        logger.info(`[SLIDE_CRIT] Negative Critical Chance with slide attack line found - treating as Critical Chance for Slide Attack`);
+      }
+      
+      if (name && !isNaN(value)) {
+        // CORRECTED LOGGING: Show the *final* name being pushed
+        logger.info(`[Alias] Pushing cleaned stat: "${name}" = ${value}`);
+        stats.push({ name, value });
+      } else {
+         logger.warn(`[Alias] Stat discarded after cleaning (invalid name or value): Original='${originalName}', Cleaned='${name}', Value=${value}`);
+      }
+    } else {
+      logger.warn(`[Alias] Stat line regex did not match: "${line}"`);
+    }
+  }
+
+  // Process numeric stats without percentage signs
+  for (const line of numericStatLines) {
+    // Extract the sign, numeric value, and stat name
+    const match = line.match(/([+-])\s*(\d+\.?\d*)\s+(.+)/);
+    if (match) {
+      const sign = match[1]; // "+" or "-"
+      const numericPart = match[2]; // The numeric part
+      const value = parseFloat(sign + numericPart);
+      let name = match[3].trim();
+      
+      // Clean up the name - same as for percentage stats
+      name = name.replace(/\s*\([^)]*\)?/g, ''); // Remove parentheses and content
+      name = name.replace(/[^a-zA-Z\s-]+/g, ' ').trim(); // Remove non-alphabetic chars
+      name = name.replace(/\s+/g, ' ').trim(); // Normalize spaces
+      
+      logger.info(`[Autograde] Found numeric stat without percentage: "${name}" = ${value}`);
+      
+      if (name && !isNaN(value)) {
+        logger.info(`[Autograde] Pushing numeric stat: "${name}" = ${value}`);
+        stats.push({ name, value });
+      } else {
+        logger.warn(`[Autograde] Numeric stat discarded after cleaning: Original='${match[3]}', Cleaned='${name}', Value=${value}`);
+      }
+    } else {
+      logger.warn(`[Autograde] Numeric stat regex did not match: "${line}"`);
+    }
+  }
+
+  // Process faction damage stats
+  for (const line of factionLines) {
+    // Extract the multiplier and the faction
+    const match = line.match(/x([\d.]+).*Damage to (Corpus|Grineer|Infested)/i);
+    if (match) {
+      const multiplier = parseFloat(match[1]);
+      const faction = match[2];
+      
+      // FIXED: Pass the actual decimal value 
+      // For example, x0.8 means -0.2 (not -20%)
+      const decimalValue = -(1.0 - multiplier);
+      
+      const name = `Damage to ${faction}`;
+      logger.info(`Found faction damage modifier: x${multiplier} = ${decimalValue.toFixed(2)} (decimal) to ${faction}`);
+      
+      if (!isNaN(decimalValue)) {
+        logger.info(`Pushing faction damage: "${name}" = ${decimalValue}`);
+        stats.push({ name, value: decimalValue });
+      }
+    } else {
+      logger.warn(`Faction damage regex did not match: "${line}"`);
+    }
+  }
+  
+  // Process time-based stats (like combo duration)
+  for (const line of timeBasedLines) {
+    // Extract the value (with sign) and the stat name
+    const match = line.match(/([+-]?\d+\.?\d*)s\s+(.+)/i);
+    if (match) {
+      const value = parseFloat(match[1]);
+      let name = match[2].trim();
+      
+      // Clean up the name
+      name = name.replace(/\s*\([^)]*\)?/g, ''); // Remove parentheses and content
+      name = name.replace(/[^a-zA-Z\s-]+/g, ' ').trim(); // Remove non-alphabetic chars
+      name = name.replace(/\s+/g, ' ').trim(); // Normalize spaces
+      
+      logger.info(`[Autograde] Found time-based stat: "${name}" = ${value}s`);
+      
+      if (name && !isNaN(value)) {
+        // For time-based stats, convert to percentage format for consistent processing
+        // For example, combo duration is internally treated as a percentage
+        logger.info(`[Autograde] Pushing time-based stat as percentage: "${name}" = ${value}`);
+        stats.push({ name, value });
+      } else {
+        logger.warn(`[Autograde] Time-based stat discarded after cleaning: Original='${match[2]}', Cleaned='${name}', Value=${value}`);
+      }
+    } else {
+      logger.warn(`[Autograde] Time-based stat regex did not match: "${line}"`);
+    }
+  }
+  
+  // Special handling for stats that might be split across multiple lines
+  for (const line of percentOnlyLines) {
+    const lineIndex = lines.indexOf(line);
+    if (lineIndex >= 0 && lineIndex + 1 < lines.length) {
+      // Use a more flexible regex that properly handles space between sign and number
+      const valueMatch = line.match(/([+-])\s*(\d+\.?\d*)\s*%/);
+      const nextLine = lines[lineIndex + 1].trim();
+      
+      // Check if the next line looks like a stat name (and not another percentage or MR line)
+      if (valueMatch && 
+          !nextLine.includes('%') && 
+          !nextLine.toLowerCase().includes('mr') &&
+          nextLine.length > 0) {
+        
+        // Reconstruct the value including sign, ensuring no spaces between sign and number
+        const sign = valueMatch[1]; // "+" or "-"
+        const number = valueMatch[2]; // The numeric part
+        const value = parseFloat(sign + number);
+        
+        logger.info(`[Autograde] Extracted split stat value: ${sign}${number} = ${value}`);
+        
+        let name = nextLine.replace(/^\/+/, '').trim(); // Remove leading slashes like "/Impact"
+        
+        // Clean up names similar to regular stats
+        name = name.replace(/\s*\([^)]*\)?/g, ''); // Remove parentheses and content
+        name = name.replace(/[^a-zA-Z\s-]+/g, ' ').trim(); // Remove non-alphabetic chars
+        name = name.replace(/\s+/g, ' ').trim(); // Normalize spaces
+        
+        logger.info(`[Autograde] Found split stat: "${value}%" + "${name}" from lines ${lineIndex} and ${lineIndex+1}`);
+        
+        if (name && !isNaN(value)) {
+          logger.info(`[Autograde] Pushing combined split stat: "${name}" = ${value}`);
+          stats.push({ name, value });
+        } else {
+          logger.warn(`[Autograde] Split stat discarded after cleaning: Original='${nextLine}', Cleaned='${name}', Value=${value}`);
+        }
+      }
+    }
+  }
+
+  if (!weaponName || stats.length === 0) {
+    logger.warn(`Parsing failed checks. Weapon: "${weaponName}", Stats Found: ${stats.length}`);
+    return null;
+  }
+
+  logger.info(`Successfully parsed riven with rank ${rank}/8`);
+  return { weaponName, stats, rank };
+}
@@ -0,0 +1,155 @@
+jest.mock('../src/utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+jest.mock('../src/services/weaponLookupService', () => ({
+  weaponLookupService: {}
+}));
+
+import {
+  calculateValueOnScale,
+  floatToGrade,
+  getBuffRange,
+  getCurseRange,
+  getRollDeviation,
+  gradeRivenStats
+} from '../src/utils/rivenEngine';
+
+/**
+ * Expected values are from the in-game riven calculator:
+ * base value x disposition x buff/curse multiplier x (rank + 1) / 9, rolled between 90% and 110%
+ */
+
+const RIFLE = 'LotusRifleRandomModRare';
+const SHOTGUN = 'LotusShotgunRandomModRare';
+const PISTOL = 'LotusPistolRandomModRare';
+const MELEE = 'PlayerMeleeWeaponRandomModRare';
+const ARCHGUN = 'LotusArchgunRandomModRare';
+
+describe('getBuffRange', () => {
+  test.each([
+    // riven type, stat, disposition, rank, buffs, curses, min, max
+    [RIFLE, 'WeaponFireIterationsMod', 1, 8, 2, 0, 80.2, 98],
+    [RIFLE, 'WeaponFireIterationsMod', 1, 8, 2, 1, 100.2, 122.5],
+    [RIFLE, 'WeaponFireIterationsMod', 1, 8, 3, 0, 60.8, 74.3],
+    [RIFLE, 'WeaponFireIterationsMod', 1, 8, 3, 1, 75.9, 92.8],
+    [RIFLE, 'WeaponFireIterationsMod', 1, 0, 2, 1, 11.1, 13.6],
+    [RIFLE, 'WeaponCritChanceMod', 1, 8, 2, 1, 167.1, 204.2],
+    [SHOTGUN, 'WeaponCritChanceMod', 1.3, 8, 3, 1, 98.7, 120.7],
+    [SHOTGUN, 'WeaponFireIterationsMod', 1.3, 8, 2, 0, 138.6, 169.5],
+    [PISTOL, 'WeaponDamageAmountMod', 0.5, 8, 2, 1, 122.3, 149.5],
+    [MELEE, 'WeaponCritChanceMod', 1, 8, 2, 0, 160.4, 196],
+    [ARCHGUN, 'WeaponFireIterationsMod', 0.8, 8, 2, 1, 53.7, 65.7],
+    [ARCHGUN, 'WeaponStunChanceMod', 1.55, 4, 3, 1, 43.8, 53.5]
+  ])('%s %s at %sx, rank %s, %s buffs and %s curses', (rivenType, tag, disposition, rank, buffs, curses, min, max) => {
+    expect(getBuffRange(rivenType, tag, disposition, rank, buffs, curses)).toEqual({ min, max });
+  });
+
+  test('negative recoil is the positive', () => {
+    expect(getBuffRange(RIFLE, 'WeaponRecoilReductionMod', 1, 8, 2, 1)).toEqual({ min: -100.2, max: -122.5 });
+  });
+
+  test('faction damage is a multiplier and melee range is raw', () => {
+    expect(getBuffRange(RIFLE, 'WeaponFactionDamageCorpus', 1, 8, 2, 1)).toEqual({ min: 0.5, max: 0.61 });
+    expect(getBuffRange(MELEE, 'WeaponMeleeRangeIncMod', 1, 8, 2, 0)).toEqual({ min: 1.7, max: 2.1 });
+  });
+});
+
+describe('getCurseRange', () => {
+  test.each([
+    [RIFLE, 'WeaponFireIterationsMod', 1, 8, 2, 1, -40.1, -49],
+    [RIFLE, 'WeaponFireIterationsMod', 1, 8, 3, 1, -60.7, -74.2],
+    [RIFLE, 'WeaponZoomFovMod', 1, 8, 2, 1, -26.7, -32.7],
+    [ARCHGUN, 'WeaponFireIterationsMod', 0.8, 8, 2, 1, -21.5, -26.3],
+    [RIFLE, 'WeaponFactionDamageCorpus', 1, 8, 2, 1, -0.2, -0.25]
+  ])('%s %s at %sx, rank %s, %s buffs and %s curses', (rivenType, tag, disposition, rank, buffs, curses, min, max) => {
+    expect(getCurseRange(rivenType, tag, disposition, rank, buffs, curses)).toEqual({ min, max });
+  });
+
+  test('damage and critical curses are shown with a flipped sign', () => {
+    expect(getCurseRange(SHOTGUN, 'WeaponCritChanceMod', 1.3, 8, 3, 1)).toEqual({ min: 79, max: 96.5 });
+    expect(getCurseRange(PISTOL, 'WeaponDamageAmountMod', 0.5, 8, 2, 1)).toEqual({ min: 48.9, max: 59.8 });
+  });
+
+  test('positive recoil is the negative', () => {
+    expect(getCurseRange(RIFLE, 'WeaponRecoilReductionMod', 1, 8, 2, 1)).toEqual({ min: 40.1, max: 49 });
+  });
+});
+
+describe('floatToGrade', () => {
+  test.each([
+    [1, 'S'],
+    [0.975, 'S'],
+    [0.9, 'A+'],
+    [0.8, 'A'],
+    [0.7, 'A-'],
+    [0.6, 'B+'],
+    [0.5, 'B'],
+    [0.4, 'B-'],
+    [0.3, 'C+'],
+    [0.2, 'C'],
+    [0.1, 'C-'],
+    [0, 'F'],
+    [1.1, '???'],
+    [-0.1, '???']
+  ])('quality %s is %s', (quality, grade) => {
+    expect(floatToGrade(quality)).toBe(grade);
+  });
+
+  test('a roll deviates at most 10% from the average roll', () => {
+    expect(getRollDeviation(1)).toBe(10);
+    expect(getRollDeviation(0.5)).toBe(0);
+    expect(getRollDeviation(0)).toBe(-10);
+  });
+});
+
+describe('calculateValueOnScale', () => {
+  test('a curse closer to its weakest roll scores higher', () => {
+    expect(calculateValueOnScale(110, 100, 120)).toBeCloseTo(0.5);
+    expect(calculateValueOnScale(-26.7, -26.7, -32.7, true)).toBeCloseTo(1);
+    expect(calculateValueOnScale(-32.7, -26.7, -32.7, true)).toBeCloseTo(0);
+  });
+
+  test('an empty range is the average roll', () => {
+    expect(calculateValueOnScale(5, 5, 5)).toBe(0.5);
+  });
+});
+
+describe('gradeRivenStats', () => {
+  const rifle = { rivenType: RIFLE, omegaAttenuation: 1 };
+
+  test.each([
+    ['Multishot', 122.5, 'S'],
+    ['Multishot', 117, 'A-'],
+    ['Multishot', 111.4, 'B'],
+    ['Multishot', 100.2, 'F'],
+    ['Zoom', -26.7, 'S'],
+    ['Zoom', -32.7, 'F'],
+    ['Recoil', -122.5, 'S'],
+    ['Recoil', 49, 'F'],
+    ['Punch Through', 3.3, 'B']
+  ])('rifle %s %s at 1.00x, rank 8, 2 buffs and 1 curse is %s', (name, value, grade) => {
+    const { stats } = gradeRivenStats(rifle, 8, 2, 1, [{ name, value }]);
+    expect(stats[0].grade).toBe(grade);
+  });
+
+  test('melee range is graded as a raw value', () => {
+    const { stats } = gradeRivenStats({ rivenType: MELEE, omegaAttenuation: 1 }, 8, 2, 0, [{ name: 'Range', value: 2.1 }]);
+    expect(stats[0].grade).toBe('S');
+  });
+
+  test('the overall grade averages positives and negatives', () => {
+    const result = gradeRivenStats(rifle, 8, 2, 1, [
+      { name: 'Multishot', value: 122.5 },
+      { name: 'Critical Chance', value: 185.6 },
+      { name: 'Zoom', value: -26.7 }
+    ]);
+    expect(result.stats.map(stat => stat.grade)).toEqual(['S', 'B', 'S']);
+    expect(result.overallGrade).toBe('A');
+  });
+
+  test('unknown stats are not graded', () => {
+    const result = gradeRivenStats(rifle, 8, 2, 1, [{ name: 'Luck', value: 10 }]);
+    expect(result.stats[0].grade).toBe('N/A');
+    expect(result.overallGrade).toBe('N/A');
+  });
+});